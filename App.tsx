@@ -2,12 +2,13 @@ import React, { lazy, Suspense, useState, useEffect, useMemo } from 'react';
 import type { HistoryGalleryItem } from './components/HistoryPanel';
 import { LoginForm } from './components/LoginForm';
 import { UserProvider, useUser } from './components/UserContext';
-import { StorageServiceV2 } from './services/storageV2';
+import { StorageServiceV2, type StorageRecovery } from './services/storageV2';
 import { LoggerService } from './services/logger';
+import { MigrationService } from './services/migrationService';
 import { PreferencesService, type UserHistory, type UserSettings } from './services/preferencesService';
 import { loadGeminiService } from './services/lazyGeminiService';
 import { MixboardSession } from './types';
-import { Database, Key } from 'lucide-react';
+import { Database, Key, ShieldAlert, X } from 'lucide-react';
 import { ViewSidebar } from './components/ViewSidebar';
 
 const HistoryPanel = lazy(() => import('./components/HistoryPanel').then(module => ({ default: module.HistoryPanel })));
@@ -34,6 +35,7 @@ function AppContent() {
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
   const [preferencesReady, setPreferencesReady] = useState(false);
   const [userHistory, setUserHistory] = useState<UserHistory>(PreferencesService.defaultsHistory);
+  const [storageRecoveries, setStorageRecoveries] = useState<StorageRecovery[]>([]);
 
   const historyItems = useMemo<HistoryGalleryItem[]>(() => {
     if (!Array.isArray(mixboardSessions) || mixboardSessions.length === 0) {
@@ -68,6 +70,7 @@ function AppContent() {
             generation,
             output,
             outputIndex: idx,
+            outputCount: outputs.length,
             texts
           }));
 
@@ -121,6 +124,23 @@ function AppContent() {
     LoggerService.setCurrentUser(currentUser);
   }, [currentUser]);
 
+  // Surface files restored from backup after a damaged save
+  useEffect(() => {
+    const addRecoveries = (recoveries: StorageRecovery[]) => {
+      if (recoveries.length === 0) return;
+      recoveries.forEach(recovery => {
+        LoggerService.logError('Storage file restored from backup', { file: recovery.file, backup: recovery.backup });
+      });
+      setStorageRecoveries(prev => [
+        ...prev,
+        ...recoveries.filter(recovery => !prev.some(existing => existing.id === recovery.id))
+      ]);
+    };
+
+    StorageServiceV2.onRecovered(recovery => addRecoveries([recovery]));
+    StorageServiceV2.takeRecoveries().then(addRecoveries);
+  }, []);
+
   useEffect(() => {
     if (theme === 'dark') {
       document.documentElement.classList.add('dark');
@@ -242,19 +262,19 @@ function AppContent() {
     console.log('[App] Switched to Mixboard session:', sessionId);
   };
 
-  const loadMixboardSessions = () => {
+  const loadMixboardSessions = async () => {
     // Get all session metadata from V2 storage
-    const allMetadata = StorageServiceV2.listSessions();
+    const allMetadata = await StorageServiceV2.listSessionsAsync();
 
     // Filter by current user
     const userMetadata = currentUser
       ? allMetadata.filter(m => m.user?.id === currentUser.id)
       : [];
 
-    // Load full session data for each
-    const userMixboardSessions = userMetadata
-      .map(meta => StorageServiceV2.loadSession(meta.session_id))
-      .filter((s): s is MixboardSession => s !== null);
+    // Load session data for each (canvas images come without full-resolution data)
+    const userMixboardSessions = (await Promise.all(
+      userMetadata.map(meta => StorageServiceV2.loadSessionAsync(meta.session_id))
+    )).filter((s): s is MixboardSession => s !== null);
 
     setMixboardSessions(userMixboardSessions);
   };
@@ -263,6 +283,9 @@ function AppContent() {
   useEffect(() => {
     if (currentUser) {
       setCurrentMixboardSessionId(null);
+      // One-time fixes to this user's image store (no-op once applied)
+      MigrationService.migrateImageMimeTypes();
+      MigrationService.migrateRegistryHashes();
       loadMixboardSessions();
     } else {
       setMixboardSessions([]);
@@ -382,6 +405,28 @@ function AppContent() {
             </div>
         </header>
 
+        {/* Backup recovery notice */}
+        {storageRecoveries.length > 0 && (
+          <div className="flex items-start gap-3 px-6 py-2 border-b text-xs bg-amber-50 dark:bg-amber-950/30 border-amber-200 dark:border-amber-900 text-amber-800 dark:text-amber-300">
+            <ShieldAlert size={14} className="mt-0.5 shrink-0" />
+            <div className="flex-1 space-y-0.5">
+              {storageRecoveries.map(recovery => (
+                <div key={recovery.id}>
+                  <span className="font-medium">{recovery.file}</span> was damaged and has been restored from its most recent good backup
+                  {recovery.backup > 1 ? ` (${recovery.backup} saves ago)` : ''}. The damaged copy was kept as {recovery.damagedFile}.
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setStorageRecoveries([])}
+              className="p-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+              title="Dismiss"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
         {/* Content Area */}
           <div className={`flex-1 ${showGraphView || showHistory ? 'overflow-y-auto p-6' : 'overflow-hidden'} bg-zinc-50 dark:bg-black/50`}>
             <Suspense fallback={<div className="flex h-full items-center justify-center text-sm text-zinc-500">Loading workspace...</div>}>
@@ -429,6 +474,7 @@ function AppContent() {
           toggleTheme={toggleTheme}
           onApiKeyUpdate={handleApiKeyUpdate}
           onLogout={handleLogout}
+          currentUser={currentUser}
         />
       </Suspense>
     </div>
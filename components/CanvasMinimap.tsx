@@ -0,0 +1,134 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { CanvasImage } from '../types';
+import type { CanvasViewportState } from '../services/canvasPlugins';
+import { MinimapTransform, getVisibleCanvasRect, getMinimapTransform, centerViewportOn } from '../services/canvasViewport';
+
+interface CanvasMinimapProps {
+  images: CanvasImage[];
+  viewport: CanvasViewportState;
+  theme: 'light' | 'dark';
+  onNavigate: (panOffset: { x: number; y: number }) => void;
+  width?: number;
+  height?: number;
+}
+
+const ENTITY_COLORS = {
+  light: { image: '#a1a1aa', text: '#93c5fd', board: '#e4e4e7', frame: '#ffffff', frameBorder: '#d4d4d8' },
+  dark: { image: '#52525b', text: '#1e40af', board: '#3f3f46', frame: '#27272a', frameBorder: '#52525b' }
+};
+
+/**
+ * Overview of the whole board with the visible area outlined.
+ * Click or drag inside it to move the viewport there.
+ */
+export const CanvasMinimap: React.FC<CanvasMinimapProps> = ({
+  images,
+  viewport,
+  theme,
+  onNavigate,
+  width = 200,
+  height = 140
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Transform frozen while dragging, so the map does not rescale under the pointer
+  const dragTransformRef = useRef<MinimapTransform | null>(null);
+
+  const shown = useMemo(() => images.filter(img => !img.hidden), [images]);
+  const visible = useMemo(
+    () => getVisibleCanvasRect(viewport),
+    [viewport.zoom, viewport.panOffset.x, viewport.panOffset.y, viewport.width, viewport.height]
+  );
+  const fitted = useMemo(
+    () => (shown.length > 0 ? getMinimapTransform(shown, visible, { width, height }) : null),
+    [shown, visible, width, height]
+  );
+  const transform = dragTransformRef.current ?? fitted;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = width * pixelRatio;
+    canvas.height = height * pixelRatio;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    if (!transform) return;
+
+    const colors = ENTITY_COLORS[theme];
+    const toMap = (img: CanvasImage) => [
+      transform.offsetX + (img.x - transform.world.x) * transform.scale,
+      transform.offsetY + (img.y - transform.world.y) * transform.scale,
+      Math.max(1, img.width * transform.scale),
+      Math.max(1, img.height * transform.scale)
+    ] as const;
+
+    shown.forEach(img => {
+      const [x, y, w, h] = toMap(img);
+      if (img.type === 'frame') {
+        ctx.fillStyle = colors.frame;
+        ctx.fillRect(x, y, w, h);
+        ctx.strokeStyle = colors.frameBorder;
+        ctx.strokeRect(x + 0.5, y + 0.5, w - 1, h - 1);
+        return;
+      }
+      ctx.fillStyle = img.selected
+        ? '#f97316'
+        : img.type === 'text' ? colors.text : img.type === 'board' ? colors.board : colors.image;
+      ctx.fillRect(x, y, w, h);
+    });
+  }, [shown, transform, theme, width, height]);
+
+  const navigate = (clientX: number, clientY: number, target: HTMLElement) => {
+    const active = dragTransformRef.current ?? transform;
+    if (!active) return;
+    const rect = target.getBoundingClientRect();
+    const point = {
+      x: active.world.x + (clientX - rect.left - active.offsetX) / active.scale,
+      y: active.world.y + (clientY - rect.top - active.offsetY) / active.scale
+    };
+    onNavigate(centerViewportOn(point, viewport));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!transform) return;
+
+    const target = e.currentTarget;
+    dragTransformRef.current = transform;
+    navigate(e.clientX, e.clientY, target);
+
+    const handleMove = (event: MouseEvent) => navigate(event.clientX, event.clientY, target);
+    const handleUp = () => {
+      dragTransformRef.current = null;
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <div
+      className="relative overflow-hidden cursor-pointer bg-white/95 dark:bg-zinc-900/95 backdrop-blur-sm border border-zinc-300 dark:border-zinc-700 rounded-lg shadow-xl"
+      style={{ width, height }}
+      onMouseDown={handleMouseDown}
+      title="Minimap - click or drag to navigate"
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 pointer-events-none" style={{ width, height }} />
+      {transform && (
+        <div
+          className="absolute border-2 border-orange-500 bg-orange-500/10 rounded-sm pointer-events-none"
+          style={{
+            left: transform.offsetX + (visible.x - transform.world.x) * transform.scale,
+            top: transform.offsetY + (visible.y - transform.world.y) * transform.scale,
+            width: visible.width * transform.scale,
+            height: visible.height * transform.scale
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, Folder, MessageSquareText, Search } from 'lucide-react';
+import { MixboardSession } from '../types';
+import { AppCommand, COMMAND_CATEGORY_LABELS, formatChord, fuzzyScore } from '../services/commandRegistry';
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: AppCommand[];
+  bindings: Record<string, string[]>;
+  sessions: MixboardSession[];
+  currentSessionId?: string;
+  recentPrompts: string[];
+  onSelectSession: (sessionId: string) => void;
+  onUsePrompt: (prompt: string) => void;
+}
+
+interface PaletteItem {
+  key: string;
+  kind: 'command' | 'session' | 'prompt';
+  title: string;
+  detail?: string;
+  shortcut?: string;
+  disabled?: boolean;
+  score: number;
+  run: () => void;
+}
+
+const MAX_RESULTS = 50;
+// Sessions and prompts shown before anything is typed
+const MAX_IDLE_EXTRAS = 5;
+
+const KIND_ICONS = {
+  command: Command,
+  session: Folder,
+  prompt: MessageSquareText
+};
+
+/**
+ * Ctrl+K palette: fuzzy search over commands, sessions and recent prompts
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  isOpen,
+  onClose,
+  commands,
+  bindings,
+  sessions,
+  currentSessionId,
+  recentPrompts,
+  onSelectSession,
+  onUsePrompt
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setActiveIndex(0);
+    }
+  }, [isOpen]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const searching = query.trim().length > 0;
+    const results: PaletteItem[] = [];
+
+    commands.forEach(command => {
+      const score = fuzzyScore(query, command.title);
+      if (score === null) return;
+      const chord = bindings[command.id]?.[0];
+      results.push({
+        key: `command:${command.id}`,
+        kind: 'command',
+        title: command.title,
+        detail: COMMAND_CATEGORY_LABELS[command.category],
+        shortcut: chord ? formatChord(chord) : undefined,
+        disabled: command.isEnabled ? !command.isEnabled() : false,
+        score,
+        run: command.run
+      });
+    });
+
+    sessions
+      .filter(session => session.session_id !== currentSessionId)
+      .slice(0, searching ? undefined : MAX_IDLE_EXTRAS)
+      .forEach(session => {
+        const score = fuzzyScore(query, session.title);
+        if (score === null) return;
+        results.push({
+          key: `session:${session.session_id}`,
+          kind: 'session',
+          title: session.title,
+          detail: 'Open session',
+          score,
+          run: () => onSelectSession(session.session_id)
+        });
+      });
+
+    recentPrompts.slice(0, searching ? undefined : MAX_IDLE_EXTRAS).forEach((prompt, index) => {
+      const score = fuzzyScore(query, prompt);
+      if (score === null) return;
+      results.push({
+        key: `prompt:${index}`,
+        kind: 'prompt',
+        title: prompt,
+        detail: 'Use prompt',
+        score,
+        run: () => onUsePrompt(prompt)
+      });
+    });
+
+    // Best matches first while searching; otherwise keep the listing order
+    return (searching ? results.sort((a, b) => b.score - a.score) : results).slice(0, MAX_RESULTS);
+  }, [query, commands, bindings, sessions, currentSessionId, recentPrompts, onSelectSession, onUsePrompt]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item || item.disabled) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.min(prev + 1, items.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-start justify-center pt-[15vh] bg-black/40" onMouseDown={onClose}>
+      <div
+        className="w-full max-w-xl bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-xl shadow-2xl overflow-hidden"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-zinc-200 dark:border-zinc-700">
+          <Search size={16} className="text-zinc-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search commands, sessions and prompts..."
+            className="flex-1 py-3 bg-transparent text-sm text-zinc-900 dark:text-zinc-100 placeholder-zinc-400 focus:outline-none"
+            autoFocus
+          />
+        </div>
+        <div ref={listRef} className="max-h-80 overflow-y-auto py-1">
+          {items.length === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">No matches</div>
+          ) : items.map((item, index) => {
+            const Icon = KIND_ICONS[item.kind];
+            return (
+              <button
+                key={item.key}
+                data-index={index}
+                onClick={() => runItem(item)}
+                onMouseMove={() => setActiveIndex(index)}
+                disabled={item.disabled}
+                className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm disabled:opacity-40 ${
+                  index === activeIndex ? 'bg-orange-50 dark:bg-orange-950/30' : ''
+                }`}
+              >
+                <Icon size={14} className="shrink-0 text-zinc-400" />
+                <span className="flex-1 min-w-0 truncate text-zinc-800 dark:text-zinc-100">{item.title}</span>
+                {item.detail && <span className="shrink-0 text-xs text-zinc-400 dark:text-zinc-500">{item.detail}</span>}
+                {item.shortcut && (
+                  <kbd className="shrink-0 px-1.5 py-0.5 rounded border border-zinc-300 dark:border-zinc-700 text-[10px] font-mono text-zinc-500 dark:text-zinc-400">
+                    {item.shortcut}
+                  </kbd>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -34,6 +34,8 @@ const BASE_X = 100;
 const BASE_Y = 160;
 const COLUMN_SPACING = 360;
 const GENERATION_SPACING = 460;
+const SIBLING_OUTPUT_SPACING = OUTPUT_IMAGE_HEIGHT + 40; // Vertical step between candidates of one generation
+const MANUAL_EDIT_COLOR = '#ec4899';
 
 const themeTokens = {
   dark: {
@@ -157,7 +159,12 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
       }
     });
 
-    if (allGenerations.length === 0) {
+    // Manually edited canvas images (see CanvasImage.versions)
+    const versionedImages = filteredSessions.flatMap(session =>
+      'canvas_images' in session ? (session.canvas_images || []).filter(img => (img.versions?.length || 0) > 1) : []
+    );
+
+    if (allGenerations.length === 0 && versionedImages.length === 0) {
       setNodes([]);
       setEdges([]);
       return;
@@ -174,12 +181,14 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
     // Track roles and metadata for each image node
     interface ImageNodeInfo {
       nodeId: string;
-      roles: Set<'control' | 'reference' | 'output'>;
+      roles: Set<'control' | 'reference' | 'output' | 'edit'>;
       imageData: string | null;
       meta: any; // StoredImageMeta
       outputText?: string;
       firstSeenGenIndex: number; // Track which generation first used this image
       firstSeenYOffset: number; // Track the yOffset when first seen
+      siblingLabel?: string; // e.g. "Output 2/4" when a generation returned several candidates
+      editDepth?: number; // Manual edits between this image and the nearest non-edited one
     }
     const imageNodeInfoMap = new Map<string, ImageNodeInfo>(); // image id -> info
 
@@ -391,7 +400,9 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
             meta: img,
             outputText: generation.output_texts?.[idx],
             firstSeenGenIndex: genIndex,
-            firstSeenYOffset: yOffset
+            // Stack sibling candidates below each other
+            firstSeenYOffset: yOffset + idx * SIBLING_OUTPUT_SPACING,
+            siblingLabel: outputImages.length > 1 ? `Output ${idx + 1}/${outputImages.length}` : undefined
           };
           imageNodeInfoMap.set(img.id, imageInfo);
         } else {
@@ -415,7 +426,47 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
         }
       });
 
-      yOffset += GENERATION_SPACING;
+      yOffset += GENERATION_SPACING + Math.max(0, outputImages.length - 1) * SIBLING_OUTPUT_SPACING;
+    });
+
+    // 9. Manual edit lineage: each saved edit links to the version it was edited from
+    versionedImages.forEach(canvasImage => {
+      const versions = canvasImage.versions || [];
+      versions.forEach((version, index) => {
+        let imageInfo = imageNodeInfoMap.get(version.hash);
+        const parentInfo = version.parent_hash ? imageNodeInfoMap.get(version.parent_hash) : undefined;
+
+        if (!imageInfo) {
+          // Images that were never part of a generation start a row of their own
+          const startsRow = !parentInfo;
+          imageInfo = {
+            nodeId: `image-${version.hash}`,
+            roles: new Set(),
+            imageData: loadImage('reference', version.hash, version.hash, version.thumbnailPath),
+            meta: { id: version.hash, filename: `Version ${index + 1}`, thumbnailPath: version.thumbnailPath },
+            firstSeenGenIndex: allGenerations.length,
+            firstSeenYOffset: parentInfo ? parentInfo.firstSeenYOffset : yOffset
+          };
+          imageGroups.set(getImageKey(version.hash), imageInfo.nodeId);
+          imageNodeInfoMap.set(version.hash, imageInfo);
+          if (startsRow) yOffset += GENERATION_SPACING;
+        }
+
+        if (version.source !== 'edit' || !parentInfo) return;
+        imageInfo.roles.add('edit');
+        imageInfo.editDepth = Math.max(imageInfo.editDepth || 0, (parentInfo.editDepth || 0) + 1);
+
+        const edge: Edge = {
+          from: parentInfo.nodeId,
+          to: imageInfo.nodeId,
+          color: MANUAL_EDIT_COLOR,
+          label: 'Manual edit',
+          dashed: true
+        };
+        if (!newEdges.some(e => e.from === edge.from && e.to === edge.to)) {
+          newEdges.push(edge);
+        }
+      });
     });
 
     // Now create actual nodes for all images based on their roles
@@ -431,7 +482,17 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
       let xPosition: number;
       let label: string;
 
-      if (hasOutput && hasInput) {
+      if (info.roles.has('edit') && !hasOutput && !hasInput) {
+        // Manual edit only: one column further right per edit in the chain
+        nodeType = 'output-image';
+        xPosition = BASE_X + COLUMN_SPACING * (3 + (info.editDepth || 1));
+        label = 'Manual Edit';
+      } else if (info.roles.size === 0) {
+        // Unedited original of a manual edit
+        nodeType = 'reference-image';
+        xPosition = BASE_X + COLUMN_SPACING;
+        label = 'Original';
+      } else if (hasOutput && hasInput) {
         // Multi-role image: both output and input
         nodeType = 'output-image'; // Use output-image as base type
         xPosition = BASE_X + COLUMN_SPACING * 2.5; // Position between workflow and output
@@ -441,7 +502,7 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
         // Output only
         nodeType = 'output-image';
         xPosition = BASE_X + COLUMN_SPACING * 3;
-        label = 'Output';
+        label = info.siblingLabel || 'Output';
       } else if (hasControl && hasReference) {
         // Both control and reference
         nodeType = 'control-image';
@@ -828,17 +889,41 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
     // Generate unique key using index to avoid duplicates
     const key = `edge-${index}-${edge.from}-${edge.to}-${edge.toHandle || 'none'}`;
 
-    return (
+    const pathElement = (
       <path
         key={key}
         d={path}
         stroke={edge.color}
         strokeWidth={2.2}
+        strokeDasharray={edge.dashed ? '8 6' : undefined}
         fill="none"
         strokeLinecap="round"
         opacity={0.9}
       />
     );
+    if (!edge.label) return pathElement;
+
+    // The curve is symmetric, so its midpoint is halfway between the handles
+    const fromPos = getOutputHandlePosition(fromNode);
+    const toPos = getInputHandlePosition(toNode, edge.toHandle);
+    return (
+      <g key={key}>
+        {pathElement}
+        <text
+          x={(fromPos.x + toPos.x) / 2}
+          y={(fromPos.y + toPos.y) / 2 - 8}
+          textAnchor="middle"
+          fontSize={12}
+          fontWeight={600}
+          fill={edge.color}
+          stroke={palette.background}
+          strokeWidth={4}
+          paintOrder="stroke"
+        >
+          {edge.label}
+        </text>
+      </g>
+    );
   };
 
   const isDark = theme === 'dark';
@@ -846,7 +931,8 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
     { label: 'Prompt Flow', color: 'from-purple-500 to-purple-400' },
     { label: 'Control Images', color: 'from-emerald-500 to-emerald-400' },
     { label: 'Reference Images', color: 'from-sky-500 to-sky-400' },
-    { label: 'Output', color: 'from-amber-500 to-amber-400' }
+    { label: 'Output', color: 'from-amber-500 to-amber-400' },
+    { label: 'Manual Edit', color: 'from-pink-500 to-pink-400' }
   ];
 
   const minimapWidth = 240;
@@ -925,6 +1011,7 @@ const GraphView: React.FC<GraphViewProps> = ({ sessions, theme, loadImage, onGen
                         y2={p2.y}
                         stroke={edge.color}
                         strokeWidth={1}
+                        strokeDasharray={edge.dashed ? '3 2' : undefined}
                         strokeOpacity={0.8}
                       />
                     );
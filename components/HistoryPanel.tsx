@@ -1,6 +1,6 @@
 import React, { useCallback, useRef, useMemo, useState, useEffect } from 'react';
 import { SessionGeneration, StoredImageMeta } from '../types';
-import { Clock, Image, Download, TextQuote, FileText } from 'lucide-react';
+import { Clock, Image, Download, TextQuote, FileText, Layers } from 'lucide-react';
 
 export type HistoryGalleryItem =
   | {
@@ -10,6 +10,7 @@ export type HistoryGalleryItem =
       generation: SessionGeneration;
       output: StoredImageMeta;
       outputIndex: number;
+      outputCount: number;  // Sibling candidates from the same generation
       texts: string[];
     }
   | {
@@ -152,9 +153,10 @@ const LazyImageCard = React.memo(({
               {textCount}
             </span>
           )}
-          {item.kind === 'image' && item.outputIndex > 0 && (
-            <span className="px-2 py-0.5 rounded-full bg-zinc-50 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700">
-              Output {item.outputIndex + 1}
+          {item.kind === 'image' && item.outputCount > 1 && (
+            <span className="px-2 py-0.5 rounded-full bg-zinc-50 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 border border-zinc-200 dark:border-zinc-700 flex items-center gap-1">
+              <Layers size={12} />
+              {item.outputIndex + 1}/{item.outputCount}
             </span>
           )}
         </div>
@@ -1,14 +1,108 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { X, Undo, Redo, Square, Circle, Triangle, Minus, GripVertical } from 'lucide-react';
+import React, { useEffect, useLayoutEffect, useRef, useState, useCallback } from 'react';
+import {
+  X, Undo, Redo, Square, Circle, Triangle, Minus, GripVertical, Paintbrush, Wand2,
+  Plus, Trash2, Eye, EyeOff, ArrowUp, ArrowDown, Type, Move, BoxSelect, Crop,
+  RotateCw, RotateCcw, FlipHorizontal, FlipVertical, Bold, Check, Save
+} from 'lucide-react';
+import { EditDocument, EditLayer, EditLayerBlendMode, EditTextContent } from '../types';
+import { canvasToMask } from '../utils/maskUtils';
+import {
+  EDIT_BLEND_MODES,
+  GeometryOperation,
+  createLayerCanvas,
+  flattenLayers,
+  loadDocumentCanvases,
+  loadImageElement,
+  renderTextLayer,
+  serializeDocument,
+  transformCanvas,
+  transformText,
+  transformedSize
+} from '../utils/editDocument';
+import {
+  ADJUSTMENT_CONTROLS,
+  AdjustmentPreset,
+  DEFAULT_ADJUSTMENTS,
+  ImageAdjustments,
+  applyAdjustments,
+  isDefaultAdjustments,
+  normalizeAdjustments
+} from '../utils/imageAdjustments';
 
 interface ImageEditModalProps {
   isOpen: boolean;
   image: string | null;
+  // Layers saved with the image last time; opened instead of the flat image
+  editDocument?: EditDocument | null;
   onClose: () => void;
-  onSave: (dataUri: string) => void;
+  onSave: (dataUri: string, document: EditDocument) => void;
+  // Enables mask mode: regenerate the painted region following the prompt (rejects if it could not be queued)
+  onInpaint?: (prompt: string, maskDataUri: string) => Promise<void>;
+  // Built-in and saved adjustment presets, and a handler to save the current settings as one
+  adjustmentPresets?: AdjustmentPreset[];
+  onSaveAdjustmentPreset?: (name: string, adjustments: ImageAdjustments) => void;
 }
 
-type Tool = 'brush' | 'erase' | 'rectangle' | 'circle' | 'triangle' | 'line';
+type Tool = 'brush' | 'erase' | 'rectangle' | 'circle' | 'triangle' | 'line' | 'select' | 'move' | 'text';
+type EditMode = 'draw' | 'mask';
+type LayerInfo = Omit<EditLayer, 'dataUri'>;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface DocumentState {
+  width: number;
+  height: number;
+  layers: LayerInfo[];       // Bottom first
+  activeLayerId: string;
+  geometryEdited: boolean;   // Cropped, rotated or flipped since opening
+}
+
+// Layers and mask are snapshotted together so undo works across mode switches.
+// Pixels of layers a step did not touch are shared with the previous snapshot.
+interface DocumentSnapshot {
+  state: DocumentState;
+  pixels: Record<string, ImageData>;
+  mask: ImageData;
+}
+
+interface HistoryChanges {
+  layers?: string[] | 'all';
+  mask?: boolean;
+}
+
+// Adjustments being previewed on a layer, over its pixels from before
+interface AdjustmentPreview {
+  layerId: string;
+  base: ImageData;
+  adjustments: ImageAdjustments;
+}
+
+interface MoveState {
+  layerId: string;
+  start: Point;
+  offset: Point;
+  base?: HTMLCanvasElement;                          // Layer pixels when the move started (selection cut out)
+  floating?: { canvas: HTMLCanvasElement; rect: Rect }; // Selected pixels being moved
+  text?: EditTextContent;
+}
+
+// Mask strokes are painted opaque and shown through the layer's CSS opacity
+const MASK_COLOR = '#ef4444';
+const MASK_OVERLAY_OPACITY = 0.45;
+
+const MAX_HISTORY = 30;
+const TEXT_FONT_FAMILY = 'Inter, system-ui, sans-serif';
+const DEFAULT_TEXT = { content: 'Text', fontSize: 48, bold: false };
 
 // Minimum and maximum modal dimensions
 const MIN_MODAL_WIDTH = 600;
@@ -16,11 +110,54 @@ const MIN_MODAL_HEIGHT = 400;
 const MAX_MODAL_WIDTH = window.innerWidth * 0.95;
 const MAX_MODAL_HEIGHT = window.innerHeight * 0.95;
 
-export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, onClose, onSave }) => {
-  const baseCanvasRef = useRef<HTMLCanvasElement>(null);
-  const drawCanvasRef = useRef<HTMLCanvasElement>(null);
+const DRAWING_TOOLS: Tool[] = ['brush', 'erase', 'rectangle', 'circle', 'triangle', 'line'];
+
+const readPixels = (canvas: HTMLCanvasElement): ImageData => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const normalizeRect = (a: Point, b: Point): Rect => ({
+  x: Math.round(Math.min(a.x, b.x)),
+  y: Math.round(Math.min(a.y, b.y)),
+  width: Math.round(Math.abs(b.x - a.x)),
+  height: Math.round(Math.abs(b.y - a.y))
+});
+
+// Mounts a layer's canvas, which is created and drawn outside React
+const LayerView: React.FC<{ canvas: HTMLCanvasElement; style: React.CSSProperties }> = ({ canvas, style }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    canvas.style.display = 'block';
+    canvas.style.width = '100%';
+    canvas.style.height = '100%';
+    container.appendChild(canvas);
+    return () => {
+      if (canvas.parentNode === container) container.removeChild(canvas);
+    };
+  }, [canvas]);
+
+  return <div ref={containerRef} className="absolute inset-0 pointer-events-none" style={style} />;
+};
+
+export const ImageEditModal: React.FC<ImageEditModalProps> = ({
+  isOpen,
+  image,
+  editDocument,
+  onClose,
+  onSave,
+  onInpaint,
+  adjustmentPresets = [],
+  onSaveAdjustmentPreset
+}) => {
+  const canvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
   const modalRef = useRef<HTMLDivElement>(null);
+  const moveStateRef = useRef<MoveState | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [brushColor, setBrushColor] = useState('#3b82f6');
   const [brushSize, setBrushSize] = useState(8);
@@ -31,6 +168,18 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
   const [startPos, setStartPos] = useState<{ x: number; y: number } | null>(null);
   const [fillShape, setFillShape] = useState(false);
   const [shapeThickness, setShapeThickness] = useState(3);
+  const [editMode, setEditMode] = useState<EditMode>('draw');
+  const [inpaintPrompt, setInpaintPrompt] = useState('');
+  const [isSubmittingInpaint, setIsSubmittingInpaint] = useState(false);
+  const [selection, setSelection] = useState<Rect | null>(null);
+  const [textDraft, setTextDraft] = useState(DEFAULT_TEXT);
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const adjustmentPreviewRef = useRef<AdjustmentPreview | null>(null);
+  const adjustmentFrameRef = useRef<number | null>(null);
+
+  // Layer stack; docRef always holds the latest state for handlers that update it twice
+  const [doc, setDoc] = useState<DocumentState | null>(null);
+  const docRef = useRef<DocumentState | null>(null);
 
   // Modal resize state
   const [modalSize, setModalSize] = useState({ width: 900, height: 600 });
@@ -38,9 +187,10 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
   const [resizeStart, setResizeStart] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
   const [resizeDirection, setResizeDirection] = useState<string | null>(null);
 
-  // Undo/Redo history
-  const [history, setHistory] = useState<ImageData[]>([]);
+  // Undo/Redo history; historyRef mirrors it for handlers that record more than one step
+  const [history, setHistory] = useState<DocumentSnapshot[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const historyRef = useRef<{ snapshots: DocumentSnapshot[]; index: number }>({ snapshots: [], index: -1 });
 
   // Handle resize mouse down
   const handleResizeMouseDown = useCallback((e: React.MouseEvent, direction: string) => {
@@ -98,14 +248,29 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
     };
   }, [isResizing, resizeStart, resizeDirection]);
 
+  const updateDoc = (next: DocumentState) => {
+    docRef.current = next;
+    setDoc(next);
+  };
+
+  const updateHistory = (snapshots: DocumentSnapshot[], index: number) => {
+    historyRef.current = { snapshots, index };
+    setHistory(snapshots);
+    setHistoryIndex(index);
+  };
+
+  useEffect(() => () => {
+    if (adjustmentFrameRef.current !== null) cancelAnimationFrame(adjustmentFrameRef.current);
+  }, []);
+
   const getPointerPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = e.currentTarget;
-    const drawCanvas = drawCanvasRef.current;
-    if (!canvas || !drawCanvas) return null;
+    const current = docRef.current;
+    if (!canvas || !current) return null;
 
     const rect = canvas.getBoundingClientRect();
-    const scaleX = drawCanvas.width / rect.width;
-    const scaleY = drawCanvas.height / rect.height;
+    const scaleX = current.width / rect.width;
+    const scaleY = current.height / rect.height;
 
     return {
       x: (e.clientX - rect.left) * scaleX,
@@ -113,98 +278,387 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
     };
   };
 
+  // Mask and preview canvases always match the document size
+  const resizeOverlays = (width: number, height: number) => {
+    [maskCanvasRef.current, previewCanvasRef.current].forEach(canvas => {
+      if (canvas && (canvas.width !== width || canvas.height !== height)) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+    });
+  };
+
   useEffect(() => {
     if (!isOpen || !image) return;
+    let cancelled = false;
+
+    const open = async () => {
+      let width: number;
+      let height: number;
+      let layers: LayerInfo[];
+      let canvases: Map<string, HTMLCanvasElement>;
+
+      if (editDocument && editDocument.layers.length > 0) {
+        ({ width, height } = editDocument);
+        canvases = await loadDocumentCanvases(editDocument);
+        layers = editDocument.layers.map(({ dataUri, ...layer }) => layer);
+      } else {
+        // A flat image opens as its pixels plus an empty layer to draw on
+        const img = await loadImageElement(image);
+        width = img.naturalWidth;
+        height = img.naturalHeight;
+        const background = createLayerCanvas(width, height);
+        background.getContext('2d')?.drawImage(img, 0, 0);
+        const stamp = Date.now();
+        layers = [
+          { id: `layer-${stamp}-0`, name: 'Background', kind: 'image', visible: true, opacity: 1, blendMode: 'normal' },
+          { id: `layer-${stamp}-1`, name: 'Layer 1', kind: 'paint', visible: true, opacity: 1, blendMode: 'normal' }
+        ];
+        canvases = new Map([[layers[0].id, background], [layers[1].id, createLayerCanvas(width, height)]]);
+      }
+      if (cancelled) return;
+
+      canvasesRef.current = canvases;
+      resizeOverlays(width, height);
+      const maskCanvas = maskCanvasRef.current;
+      if (!maskCanvas) return;
+      maskCanvas.getContext('2d', { willReadFrequently: true })?.clearRect(0, 0, width, height);
+
+      const topRaster = [...layers].reverse().find(layer => layer.kind !== 'text') || layers[layers.length - 1];
+      const state: DocumentState = { width, height, layers, activeLayerId: topRaster.id, geometryEdited: false };
+      updateDoc(state);
+
+      // Initialize history with the opened state
+      const pixels: Record<string, ImageData> = {};
+      layers.forEach(layer => {
+        pixels[layer.id] = readPixels(canvases.get(layer.id)!);
+      });
+      updateHistory([{ state, pixels, mask: readPixels(maskCanvas) }], 0);
+    };
 
-    const img = new Image();
-    img.src = image;
-    img.onload = () => {
-      const baseCanvas = baseCanvasRef.current;
-      const drawCanvas = drawCanvasRef.current;
-      const previewCanvas = previewCanvasRef.current;
-      if (!baseCanvas || !drawCanvas || !previewCanvas) return;
-
-      baseCanvas.width = img.width;
-      baseCanvas.height = img.height;
-      drawCanvas.width = img.width;
-      drawCanvas.height = img.height;
-      previewCanvas.width = img.width;
-      previewCanvas.height = img.height;
-
-      const baseCtx = baseCanvas.getContext('2d');
-      const drawCtx = drawCanvas.getContext('2d');
-      if (!baseCtx || !drawCtx) return;
-
-      baseCtx.clearRect(0, 0, baseCanvas.width, baseCanvas.height);
-      baseCtx.drawImage(img, 0, 0);
-      drawCtx.clearRect(0, 0, drawCanvas.width, drawCanvas.height);
-
-      // Initialize history with empty state
-      const initialState = drawCtx.getImageData(0, 0, drawCanvas.width, drawCanvas.height);
-      setHistory([initialState]);
-      setHistoryIndex(0);
+    setSelection(null);
+    setEditMode('draw');
+    adjustmentPreviewRef.current = null;
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+    open().catch(error => {
+      console.error('Failed to open image for editing:', error);
+    });
+    return () => {
+      cancelled = true;
     };
-  }, [image, isOpen]);
+  }, [image, isOpen, editDocument]);
 
-  // Get context with willReadFrequently for better performance
-  useEffect(() => {
-    const drawCanvas = drawCanvasRef.current;
-    if (drawCanvas) {
-      const ctx = drawCanvas.getContext('2d', { willReadFrequently: true });
-      if (ctx) {
-        // Context is now optimized for frequent reads
-      }
-    }
-  }, []);
+  const activeLayer = doc?.layers.find(layer => layer.id === doc.activeLayerId) || null;
 
+  // Strokes go to the mask in mask mode, to the active layer otherwise (text layers are re-rendered from their text)
   const getContext = () => {
-    const canvas = drawCanvasRef.current;
-    if (!canvas) return null;
-    return canvas.getContext('2d', { willReadFrequently: true });
+    if (editMode === 'mask') {
+      return maskCanvasRef.current?.getContext('2d', { willReadFrequently: true }) || null;
+    }
+    if (!activeLayer || activeLayer.kind === 'text') return null;
+    return canvasesRef.current.get(activeLayer.id)?.getContext('2d') || null;
   };
 
-  const saveToHistory = () => {
-    const canvas = drawCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
+  const strokeColor = editMode === 'mask' ? MASK_COLOR : brushColor;
+  const strokeOpacity = editMode === 'mask' ? 1 : brushOpacity;
+
+  const saveToHistory = (state: DocumentState | null = docRef.current, changes: HistoryChanges = {}) => {
+    const maskCanvas = maskCanvasRef.current;
+    if (!state || !maskCanvas) return;
+
+    const { snapshots, index } = historyRef.current;
+    const previous = snapshots[index];
+    const sameSize = previous && previous.state.width === state.width && previous.state.height === state.height;
+    const pixels: Record<string, ImageData> = {};
+    state.layers.forEach(layer => {
+      const canvas = canvasesRef.current.get(layer.id);
+      if (!canvas) return;
+      const unchanged = sameSize && changes.layers !== 'all' && !changes.layers?.includes(layer.id);
+      pixels[layer.id] = (unchanged && previous.pixels[layer.id]) || readPixels(canvas);
+    });
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(imageData);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+    const snapshot: DocumentSnapshot = {
+      state,
+      pixels,
+      mask: sameSize && !changes.mask ? previous.mask : readPixels(maskCanvas)
+    };
+    const newHistory = [...snapshots.slice(0, index + 1), snapshot].slice(-MAX_HISTORY);
+    updateHistory(newHistory, newHistory.length - 1);
   };
 
-  const undo = () => {
-    if (historyIndex <= 0) return;
-    const canvas = drawCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
+  const restoreSnapshot = (index: number) => {
+    const snapshot = historyRef.current.snapshots[index];
+    const maskCanvas = maskCanvasRef.current;
+    if (!snapshot || !maskCanvas) return;
+
+    const { width, height } = snapshot.state;
+    snapshot.state.layers.forEach(layer => {
+      let canvas = canvasesRef.current.get(layer.id);
+      if (!canvas) {
+        // Deleted since; bring the layer back
+        canvas = createLayerCanvas(width, height);
+        canvasesRef.current.set(layer.id, canvas);
+      }
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      const pixels = snapshot.pixels[layer.id];
+      if (pixels) canvas.getContext('2d')?.putImageData(pixels, 0, 0);
+    });
+    resizeOverlays(width, height);
+    maskCanvas.getContext('2d', { willReadFrequently: true })?.putImageData(snapshot.mask, 0, 0);
+
+    updateDoc(snapshot.state);
+    setSelection(null);
+    updateHistory(historyRef.current.snapshots, index);
+  };
 
-    const newIndex = historyIndex - 1;
-    ctx.putImageData(history[newIndex], 0, 0);
-    setHistoryIndex(newIndex);
+  const undo = () => {
+    const { index } = historyRef.current;
+    if (index <= 0) return;
+    discardAdjustments();
+    restoreSnapshot(index - 1);
   };
 
   const redo = () => {
-    if (historyIndex >= history.length - 1) return;
-    const canvas = drawCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    const { snapshots, index } = historyRef.current;
+    if (index >= snapshots.length - 1) return;
+    discardAdjustments();
+    restoreSnapshot(index + 1);
+  };
+
+  const clearMask = () => {
+    const ctx = maskCanvasRef.current?.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    saveToHistory(docRef.current, { mask: true });
+  };
+
+  // Adjustments: previewed on the active layer until applied, then recorded as one step.
+  // Anything else that edits the document applies them first.
+
+  const renderAdjustmentPreview = () => {
+    if (adjustmentFrameRef.current !== null) {
+      cancelAnimationFrame(adjustmentFrameRef.current);
+      adjustmentFrameRef.current = null;
+    }
+    const preview = adjustmentPreviewRef.current;
+    const ctx = preview ? canvasesRef.current.get(preview.layerId)?.getContext('2d') : null;
+    if (!preview || !ctx) return;
+    ctx.putImageData(
+      isDefaultAdjustments(preview.adjustments) ? preview.base : applyAdjustments(preview.base, preview.adjustments),
+      0,
+      0
+    );
+  };
+
+  const changeAdjustments = (next: ImageAdjustments) => {
+    if (!adjustmentPreviewRef.current) {
+      const canvas = activeLayer && activeLayer.kind !== 'text' ? canvasesRef.current.get(activeLayer.id) : undefined;
+      if (!activeLayer || !canvas) return;
+      adjustmentPreviewRef.current = { layerId: activeLayer.id, base: readPixels(canvas), adjustments: next };
+    }
+    adjustmentPreviewRef.current.adjustments = next;
+    setAdjustments(next);
+    // Sliders fire faster than a large image re-renders; draw at most once per frame
+    if (adjustmentFrameRef.current === null) {
+      adjustmentFrameRef.current = requestAnimationFrame(() => {
+        adjustmentFrameRef.current = null;
+        renderAdjustmentPreview();
+      });
+    }
+  };
+
+  const commitAdjustments = () => {
+    const preview = adjustmentPreviewRef.current;
+    if (!preview) return;
+    renderAdjustmentPreview();
+    adjustmentPreviewRef.current = null;
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+    if (!isDefaultAdjustments(preview.adjustments)) {
+      saveToHistory(docRef.current, { layers: [preview.layerId] });
+    }
+  };
+
+  const discardAdjustments = () => {
+    const preview = adjustmentPreviewRef.current;
+    if (!preview) return;
+    if (adjustmentFrameRef.current !== null) {
+      cancelAnimationFrame(adjustmentFrameRef.current);
+      adjustmentFrameRef.current = null;
+    }
+    canvasesRef.current.get(preview.layerId)?.getContext('2d')?.putImageData(preview.base, 0, 0);
+    adjustmentPreviewRef.current = null;
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+  };
+
+  const handleSaveAdjustmentPreset = () => {
+    if (!onSaveAdjustmentPreset) return;
+    const name = window.prompt('Preset name', `Preset ${adjustmentPresets.filter(preset => !preset.builtIn).length + 1}`)?.trim();
+    if (name) onSaveAdjustmentPreset(name, adjustments);
+  };
+
+  // Layers
+
+  const patchLayer = (layerId: string, patch: Partial<LayerInfo>, record = true) => {
+    const current = docRef.current;
+    if (!current) return;
+    commitAdjustments();
+    const next = { ...current, layers: current.layers.map(layer => layer.id === layerId ? { ...layer, ...patch } : layer) };
+    updateDoc(next);
+    if (record) saveToHistory(next);
+  };
+
+  const setActiveLayer = (layerId: string) => {
+    const current = docRef.current;
+    if (!current || current.activeLayerId === layerId) return;
+    commitAdjustments();
+    updateDoc({ ...current, activeLayerId: layerId });
+  };
+
+  // Insert a layer above the active one and make it active
+  const insertLayer = (layer: LayerInfo, canvas: HTMLCanvasElement) => {
+    const current = docRef.current;
+    if (!current) return;
+    commitAdjustments();
+    canvasesRef.current.set(layer.id, canvas);
+
+    const activeIndex = current.layers.findIndex(item => item.id === current.activeLayerId);
+    const layers = [...current.layers];
+    layers.splice(activeIndex + 1, 0, layer);
+    const next = { ...current, layers, activeLayerId: layer.id };
+    updateDoc(next);
+    saveToHistory(next, { layers: [layer.id] });
+  };
 
-    const newIndex = historyIndex + 1;
-    ctx.putImageData(history[newIndex], 0, 0);
-    setHistoryIndex(newIndex);
+  const handleAddLayer = () => {
+    const current = docRef.current;
+    if (!current) return;
+    const count = current.layers.filter(layer => layer.kind === 'paint').length;
+    insertLayer(
+      { id: `layer-${Date.now()}`, name: `Layer ${count + 1}`, kind: 'paint', visible: true, opacity: 1, blendMode: 'normal' },
+      createLayerCanvas(current.width, current.height)
+    );
+  };
+
+  const handleDeleteLayer = (layerId: string) => {
+    const current = docRef.current;
+    if (!current || current.layers.length <= 1) return;
+    commitAdjustments();
+
+    const index = current.layers.findIndex(layer => layer.id === layerId);
+    const layers = current.layers.filter(layer => layer.id !== layerId);
+    const activeLayerId = current.activeLayerId === layerId
+      ? layers[Math.max(0, index - 1)].id
+      : current.activeLayerId;
+    const next = { ...current, layers, activeLayerId };
+    updateDoc(next);
+    saveToHistory(next);
+  };
+
+  // Move a layer up (+1) or down (-1) the stack
+  const handleMoveLayer = (layerId: string, direction: 1 | -1) => {
+    const current = docRef.current;
+    if (!current) return;
+
+    const index = current.layers.findIndex(layer => layer.id === layerId);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= current.layers.length) return;
+    commitAdjustments();
+    const layers = [...current.layers];
+    [layers[index], layers[target]] = [layers[target], layers[index]];
+    const next = { ...current, layers };
+    updateDoc(next);
+    saveToHistory(next);
+  };
+
+  // Text
+
+  const updateText = (layerId: string, patch: Partial<EditTextContent>, record = false) => {
+    const current = docRef.current;
+    const layer = current?.layers.find(item => item.id === layerId);
+    const canvas = canvasesRef.current.get(layerId);
+    if (!current || !layer?.text || !canvas) return;
+
+    const text = { ...layer.text, ...patch };
+    renderTextLayer(canvas, text);
+    const next = { ...current, layers: current.layers.map(item => item.id === layerId ? { ...item, text } : item) };
+    updateDoc(next);
+    if (record) saveToHistory(next, { layers: [layerId] });
+  };
+
+  const placeText = (pos: Point) => {
+    const current = docRef.current;
+    if (!current) return;
+
+    const text: EditTextContent = {
+      content: textDraft.content || DEFAULT_TEXT.content,
+      x: Math.round(pos.x),
+      y: Math.round(pos.y),
+      fontSize: textDraft.fontSize,
+      fontFamily: TEXT_FONT_FAMILY,
+      color: brushColor,
+      bold: textDraft.bold,
+      matrix: [1, 0, 0, 1]
+    };
+    const canvas = createLayerCanvas(current.width, current.height);
+    renderTextLayer(canvas, text);
+    const count = current.layers.filter(layer => layer.kind === 'text').length;
+    insertLayer(
+      { id: `layer-${Date.now()}`, name: `Text ${count + 1}`, kind: 'text', visible: true, opacity: 1, blendMode: 'normal', text },
+      canvas
+    );
+  };
+
+  // Crop, rotate, flip: applied to every layer and the mask
+
+  const applyGeometry = (op: GeometryOperation) => {
+    const current = docRef.current;
+    const maskCanvas = maskCanvasRef.current;
+    if (!current || !maskCanvas) return;
+    commitAdjustments();
+
+    const size = transformedSize(current.width, current.height, op);
+    const layers = current.layers.map(layer => {
+      const canvas = canvasesRef.current.get(layer.id);
+      if (!canvas) return layer;
+      if (layer.kind === 'text' && layer.text) {
+        const text = transformText(layer.text, op, current.width, current.height);
+        canvas.width = size.width;
+        canvas.height = size.height;
+        renderTextLayer(canvas, text);
+        return { ...layer, text };
+      }
+      transformCanvas(canvas, op);
+      return layer;
+    });
+    transformCanvas(maskCanvas, op);
+    resizeOverlays(size.width, size.height);
+
+    const next: DocumentState = { ...current, ...size, layers, geometryEdited: true };
+    updateDoc(next);
+    setSelection(null);
+    saveToHistory(next, { layers: 'all', mask: true });
+  };
+
+  const handleCropToSelection = () => {
+    const current = docRef.current;
+    if (!current || !selection) return;
+
+    const x = Math.max(0, selection.x);
+    const y = Math.max(0, selection.y);
+    const width = Math.min(current.width, selection.x + selection.width) - x;
+    const height = Math.min(current.height, selection.y + selection.height) - y;
+    if (width < 1 || height < 1) return;
+    applyGeometry({ type: 'crop', x, y, width, height });
   };
 
   const drawShape = (ctx: CanvasRenderingContext2D, start: { x: number; y: number }, end: { x: number; y: number }) => {
-    ctx.strokeStyle = brushColor;
-    ctx.fillStyle = brushColor;
+    ctx.strokeStyle = strokeColor;
+    ctx.fillStyle = strokeColor;
     ctx.lineWidth = shapeThickness;
-    ctx.globalAlpha = brushOpacity;
+    ctx.globalAlpha = strokeOpacity;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
 
@@ -268,29 +722,89 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
     ctx.globalAlpha = 1;
   };
 
+  // Pick up the active layer (or the selected part of it) for the move tool
+  const startMove = (pos: Point): MoveState | null => {
+    if (!activeLayer) return null;
+    if (activeLayer.kind === 'text') {
+      return { layerId: activeLayer.id, start: pos, offset: { x: 0, y: 0 }, text: activeLayer.text };
+    }
+
+    const canvas = canvasesRef.current.get(activeLayer.id);
+    if (!canvas) return null;
+    const base = createLayerCanvas(canvas.width, canvas.height);
+    const baseCtx = base.getContext('2d');
+    if (!baseCtx) return null;
+    baseCtx.drawImage(canvas, 0, 0);
+
+    if (!selection) return { layerId: activeLayer.id, start: pos, offset: { x: 0, y: 0 }, base };
+    const floating = createLayerCanvas(selection.width, selection.height);
+    floating.getContext('2d')?.drawImage(base, -selection.x, -selection.y);
+    baseCtx.clearRect(selection.x, selection.y, selection.width, selection.height);
+    return { layerId: activeLayer.id, start: pos, offset: { x: 0, y: 0 }, base, floating: { canvas: floating, rect: selection } };
+  };
+
+  const continueMove = (move: MoveState, pos: Point) => {
+    move.offset = { x: Math.round(pos.x - move.start.x), y: Math.round(pos.y - move.start.y) };
+    const { x: dx, y: dy } = move.offset;
+
+    if (move.text) {
+      updateText(move.layerId, { x: move.text.x + dx, y: move.text.y + dy });
+      return;
+    }
+
+    const ctx = canvasesRef.current.get(move.layerId)?.getContext('2d');
+    if (!ctx || !move.base) return;
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (move.floating) {
+      ctx.drawImage(move.base, 0, 0);
+      ctx.drawImage(move.floating.canvas, move.floating.rect.x + dx, move.floating.rect.y + dy);
+    } else {
+      ctx.drawImage(move.base, dx, dy);
+    }
+  };
+
   const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     const canvas = e.currentTarget;
-    const ctx = getContext();
-    if (!ctx || !canvas) return;
-
     const pos = getPointerPosition(e);
-    if (!pos) return;
+    if (!pos || !canvas) return;
+    commitAdjustments();
+
+    if (tool === 'text') {
+      placeText(pos);
+      return;
+    }
+    if (tool === 'move') {
+      const move = startMove(pos);
+      if (!move) return;
+      moveStateRef.current = move;
+    } else if (tool !== 'select') {
+      const ctx = getContext();
+      if (!ctx) return;
+
+      // Drawing stays inside the selection
+      ctx.save();
+      if (selection) {
+        ctx.beginPath();
+        ctx.rect(selection.x, selection.y, selection.width, selection.height);
+        ctx.clip();
+      }
+
+      // For brush and eraser, start path immediately
+      if (tool === 'brush' || tool === 'erase') {
+        ctx.beginPath();
+        ctx.lineWidth = brushSize;
+        ctx.strokeStyle = tool === 'erase' ? '#000000' : strokeColor;
+        ctx.globalAlpha = tool === 'erase' ? 1 : strokeOpacity;
+        ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.moveTo(pos.x, pos.y);
+      }
+    }
 
     canvas.setPointerCapture(e.pointerId);
     setIsDrawing(true);
     setStartPos(pos);
-
-    // For brush and eraser, start path immediately
-    if (tool === 'brush' || tool === 'erase') {
-      ctx.beginPath();
-      ctx.lineWidth = brushSize;
-      ctx.strokeStyle = tool === 'erase' ? '#000000' : brushColor;
-      ctx.globalAlpha = tool === 'erase' ? 1 : brushOpacity;
-      ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.moveTo(pos.x, pos.y);
-    }
   };
 
   const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
@@ -308,14 +822,18 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
     const pos = getPointerPosition(e);
     if (!pos) return;
 
-    // For brush and eraser, continue drawing path
-    if (tool === 'brush' || tool === 'erase') {
+    if (tool === 'select') {
+      if (startPos) setSelection(normalizeRect(startPos, pos));
+    } else if (tool === 'move') {
+      if (moveStateRef.current) continueMove(moveStateRef.current, pos);
+    } else if (tool === 'brush' || tool === 'erase') {
+      // For brush and eraser, continue drawing path
       const ctx = getContext();
       if (!ctx) return;
 
       ctx.lineWidth = brushSize;
-      ctx.strokeStyle = tool === 'erase' ? '#000000' : brushColor;
-      ctx.globalAlpha = tool === 'erase' ? 1 : brushOpacity;
+      ctx.strokeStyle = tool === 'erase' ? '#000000' : strokeColor;
+      ctx.globalAlpha = tool === 'erase' ? 1 : strokeOpacity;
       ctx.lineCap = 'round';
       ctx.lineJoin = 'round';
       ctx.lineTo(pos.x, pos.y);
@@ -353,8 +871,27 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
         canvas.releasePointerCapture(e.pointerId);
       }
     }
+    setIsDrawing(false);
+    setStartPos(null);
 
-    // For shapes, finalize the drawing on the draw canvas
+    if (tool === 'select') {
+      // A click without dragging clears the selection
+      if (selection && (selection.width < 2 || selection.height < 2)) setSelection(null);
+      return;
+    }
+
+    if (tool === 'move') {
+      const move = moveStateRef.current;
+      moveStateRef.current = null;
+      if (!move || (move.offset.x === 0 && move.offset.y === 0)) return;
+      if (move.floating) {
+        setSelection({ ...move.floating.rect, x: move.floating.rect.x + move.offset.x, y: move.floating.rect.y + move.offset.y });
+      }
+      saveToHistory(docRef.current, { layers: [move.layerId] });
+      return;
+    }
+
+    // For shapes, finalize the drawing on the target layer
     if (tool !== 'brush' && tool !== 'erase' && startPos && e) {
       const pos = getPointerPosition(e);
       if (pos) {
@@ -374,44 +911,94 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
       }
     }
 
-    setIsDrawing(false);
-    setStartPos(null);
-
     const ctx = getContext();
     if (ctx) {
       ctx.closePath();
-      ctx.globalAlpha = 1;
-      ctx.globalCompositeOperation = 'source-over';
+      ctx.restore();
     }
 
     // Save to history after drawing is complete
-    saveToHistory();
+    saveToHistory(docRef.current, editMode === 'mask' ? { mask: true } : { layers: activeLayer ? [activeLayer.id] : [] });
   };
 
-  const handleSave = () => {
-    const baseCanvas = baseCanvasRef.current;
-    const drawCanvas = drawCanvasRef.current;
-    if (!baseCanvas || !drawCanvas) return;
-
-    const merged = document.createElement('canvas');
-    merged.width = baseCanvas.width;
-    merged.height = baseCanvas.height;
-    const ctx = merged.getContext('2d');
-    if (!ctx) return;
+  const layerCanvases = () => {
+    const current = docRef.current;
+    return (current?.layers || []).flatMap(layer => {
+      const canvas = canvasesRef.current.get(layer.id);
+      return canvas ? [{ layer, canvas }] : [];
+    });
+  };
 
-    ctx.drawImage(baseCanvas, 0, 0);
-    ctx.drawImage(drawCanvas, 0, 0);
+  const handleSave = () => {
+    const current = docRef.current;
+    if (!current) return;
+    commitAdjustments();
 
-    const dataUri = merged.toDataURL('image/png');
-    onSave(dataUri);
+    const layers = layerCanvases();
+    const dataUri = flattenLayers(current.width, current.height, layers);
+    onSave(dataUri, serializeDocument(current.width, current.height, layers));
     onClose();
   };
 
+  const handleInpaint = async () => {
+    const maskCanvas = maskCanvasRef.current;
+    if (!onInpaint || !maskCanvas) return;
+
+    const mask = canvasToMask(maskCanvas);
+    if (!mask) {
+      alert('Paint over the region you want to change first.');
+      return;
+    }
+
+    // Stay open on failure so the mask is not lost
+    setIsSubmittingInpaint(true);
+    try {
+      await onInpaint(inpaintPrompt.trim(), mask);
+      onClose();
+    } catch (error) {
+      console.error('Inpainting failed:', error);
+      alert('Inpainting failed: ' + (error as Error).message);
+    } finally {
+      setIsSubmittingInpaint(false);
+    }
+  };
+
+  const switchMode = (mode: EditMode) => {
+    commitAdjustments();
+    setEditMode(mode);
+    // Only brushes and shapes paint masks, and a selection would clip them invisibly
+    if (mode === 'mask') {
+      if (!DRAWING_TOOLS.includes(tool)) setTool('brush');
+      setSelection(null);
+    }
+  };
+
   if (!isOpen || !image) return null;
 
   // Calculate the available canvas area height (modal height - header - padding)
   const canvasAreaHeight = modalSize.height - 80; // 80px for header and padding
 
+  // Display size of the document, scaled down to fit the canvas area
+  const displayScale = doc
+    ? Math.min(1, (modalSize.width * 0.65) / doc.width, (canvasAreaHeight - 32) / doc.height)
+    : 1;
+  const displayWidth = doc ? doc.width * displayScale : 0;
+  const displayHeight = doc ? doc.height * displayScale : 0;
+
+  const isDrawingTool = DRAWING_TOOLS.includes(tool);
+  const isShapeTool = isDrawingTool && tool !== 'brush' && tool !== 'erase';
+  const activeText = activeLayer?.kind === 'text' ? activeLayer.text : undefined;
+  const textSettings = activeText || textDraft;
+  const layersTopFirst = doc ? [...doc.layers].reverse() : [];
+  const previewCursor = tool === 'move' ? 'move' : tool === 'text' ? 'text' : tool === 'select' ? 'crosshair' : 'none';
+
+  const toolButtonClass = (active: boolean, activeClass = 'bg-blue-600 text-white border-blue-500') =>
+    `px-3 py-2 text-xs rounded-lg border transition flex items-center justify-center gap-1 ${
+      active ? activeClass : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
+    }`;
+  const actionButtonClass = 'px-3 py-2 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed transition flex items-center justify-center gap-1';
+  const iconButtonClass = 'p-1 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-500 disabled:opacity-30 disabled:hover:bg-transparent';
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
       <div
@@ -454,7 +1041,9 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
         />
 
         <div className="flex items-center justify-between px-5 py-3 border-b border-zinc-200 dark:border-zinc-800">
-          <div className="font-semibold text-sm text-zinc-800 dark:text-zinc-100">Edit Control Image</div>
+          <div className="font-semibold text-sm text-zinc-800 dark:text-zinc-100">
+            {editMode === 'mask' ? 'Inpaint Region' : 'Edit Control Image'}
+          </div>
           <div className="flex items-center gap-2">
             <span className="text-xs text-zinc-500 dark:text-zinc-400">Drag edges to resize</span>
             <button
@@ -471,36 +1060,38 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
             className="lg:col-span-3 bg-zinc-100 dark:bg-zinc-950 border border-dashed border-zinc-200 dark:border-zinc-800 rounded-xl overflow-hidden flex items-center justify-center"
             style={{ height: `${canvasAreaHeight}px` }}
           >
-            <div className="relative touch-none" style={{ display: 'inline-block' }}>
+            <div className="relative touch-none" style={{ width: displayWidth, height: displayHeight, isolation: 'isolate' }}>
+              {/* Layers, bottom first; blend modes apply against the layers below */}
+              {doc?.layers.map((layer, index) => {
+                const canvas = canvasesRef.current.get(layer.id);
+                return canvas ? (
+                  <LayerView
+                    key={layer.id}
+                    canvas={canvas}
+                    style={{
+                      zIndex: index,
+                      opacity: layer.opacity,
+                      mixBlendMode: layer.blendMode,
+                      visibility: layer.visible ? 'visible' : 'hidden'
+                    }}
+                  />
+                ) : null;
+              })}
               <canvas
-                ref={baseCanvasRef}
-                className="block"
+                ref={maskCanvasRef}
+                className="absolute top-0 left-0 w-full h-full pointer-events-none"
                 style={{
-                  maxWidth: `${modalSize.width * 0.65}px`,
-                  maxHeight: `${canvasAreaHeight - 32}px`,
-                  width: 'auto',
-                  height: 'auto'
-                }}
-              />
-              <canvas
-                ref={drawCanvasRef}
-                className="absolute top-0 left-0"
-                style={{
-                  maxWidth: `${modalSize.width * 0.65}px`,
-                  maxHeight: `${canvasAreaHeight - 32}px`,
-                  width: 'auto',
-                  height: 'auto'
+                  zIndex: (doc?.layers.length || 0) + 1,
+                  opacity: MASK_OVERLAY_OPACITY,
+                  visibility: editMode === 'mask' ? 'visible' : 'hidden'
                 }}
               />
               <canvas
                 ref={previewCanvasRef}
-                className="absolute top-0 left-0 touch-none"
+                className="absolute top-0 left-0 w-full h-full touch-none"
                 style={{
-                  cursor: 'none',
-                  maxWidth: `${modalSize.width * 0.65}px`,
-                  maxHeight: `${canvasAreaHeight - 32}px`,
-                  width: 'auto',
-                  height: 'auto'
+                  zIndex: (doc?.layers.length || 0) + 2,
+                  cursor: previewCursor
                 }}
                 onPointerDown={handlePointerDown}
                 onPointerMove={handlePointerMove}
@@ -508,31 +1099,46 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
                 onPointerEnter={handlePointerEnter}
                 onPointerLeave={handlePointerLeave}
               />
+              {/* Selection outline */}
+              {selection && (
+                <div
+                  className="absolute pointer-events-none border border-dashed border-white"
+                  style={{
+                    zIndex: (doc?.layers.length || 0) + 3,
+                    left: selection.x * displayScale,
+                    top: selection.y * displayScale,
+                    width: selection.width * displayScale,
+                    height: selection.height * displayScale,
+                    boxShadow: '0 0 0 1px rgba(0, 0, 0, 0.6)'
+                  }}
+                />
+              )}
               {/* Cursor indicator */}
-              {showCursor && cursorPos && drawCanvasRef.current && (
+              {showCursor && cursorPos && (
                 <>
                   {(tool === 'brush' || tool === 'erase') && (
                     <div
                       className="absolute pointer-events-none"
                       style={{
+                        zIndex: (doc?.layers.length || 0) + 4,
                         left: cursorPos.x,
                         top: cursorPos.y,
                         transform: 'translate(-50%, -50%)',
-                        width: brushSize * (drawCanvasRef.current.getBoundingClientRect().width / drawCanvasRef.current.width),
-                        height: brushSize * (drawCanvasRef.current.getBoundingClientRect().height / drawCanvasRef.current.height),
+                        width: brushSize * displayScale,
+                        height: brushSize * displayScale,
                         borderRadius: '50%',
-                        border: `2px solid ${tool === 'erase' ? '#f59e0b' : '#3b82f6'}`,
+                        border: `2px solid ${tool === 'erase' ? '#f59e0b' : editMode === 'mask' ? MASK_COLOR : '#3b82f6'}`,
                         backgroundColor: tool === 'erase'
                           ? 'rgba(245, 158, 11, 0.1)'
-                          : `${brushColor}${Math.round(brushOpacity * 255).toString(16).padStart(2, '0')}`,
-                        mixBlendMode: tool === 'erase' ? 'normal' : 'normal'
+                          : `${strokeColor}${Math.round((editMode === 'mask' ? MASK_OVERLAY_OPACITY : brushOpacity) * 255).toString(16).padStart(2, '0')}`
                       }}
                     />
                   )}
-                  {(tool === 'line' || tool === 'rectangle' || tool === 'circle' || tool === 'triangle') && (
+                  {isShapeTool && (
                     <div
                       className="absolute pointer-events-none"
                       style={{
+                        zIndex: (doc?.layers.length || 0) + 4,
                         left: cursorPos.x,
                         top: cursorPos.y,
                         transform: 'translate(-50%, -50%)',
@@ -552,6 +1158,27 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
           </div>
 
           <div className="space-y-4 overflow-y-auto" style={{ maxHeight: `${canvasAreaHeight}px` }}>
+            {/* Mode: draw onto the image, or paint a mask to regenerate */}
+            {onInpaint && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => switchMode('draw')}
+                  className={`flex-1 ${toolButtonClass(editMode === 'draw')}`}
+                >
+                  <Paintbrush size={14} />
+                  Draw
+                </button>
+                <button
+                  onClick={() => switchMode('mask')}
+                  className={`flex-1 ${toolButtonClass(editMode === 'mask', 'bg-red-500 text-white border-red-400')}`}
+                  title="Paint the region to regenerate"
+                >
+                  <Wand2 size={14} />
+                  Inpaint
+                </button>
+              </div>
+            )}
+
             {/* Undo/Redo buttons */}
             <div className="flex items-center gap-2">
               <button
@@ -576,74 +1203,56 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
             <div>
               <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Tools</label>
               <div className="grid grid-cols-2 gap-2">
-                <button
-                  onClick={() => setTool('brush')}
-                  className={`px-3 py-2 text-xs rounded-lg border transition ${
-                    tool === 'brush'
-                      ? 'bg-blue-600 text-white border-blue-500'
-                      : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                  }`}
-                >
+                <button onClick={() => setTool('brush')} className={toolButtonClass(tool === 'brush')}>
                   Brush
                 </button>
                 <button
                   onClick={() => setTool('erase')}
-                  className={`px-3 py-2 text-xs rounded-lg border transition ${
-                    tool === 'erase'
-                      ? 'bg-amber-500 text-white border-amber-400'
-                      : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                  }`}
+                  className={toolButtonClass(tool === 'erase', 'bg-amber-500 text-white border-amber-400')}
                 >
                   Eraser
                 </button>
+                {editMode === 'draw' && (
+                  <>
+                    <button onClick={() => setTool('select')} className={toolButtonClass(tool === 'select')} title="Drag to select a region">
+                      <BoxSelect size={14} />
+                      Select
+                    </button>
+                    <button onClick={() => setTool('move')} className={toolButtonClass(tool === 'move')} title="Move the selection or the whole layer">
+                      <Move size={14} />
+                      Move
+                    </button>
+                    <button onClick={() => setTool('text')} className={toolButtonClass(tool === 'text')} title="Click the image to place text">
+                      <Type size={14} />
+                      Text
+                    </button>
+                  </>
+                )}
               </div>
+              {editMode === 'draw' && isDrawingTool && activeLayer?.kind === 'text' && (
+                <div className="text-[11px] text-amber-600 dark:text-amber-400 mt-2">
+                  Text layers cannot be painted on. Select or add another layer.
+                </div>
+              )}
             </div>
 
             {/* Shape tools */}
             <div>
               <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Shapes</label>
               <div className="grid grid-cols-2 gap-2">
-                <button
-                  onClick={() => setTool('line')}
-                  className={`px-3 py-2 text-xs rounded-lg border transition flex items-center justify-center gap-1 ${
-                    tool === 'line'
-                      ? 'bg-blue-600 text-white border-blue-500'
-                      : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                  }`}
-                >
+                <button onClick={() => setTool('line')} className={toolButtonClass(tool === 'line')}>
                   <Minus size={14} />
                   Line
                 </button>
-                <button
-                  onClick={() => setTool('rectangle')}
-                  className={`px-3 py-2 text-xs rounded-lg border transition flex items-center justify-center gap-1 ${
-                    tool === 'rectangle'
-                      ? 'bg-blue-600 text-white border-blue-500'
-                      : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                  }`}
-                >
+                <button onClick={() => setTool('rectangle')} className={toolButtonClass(tool === 'rectangle')}>
                   <Square size={14} />
                   Rect
                 </button>
-                <button
-                  onClick={() => setTool('circle')}
-                  className={`px-3 py-2 text-xs rounded-lg border transition flex items-center justify-center gap-1 ${
-                    tool === 'circle'
-                      ? 'bg-blue-600 text-white border-blue-500'
-                      : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                  }`}
-                >
+                <button onClick={() => setTool('circle')} className={toolButtonClass(tool === 'circle')}>
                   <Circle size={14} />
                   Circle
                 </button>
-                <button
-                  onClick={() => setTool('triangle')}
-                  className={`px-3 py-2 text-xs rounded-lg border transition flex items-center justify-center gap-1 ${
-                    tool === 'triangle'
-                      ? 'bg-blue-600 text-white border-blue-500'
-                      : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                  }`}
-                >
+                <button onClick={() => setTool('triangle')} className={toolButtonClass(tool === 'triangle')}>
                   <Triangle size={14} />
                   Triangle
                 </button>
@@ -651,28 +1260,14 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
             </div>
 
             {/* Shape options - only show for shape tools */}
-            {tool !== 'brush' && tool !== 'erase' && (
+            {isShapeTool && (
               <div>
                 <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Shape Style</label>
                 <div className="flex items-center gap-2">
-                  <button
-                    onClick={() => setFillShape(false)}
-                    className={`flex-1 px-3 py-2 text-xs rounded-lg border transition ${
-                      !fillShape
-                        ? 'bg-blue-600 text-white border-blue-500'
-                        : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                    }`}
-                  >
+                  <button onClick={() => setFillShape(false)} className={`flex-1 ${toolButtonClass(!fillShape)}`}>
                     Outline
                   </button>
-                  <button
-                    onClick={() => setFillShape(true)}
-                    className={`flex-1 px-3 py-2 text-xs rounded-lg border transition ${
-                      fillShape
-                        ? 'bg-blue-600 text-white border-blue-500'
-                        : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
-                    }`}
-                  >
+                  <button onClick={() => setFillShape(true)} className={`flex-1 ${toolButtonClass(fillShape)}`}>
                     Filled
                   </button>
                 </div>
@@ -680,7 +1275,7 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
             )}
 
             {/* Thickness control for shapes */}
-            {tool !== 'brush' && tool !== 'erase' && !fillShape && (
+            {isShapeTool && !fillShape && (
               <div>
                 <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Line Thickness</label>
                 <input
@@ -695,15 +1290,23 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
               </div>
             )}
 
-            <div>
-              <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Color</label>
-              <input
-                type="color"
-                value={brushColor}
-                onChange={(e) => setBrushColor(e.target.value)}
-                className="w-full h-10 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800"
-              />
-            </div>
+            {editMode === 'draw' && (
+              <div>
+                <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Color</label>
+                <input
+                  type="color"
+                  value={activeText ? activeText.color : brushColor}
+                  onChange={(e) => {
+                    setBrushColor(e.target.value);
+                    if (activeLayer && activeText) updateText(activeLayer.id, { color: e.target.value });
+                  }}
+                  onBlur={() => {
+                    if (activeLayer && activeText) saveToHistory(docRef.current, { layers: [activeLayer.id] });
+                  }}
+                  className="w-full h-10 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800"
+                />
+              </div>
+            )}
 
             {/* Brush size - only show for brush and eraser */}
             {(tool === 'brush' || tool === 'erase') && (
@@ -721,6 +1324,296 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
               </div>
             )}
 
+            {/* Text: edits the active text layer, or sets up the next one placed */}
+            {editMode === 'draw' && (tool === 'text' || activeText) && (
+              <div>
+                <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">
+                  {activeText ? 'Text Layer' : 'New Text'}
+                </label>
+                <textarea
+                  value={textSettings.content}
+                  onChange={(e) => {
+                    if (activeLayer && activeText) updateText(activeLayer.id, { content: e.target.value });
+                    else setTextDraft(prev => ({ ...prev, content: e.target.value }));
+                  }}
+                  onBlur={() => {
+                    if (activeLayer && activeText) saveToHistory(docRef.current, { layers: [activeLayer.id] });
+                  }}
+                  rows={2}
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-800 dark:text-zinc-100 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex items-center gap-2 mt-2">
+                  <input
+                    type="range"
+                    min={8}
+                    max={240}
+                    value={textSettings.fontSize}
+                    onChange={(e) => {
+                      const fontSize = Number(e.target.value);
+                      if (activeLayer && activeText) updateText(activeLayer.id, { fontSize });
+                      else setTextDraft(prev => ({ ...prev, fontSize }));
+                    }}
+                    onPointerUp={() => {
+                      if (activeLayer && activeText) saveToHistory(docRef.current, { layers: [activeLayer.id] });
+                    }}
+                    className="flex-1"
+                  />
+                  <button
+                    onClick={() => {
+                      if (activeLayer && activeText) updateText(activeLayer.id, { bold: !activeText.bold }, true);
+                      else setTextDraft(prev => ({ ...prev, bold: !prev.bold }));
+                    }}
+                    className={`p-1.5 rounded-lg border transition ${
+                      textSettings.bold
+                        ? 'bg-blue-600 text-white border-blue-500'
+                        : 'bg-white dark:bg-zinc-800 border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200'
+                    }`}
+                    title="Bold"
+                  >
+                    <Bold size={14} />
+                  </button>
+                </div>
+                <div className="text-[11px] text-zinc-500 dark:text-zinc-400 mt-1">{textSettings.fontSize}px</div>
+              </div>
+            )}
+
+            {/* Layer stack, top layer first */}
+            {editMode === 'draw' && doc && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300">Layers</label>
+                  <button onClick={handleAddLayer} className={iconButtonClass} title="Add layer">
+                    <Plus size={14} />
+                  </button>
+                </div>
+                <div className="space-y-1">
+                  {layersTopFirst.map((layer, index) => (
+                    <div
+                      key={layer.id}
+                      onClick={() => setActiveLayer(layer.id)}
+                      className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-xs cursor-pointer ${
+                        layer.id === doc.activeLayerId
+                          ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/30'
+                          : 'border-zinc-200 dark:border-zinc-700'
+                      }`}
+                    >
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          patchLayer(layer.id, { visible: !layer.visible });
+                        }}
+                        className={iconButtonClass}
+                        title={layer.visible ? 'Hide layer' : 'Show layer'}
+                      >
+                        {layer.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                      </button>
+                      {layer.kind === 'text' && <Type size={12} className="shrink-0 text-zinc-400" />}
+                      <span className="flex-1 min-w-0 truncate text-zinc-700 dark:text-zinc-200">
+                        {layer.kind === 'text' ? layer.text?.content.split('\n')[0] || layer.name : layer.name}
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleMoveLayer(layer.id, 1);
+                        }}
+                        disabled={index === 0}
+                        className={iconButtonClass}
+                        title="Move up"
+                      >
+                        <ArrowUp size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleMoveLayer(layer.id, -1);
+                        }}
+                        disabled={index === layersTopFirst.length - 1}
+                        className={iconButtonClass}
+                        title="Move down"
+                      >
+                        <ArrowDown size={12} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteLayer(layer.id);
+                        }}
+                        disabled={doc.layers.length <= 1}
+                        className={iconButtonClass}
+                        title="Delete layer"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                {activeLayer && (
+                  <div className="mt-2 space-y-2">
+                    <select
+                      value={activeLayer.blendMode}
+                      onChange={(e) => patchLayer(activeLayer.id, { blendMode: e.target.value as EditLayerBlendMode })}
+                      className="w-full px-2 py-1.5 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-200"
+                      title="Blend mode"
+                    >
+                      {EDIT_BLEND_MODES.map(mode => (
+                        <option key={mode.value} value={mode.value}>{mode.label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="range"
+                      min={0}
+                      max={100}
+                      value={Math.round(activeLayer.opacity * 100)}
+                      onChange={(e) => patchLayer(activeLayer.id, { opacity: Number(e.target.value) / 100 }, false)}
+                      onPointerUp={() => saveToHistory()}
+                      className="w-full"
+                      title="Layer opacity"
+                    />
+                    <div className="text-[11px] text-zinc-500 dark:text-zinc-400">Opacity {Math.round(activeLayer.opacity * 100)}%</div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Adjustments for the active layer, previewed live until applied */}
+            {editMode === 'draw' && activeLayer && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300">Adjustments</label>
+                  {onSaveAdjustmentPreset && (
+                    <button
+                      onClick={handleSaveAdjustmentPreset}
+                      disabled={isDefaultAdjustments(adjustments)}
+                      className={iconButtonClass}
+                      title="Save as preset"
+                    >
+                      <Save size={14} />
+                    </button>
+                  )}
+                </div>
+                {activeLayer.kind === 'text' ? (
+                  <div className="text-[11px] text-zinc-500 dark:text-zinc-400">
+                    Text layers cannot be adjusted. Select an image or paint layer.
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {adjustmentPresets.length > 0 && (
+                      <select
+                        value=""
+                        onChange={(e) => {
+                          const preset = adjustmentPresets.find(item => item.id === e.target.value);
+                          if (preset) changeAdjustments(normalizeAdjustments(preset.adjustments));
+                        }}
+                        className="w-full px-2 py-1.5 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-700 dark:text-zinc-200"
+                      >
+                        <option value="" disabled>Preset...</option>
+                        {adjustmentPresets.map(preset => (
+                          <option key={preset.id} value={preset.id}>{preset.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    {ADJUSTMENT_CONTROLS.map((control, index) => (
+                      <div key={control.key}>
+                        {ADJUSTMENT_CONTROLS[index - 1]?.group !== control.group && (
+                          <div className="text-[10px] uppercase tracking-wide text-zinc-400 mt-2">{control.group}</div>
+                        )}
+                        <div className="flex items-center justify-between text-[11px] text-zinc-500 dark:text-zinc-400">
+                          <span>{control.label}</span>
+                          <span>{adjustments[control.key]}</span>
+                        </div>
+                        <input
+                          type="range"
+                          min={control.min}
+                          max={control.max}
+                          step={control.step}
+                          value={adjustments[control.key]}
+                          onChange={(e) => changeAdjustments({ ...adjustments, [control.key]: Number(e.target.value) })}
+                          onDoubleClick={() => changeAdjustments({ ...adjustments, [control.key]: DEFAULT_ADJUSTMENTS[control.key] })}
+                          className="w-full"
+                        />
+                      </div>
+                    ))}
+                    <label className="flex items-center gap-2 text-xs text-zinc-700 dark:text-zinc-200">
+                      <input
+                        type="checkbox"
+                        checked={adjustments.grayscale}
+                        onChange={(e) => changeAdjustments({ ...adjustments, grayscale: e.target.checked })}
+                      />
+                      Grayscale
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <button onClick={discardAdjustments} disabled={isDefaultAdjustments(adjustments)} className={actionButtonClass}>
+                        <RotateCcw size={14} />
+                        Reset
+                      </button>
+                      <button onClick={commitAdjustments} disabled={isDefaultAdjustments(adjustments)} className={actionButtonClass}>
+                        <Check size={14} />
+                        Apply
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Crop, rotate and flip the whole document */}
+            {editMode === 'draw' && (
+              <div>
+                <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Transform</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={handleCropToSelection}
+                    disabled={!selection}
+                    className={`col-span-2 ${actionButtonClass}`}
+                    title={selection ? 'Crop to the selection' : 'Select a region first'}
+                  >
+                    <Crop size={14} />
+                    Crop to Selection
+                  </button>
+                  <button onClick={() => applyGeometry({ type: 'rotate', clockwise: false })} className={actionButtonClass}>
+                    <RotateCcw size={14} />
+                    Rotate Left
+                  </button>
+                  <button onClick={() => applyGeometry({ type: 'rotate', clockwise: true })} className={actionButtonClass}>
+                    <RotateCw size={14} />
+                    Rotate Right
+                  </button>
+                  <button onClick={() => applyGeometry({ type: 'flip', horizontal: true })} className={actionButtonClass}>
+                    <FlipHorizontal size={14} />
+                    Flip H
+                  </button>
+                  <button onClick={() => applyGeometry({ type: 'flip', horizontal: false })} className={actionButtonClass}>
+                    <FlipVertical size={14} />
+                    Flip V
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {editMode === 'mask' && (
+              <div>
+                <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300 mb-2">Prompt</label>
+                <textarea
+                  value={inpaintPrompt}
+                  onChange={(e) => setInpaintPrompt(e.target.value)}
+                  placeholder="What should appear in the painted region?"
+                  rows={3}
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-zinc-800 dark:text-zinc-100 resize-none focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                <button
+                  onClick={clearMask}
+                  className="mt-2 w-full px-3 py-2 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                >
+                  Clear Mask
+                </button>
+                {doc?.geometryEdited && (
+                  <div className="text-[11px] text-amber-600 dark:text-amber-400 mt-2">
+                    The image was cropped, rotated or flipped. Save it first, then inpaint the saved image.
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex items-center justify-end gap-2 pt-2">
               <button
                 onClick={onClose}
@@ -728,12 +1621,23 @@ export const ImageEditModal: React.FC<ImageEditModalProps> = ({ isOpen, image, o
               >
                 Cancel
               </button>
-              <button
-                onClick={handleSave}
-                className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold shadow-sm"
-              >
-                Save Drawing
-              </button>
+              {editMode === 'mask' ? (
+                <button
+                  onClick={handleInpaint}
+                  disabled={!inpaintPrompt.trim() || doc?.geometryEdited || isSubmittingInpaint}
+                  className="px-4 py-2 text-sm rounded-lg bg-red-500 hover:bg-red-400 text-white font-semibold shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Inpaint
+                </button>
+              ) : (
+                <button
+                  onClick={handleSave}
+                  disabled={!doc}
+                  className="px-4 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-semibold shadow-sm disabled:opacity-50"
+                >
+                  Save Drawing
+                </button>
+              )}
             </div>
           </div>
         </div>
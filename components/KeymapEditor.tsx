@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, RotateCcw, X } from 'lucide-react';
+import {
+  AppCommand,
+  COMMAND_CATEGORY_LABELS,
+  CommandCategory,
+  eventToChord,
+  formatChord,
+  resolveKeymap,
+  findKeymapConflicts,
+  fuzzyScore
+} from '../services/commandRegistry';
+import type { UserKeymap } from '../services/preferencesService';
+
+interface KeymapEditorProps {
+  commands: AppCommand[];
+  keymap: UserKeymap;
+  onKeymapChange: (keymap: UserKeymap) => void;
+  theme: 'dark' | 'light';
+}
+
+/**
+ * Shortcut list with per-command recording, unbinding and reset.
+ * Chords bound to more than one command are flagged.
+ */
+export const KeymapEditor: React.FC<KeymapEditorProps> = ({ commands, keymap, onKeymapChange, theme }) => {
+  const [filter, setFilter] = useState('');
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+
+  const bindings = useMemo(() => resolveKeymap(commands, keymap), [commands, keymap]);
+  const conflicts = useMemo(() => findKeymapConflicts(bindings), [bindings]);
+  const conflictingChords = useMemo(() => new Map(conflicts.map(conflict => [conflict.chord, conflict.commandIds])), [conflicts]);
+  const titles = useMemo(() => new Map(commands.map(command => [command.id, command.title])), [commands]);
+
+  // Capture the next chord while recording (before the app's own shortcut handling)
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+      const chord = eventToChord(e);
+      if (!chord) return;
+      onKeymapChange({ ...keymap, [recordingId]: [chord] });
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, keymap, onKeymapChange]);
+
+  const handleReset = (commandId: string) => {
+    const { [commandId]: _removed, ...rest } = keymap;
+    onKeymapChange(rest);
+  };
+
+  const visible = commands.filter(command => fuzzyScore(filter, `${command.title} ${command.category}`) !== null);
+  const categories = (Object.keys(COMMAND_CATEGORY_LABELS) as CommandCategory[])
+    .filter(category => visible.some(command => command.category === category));
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter commands..."
+        className={`w-full px-3 py-2 rounded-md text-sm border focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          theme === 'dark' ? 'bg-zinc-900 border-zinc-700 text-zinc-100' : 'bg-white border-zinc-300 text-zinc-900'
+        }`}
+      />
+
+      {conflicts.length > 0 && (
+        <div className="flex items-start gap-2 text-xs text-amber-500">
+          <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+          <span>
+            {conflicts.length} shortcut{conflicts.length > 1 ? 's are' : ' is'} assigned to more than one command.
+            Only the first command listed runs.
+          </span>
+        </div>
+      )}
+
+      <div className="max-h-72 overflow-y-auto space-y-4 pr-1">
+        {categories.map(category => (
+          <div key={category} className="space-y-1">
+            <div className={`text-xs font-semibold ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+              {COMMAND_CATEGORY_LABELS[category]}
+            </div>
+            {visible.filter(command => command.category === category).map(command => {
+              const chords = bindings[command.id] || [];
+              const overridden = keymap[command.id] !== undefined;
+              return (
+                <div key={command.id} className="group flex items-center gap-2 py-1">
+                  <span className="flex-1 min-w-0 truncate text-sm">{command.title}</span>
+                  {recordingId === command.id ? (
+                    <span className="px-2 py-0.5 rounded text-xs font-mono bg-blue-600 text-white">Press keys...</span>
+                  ) : (
+                    <button
+                      onClick={() => setRecordingId(command.id)}
+                      className="flex flex-wrap justify-end gap-1"
+                      title="Click to record a new shortcut"
+                    >
+                      {chords.length === 0 ? (
+                        <span className={`px-2 py-0.5 rounded text-xs ${theme === 'dark' ? 'text-zinc-600' : 'text-zinc-400'}`}>Unassigned</span>
+                      ) : chords.map(chord => {
+                        const others = (conflictingChords.get(chord) || []).filter(id => id !== command.id);
+                        return (
+                          <kbd
+                            key={chord}
+                            className={`px-2 py-0.5 rounded border text-xs font-mono ${
+                              others.length > 0
+                                ? 'border-red-500 text-red-500'
+                                : theme === 'dark' ? 'border-zinc-700 bg-zinc-800' : 'border-zinc-300 bg-white'
+                            }`}
+                            title={others.length > 0 ? `Also assigned to: ${others.map(id => titles.get(id)).join(', ')}` : undefined}
+                          >
+                            {formatChord(chord)}
+                          </kbd>
+                        );
+                      })}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onKeymapChange({ ...keymap, [command.id]: [] })}
+                    disabled={chords.length === 0}
+                    className="p-1 rounded opacity-0 group-hover:opacity-100 disabled:hidden hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-500 transition-opacity"
+                    title="Remove shortcut"
+                  >
+                    <X size={12} />
+                  </button>
+                  <button
+                    onClick={() => handleReset(command.id)}
+                    disabled={!overridden}
+                    className="p-1 rounded opacity-0 group-hover:opacity-100 disabled:invisible hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-500 transition-opacity"
+                    title="Reset to default"
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,49 +1,151 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Sparkles, Image as ImageIcon, Type, Trash2, ZoomIn, ZoomOut, Move, Download, Edit2, Check, X, LayoutTemplate, Bold, Italic, Save, Upload, Settings, Folder, Undo, Redo, ChevronDown, Copy, FileText, Square, Tag, Crosshair, BookImage, HelpCircle } from 'lucide-react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Sparkles, Image as ImageIcon, Type, Trash2, ZoomIn, ZoomOut, Move, Download, Edit2, Check, X, LayoutTemplate, Bold, Italic, Save, Upload, Settings, Folder, Undo, Redo, ChevronDown, Copy, FileText, Square, Tag, Crosshair, BookImage, HelpCircle, Bookmark, BookmarkPlus, History, Layers, Eye, EyeOff, Lock, Unlock, Group, Ungroup, ArrowUp, ArrowDown, BringToFront, SendToBack, Frame, FileDown, Magnet, Grid3x3, LayoutGrid, AlignStartVertical, AlignCenterVertical, AlignEndVertical, AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal, AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter, Map as MapIcon, Maximize, Focus, ClipboardPaste, Scissors, RotateCcw, SlidersHorizontal, ScanLine } from 'lucide-react';
 import { StorageServiceV2 } from '../services/storageV2';
-import { GenerationConfig, CanvasImage, MixboardSession, MixboardGeneration, StoredImageMeta } from '../types';
+import { GenerationConfig, CanvasImage, MixboardSession, MixboardGeneration, StoredImageMeta, GenerationJob, CanvasViewport, SavedViewport, EditDocument, ControlPreprocessor } from '../types';
 import { ImageEditModal } from './ImageEditModal';
 import { ProjectsPage } from './ProjectsPage';
 import { SettingsModal } from './SettingsModal';
-import { loadGeminiService } from '../services/lazyGeminiService';
+import { CanvasMinimap } from './CanvasMinimap';
+import { CommandPalette } from './CommandPalette';
+import { GenerationQueueService, MAX_VARIATIONS } from '../services/generationQueue';
+import { ProviderRegistry, DEFAULT_PROVIDER_ID } from '../services/imageProvider';
+import { PreferencesService, type UserKeymap } from '../services/preferencesService';
+import { AppCommand, eventToChord, resolveKeymap, findCommandForChord } from '../services/commandRegistry';
+import {
+  CanvasHistoryState,
+  EMPTY_CANVAS_HISTORY,
+  diffCanvasStates,
+  pushCanvasCommand,
+  travelCanvasHistory,
+  toPersistedCanvasHistory
+} from '../services/canvasHistory';
+import {
+  ZOrderAction,
+  expandToGroups,
+  selectEntities,
+  groupSelected,
+  ungroupSelected,
+  reorderSelected,
+  setLayerFlag,
+  scaleGroup
+} from '../services/canvasLayers';
+import {
+  FRAME_PRESETS,
+  FramePreset,
+  getFramePreset,
+  isFrame,
+  createFrame,
+  applyFramePreset,
+  withFrameContents,
+  getFrameContents,
+  assignFrames,
+  frameClipPath
+} from '../services/canvasFrames';
+import {
+  AlignMode,
+  DistributeAxis,
+  ArrangeMode,
+  getBounds,
+  alignSelected,
+  distributeSelected,
+  arrangeEntities
+} from '../services/canvasLayout';
+import {
+  MIN_ZOOM,
+  MAX_ZOOM,
+  ZOOM_STEP,
+  zoomAtPoint,
+  wheelZoomFactor,
+  fitBoundsToViewport,
+  VIEWPORT_CULL_MARGIN_PX,
+  FULL_RESOLUTION_CACHE_LIMIT,
+  getVisibleCanvasRect,
+  intersectsBounds,
+  needsFullResolution
+} from '../services/canvasViewport';
+import { CanvasClipboard, cloneEntities, type SystemClipboardContent } from '../services/canvasClipboard';
+import type { CanvasPlugin, CanvasPluginContext, CanvasPointerEvent, CanvasContextMenuTarget } from '../services/canvasPlugins';
+import {
+  BUILT_IN_ADJUSTMENT_PRESETS,
+  AdjustmentPreset,
+  ImageAdjustments,
+  adjustImage,
+  normalizeAdjustments
+} from '../utils/imageAdjustments';
+import { CONTROL_PREPROCESSORS } from '../utils/controlPreprocessors';
+import { createControlMap } from '../services/controlPreprocessing';
+
+type CanvasAttachOptions = {
+  // Zoom by a factor, keeping the given point (px relative to the canvas element) in place
+  onZoom: (factor: number, anchor: { x: number; y: number }) => void;
+  context: CanvasPluginContext;
+};
 
 type CanvasEngine = {
-  attach: (element: HTMLDivElement, options: { onZoom: (delta: number) => void }) => void;
+  attach: (element: HTMLDivElement, options: CanvasAttachOptions) => void;
   detach: () => void;
-  registerPlugin: (name: string, plugin: unknown) => void;
-  plugins: Record<string, unknown>;
+  registerPlugin: (plugin: CanvasPlugin) => void;
+  plugins: Record<string, CanvasPlugin>;
   pluginsLoaded: boolean;
 };
 
 const createCanvasEngine = (): CanvasEngine => {
   let attachedElement: HTMLDivElement | null = null;
   let cleanupCallbacks: Array<() => void> = [];
-  const plugins: Record<string, unknown> = {};
+  let activeContext: CanvasPluginContext | null = null;
+  const plugins: Record<string, CanvasPlugin> = {};
+
+  // Plugins are active while the engine is attached to a canvas
+  const activatePlugin = (plugin: CanvasPlugin) => {
+    if (!activeContext) return;
+    try {
+      plugin.activate?.(activeContext);
+    } catch (error) {
+      console.warn(`[Plugins] ${plugin.id} failed to activate`, error);
+    }
+  };
+
+  const deactivatePlugin = (plugin: CanvasPlugin) => {
+    try {
+      plugin.deactivate?.();
+    } catch (error) {
+      console.warn(`[Plugins] ${plugin.id} failed to deactivate`, error);
+    }
+  };
 
   const detach = () => {
     cleanupCallbacks.forEach(fn => fn());
     cleanupCallbacks = [];
     attachedElement = null;
+    if (activeContext) {
+      Object.values(plugins).forEach(deactivatePlugin);
+      activeContext = null;
+    }
   };
 
-  const attach = (element: HTMLDivElement, options: { onZoom: (delta: number) => void }) => {
+  const attach = (element: HTMLDivElement, options: CanvasAttachOptions) => {
     if (attachedElement === element && cleanupCallbacks.length) return;
 
     detach();
     attachedElement = element;
+    activeContext = options.context;
+    Object.values(plugins).forEach(activatePlugin);
 
+    // Wheel and trackpad pinch (ctrl+wheel) zoom around the pointer
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
-      const delta = e.deltaY > 0 ? -0.05 : 0.05;
-      options.onZoom(delta);
+      const rect = element.getBoundingClientRect();
+      options.onZoom(wheelZoomFactor(e), { x: e.clientX - rect.left, y: e.clientY - rect.top });
     };
 
     element.addEventListener('wheel', handleWheel, { passive: false });
     cleanupCallbacks.push(() => element.removeEventListener('wheel', handleWheel));
   };
 
-  const registerPlugin = (name: string, plugin: unknown) => {
-    plugins[name] = plugin;
+  const registerPlugin = (plugin: CanvasPlugin) => {
+    if (plugins[plugin.id]) deactivatePlugin(plugins[plugin.id]);
+    plugins[plugin.id] = plugin;
+    activatePlugin(plugin);
   };
 
   return {
@@ -57,6 +159,18 @@ const createCanvasEngine = (): CanvasEngine => {
 
 let persistentCanvasEngine: CanvasEngine | null = null;
 
+/**
+ * Call a plugin while rendering; a plugin that throws is left out of this render
+ */
+const renderPluginSafely = <T,>(plugin: CanvasPlugin, render: () => T, fallback: T): T => {
+  try {
+    return render();
+  } catch (error) {
+    console.warn(`[Plugins] ${plugin.id} failed to render`, error);
+    return fallback;
+  }
+};
+
 interface MixboardViewProps {
   theme: 'dark' | 'light';
   toggleTheme: () => void;
@@ -74,7 +188,8 @@ const DEFAULT_CONFIG: GenerationConfig = {
   aspect_ratio: '1:1',
   image_size: '1K',
   safety_filter: 'medium',
-  model: 'gemini-2.5-flash-image'
+  model: 'gemini-2.5-flash-image',
+  provider: DEFAULT_PROVIDER_ID
 };
 
 export const MixboardView: React.FC<MixboardViewProps> = ({
@@ -89,8 +204,13 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
 }) => {
   const [canvasImages, setCanvasImages] = useState<CanvasImage[]>([]);
   const [prompt, setPrompt] = useState('');
-  const [config, setConfig] = useState<GenerationConfig>(DEFAULT_CONFIG);
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [config, setConfig] = useState<GenerationConfig>(() =>
+    ProviderRegistry.normalizeConfig({ ...DEFAULT_CONFIG, provider: ProviderRegistry.getPreferredProviderId() })
+  );
+  const [queueJobs, setQueueJobs] = useState<GenerationJob[]>([]);
+  const [variationCount, setVariationCount] = useState(1);
+  const activeProvider = ProviderRegistry.resolve(config);
+  const activeModel = ProviderRegistry.getModel(config);
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
   const [zoom, setZoom] = useState(1);
   const [draggedImage, setDraggedImage] = useState<string | null>(null);
@@ -99,10 +219,18 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
   const [isSelecting, setIsSelecting] = useState(false);
   const [selectionBox, setSelectionBox] = useState<{ startX: number; startY: number; endX: number; endY: number } | null>(null);
   const [isPanning, setIsPanning] = useState(false);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
   const [showImageInput, setShowImageInput] = useState(true);  // Default to Image mode
   const [currentGeneration, setCurrentGeneration] = useState<MixboardGeneration | null>(null);
   const [editingTextId, setEditingTextId] = useState<string | null>(null);
-  const [contextMenu, setContextMenu] = useState({
+  const [contextMenu, setContextMenu] = useState<{
+    visible: boolean;
+    x: number;
+    y: number;
+    canvasX: number;
+    canvasY: number;
+    targetId?: string;       // Entity that was right-clicked
+  }>({
     visible: false,
     x: 0,
     y: 0,
@@ -113,17 +241,37 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
   // Edit modal state
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [editingImage, setEditingImage] = useState<CanvasImage | null>(null);
+  const [editingDocument, setEditingDocument] = useState<EditDocument | null>(null);
   const [isGeneratingThumbnails, setIsGeneratingThumbnails] = useState(false);
 
   // Tag dropdown state
   const [tagDropdownImageId, setTagDropdownImageId] = useState<string | null>(null);
 
+  // Adjustment presets (multi-select toolbar and edit modal)
+  const [userAdjustmentPresets, setUserAdjustmentPresets] = useState<AdjustmentPreset[]>([]);
+  const [presetMenuOpen, setPresetMenuOpen] = useState(false);
+
+  // Control maps being computed
+  const [preprocessingCount, setPreprocessingCount] = useState(0);
+
   // New UI state
   const [showProjectsPage, setShowProjectsPage] = useState(false);
   const [sessionDropdownOpen, setSessionDropdownOpen] = useState(false);
   const [editingSessionTitle, setEditingSessionTitle] = useState(false);
   const [newSessionTitle, setNewSessionTitle] = useState('');
   const [showSettings, setShowSettings] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [keymap, setKeymap] = useState<UserKeymap>({});
+  const [viewportMenuOpen, setViewportMenuOpen] = useState(false);
+  const [showLayersPanel, setShowLayersPanel] = useState(false);
+  const [showMinimap, setShowMinimap] = useState(true);
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+  // Full-resolution images shown on the canvas while zoomed in, by imageMetaId
+  const [fullResolutionUris, setFullResolutionUris] = useState<Record<string, string>>({});
+  const [frameMenuOpen, setFrameMenuOpen] = useState(false);
+  const [isExportingFrames, setIsExportingFrames] = useState(false);
+  const [, setPluginRenderTick] = useState(0);
+  const [arrangeMenuOpen, setArrangeMenuOpen] = useState(false);
 
   // Save system state
   const [isDirty, setIsDirty] = useState(false);
@@ -133,21 +281,106 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     return saved ? parseInt(saved, 10) : 5;
   });
 
-  // Undo/Redo state
-  const [historyPast, setHistoryPast] = useState<CanvasImage[][]>([]);
-  const [historyFuture, setHistoryFuture] = useState<CanvasImage[][]>([]);
-  const isUndoRedoAction = useRef(false);
-  const lastPushedState = useRef<string | null>(null);
-  const geminiServiceRef = useRef<Awaited<ReturnType<typeof loadGeminiService>> | null>(null);
+  // Undo/Redo state (command history, see services/canvasHistory)
+  const [canvasHistory, setCanvasHistory] = useState<CanvasHistoryState>(EMPTY_CANVAS_HISTORY);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const canvasHistoryRef = useRef<CanvasHistoryState>(EMPTY_CANVAS_HISTORY);
+  // Canvas state the next command is diffed against (null while a session loads)
+  const historyBaselineRef = useRef<CanvasImage[] | null>(null);
 
   const canvasRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const promptInputRef = useRef<HTMLTextAreaElement>(null);
   const canvasEngineRef = useRef<CanvasEngine | null>(persistentCanvasEngine);
+  const dragOriginsRef = useRef<Map<string, { x: number; y: number }> | null>(null);
+  const pluginContextRef = useRef<CanvasPluginContext | null>(null);
+  const viewportRef = useRef<{ zoom: number; panOffset: { x: number; y: number } }>({ zoom: 1, panOffset: { x: 0, y: 0 } });
   const rafRef = useRef<number | null>(null);
   const lastUpdateRef = useRef<number>(0);
+  // Canvas point under the mouse (paste target), null when the mouse is off the canvas
+  const pointerCanvasRef = useRef<{ x: number; y: number } | null>(null);
   const canvasImagesRef = useRef<CanvasImage[]>(canvasImages);
   const isDirtyRef = useRef(false);
   const dirtyTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Full-resolution images fetched on demand (canvas state only holds thumbnails for stored images)
+  const fullResolutionCacheRef = useRef(new Map<string, string>());
+
+  // Generation queue state (jobs outlive a single render, so callbacks read refs)
+  const currentSessionRef = useRef<MixboardSession | null>(currentSession);
+  const handledJobsRef = useRef(new Set<string>());
+  const handleJobUpdateRef = useRef<(job: GenerationJob, images?: string[], restored?: boolean) => void>(() => {});
+  const [generationConcurrency, setGenerationConcurrency] = useState(() => GenerationQueueService.getConcurrency());
+
+  // Full-resolution data for an image, loading it from the registry if the canvas only has the thumbnail
+  const resolveImageData = useCallback(async (image: CanvasImage): Promise<string | null> => {
+    if (image.dataUri) return image.dataUri;
+    if (!image.imageMetaId) return null;
+
+    const cached = fullResolutionCacheRef.current.get(image.imageMetaId);
+    if (cached) return cached;
+
+    const dataUri = await StorageServiceV2.loadImageByHashAsync(image.imageMetaId);
+    if (dataUri) {
+      const cache = fullResolutionCacheRef.current;
+      cache.set(image.imageMetaId, dataUri);
+      // Drop the oldest entries so large boards do not keep every image decoded
+      while (cache.size > FULL_RESOLUTION_CACHE_LIMIT) {
+        cache.delete(cache.keys().next().value as string);
+      }
+    }
+    return dataUri;
+  }, []);
+
+  // Thumbnails first; full-resolution images are only read for images without a
+  // thumbnail and otherwise fetched on demand (see resolveImageData)
+  const hydrateCanvasImages = useCallback(async (images: CanvasImage[]): Promise<CanvasImage[]> => {
+    const { loadThumbnail } = await import('../utils/imageUtils');
+    return Promise.all(images.map(async img => {
+      if (img.thumbnailPath && !img.thumbnailUri) {
+        const thumbnailUri = await loadThumbnail(img.thumbnailPath);
+        if (thumbnailUri) return { ...img, thumbnailUri };
+      }
+      if (!img.thumbnailUri && !img.dataUri && img.imageMetaId) {
+        const dataUri = await StorageServiceV2.loadImageByHashAsync(img.imageMetaId);
+        return dataUri ? { ...img, dataUri } : img;
+      }
+      return img;
+    }));
+  }, []);
+
+  const commitCanvasHistory = useCallback((state: CanvasHistoryState) => {
+    canvasHistoryRef.current = state;
+    setCanvasHistory(state);
+  }, []);
+
+  // Record canvas changes the debounced tracker has not picked up yet
+  const flushCanvasHistory = useCallback((): CanvasHistoryState => {
+    const baseline = historyBaselineRef.current;
+    const current = canvasImagesRef.current;
+    if (!baseline || baseline === current) return canvasHistoryRef.current;
+
+    historyBaselineRef.current = current;
+    const command = diffCanvasStates(baseline, current);
+    if (command) {
+      commitCanvasHistory(pushCanvasCommand(canvasHistoryRef.current, command));
+    }
+    return canvasHistoryRef.current;
+  }, [commitCanvasHistory]);
+
+  // Canvas plugins: re-render on request and run hooks without letting one plugin break the canvas
+  const requestPluginRender = useCallback(() => {
+    setPluginRenderTick(tick => tick + 1);
+  }, []);
+
+  const forEachPlugin = useCallback((visit: (plugin: CanvasPlugin) => void) => {
+    Object.values(canvasEngineRef.current?.plugins || {}).forEach(plugin => {
+      try {
+        visit(plugin);
+      } catch (error) {
+        console.warn(`[Plugins] ${plugin.id} failed`, error);
+      }
+    });
+  }, []);
 
   const closeContextMenu = useCallback(() => {
     setContextMenu({
@@ -159,13 +392,6 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     });
   }, []);
 
-  const getGeminiService = useCallback(async () => {
-    if (!geminiServiceRef.current) {
-      geminiServiceRef.current = await loadGeminiService();
-    }
-    return geminiServiceRef.current;
-  }, []);
-
   // Start timer to mark as dirty 30 seconds after save
   const startDirtyTimer = useCallback(() => {
     // Clear any existing timer
@@ -186,6 +412,9 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     if (!currentSession) return;
 
     try {
+      // The saved history has to match the saved canvas
+      const history = toPersistedCanvasHistory(flushCanvasHistory());
+
       // Strip thumbnailUri from images before saving to reduce JSON size
       // Thumbnails are loaded from disk on session open
       const imagesToSave = images.map(img => {
@@ -203,7 +432,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
         updated_at: new Date().toISOString()
       };
 
-      StorageServiceV2.saveSession(updatedSession);
+      await StorageServiceV2.saveSessionAsync(updatedSession, history);
       onSessionUpdate(updatedSession);
       isDirtyRef.current = false;
       setIsDirty(false);
@@ -214,13 +443,17 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     } catch (error) {
       console.error('[MixboardView] Failed to save session:', error);
     }
-  }, [currentSession, onSessionUpdate, startDirtyTimer]);
+  }, [currentSession, onSessionUpdate, startDirtyTimer, flushCanvasHistory]);
 
   // Keep ref in sync with state
   useEffect(() => {
     canvasImagesRef.current = canvasImages;
   }, [canvasImages]);
 
+  useEffect(() => {
+    currentSessionRef.current = currentSession;
+  }, [currentSession]);
+
   // Manual save function (called by user or auto-save)
   const handleManualSave = useCallback(async () => {
     if (!currentSession) return;
@@ -228,48 +461,39 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     await saveCanvasToSession(canvasImagesRef.current);
   }, [currentSession, saveCanvasToSession]);
 
-  // Helper to push current state to history
-  const pushToHistory = useCallback((currentState: CanvasImage[]) => {
-    setHistoryPast(prev => {
-      const newPast = [...prev, currentState];
-      // Limit history to 50 states to prevent memory issues
-      if (newPast.length > 50) {
-        return newPast.slice(1);
-      }
-      return newPast;
-    });
-    // Clear future when new action is performed
-    setHistoryFuture([]);
-  }, []);
+  // Undo/redo to any step of the history (0 = as the session was opened)
+  const travelHistory = useCallback(async (target: number) => {
+    const state = flushCanvasHistory();
+    if (target < 0 || target > state.commands.length || target === state.position) return;
+
+    const sessionId = currentSessionRef.current?.session_id;
+    const images = travelCanvasHistory(canvasImagesRef.current, state, target);
+    historyBaselineRef.current = images;
+    canvasImagesRef.current = images;
+    commitCanvasHistory({ ...state, position: target });
+    setCanvasImages(images);
+    console.log(`[History] Moved from step ${state.position} to ${target}`);
+
+    // Images brought back from a saved history only carry their registry reference
+    const needsData = images.filter(img => img.imageMetaId && !img.dataUri && !img.thumbnailUri);
+    if (needsData.length === 0) return;
+
+    const loaded = new Map((await hydrateCanvasImages(needsData)).map(img => [img.id, img]));
+    if (currentSessionRef.current?.session_id !== sessionId) return;
+    setCanvasImages(prev => prev.map(img => {
+      const hydrated = loaded.get(img.id);
+      if (!hydrated || img.dataUri || img.thumbnailUri || hydrated.imageMetaId !== img.imageMetaId) return img;
+      return { ...img, dataUri: hydrated.dataUri, thumbnailUri: hydrated.thumbnailUri };
+    }));
+  }, [flushCanvasHistory, commitCanvasHistory, hydrateCanvasImages]);
 
-  // Undo/Redo functionality
   const handleUndo = useCallback(() => {
-    if (historyPast.length === 0) return;
-
-    const previousState = historyPast[historyPast.length - 1];
-    const newPast = historyPast.slice(0, -1);
-
-    isUndoRedoAction.current = true;
-    setHistoryFuture(prev => [...prev, canvasImages]);
-    setHistoryPast(newPast);
-    setCanvasImages(previousState);
-
-    console.log('[Undo] Restored previous state');
-  }, [historyPast, canvasImages]);
+    void travelHistory(flushCanvasHistory().position - 1);
+  }, [travelHistory, flushCanvasHistory]);
 
   const handleRedo = useCallback(() => {
-    if (historyFuture.length === 0) return;
-
-    const nextState = historyFuture[historyFuture.length - 1];
-    const newFuture = historyFuture.slice(0, -1);
-
-    isUndoRedoAction.current = true;
-    setHistoryPast(prev => [...prev, canvasImages]);
-    setHistoryFuture(newFuture);
-    setCanvasImages(nextState);
-
-    console.log('[Redo] Restored next state');
-  }, [historyFuture, canvasImages]);
+    void travelHistory(flushCanvasHistory().position + 1);
+  }, [travelHistory, flushCanvasHistory]);
 
   // Helper function to get center of visible canvas area
   const getVisibleCanvasCenter = useCallback(() => {
@@ -287,72 +511,134 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     return { x: canvasCenterX, y: canvasCenterY };
   }, [panOffset.x, panOffset.y, zoom]);
 
-  // Load canvas from session when session changes
+  // Canvas size in screen px, for culling and the minimap
   useEffect(() => {
-    const loadCanvasImages = async () => {
-      if (currentSession && currentSession.canvas_images) {
-        console.log('[MixboardView] Loading canvas images from session:', currentSession.canvas_images.length);
-
-        // Load thumbnails from disk if they exist
-        const { loadThumbnail } = await import('../utils/imageUtils');
-        const loadedImages = currentSession.canvas_images.map(img => {
-          if (img.thumbnailPath && !img.thumbnailUri) {
-            // Load thumbnail from disk
-            const thumbnailUri = loadThumbnail(img.thumbnailPath);
-            return thumbnailUri ? { ...img, thumbnailUri } : img;
-          }
-          return img;
-        });
+    const canvasElement = canvasRef.current;
+    if (!canvasElement) return;
 
-        setCanvasImages(loadedImages);
-        // Reset history when loading a new session
-        setHistoryPast([]);
-        setHistoryFuture([]);
-        lastPushedState.current = null;
-      } else if (currentSession) {
-        console.log('[MixboardView] Session has no canvas images, starting with empty canvas');
-        setCanvasImages([]);
-        setHistoryPast([]);
-        setHistoryFuture([]);
-        lastPushedState.current = null;
-      }
-    };
+    const updateSize = () => setCanvasSize({ width: canvasElement.clientWidth, height: canvasElement.clientHeight });
+    updateSize();
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(canvasElement);
+    return () => observer.disconnect();
+  }, [currentSession?.session_id]);
 
-    loadCanvasImages();
+  // Restore the session's last viewport when it opens (new sessions start at the origin)
+  useEffect(() => {
+    setZoom(currentSession?.viewport?.zoom ?? 1);
+    setPanOffset(currentSession?.viewport?.panOffset ?? { x: 0, y: 0 });
+    setViewportMenuOpen(false);
   }, [currentSession?.session_id]);
 
-  // Track canvas changes for undo/redo (but exclude undo/redo actions themselves and generations)
+  // Persist the viewport once panning/zooming settles
   useEffect(() => {
-    // Skip if this is an undo/redo action
-    if (isUndoRedoAction.current) {
-      isUndoRedoAction.current = false;
-      return;
-    }
+    const sessionId = currentSessionRef.current?.session_id;
+    if (!sessionId) return;
 
-    // Skip if generating
-    if (isGenerating) {
-      return;
-    }
+    const timeout = setTimeout(() => {
+      const session = currentSessionRef.current;
+      // Dropped if the session was switched meanwhile, so its viewport is not overwritten
+      if (!session || session.session_id !== sessionId) return;
+      const stored = session.viewport;
+      if (stored && stored.zoom === zoom && stored.panOffset.x === panOffset.x && stored.panOffset.y === panOffset.y) return;
+
+      const viewport: CanvasViewport = { zoom, panOffset };
+      const updatedSession: MixboardSession = { ...session, viewport };
+      currentSessionRef.current = updatedSession;
+      StorageServiceV2.saveViewportAsync(sessionId, viewport, session.saved_viewports || [])
+        .catch(err => console.error('[MixboardView] Failed to save viewport:', err));
+      onSessionUpdate(updatedSession);
+    }, 500);
 
-    // Skip on initial load when canvas is empty
-    if (canvasImages.length === 0 && !lastPushedState.current) {
-      return;
-    }
+    return () => clearTimeout(timeout);
+  }, [zoom, panOffset, onSessionUpdate]);
+
+  const updateSavedViewports = useCallback((savedViewports: SavedViewport[]) => {
+    const session = currentSessionRef.current;
+    if (!session) return;
+
+    const viewport: CanvasViewport = { zoom, panOffset };
+    const updatedSession: MixboardSession = { ...session, viewport, saved_viewports: savedViewports };
+    currentSessionRef.current = updatedSession;
+    StorageServiceV2.saveViewportAsync(session.session_id, viewport, savedViewports)
+      .catch(err => console.error('[MixboardView] Failed to save viewport:', err));
+    onSessionUpdate(updatedSession);
+  }, [zoom, panOffset, onSessionUpdate]);
+
+  const handleSaveViewport = useCallback(() => {
+    const existing = currentSessionRef.current?.saved_viewports || [];
+    const name = window.prompt('Name this view:', `View ${existing.length + 1}`);
+    if (!name || !name.trim()) return;
+
+    updateSavedViewports([
+      ...existing,
+      {
+        id: `viewport-${Date.now()}`,
+        name: name.trim(),
+        zoom,
+        panOffset,
+        created_at: new Date().toISOString()
+      }
+    ]);
+  }, [zoom, panOffset, updateSavedViewports]);
 
-    // Debounce history updates to avoid too many entries for drag operations
-    const timeout = setTimeout(() => {
-      const currentStateStr = JSON.stringify(canvasImages);
+  const handleJumpToViewport = useCallback((viewport: SavedViewport) => {
+    setZoom(viewport.zoom);
+    setPanOffset(viewport.panOffset);
+    setViewportMenuOpen(false);
+  }, []);
+
+  const handleDeleteViewport = useCallback((viewportId: string) => {
+    const existing = currentSessionRef.current?.saved_viewports || [];
+    updateSavedViewports(existing.filter(viewport => viewport.id !== viewportId));
+  }, [updateSavedViewports]);
+
+  // Load canvas from session when session changes
+  useEffect(() => {
+    const loadCanvasImages = async () => {
+      // Stop tracking until the new session's canvas is in place
+      historyBaselineRef.current = null;
+      commitCanvasHistory(EMPTY_CANVAS_HISTORY);
+
+      if (currentSession) {
+        console.log('[MixboardView] Loading canvas images from session:', (currentSession.canvas_images || []).length);
+
+        const [loadedImages, savedHistory] = await Promise.all([
+          hydrateCanvasImages(currentSession.canvas_images || []),
+          StorageServiceV2.loadCanvasHistoryAsync(currentSession.session_id)
+        ]);
+        if (currentSessionRef.current?.session_id !== currentSession.session_id) return;
+        fullResolutionCacheRef.current.clear();
+        setFullResolutionUris({});
 
-      // Only push if there's actually a change from the last pushed state
-      if (lastPushedState.current !== currentStateStr) {
-        pushToHistory(canvasImages);
-        lastPushedState.current = currentStateStr;
-        console.log('[History] State pushed to history');
+        setCanvasImages(loadedImages);
+        canvasImagesRef.current = loadedImages;
+        historyBaselineRef.current = loadedImages;
+        commitCanvasHistory(savedHistory
+          ? { commands: savedHistory.commands, position: savedHistory.position }
+          : EMPTY_CANVAS_HISTORY);
+      }
+
+      if (currentSession) {
+        // Resume queued generations and apply any that finished while the session was closed
+        const jobs = GenerationQueueService.restore(currentSession.session_id);
+        setQueueJobs(GenerationQueueService.getJobs(currentSession.session_id));
+        jobs
+          .filter(job => job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled')
+          .forEach(job => handleJobUpdateRef.current(job, undefined, true));
+      } else {
+        setQueueJobs([]);
       }
-    }, 500); // 500ms debounce
+    };
+
+    loadCanvasImages();
+  }, [currentSession?.session_id]);
 
+  // Record canvas changes as history commands once they settle (debounced so a drag is one step)
+  useEffect(() => {
+    const timeout = setTimeout(flushCanvasHistory, 500);
     return () => clearTimeout(timeout);
-  }, [canvasImages, isGenerating, pushToHistory]); // Don't include historyPast to avoid extra renders
+  }, [canvasImages, flushCanvasHistory]);
 
   // Migration: Generate thumbnails for existing images without thumbnails
   useEffect(() => {
@@ -379,7 +665,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
 
                 // Save thumbnail to disk (Electron) or keep in memory (web)
                 const { thumbnailUri: savedThumbnailUri, thumbnailPath } = currentSession
-                  ? saveThumbnail(currentSession.session_id, img.id, thumbnailUri)
+                  ? await saveThumbnail(currentSession.session_id, img.id, thumbnailUri)
                   : { thumbnailUri };
 
                 console.log(`[Migration] Generated and saved thumbnail for existing image:`, img.id);
@@ -436,7 +722,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       // Save when component unmounts or session changes
       if (isDirtyRef.current && currentSession) {
         console.log('[SaveOnExit] Saving before unmount...');
-        // Use sync save for unmount to ensure it completes
+        // Chained behind in-flight saves of this session, so an older autosave cannot land after it
         const imagesToSave = canvasImagesRef.current.map(img => {
           if (img.thumbnailPath) {
             const { thumbnailUri, ...imageWithoutUri } = img;
@@ -449,7 +735,9 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           canvas_images: imagesToSave,
           updated_at: new Date().toISOString()
         };
-        StorageServiceV2.saveSession(updatedSession);
+        const history = toPersistedCanvasHistory(flushCanvasHistory());
+        StorageServiceV2.saveSessionAsync(updatedSession, history)
+          .catch(err => console.error('[SaveOnExit] Failed to save session:', err));
       }
     };
   }, [currentSession]); // Only depend on currentSession, not canvasImages or isDirty
@@ -524,7 +812,8 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
 
     const scheduleId = schedule(() => {
       engine.attach(canvasElement, {
-        onZoom: (delta) => setZoom(prev => Math.max(0.1, Math.min(3, prev + delta)))
+        onZoom: (factor, anchor) => pluginContextRef.current?.commands.zoomBy(factor, anchor),
+        context: pluginContextRef.current!
       });
     });
 
@@ -536,8 +825,9 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       try {
         const { loadOptionalCanvasPlugins } = await import('../services/canvasPlugins');
         if (!cancelled) {
-          await loadOptionalCanvasPlugins(engine);
+          await loadOptionalCanvasPlugins(engine, { grid: Grid3x3, snap: Magnet });
           engine.pluginsLoaded = true;
+          requestPluginRender();
         }
       } catch (error) {
         console.warn('[MixboardView] Optional canvas plugins failed to load', error);
@@ -557,7 +847,285 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     };
   }, [currentSession?.session_id]);
 
-  // Handle generation (image or text) with full history tracking
+  // Persist a session update and keep the ref current for queue callbacks
+  const commitSession = useCallback((updatedSession: MixboardSession) => {
+    currentSessionRef.current = updatedSession;
+    StorageServiceV2.saveSessionAsync(updatedSession).catch(err => {
+      console.error('[MixboardView] Failed to save session:', err);
+      // Let the next autosave write it again
+      isDirtyRef.current = true;
+      setIsDirty(true);
+    });
+    onSessionUpdate(updatedSession);
+  }, [onSessionUpdate]);
+
+  // Apply a change to the generation record a queued job fulfils
+  const updateJobGeneration = useCallback((generationId: string, patch: Partial<MixboardGeneration>) => {
+    const session = currentSessionRef.current;
+    if (!session) return null;
+
+    const existing = session.generations.find(gen => gen.generation_id === generationId);
+    if (!existing) return null;
+
+    const updatedGeneration: MixboardGeneration = { ...existing, ...patch };
+    commitSession({
+      ...session,
+      generations: session.generations.map(gen => gen.generation_id === generationId ? updatedGeneration : gen),
+      updated_at: new Date().toISOString()
+    });
+    return updatedGeneration;
+  }, [commitSession]);
+
+  // Place a completed image job's outputs on the canvas (as a row) and complete its generation record
+  const placeJobOutputs = useCallback(async (job: GenerationJob, outputs: Array<{ hash: string; dataUri: string }>) => {
+    setIsGeneratingThumbnails(true);
+
+    const { generateThumbnail, saveThumbnail, getImageDimensions } = await import('../utils/imageUtils');
+    const placed: Array<{ meta: StoredImageMeta; canvasImage: CanvasImage }> = [];
+
+    for (const [index, output] of outputs.entries()) {
+      const entry = StorageServiceV2.getImageByHash(output.hash);
+      if (!entry) continue;
+
+      let dimensions: { width: number; height: number };
+      try {
+        dimensions = await getImageDimensions(output.dataUri);
+      } catch (error) {
+        console.error('Failed to load output image:', error);
+        continue;
+      }
+
+      // Generate thumbnail for the output image
+      let thumbnailPath: string | undefined;
+      let savedThumbnailUri: string | undefined;
+      const imageId = `img-${Date.now()}-${index}`;
+
+      try {
+        const thumbnailUri = await generateThumbnail(output.dataUri, 384, 0.90);
+
+        // Save thumbnail to disk (Electron) or keep in memory (web)
+        const result = await saveThumbnail(job.session_id, imageId, thumbnailUri);
+
+        savedThumbnailUri = result.thumbnailUri;
+        thumbnailPath = result.thumbnailPath;
+
+        console.log(`[Generation] Thumbnail generated:`, imageId, `Path: ${thumbnailPath || 'in-memory'}`);
+      } catch (error) {
+        console.error('Failed to generate thumbnail for output image:', error);
+        // Continue without thumbnail
+      }
+
+      // Create output image metadata with thumbnail path (if available)
+      const meta: StoredImageMeta = {
+        id: output.hash,  // Use content hash as ID (not entry.id which is a UUID)
+        filename: entry.file_path.split('/').pop() || '',
+        hash: output.hash,
+        size_bytes: entry.size_bytes,
+        thumbnailPath  // Include thumbnail path for history/graph display (undefined if failed)
+      };
+
+      const imageWidth = 300;
+      const imageHeight = (imageWidth * dimensions.height) / dimensions.width;
+
+      placed.push({
+        meta,
+        canvasImage: {
+          id: imageId,
+          dataUri: output.dataUri,
+          thumbnailUri: savedThumbnailUri,
+          thumbnailPath,
+          x: 0,
+          y: 0,
+          width: imageWidth,
+          height: imageHeight,
+          selected: false,
+          originalWidth: dimensions.width,
+          originalHeight: dimensions.height,
+          generationId: job.generation_id,
+          imageMetaId: meta.id
+        }
+      });
+    }
+
+    // Lay candidates out as a row centered on the visible canvas, tops aligned
+    const gap = 20;
+    const center = getVisibleCanvasCenter();
+    const rowWidth = placed.reduce((sum, { canvasImage }) => sum + canvasImage.width, 0) + gap * Math.max(0, placed.length - 1);
+    const rowHeight = Math.max(0, ...placed.map(({ canvasImage }) => canvasImage.height));
+    let nextX = center.x - rowWidth / 2;
+    const newCanvasImages = placed.map(({ canvasImage }) => {
+      const positioned = { ...canvasImage, x: nextX, y: center.y - rowHeight / 2 };
+      nextX += canvasImage.width + gap;
+      return positioned;
+    });
+
+    // Complete generation record
+    const session = currentSessionRef.current;
+    const existingGeneration = session?.generations.find(gen => gen.generation_id === job.generation_id);
+    const completedGeneration: MixboardGeneration | null = existingGeneration
+      ? {
+          ...existingGeneration,
+          status: 'completed',
+          output_images: placed.map(({ meta }) => meta),
+          output_texts: job.result?.output_texts,
+          error_message: undefined,
+          generation_time_ms: job.started_at && job.completed_at
+            ? Date.parse(job.completed_at) - Date.parse(job.started_at)
+            : undefined
+        }
+      : null;
+
+    setCanvasImages(prev => {
+      const updatedCanvasImages = [...prev, ...newCanvasImages];
+      const latestSession = currentSessionRef.current;
+      if (!latestSession) return updatedCanvasImages;
+
+      // Update session with new generation and canvas state
+      commitSession({
+        ...latestSession,
+        generations: completedGeneration
+          ? latestSession.generations.map(gen => gen.generation_id === job.generation_id ? completedGeneration : gen)
+          : latestSession.generations,
+        canvas_images: updatedCanvasImages,
+        updated_at: new Date().toISOString()
+      });
+
+      return updatedCanvasImages;
+    });
+
+    if (completedGeneration) {
+      setCurrentGeneration(prev => prev?.generation_id === job.generation_id ? completedGeneration : prev);
+    }
+    setIsGeneratingThumbnails(false);
+    GenerationQueueService.acknowledge(job.job_id);
+  }, [commitSession, getVisibleCanvasCenter]);
+
+  // Place a completed text job's output on the canvas
+  const placeJobText = useCallback((job: GenerationJob) => {
+    const text = job.result?.output_texts[0];
+    if (!text) return;
+
+    // Add generated text to canvas
+    const textWidth = 400;
+    const textHeight = 200;
+    const fontSize = 16;
+
+    // Place text at center of visible canvas
+    const center = getVisibleCanvasCenter();
+
+    const newCanvasText: CanvasImage = {
+      id: `text-${Date.now()}`,
+      type: 'text',
+      text,
+      fontSize: fontSize,
+      fontWeight: 'normal',
+      fontStyle: 'normal',
+      fontFamily: 'Inter, system-ui, sans-serif',
+      x: center.x - textWidth / 2,
+      y: center.y - textHeight / 2,
+      width: textWidth,
+      height: textHeight,
+      selected: false,
+      originalWidth: textWidth,
+      originalHeight: textHeight,
+      generationId: job.generation_id
+    };
+
+    setCanvasImages(prev => {
+      const updatedCanvasImages = [...prev, newCanvasText];
+      const session = currentSessionRef.current;
+
+      // Update session with canvas state only (text generations are not stored in history)
+      if (session) {
+        commitSession({
+          ...session,
+          canvas_images: updatedCanvasImages,
+          updated_at: new Date().toISOString()
+        });
+      }
+
+      return updatedCanvasImages;
+    });
+    GenerationQueueService.acknowledge(job.job_id);
+  }, [commitSession, getVisibleCanvasCenter]);
+
+  // Mirror queue job state into the session (status, canvas placement, errors)
+  const handleJobUpdate = useCallback((job: GenerationJob, images?: string[], restored = false) => {
+    if (job.status === 'queued' || job.status === 'pending') {
+      if (job.mode !== 'text') {
+        const updated = updateJobGeneration(job.generation_id, { status: job.status, error_message: job.error_message });
+        if (updated) {
+          setCurrentGeneration(prev => prev?.generation_id === job.generation_id ? updated : prev);
+        }
+      }
+      return;
+    }
+
+    // Finished jobs are handled once, whether they arrive live or from a restored queue
+    if (handledJobsRef.current.has(job.job_id)) return;
+    handledJobsRef.current.add(job.job_id);
+
+    if (job.status === 'completed') {
+      if (job.mode === 'text') {
+        placeJobText(job);
+        return;
+      }
+
+      void (async () => {
+        const loaded = await Promise.all((job.result?.output_hashes || []).map(async (hash, index) => ({
+          hash,
+          dataUri: images?.[index] || await StorageServiceV2.loadImageByHashAsync(hash)
+        })));
+        const outputs = loaded.filter((output): output is { hash: string; dataUri: string } => !!output.dataUri);
+        if (outputs.length > 0) {
+          await placeJobOutputs(job, outputs);
+          return;
+        }
+
+        // Model returned text only; keep the record so the texts show in history
+        const updated = updateJobGeneration(job.generation_id, {
+          status: 'completed',
+          output_texts: job.result?.output_texts
+        });
+        if (updated) {
+          setCurrentGeneration(prev => prev?.generation_id === job.generation_id ? updated : prev);
+        }
+      })();
+    } else if (job.status === 'failed') {
+      if (job.mode !== 'text') {
+        // Mark generation as failed (only image generations are persisted)
+        const updated = updateJobGeneration(job.generation_id, {
+          status: 'failed',
+          error_message: job.error_message
+        });
+        if (updated) {
+          setCurrentGeneration(prev => prev?.generation_id === job.generation_id ? updated : prev);
+        }
+      }
+      if (!restored) {
+        alert('Generation failed: ' + job.error_message);
+      }
+    } else if (job.status === 'cancelled' && job.mode !== 'text') {
+      const updated = updateJobGeneration(job.generation_id, { status: 'cancelled' });
+      if (updated) {
+        setCurrentGeneration(prev => prev?.generation_id === job.generation_id ? updated : prev);
+      }
+    }
+
+    GenerationQueueService.acknowledge(job.job_id);
+  }, [placeJobOutputs, placeJobText, updateJobGeneration]);
+  handleJobUpdateRef.current = handleJobUpdate;
+
+  // Subscribe to queue events for the lifetime of the view
+  useEffect(() => {
+    return GenerationQueueService.subscribe(({ job, images }) => {
+      if (job.session_id !== currentSessionRef.current?.session_id) return;
+      setQueueJobs(GenerationQueueService.getJobs(job.session_id));
+      handleJobUpdateRef.current(job, images);
+    });
+  }, []);
+
+  // Handle generation (image or text): records the request and hands it to the queue
   const handleGenerate = async () => {
     if (!prompt && canvasImages.filter(img => img.selected).length === 0) return;
     if (!currentSession) {
@@ -565,43 +1133,31 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       return;
     }
 
-    const existingGenerations = currentSession.generations || [];
-
-    setIsGenerating(true);
-
     const generationId = `gen-${Date.now()}`;
     const selectedImages = canvasImages.filter(img => img.selected && (!img.type || img.type === 'image'));
-    const prepareSelectedImages = () => {
+    const prepareSelectedImages = async () => {
       const inputImageMetas: StoredImageMeta[] = [];
-      const controlImageData: string[] = [];
-      const referenceImageData: string[] = [];
-      const contextImageData: string[] = [];
+      const jobInputs: GenerationJob['inputs'] = [];
+      const inputData: string[] = [];
 
       for (const selectedImg of selectedImages) {
-        if (!selectedImg.dataUri) continue;
-
-        // Separate images by their tag
-        if (selectedImg.tag === 'control') {
-          controlImageData.push(selectedImg.dataUri);
-        } else if (selectedImg.tag === 'reference') {
-          referenceImageData.push(selectedImg.dataUri);
-        } else {
-          // Untagged images are context images
-          contextImageData.push(selectedImg.dataUri);
-        }
+        // Stored images may not be loaded yet; the queue reads those by hash
+        if (!selectedImg.dataUri && !selectedImg.imageMetaId) continue;
 
         // Determine storage role based on tag
         const storageRole = selectedImg.tag || 'reference';
 
         if (selectedImg.imageMetaId) {
+          const existingEntry = StorageServiceV2.getImageByHash(selectedImg.imageMetaId);
           inputImageMetas.push({
             id: selectedImg.imageMetaId,
-            filename: `input_${selectedImg.imageMetaId}.png`,
-            size_bytes: selectedImg.dataUri.length,
+            filename: existingEntry?.file_path.split('/').pop() || `input_${selectedImg.imageMetaId}.png`,
+            size_bytes: existingEntry?.size_bytes ?? selectedImg.dataUri?.length,
             thumbnailPath: selectedImg.thumbnailPath
           });
-        } else {
-          const { hash, entry } = StorageServiceV2.registerImage(selectedImg.dataUri, undefined, storageRole);
+          jobInputs.push({ hash: selectedImg.imageMetaId, tag: selectedImg.tag });
+        } else if (selectedImg.dataUri) {
+          const { hash, entry } = await StorageServiceV2.registerImageAsync(selectedImg.dataUri, undefined, storageRole);
           inputImageMetas.push({
             id: hash,  // Use content hash as ID (not entry.id which is a UUID)
             filename: entry.file_path.split('/').pop() || '',
@@ -609,23 +1165,35 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
             size_bytes: entry.size_bytes,
             thumbnailPath: selectedImg.thumbnailPath
           });
+          jobInputs.push({ hash, tag: selectedImg.tag });
         }
+
+        // Images are separated by tag (control, reference, context) when the job runs
+        inputData.push(selectedImg.dataUri || '');
       }
 
-      return { inputImageMetas, controlImageData, referenceImageData, contextImageData };
+      return { inputImageMetas, jobInputs, inputData };
     };
 
-    const { inputImageMetas, controlImageData, referenceImageData, contextImageData } = prepareSelectedImages();
-    const startTime = Date.now();
-
+    let prepared: Awaited<ReturnType<typeof prepareSelectedImages>>;
     try {
-      // Create generation record BEFORE API call (only persisted for image generations)
+      prepared = await prepareSelectedImages();
+    } catch (error) {
+      console.error('Generation failed:', error);
+      alert('Generation failed: ' + (error as Error).message);
+      return;
+    }
+    const { inputImageMetas, jobInputs, inputData } = prepared;
+    const generationPrompt = prompt || (showImageInput ? 'Continue the creative exploration' : 'Generate text');
+
+    if (showImageInput) {
+      // Create generation record BEFORE the job runs (only persisted for image generations)
       const newGeneration: MixboardGeneration = {
         generation_id: generationId,
         timestamp: new Date().toISOString(),
-        status: 'pending',
-        prompt: prompt || (showImageInput ? 'Continue the creative exploration' : 'Generate text'),
-        input_images: inputImageMetas,  // Save selected images even for text requests
+        status: 'queued',
+        prompt: generationPrompt,
+        input_images: inputImageMetas,
         output_images: [],
         parameters: config,
         canvas_state: {
@@ -638,224 +1206,100 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           .filter(Boolean) as string[]
       };
 
+      const session = currentSessionRef.current || currentSession;
+      commitSession({
+        ...session,
+        generations: [...(session.generations || []), newGeneration],
+        updated_at: new Date().toISOString()
+      });
       setCurrentGeneration(newGeneration);
+    }
 
-      if (showImageInput) {
-        // IMAGE MODE: Generate image
-        // Call API for image generation
-        // Pass images separated by their tags: control, reference, and context (untagged)
-        const service = await getGeminiService();
-        const output = await service.generateImage(
-          newGeneration.prompt,
-          config,
-          controlImageData.length > 0 ? controlImageData : undefined,
-          referenceImageData.length > 0 ? referenceImageData : undefined,
-          contextImageData.length > 0 ? contextImageData : undefined,
-          currentUser?.displayName
-        );
-
-      if (output.images && output.images.length > 0) {
-        const imageDataUri = `data:image/png;base64,${output.images[0]}`;
-
-        // Save output image to storage
-        const { hash, entry } = StorageServiceV2.registerImage(imageDataUri, undefined, 'output');
-
-        // Add generated image to canvas
-        const img = new Image();
-        img.onload = async () => {
-          // Generate thumbnail for the output image
-          setIsGeneratingThumbnails(true);
-
-          let thumbnailPath: string | undefined;
-          let savedThumbnailUri: string | undefined;
-          let imageId = `img-${Date.now()}`;
-
-          try {
-            const { generateThumbnail, saveThumbnail } = await import('../utils/imageUtils');
-            const thumbnailUri = await generateThumbnail(imageDataUri, 384, 0.90);
-
-            // Save thumbnail to disk (Electron) or keep in memory (web)
-            const result = currentSession
-              ? saveThumbnail(currentSession.session_id, imageId, thumbnailUri)
-              : { thumbnailUri };
-
-            savedThumbnailUri = result.thumbnailUri;
-            thumbnailPath = result.thumbnailPath;
-
-            console.log(`[Generation] Thumbnail generated:`, imageId, `Path: ${thumbnailPath || 'in-memory'}`);
-          } catch (error) {
-            console.error('Failed to generate thumbnail for output image:', error);
-            // Continue without thumbnail
-          }
-
-          // Create output image metadata with thumbnail path (if available)
-          const outputImageMeta: StoredImageMeta = {
-            id: hash,  // Use content hash as ID (not entry.id which is a UUID)
-            filename: entry.file_path.split('/').pop() || '',
-            hash,
-            size_bytes: entry.size_bytes,
-            thumbnailPath  // Include thumbnail path for history/graph display (undefined if failed)
-          };
-
-          // Calculate duration
-          const duration = Date.now() - startTime;
-
-          // Complete generation record
-          const completedGeneration: MixboardGeneration = {
-            ...newGeneration,
-            status: 'completed',
-            input_images: inputImageMetas,
-            output_images: [outputImageMeta],
-            output_texts: output.texts,
-            generation_time_ms: duration
-          };
-
-          // Place image at center of visible canvas
-          const center = getVisibleCanvasCenter();
-          const imageWidth = 300;
-          const imageHeight = (imageWidth * img.height) / img.width;
-
-          const newCanvasImage: CanvasImage = {
-            id: imageId,
-            dataUri: imageDataUri,
-            thumbnailUri: savedThumbnailUri,
-            thumbnailPath,
-            x: center.x - imageWidth / 2,
-            y: center.y - imageHeight / 2,
-            width: imageWidth,
-            height: imageHeight,
-            selected: false,
-            originalWidth: img.width,
-            originalHeight: img.height,
-            generationId: generationId,
-            imageMetaId: outputImageMeta.id
-          };
-
-          setCanvasImages(prev => {
-            const updatedCanvasImages = [...prev, newCanvasImage];
-
-            // Update session with new generation and canvas state
-            const updatedSession: MixboardSession = {
-              ...currentSession,
-              generations: [...existingGenerations, completedGeneration],
-              canvas_images: updatedCanvasImages,
-              updated_at: new Date().toISOString()
-            };
-
-            // Persist session
-            StorageServiceV2.saveSession(updatedSession);
-            onSessionUpdate(updatedSession);
-
-            return updatedCanvasImages;
-          });
-
-          setCurrentGeneration(completedGeneration);
-          setIsGeneratingThumbnails(false);
-        };
-        img.src = imageDataUri;
-      }
-      } else {
-        // TEXT MODE: Generate text
-        const service = await getGeminiService();
-        const output = await service.generateText(
-          newGeneration.prompt,
-          config,
-          150,  // Max 150 words
-          currentUser?.displayName,
-          controlImageData.length > 0 ? controlImageData : undefined,
-          referenceImageData.length > 0 ? referenceImageData : undefined,
-          contextImageData.length > 0 ? contextImageData : undefined
-        );
+    GenerationQueueService.enqueue({
+      session_id: currentSession.session_id,
+      generation_id: generationId,
+      mode: showImageInput ? 'image' : 'text',
+      prompt: generationPrompt,
+      parameters: config,
+      inputs: jobInputs,
+      user_name: currentUser?.displayName,
+      variations: showImageInput ? variationCount : undefined
+    }, inputData);
+  };
 
-        if (output.text) {
-          // Calculate duration
-          const duration = Date.now() - startTime;
-
-          // Add generated text to canvas
-          const textWidth = 400;
-          const textHeight = 200;
-          const fontSize = 16;
-
-          // Place text at center of visible canvas
-          const center = getVisibleCanvasCenter();
-
-          const newCanvasText: CanvasImage = {
-            id: `text-${Date.now()}`,
-            type: 'text',
-            text: output.text,
-            fontSize: fontSize,
-            fontWeight: 'normal',
-            fontStyle: 'normal',
-            fontFamily: 'Inter, system-ui, sans-serif',
-            x: center.x - textWidth / 2,
-            y: center.y - textHeight / 2,
-            width: textWidth,
-            height: textHeight,
-            selected: false,
-            originalWidth: textWidth,
-            originalHeight: textHeight,
-            generationId: generationId
-          };
-
-          const updatedCanvasImages = [...canvasImages, newCanvasText];
-          setCanvasImages(updatedCanvasImages);
-
-          // Update session with canvas state only (text generations are not stored in history)
-          const updatedSession: MixboardSession = {
-            ...currentSession,
-            generations: existingGenerations,
-            canvas_images: updatedCanvasImages,
-            updated_at: new Date().toISOString()
-          };
-
-          // Persist session
-          StorageServiceV2.saveSession(updatedSession);
-          onSessionUpdate(updatedSession);
-          setCurrentGeneration(null);
-        }
-      }
-    } catch (error) {
-      console.error('Generation failed:', error);
+  // Inpaint from the edit modal: regenerate the masked region of the edited image.
+  // Recorded like any image generation, with the source image and the mask as inputs.
+  const handleInpaint = async (inpaintPrompt: string, maskDataUri: string) => {
+    const source = editingImage;
+    if (!source?.dataUri) return;
+    if (!currentSession) {
+      alert('No active session. Please create or select a session first.');
+      return;
+    }
 
-      // Mark generation as failed
-      const failedGeneration: MixboardGeneration = {
-        generation_id: generationId,
-        timestamp: new Date().toISOString(),
-        status: 'failed',
-        prompt: prompt || 'Continue the creative exploration',
-        input_images: inputImageMetas,
-        output_images: [],
-        parameters: config,
-        error_message: (error as Error).message,
-        generation_time_ms: Date.now() - startTime,
-        canvas_state: {
-          images: canvasImages,
-          zoom,
-          panOffset
-        }
+    const toMeta = (hash: string, thumbnailPath?: string): StoredImageMeta => {
+      const entry = StorageServiceV2.getImageByHash(hash);
+      return {
+        id: hash,
+        filename: entry?.file_path.split('/').pop() || `input_${hash}.png`,
+        hash,
+        size_bytes: entry?.size_bytes,
+        thumbnailPath
       };
+    };
 
-      // Only persist failed generations for image requests; text failures still update canvas state timestamp
-      const updatedSession: MixboardSession = showImageInput
-        ? {
-            ...currentSession,
-            generations: [...existingGenerations, failedGeneration],
-            updated_at: new Date().toISOString()
-          }
-        : {
-            ...currentSession,
-            generations: existingGenerations,
-            updated_at: new Date().toISOString()
-          };
+    const sourceHash = source.imageMetaId
+      || (await StorageServiceV2.registerImageAsync(source.dataUri, undefined, source.tag || 'reference')).hash;
+    const { hash: maskHash } = await StorageServiceV2.registerImageAsync(maskDataUri, undefined, 'control');
 
-      StorageServiceV2.saveSession(updatedSession);
-      onSessionUpdate(updatedSession);
+    // Ask for the supported aspect ratio closest to the source, so the result maps back with little distortion
+    const sourceRatio = (source.originalWidth || source.width) / (source.originalHeight || source.height);
+    const { aspectRatios } = ProviderRegistry.getModel(config).capabilities;
+    const ratioDistance = (ratio: string) => {
+      const [w, h] = ratio.split(':').map(Number);
+      return w && h ? Math.abs(Math.log((w / h) / sourceRatio)) : Infinity;
+    };
+    const parameters: GenerationConfig = {
+      ...config,
+      aspect_ratio: [...aspectRatios].sort((a, b) => ratioDistance(a) - ratioDistance(b))[0] || config.aspect_ratio
+    };
 
-      setCurrentGeneration(showImageInput ? failedGeneration : null);
-      alert('Generation failed: ' + (error as Error).message);
-    } finally {
-      setIsGenerating(false);
-    }
+    const generationId = `gen-${Date.now()}`;
+    const newGeneration: MixboardGeneration = {
+      generation_id: generationId,
+      timestamp: new Date().toISOString(),
+      status: 'queued',
+      prompt: inpaintPrompt,
+      input_images: [toMeta(sourceHash, source.thumbnailPath), toMeta(maskHash)],
+      output_images: [],
+      parameters,
+      canvas_state: {
+        images: canvasImages,
+        zoom,
+        panOffset
+      },
+      parent_generation_ids: source.generationId ? [source.generationId] : [],
+      mask_image_id: maskHash
+    };
+
+    const session = currentSessionRef.current || currentSession;
+    commitSession({
+      ...session,
+      generations: [...(session.generations || []), newGeneration],
+      updated_at: new Date().toISOString()
+    });
+    setCurrentGeneration(newGeneration);
+
+    GenerationQueueService.enqueue({
+      session_id: currentSession.session_id,
+      generation_id: generationId,
+      mode: 'inpaint',
+      prompt: inpaintPrompt,
+      parameters,
+      inputs: [{ hash: sourceHash }, { hash: maskHash }],
+      user_name: currentUser?.displayName,
+      variations: variationCount
+    }, [source.dataUri, maskDataUri]);
   };
 
   const addTextToCanvas = (text: string, x?: number, y?: number) => {
@@ -915,27 +1359,40 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
   };
 
   // Inline toolbar handlers for selected items
-  const handleEditImage = (imageId: string) => {
+  const handleEditImage = async (imageId: string) => {
     const image = canvasImages.find(img => img.id === imageId);
     if (!image) return;
 
     // Handle whiteboards - convert to dataUri for editing
     if (image.type === 'board') {
       const dataUri = whiteboardToDataUri(image);
+      setEditingDocument(null);
       setEditingImage({ ...image, dataUri });
       setEditModalOpen(true);
       return;
     }
 
-    // Handle regular images
-    if (image.dataUri) {
-      setEditingImage(image);
+    // Handle regular images (load the original if only the thumbnail is in memory),
+    // reopening the layers of an earlier edit when they were saved
+    const [dataUri, editDocument] = await Promise.all([
+      resolveImageData(image),
+      image.imageMetaId ? StorageServiceV2.loadEditDocumentAsync(image.imageMetaId) : Promise.resolve(null)
+    ]);
+    if (dataUri) {
+      setEditingDocument(editDocument);
+      setEditingImage({ ...image, dataUri });
       setEditModalOpen(true);
     }
   };
 
   const handleDeleteImage = (imageId: string) => {
-    setCanvasImages(prev => prev.filter(img => img.id !== imageId));
+    setCanvasImages(prev => {
+      const target = prev.find(img => img.id === imageId);
+      if (!target || target.locked) return prev;
+      // Deleting a frame deletes what it owns
+      const removed = withFrameContents(prev, [imageId]);
+      return prev.filter(img => !removed.has(img.id));
+    });
   };
 
   const handleDuplicateImage = (imageId: string) => {
@@ -959,76 +1416,310 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     setTagDropdownImageId(null);
   };
 
-  const handleSaveEditedImage = async (editedDataUri: string) => {
-    if (!editingImage) return;
+  /**
+   * Register an edited image as a new version of `image`, linked to the version it
+   * was edited from. Throws when the image registry is unavailable (browser).
+   */
+  const registerEditVersion = async (
+    image: CanvasImage,
+    editedDataUri: string,
+    dimensions: { width: number; height: number },
+    thumbnailPath?: string
+  ): Promise<Pick<CanvasImage, 'imageMetaId' | 'versions'>> => {
+    const role = image.tag || 'reference';
+    const { hash } = await StorageServiceV2.registerImageAsync(editedDataUri, undefined, role);
+
+    // Boards start their history with the first edit; images keep what they showed before as the original
+    let parentHash = image.type === 'board' ? undefined : image.imageMetaId;
+    if (image.type !== 'board' && !parentHash && image.dataUri) {
+      parentHash = (await StorageServiceV2.registerImageAsync(image.dataUri, undefined, role)).hash;
+    }
+    if (hash === parentHash) return { imageMetaId: hash, versions: image.versions };  // Saved without changes
+
+    const versions = [...(image.versions || [])];
+    if (parentHash && versions.length === 0) {
+      versions.push({
+        hash: parentHash, source: 'original', created_at: new Date().toISOString(), thumbnailPath: image.thumbnailPath,
+        width: image.originalWidth, height: image.originalHeight
+      });
+    }
+    // Edited back to an existing version: switch to it instead of listing it twice
+    if (versions.some(version => version.hash === hash)) return { imageMetaId: hash, versions };
 
+    if (parentHash) StorageServiceV2.setImageParent(hash, parentHash);
+    versions.push({ hash, parent_hash: parentHash, source: 'edit', created_at: new Date().toISOString(), thumbnailPath, ...dimensions });
+    return { imageMetaId: hash, versions };
+  };
+
+  // Crop and rotate change the pixel size: keep the displayed width and follow the new aspect
+  const resizeToPixels = (image: CanvasImage, width: number, height: number): Partial<CanvasImage> => ({
+    originalWidth: width,
+    originalHeight: height,
+    height: image.width * (height / width)
+  });
+
+  /**
+   * Put edited pixels on a canvas image as its new version: thumbnail, registry
+   * entry linked to the previous version, and the layers if there are several.
+   */
+  const saveImageEdit = async (image: CanvasImage, editedDataUri: string, editDocument?: EditDocument) => {
     // Import thumbnail generator and saver
-    const { generateThumbnail, saveThumbnail } = await import('../utils/imageUtils');
+    const { generateThumbnail, saveThumbnail, getImageDimensions } = await import('../utils/imageUtils');
+    const dimensions = await getImageDimensions(editedDataUri);
 
-    // Generate new thumbnail from edited image
-    setIsGeneratingThumbnails(true);
+    // Every version gets its own thumbnail file, so earlier versions keep theirs
+    let thumbnailUri: string | undefined;
+    let thumbnailPath: string | undefined;
     try {
       const newThumbnail = await generateThumbnail(editedDataUri, 384, 0.90);
-
-      // Save thumbnail to disk (Electron) or keep in memory (web)
-      const { thumbnailUri: savedThumbnailUri, thumbnailPath } = currentSession
-        ? saveThumbnail(currentSession.session_id, editingImage.id, newThumbnail)
+      const saved = currentSession
+        ? await saveThumbnail(currentSession.session_id, `${image.id}-${Date.now()}`, newThumbnail)
         : { thumbnailUri: newThumbnail };
-
-      // If editing a whiteboard, convert it to an image type but keep metadata
-      if (editingImage.type === 'board') {
-        setCanvasImages(prev =>
-          prev.map(img =>
-            img.id === editingImage.id
-              ? {
-                  ...img,
-                  type: 'image', // Convert board to image
-                  dataUri: editedDataUri,
-                  thumbnailUri: savedThumbnailUri,
-                  thumbnailPath,
-                  backgroundColor: undefined // Remove board-specific properties
-                }
-              : img
-          )
-        );
-        console.log(`[Edit] Whiteboard converted to image:`, editingImage.id);
-      } else {
-        // Update regular image with new original and thumbnail
-        setCanvasImages(prev =>
-          prev.map(img =>
-            img.id === editingImage.id
-              ? { ...img, dataUri: editedDataUri, thumbnailUri: savedThumbnailUri, thumbnailPath }
-              : img
-          )
-        );
-        console.log(`[Edit] Image updated:`, editingImage.id, `Thumbnail path: ${thumbnailPath || 'in-memory'}`);
-      }
+      thumbnailUri = saved.thumbnailUri;
+      thumbnailPath = saved.thumbnailPath;
     } catch (error) {
-      console.error('Failed to generate thumbnail for edited image:', error);
       // Still update the image even if thumbnail generation fails
-      if (editingImage.type === 'board') {
-        setCanvasImages(prev =>
-          prev.map(img =>
-            img.id === editingImage.id
-              ? { ...img, type: 'image', dataUri: editedDataUri, backgroundColor: undefined }
-              : img
-          )
-        );
-      } else {
-        setCanvasImages(prev =>
-          prev.map(img =>
-            img.id === editingImage.id
-              ? { ...img, dataUri: editedDataUri }
-              : img
-          )
-        );
+      console.error('Failed to generate thumbnail for edited image:', error);
+    }
+
+    let version: Pick<CanvasImage, 'imageMetaId' | 'versions'> = { imageMetaId: undefined };
+    try {
+      version = await registerEditVersion(image, editedDataUri, dimensions, thumbnailPath);
+    } catch (error) {
+      // Without the registry the edit replaces the image (registered as a new image on save)
+      console.warn('[Edit] Could not register the edit as a new version:', error);
+    }
+
+    // Keep the layers so the edit can be reopened (a single layer adds nothing to the flat image)
+    if (version.imageMetaId && editDocument && editDocument.layers.length > 1) {
+      try {
+        await StorageServiceV2.saveEditDocumentAsync(version.imageMetaId, editDocument);
+      } catch (error) {
+        console.error('Failed to save the layered edit document:', error);
       }
+    }
+
+    setCanvasImages(prev =>
+      prev.map(img => {
+        if (img.id !== image.id) return img;
+        const updated: CanvasImage = {
+          ...img, ...version, ...resizeToPixels(img, dimensions.width, dimensions.height),
+          dataUri: editedDataUri, thumbnailUri, thumbnailPath
+        };
+        if (image.type === 'board') {
+          // Convert board to image, dropping board-specific properties
+          updated.type = 'image';
+          updated.backgroundColor = undefined;
+        }
+        return updated;
+      })
+    );
+    console.log(`[Edit] Image updated:`, image.id, `Version: ${version.imageMetaId || 'unregistered'}`, `Thumbnail path: ${thumbnailPath || 'in-memory'}`);
+  };
+
+  const handleSaveEditedImage = async (editedDataUri: string, editDocument?: EditDocument) => {
+    if (!editingImage) return;
+
+    setIsGeneratingThumbnails(true);
+    try {
+      await saveImageEdit(editingImage, editedDataUri, editDocument);
     } finally {
       setIsGeneratingThumbnails(false);
       setEditingImage(null);
     }
   };
 
+  // Adjustment presets: built-in ones plus those saved from the edit modal
+  const adjustmentPresets = useMemo(
+    () => [...BUILT_IN_ADJUSTMENT_PRESETS, ...userAdjustmentPresets],
+    [userAdjustmentPresets]
+  );
+
+  const updateUserAdjustmentPresets = (next: AdjustmentPreset[]) => {
+    setUserAdjustmentPresets(next);
+    PreferencesService.saveAdjustmentPresets(next)
+      .catch(err => console.warn('[MixboardView] Failed to save adjustment presets', err));
+  };
+
+  const handleSaveAdjustmentPreset = (name: string, adjustments: ImageAdjustments) => {
+    updateUserAdjustmentPresets([...userAdjustmentPresets, { id: `preset-${Date.now()}`, name, adjustments }]);
+  };
+
+  const handleDeleteAdjustmentPreset = (presetId: string) => {
+    updateUserAdjustmentPresets(userAdjustmentPresets.filter(preset => preset.id !== presetId));
+  };
+
+  // Apply a preset to every selected image, each keeping its previous look as a version
+  const handleApplyPresetToSelected = async (preset: AdjustmentPreset) => {
+    setPresetMenuOpen(false);
+    const targets = canvasImages.filter(img => img.selected && !img.locked && (!img.type || img.type === 'image'));
+    if (targets.length === 0) return;
+
+    setIsGeneratingThumbnails(true);
+    let failed = 0;
+    try {
+      for (const image of targets) {
+        try {
+          const source = await resolveImageData(image);
+          if (!source) throw new Error('Image data unavailable');
+          await saveImageEdit(image, await adjustImage(source, normalizeAdjustments(preset.adjustments)));
+        } catch (error) {
+          failed++;
+          console.error(`[Presets] Failed to apply "${preset.name}" to ${image.id}:`, error);
+        }
+      }
+    } finally {
+      setIsGeneratingThumbnails(false);
+    }
+    if (failed > 0) {
+      alert(`The preset could not be applied to ${failed} of ${targets.length} images.`);
+    }
+  };
+
+  // Show another saved version of an image: its thumbnail first, full resolution on demand
+  const handleSelectImageVersion = async (imageId: string, hash: string) => {
+    const image = canvasImages.find(img => img.id === imageId);
+    const version = image?.versions?.find(v => v.hash === hash);
+    if (!image || !version || image.locked || image.imageMetaId === hash) return;
+
+    const { loadThumbnail, getImageDimensions } = await import('../utils/imageUtils');
+    const thumbnailUri = (await loadThumbnail(version.thumbnailPath)) || undefined;
+    const dataUri = thumbnailUri ? undefined : (await StorageServiceV2.loadImageByHashAsync(hash)) || undefined;
+    const shownUri = thumbnailUri || dataUri;
+    if (!shownUri) {
+      alert('This version could not be loaded. Its image file may have been removed.');
+      return;
+    }
+
+    // Versions saved without their size: the loaded picture still has the right aspect
+    let { width, height } = version;
+    if (!width || !height) {
+      try {
+        const shown = await getImageDimensions(shownUri);
+        width = image.originalWidth;
+        height = image.originalWidth * (shown.height / shown.width);
+      } catch (error) {
+        console.warn('[Versions] Could not read the size of version', hash, error);
+      }
+    }
+    const size = width && height && (width !== image.originalWidth || height !== image.originalHeight)
+      ? resizeToPixels(image, width, height)
+      : {};
+
+    setCanvasImages(prev => prev.map(img =>
+      img.id === imageId
+        ? { ...img, ...size, imageMetaId: hash, dataUri, thumbnailUri, thumbnailPath: version.thumbnailPath }
+        : img
+    ));
+  };
+
+  // Go back to the version the current one was edited from
+  const handleRevertImage = (imageId: string) => {
+    const image = canvasImages.find(img => img.id === imageId);
+    const current = image?.versions?.find(version => version.hash === image.imageMetaId);
+    if (image && current?.parent_hash) {
+      handleSelectImageVersion(imageId, current.parent_hash);
+    }
+  };
+
+  /**
+   * Register an image on the canvas: thumbnail (saved to disk in Electron), then a
+   * 300px-wide entity centred on `center` (default: the visible canvas centre).
+   * Shared by upload, drag & drop and paste from the system clipboard.
+   */
+  const addImageDataToCanvas = async (
+    dataUri: string,
+    center?: { x: number; y: number },
+    source: string = 'Upload',
+    properties: Partial<Pick<CanvasImage, 'tag' | 'controlSource'>> = {}
+  ): Promise<CanvasImage | null> => {
+    const { generateThumbnail, saveThumbnail, getImageDimensions } = await import('../utils/imageUtils');
+
+    let dimensions: { width: number; height: number };
+    try {
+      dimensions = await getImageDimensions(dataUri);
+    } catch (error) {
+      console.error(`[${source}] Failed to load image:`, error);
+      return null;
+    }
+
+    const imageId = `img-${Date.now()}-${Math.random()}`;
+    const imageWidth = 300;
+    const imageHeight = (300 * dimensions.height) / dimensions.width;
+    const position = center ?? getVisibleCanvasCenter();
+
+    const newImage: CanvasImage = {
+      id: imageId,
+      dataUri,
+      x: position.x - imageWidth / 2,
+      y: position.y - imageHeight / 2,
+      width: imageWidth,
+      height: imageHeight,
+      selected: false,
+      originalWidth: dimensions.width,
+      originalHeight: dimensions.height,
+      ...properties
+    };
+
+    try {
+      // Generate thumbnail for canvas display
+      const thumbnailUri = await generateThumbnail(dataUri, 384, 0.90);
+
+      // Save thumbnail to disk (Electron) or keep in memory (web)
+      const { thumbnailUri: savedThumbnailUri, thumbnailPath } = currentSession
+        ? await saveThumbnail(currentSession.session_id, imageId, thumbnailUri)
+        : { thumbnailUri };
+      newImage.thumbnailUri = savedThumbnailUri;
+      newImage.thumbnailPath = thumbnailPath;
+    } catch (error) {
+      // Still add the image without thumbnail as fallback
+      console.error('Failed to generate thumbnail:', error);
+    }
+
+    // Use functional update to avoid stale state
+    setCanvasImages(prev => [...prev, newImage]);
+    console.log(`[${source}] Image added:`, newImage.id, `Thumbnail path: ${newImage.thumbnailPath || 'in-memory'}`);
+    return newImage;
+  };
+
+  /**
+   * Derive a control map (edges, line art, ...) from an image and place it to the
+   * right of the source, tagged as control and linked to the source
+   */
+  const handleCreateControlMap = async (imageId: string, preprocessor: ControlPreprocessor) => {
+    closeContextMenu();
+    const source = canvasImages.find(img => img.id === imageId);
+    if (!source) return;
+    const label = CONTROL_PREPROCESSORS.find(item => item.id === preprocessor)?.label || preprocessor;
+
+    setPreprocessingCount(count => count + 1);
+    try {
+      const dataUri = await resolveImageData(source);
+      if (!dataUri) throw new Error('Image data unavailable');
+      const mapUri = await createControlMap(dataUri, preprocessor);
+      await addImageDataToCanvas(
+        mapUri,
+        { x: source.x + source.width + 20 + 150, y: source.y + source.height / 2 },
+        'Preprocess',
+        { tag: 'control', controlSource: { imageId, preprocessor, created_at: new Date().toISOString() } }
+      );
+    } catch (error) {
+      console.error(`[Preprocess] ${label} failed for ${imageId}:`, error);
+      alert(`Could not create the ${label} map: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setPreprocessingCount(count => count - 1);
+    }
+  };
+
+  const readFileAsDataUri = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  };
+
   // Handle file upload
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -1037,83 +1728,18 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     setIsGeneratingThumbnails(true);
 
     try {
-      const { generateThumbnail, saveThumbnail } = await import('../utils/imageUtils');
-
-      for (const file of Array.from(files)) {
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          const dataUri = event.target?.result as string;
-          const img = new Image();
-          img.onload = async () => {
-            try {
-              // Generate thumbnail for canvas display (256px for better performance)
-              const thumbnailUri = await generateThumbnail(dataUri, 384, 0.90);
-              const imageId = `img-${Date.now()}-${Math.random()}`;
-
-              // Save thumbnail to disk (Electron) or keep in memory (web)
-              const { thumbnailUri: savedThumbnailUri, thumbnailPath } = currentSession
-                ? saveThumbnail(currentSession.session_id, imageId, thumbnailUri)
-                : { thumbnailUri };
-
-              // Calculate center of visible canvas area
-              const imageWidth = 300;
-              const imageHeight = (300 * img.height) / img.width;
-              const containerWidth = canvasRef.current?.clientWidth || 800;
-              const containerHeight = canvasRef.current?.clientHeight || 600;
-              const centerX = (containerWidth / 2 + panOffset.x) / zoom - imageWidth / 2;
-              const centerY = (containerHeight / 2 + panOffset.y) / zoom - imageHeight / 2;
-
-              const newImage: CanvasImage = {
-                id: imageId,
-                dataUri,
-                thumbnailUri: savedThumbnailUri,
-                thumbnailPath,
-                x: centerX,
-                y: centerY,
-                width: imageWidth,
-                height: imageHeight,
-                selected: false,
-                originalWidth: img.width,
-                originalHeight: img.height
-              };
-
-              // Use functional update to avoid stale state
-              setCanvasImages(prev => [...prev, newImage]);
-              
-
-              console.log(`[Upload] Image added:`, newImage.id, `Thumbnail path: ${thumbnailPath || 'in-memory'}`);
-            } catch (error) {
-              console.error('Failed to generate thumbnail:', error);
-              // Still add the image without thumbnail as fallback
-              const imageWidth = 300;
-              const imageHeight = (300 * img.height) / img.width;
-              const containerWidth = canvasRef.current?.clientWidth || 800;
-              const containerHeight = canvasRef.current?.clientHeight || 600;
-              const centerX = (containerWidth / 2 + panOffset.x) / zoom - imageWidth / 2;
-              const centerY = (containerHeight / 2 + panOffset.y) / zoom - imageHeight / 2;
-
-              const newImage: CanvasImage = {
-                id: `img-${Date.now()}-${Math.random()}`,
-                dataUri,
-                x: centerX,
-                y: centerY,
-                width: imageWidth,
-                height: imageHeight,
-                selected: false,
-                originalWidth: img.width,
-                originalHeight: img.height
-              };
-
-              setCanvasImages(prev => [...prev, newImage]);
-              
-            }
-          };
-          img.src = dataUri;
-        };
-        reader.readAsDataURL(file);
+      for (const [index, file] of Array.from(files).entries()) {
+        const center = getVisibleCanvasCenter();
+        await addImageDataToCanvas(
+          await readFileAsDataUri(file),
+          { x: center.x + index * 20, y: center.y + index * 20 },
+          'Upload'
+        );
       }
+    } catch (error) {
+      console.error('Failed to read uploaded file:', error);
     } finally {
-      setTimeout(() => setIsGeneratingThumbnails(false), 1000);
+      setIsGeneratingThumbnails(false);
       e.target.value = '';
     }
   };
@@ -1129,75 +1755,24 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
     const canvasRect = canvasRef.current?.getBoundingClientRect();
     if (!canvasRect) return;
 
+    const dropX = (e.clientX - canvasRect.left - panOffset.x) / zoom;
+    const dropY = (e.clientY - canvasRect.top - panOffset.y) / zoom;
+
     setIsGeneratingThumbnails(true);
 
     try {
-      const { generateThumbnail, saveThumbnail } = await import('../utils/imageUtils');
-
-      for (const [index, file] of Array.from(files).entries()) {
-        if (!file.type.startsWith('image/')) continue;
-
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-          const dataUri = event.target?.result as string;
-          const img = new Image();
-          img.onload = async () => {
-            const dropX = (e.clientX - canvasRect.left - panOffset.x) / zoom;
-            const dropY = (e.clientY - canvasRect.top - panOffset.y) / zoom;
-
-            try {
-              // Generate thumbnail for canvas display (256px for better performance)
-              const thumbnailUri = await generateThumbnail(dataUri, 384, 0.90);
-              const imageId = `img-${Date.now()}-${index}`;
-
-              // Save thumbnail to disk (Electron) or keep in memory (web)
-              const { thumbnailUri: savedThumbnailUri, thumbnailPath } = currentSession
-                ? saveThumbnail(currentSession.session_id, imageId, thumbnailUri)
-                : { thumbnailUri };
-
-              const newImage: CanvasImage = {
-                id: imageId,
-                dataUri,
-                thumbnailUri: savedThumbnailUri,
-                thumbnailPath,
-                x: dropX,
-                y: dropY,
-                width: 300,
-                height: (300 * img.height) / img.width,
-                selected: false,
-                originalWidth: img.width,
-                originalHeight: img.height
-              };
-
-              setCanvasImages(prev => [...prev, newImage]);
-              
-
-              console.log(`[Drop] Image added:`, newImage.id, `Thumbnail path: ${thumbnailPath || 'in-memory'}`);
-            } catch (error) {
-              console.error('Failed to generate thumbnail:', error);
-              // Still add the image without thumbnail as fallback
-              const newImage: CanvasImage = {
-                id: `img-${Date.now()}-${index}`,
-                dataUri,
-                x: dropX,
-                y: dropY,
-                width: 300,
-                height: (300 * img.height) / img.width,
-                selected: false,
-                originalWidth: img.width,
-                originalHeight: img.height
-              };
-
-              setCanvasImages(prev => [...prev, newImage]);
-              
-            }
-          };
-          img.src = dataUri;
-        };
-        reader.readAsDataURL(file);
+      const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
+      for (const [index, file] of imageFiles.entries()) {
+        await addImageDataToCanvas(
+          await readFileAsDataUri(file),
+          { x: dropX + index * 20, y: dropY + index * 20 },
+          'Drop'
+        );
       }
+    } catch (error) {
+      console.error('Failed to read dropped file:', error);
     } finally {
-      setTimeout(() => setIsGeneratingThumbnails(false), 1000);
+      setIsGeneratingThumbnails(false);
     }
   };
 
@@ -1256,8 +1831,49 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
   };
 
   // Handle image selection and dragging
+  // Topmost visible entity under a canvas point
+  const hitTestCanvas = (canvasX: number, canvasY: number): CanvasImage | undefined => {
+    return [...canvasImages].reverse().find(img =>
+      !img.hidden &&
+      canvasX >= img.x && canvasX <= img.x + img.width &&
+      canvasY >= img.y && canvasY <= img.y + img.height
+    );
+  };
+
+  // Pass pointer input to plugins; true if a plugin handled it
+  const dispatchPluginPointer = (
+    hook: 'onPointerDown' | 'onPointerMove' | 'onPointerUp',
+    e: React.MouseEvent
+  ): boolean => {
+    const canvasRect = canvasRef.current?.getBoundingClientRect();
+    if (!canvasRect || !pluginContextRef.current) return false;
+
+    const canvasX = (e.clientX - canvasRect.left - panOffset.x) / zoom;
+    const canvasY = (e.clientY - canvasRect.top - panOffset.y) / zoom;
+    const event: CanvasPointerEvent = {
+      canvasX,
+      canvasY,
+      button: e.button,
+      altKey: e.altKey,
+      ctrlKey: e.ctrlKey,
+      metaKey: e.metaKey,
+      shiftKey: e.shiftKey,
+      target: hook === 'onPointerMove' ? undefined : hitTestCanvas(canvasX, canvasY)
+    };
+
+    let handled = false;
+    forEachPlugin(plugin => {
+      if (!handled && plugin[hook]?.(event, pluginContextRef.current!) === true) {
+        handled = true;
+      }
+    });
+    return handled;
+  };
+
   const handleImageMouseDown = (e: React.MouseEvent, imageId: string) => {
     e.stopPropagation();
+    if (dispatchPluginPointer('onPointerDown', e)) return;
+    if (startPanning(e)) return;
 
     const image = canvasImages.find(img => img.id === imageId);
     if (!image) return;
@@ -1284,29 +1900,30 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       setResizingImage(imageId);
       setDragStart({ x: clickX, y: clickY });
     } else {
-      // Toggle selection with Ctrl/Cmd, otherwise select only this image
-      if (e.ctrlKey || e.metaKey) {
-        setCanvasImages(prev => prev.map(img =>
-          img.id === imageId ? { ...img, selected: !img.selected } : img
-        ));
-      } else {
-        setCanvasImages(prev => prev.map(img => ({
-          ...img,
-          selected: img.id === imageId
-        })));
-      }
+      // Toggle selection with Ctrl/Cmd, otherwise select only this image (groups are selected as a whole)
+      setCanvasImages(prev => selectEntities(prev, [imageId], e.ctrlKey || e.metaKey ? 'toggle' : 'replace'));
 
       setDraggedImage(imageId);
       setDragStart({ x: clickX, y: clickY });
     }
   };
 
+  // Pan with the middle mouse button or space+drag (anywhere), or shift+drag on the background
+  const startPanning = (e: React.MouseEvent): boolean => {
+    if (e.button !== 1 && !(e.button === 0 && isSpaceHeld)) return false;
+    e.preventDefault();
+    setIsPanning(true);
+    setDragStart({ x: e.clientX, y: e.clientY });
+    return true;
+  };
+
   const handleCanvasMouseDown = (e: React.MouseEvent) => {
     closeContextMenu();
     setEditingTextId(null);
+    if (dispatchPluginPointer('onPointerDown', e)) return;
+    if (startPanning(e)) return;
     if (e.target === canvasRef.current || (e.target as HTMLElement).classList.contains('canvas-background')) {
-      // Start panning with middle mouse or space+left click
-      if (e.button === 1 || (e.button === 0 && e.shiftKey)) {
+      if (e.button === 0 && e.shiftKey) {
         setIsPanning(true);
         setDragStart({ x: e.clientX, y: e.clientY });
       } else if (e.button === 0) {
@@ -1341,11 +1958,22 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       x: e.clientX,
       y: e.clientY,
       canvasX,
-      canvasY
+      canvasY,
+      targetId: hitTestCanvas(canvasX, canvasY)?.id
     });
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
+    dispatchPluginPointer('onPointerMove', e);
+
+    const pointerRect = canvasRef.current?.getBoundingClientRect();
+    if (pointerRect) {
+      pointerCanvasRef.current = {
+        x: (e.clientX - pointerRect.left - panOffset.x) / zoom,
+        y: (e.clientY - pointerRect.top - panOffset.y) / zoom
+      };
+    }
+
     // Throttle updates using requestAnimationFrame
     const now = Date.now();
     const timeSinceLastUpdate = now - lastUpdateRef.current;
@@ -1373,7 +2001,13 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
 
       // Use RAF to batch updates
       rafRef.current = requestAnimationFrame(() => {
-        setCanvasImages(prev => prev.map(img => {
+        setCanvasImages(prev => {
+          // Grouped entities scale together by the handle's width change
+          const target = prev.find(img => img.id === resizingImage);
+          if (target?.groupId) {
+            return scaleGroup(prev, target.groupId, Math.max(50, target.width + dx) / target.width);
+          }
+          return prev.map(img => {
           if (img.id === resizingImage) {
             const minSize = 50;
 
@@ -1394,7 +2028,8 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
             };
           }
           return img;
-        }));
+          });
+        });
 
         setDragStart({ x: e.clientX - canvasRect.left, y: e.clientY - canvasRect.top });
         lastUpdateRef.current = now;
@@ -1403,8 +2038,38 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       const canvasRect = canvasRef.current?.getBoundingClientRect();
       if (!canvasRect) return;
 
-      const dx = (e.clientX - canvasRect.left - dragStart.x) / zoom;
-      const dy = (e.clientY - canvasRect.top - dragStart.y) / zoom;
+      // Offset from the mouse-down point; positions are applied to where the drag started
+      // so snapping never accumulates
+      let dx = (e.clientX - canvasRect.left - dragStart.x) / zoom;
+      let dy = (e.clientY - canvasRect.top - dragStart.y) / zoom;
+
+      if (!dragOriginsRef.current) {
+        // Frames carry the entities they own
+        const moving = withFrameContents(
+          canvasImages,
+          canvasImages.filter(img => (img.selected || img.id === draggedImage) && !img.locked).map(img => img.id)
+        );
+        dragOriginsRef.current = new Map(
+          canvasImages.filter(img => moving.has(img.id)).map(img => [img.id, { x: img.x, y: img.y }])
+        );
+      }
+      const origins = dragOriginsRef.current;
+
+      // Plugins may adjust the offset in turn (snapping)
+      if (origins.size > 0) {
+        const moving = canvasImages
+          .filter(img => origins.has(img.id))
+          .map(img => ({ ...img, ...origins.get(img.id)! }));
+        forEachPlugin(plugin => {
+          if (!plugin.onDrag) return;
+          const bounds = getBounds(moving.map(img => ({ ...img, x: img.x + dx, y: img.y + dy })));
+          const adjusted = plugin.onDrag({ moving, bounds, dx, dy, altKey: e.altKey }, pluginContextRef.current!);
+          if (adjusted) {
+            dx = adjusted.dx;
+            dy = adjusted.dy;
+          }
+        });
+      }
 
       // Cancel any pending RAF
       if (rafRef.current) {
@@ -1414,17 +2079,17 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
       // Use RAF to batch updates
       rafRef.current = requestAnimationFrame(() => {
         setCanvasImages(prev => prev.map(img => {
-          if (img.selected || img.id === draggedImage) {
+          const origin = origins.get(img.id);
+          if (origin) {
             return {
               ...img,
-              x: img.x + dx,
-              y: img.y + dy
+              x: origin.x + dx,
+              y: origin.y + dy
             };
           }
           return img;
         }));
 
-        setDragStart({ x: e.clientX - canvasRect.left, y: e.clientY - canvasRect.top });
         lastUpdateRef.current = now;
       });
     } else if (isSelecting && selectionBox) {
@@ -1453,28 +2118,49 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
         const minY = Math.min(selectionBox.startY, endY);
         const maxY = Math.max(selectionBox.startY, endY);
 
-        setCanvasImages(prev => prev.map(img => {
-          const imgCenterX = img.x + img.width / 2;
-          const imgCenterY = img.y + img.height / 2;
-          const intersects =
-            imgCenterX >= minX && imgCenterX <= maxX &&
-            imgCenterY >= minY && imgCenterY <= maxY;
-
-          return { ...img, selected: intersects || (e.ctrlKey || e.metaKey ? img.selected : false) };
-        }));
+        setCanvasImages(prev => {
+          // Locked and hidden entities are skipped; touching one group member selects the group
+          const inBox = expandToGroups(prev, prev.filter(img => {
+            const imgCenterX = img.x + img.width / 2;
+            const imgCenterY = img.y + img.height / 2;
+            return !img.locked && !img.hidden &&
+              imgCenterX >= minX && imgCenterX <= maxX &&
+              imgCenterY >= minY && imgCenterY <= maxY;
+          }).map(img => img.id));
+
+          return prev.map(img => ({
+            ...img,
+            selected: inBox.has(img.id) || (e.ctrlKey || e.metaKey ? img.selected : false)
+          }));
+        });
 
         lastUpdateRef.current = now;
       });
     }
   };
 
-  const handleMouseUp = () => {
+  const handleMouseUp = (e?: React.MouseEvent) => {
+    if (e) dispatchPluginPointer('onPointerUp', e);
+
     // Cancel any pending animation frame
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current);
       rafRef.current = null;
     }
 
+    if (dragOriginsRef.current) {
+      forEachPlugin(plugin => plugin.onDragEnd?.(pluginContextRef.current!));
+    }
+    dragOriginsRef.current = null;
+
+    // Dropped entities join (or leave) the frame under them
+    if (draggedImage) {
+      setCanvasImages(prev => assignFrames(
+        prev,
+        prev.filter(img => (img.selected || img.id === draggedImage) && !img.locked).map(img => img.id)
+      ));
+    }
+
     setDraggedImage(null);
     setResizingImage(null);
     setIsSelecting(false);
@@ -1485,14 +2171,374 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
 
   // Delete selected images
   const handleDeleteSelected = useCallback(() => {
-    setCanvasImages(prev => prev.filter(img => !img.selected));
+    setCanvasImages(prev => {
+      const removed = withFrameContents(prev, prev.filter(img => img.selected && !img.locked).map(img => img.id));
+      return prev.filter(img => !removed.has(img.id));
+    });
+  }, []);
+
+  // Layout: align, distribute and auto-arrange
+  const handleAlignSelected = (mode: AlignMode) => {
+    setCanvasImages(prev => alignSelected(prev, mode));
+  };
+
+  const handleDistributeSelected = (axis: DistributeAxis) => {
+    setCanvasImages(prev => distributeSelected(prev, axis));
+  };
+
+  const handleArrange = (mode: ArrangeMode) => {
+    setArrangeMenuOpen(false);
+    const generations = currentSession?.generations || [];
+    setCanvasImages(prev => arrangeEntities(prev, mode, generations));
+  };
+
+  // Frames: creation, presets, renaming and export
+  const handleAddFrame = (preset: FramePreset) => {
+    setFrameMenuOpen(false);
+    const center = getVisibleCanvasCenter();
+    setCanvasImages(prev => {
+      const frame = { ...createFrame(prev, preset, center.x, center.y), selected: true };
+      const deselected = prev.map(img => (img.selected ? { ...img, selected: false } : img));
+      // Loose entities already inside the new frame become its contents
+      return assignFrames([...deselected, frame], prev.filter(img => !img.frameId).map(img => img.id));
+    });
+  };
+
+  const handleSetFramePreset = (frameId: string, presetId: string) => {
+    const preset = getFramePreset(presetId);
+    if (preset) {
+      setCanvasImages(prev => applyFramePreset(prev, frameId, preset));
+    }
+  };
+
+  const handleRenameFrame = (frame: CanvasImage) => {
+    const name = window.prompt('Frame name', frame.name || '')?.trim();
+    if (name) {
+      setCanvasImages(prev => prev.map(img => (img.id === frame.id ? { ...img, name } : img)));
+    }
+  };
+
+  const frameFileName = (frame: CanvasImage) => {
+    return (frame.name || 'frame').replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'frame';
+  };
+
+  const handleExportFramePng = async (frame: CanvasImage) => {
+    setIsExportingFrames(true);
+    try {
+      const { renderFrame, downloadFile } = await import('../utils/frameExport');
+      const canvas = await renderFrame(frame, getFrameContents(canvasImages, frame.id), resolveImageData);
+      downloadFile(canvas.toDataURL('image/png'), `${frameFileName(frame)}.png`);
+    } catch (error) {
+      console.error('[MixboardView] Frame PNG export failed:', error);
+      alert('Failed to export frame. Please try again.');
+    } finally {
+      setIsExportingFrames(false);
+    }
+  };
+
+  const handleExportFramesPdf = async () => {
+    setFrameMenuOpen(false);
+    const frames = canvasImages.filter(img => isFrame(img) && !img.hidden);
+    if (frames.length === 0) {
+      alert('Add a frame to the canvas first.');
+      return;
+    }
+
+    setIsExportingFrames(true);
+    try {
+      const { renderFrame, buildFramesPdf, downloadFile } = await import('../utils/frameExport');
+      const pages = [];
+      // Pages follow the frames' stacking order (bottom first)
+      for (const frame of frames) {
+        const canvas = await renderFrame(frame, getFrameContents(canvasImages, frame.id), resolveImageData);
+        pages.push({ canvas, width: frame.width, height: frame.height });
+      }
+      const title = currentSession?.title.replace(/[^a-z0-9-_ ]/gi, '').trim().replace(/\s+/g, '-') || 'frames';
+      downloadFile(buildFramesPdf(pages), `${title}.pdf`);
+    } catch (error) {
+      console.error('[MixboardView] Frame PDF export failed:', error);
+      alert('Failed to export frames. Please try again.');
+    } finally {
+      setIsExportingFrames(false);
+    }
+  };
+
+  // Layers: grouping, stacking order, lock and visibility
+  const handleGroupSelected = useCallback(() => {
+    setCanvasImages(prev => groupSelected(prev));
+  }, []);
+
+  const handleUngroupSelected = useCallback(() => {
+    setCanvasImages(prev => ungroupSelected(prev));
+  }, []);
+
+  const handleReorderSelected = useCallback((action: ZOrderAction) => {
+    setCanvasImages(prev => reorderSelected(prev, action));
+  }, []);
+
+  const handleToggleLayerFlag = (image: CanvasImage, flag: 'locked' | 'hidden') => {
+    // Grouped entities are locked/hidden together
+    const ids = expandToGroups(canvasImages, [image.id]);
+    setCanvasImages(prev => setLayerFlag(prev, ids, flag, !image[flag]));
+  };
+
+  const handleSelectLayer = (e: React.MouseEvent, image: CanvasImage) => {
+    if (image.hidden) return;
+    setCanvasImages(prev => selectEntities(prev, [image.id], e.ctrlKey || e.metaKey || e.shiftKey ? 'toggle' : 'replace'));
+  };
+
+  // Zoom controls. The ref is updated right away so wheel events between renders compose.
+  const applyViewport = useCallback((viewport: CanvasViewport) => {
+    viewportRef.current = viewport;
+    setZoom(viewport.zoom);
+    setPanOffset(viewport.panOffset);
+  }, []);
+
+  // Zoom by a factor around a point in canvas-element px (default: the centre of the canvas)
+  const zoomBy = useCallback((factor: number, anchor?: { x: number; y: number }) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const point = anchor ?? { x: (rect?.width ?? 0) / 2, y: (rect?.height ?? 0) / 2 };
+    applyViewport(zoomAtPoint(viewportRef.current, viewportRef.current.zoom * factor, point));
+  }, [applyViewport]);
+
+  const zoomToFit = useCallback((target: 'all' | 'selection') => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const items = canvasImagesRef.current.filter(img => !img.hidden && (target === 'all' || img.selected));
+    if (!rect || items.length === 0) return;
+    applyViewport(fitBoundsToViewport(getBounds(items), rect));
+  }, [applyViewport]);
+
+  const zoomToActualSize = useCallback(() => {
+    zoomBy(1 / viewportRef.current.zoom);
+  }, [zoomBy]);
+
+  const handleZoomIn = useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]);
+  const handleZoomOut = useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]);
+
+  // Move the selection by canvas units (arrow keys); frames take their contents along
+  const nudgeSelected = useCallback((dx: number, dy: number) => {
+    setCanvasImages(prev => {
+      const selected = prev.filter(img => img.selected && !img.locked).map(img => img.id);
+      if (selected.length === 0) return prev;
+      const moving = withFrameContents(prev, selected);
+      const moved = prev.map(img => moving.has(img.id) && !img.locked ? { ...img, x: img.x + dx, y: img.y + dy } : img);
+      return assignFrames(moved, selected);
+    });
   }, []);
 
-  // Zoom controls
-  const handleZoomIn = () => setZoom(prev => Math.min(prev + 0.1, 3));
-  const handleZoomOut = () => setZoom(prev => Math.max(prev - 0.1, 0.1));
+  // Plugin context: one stable object that always reads the latest canvas state
+  viewportRef.current = { zoom, panOffset };
+  const pluginContext = useMemo<CanvasPluginContext>(() => ({
+    getImages: () => canvasImagesRef.current,
+    getSelection: () => canvasImagesRef.current.filter(img => img.selected),
+    getViewport: () => {
+      const rect = canvasRef.current?.getBoundingClientRect();
+      return { ...viewportRef.current, width: rect?.width ?? 0, height: rect?.height ?? 0 };
+    },
+    toScreen: (point) => ({
+      x: point.x * viewportRef.current.zoom + viewportRef.current.panOffset.x,
+      y: point.y * viewportRef.current.zoom + viewportRef.current.panOffset.y
+    }),
+    commands: {
+      updateImages: (updater) => setCanvasImages(prev => updater(prev)),
+      select: (ids, mode = 'replace') => setCanvasImages(prev => selectEntities(prev, ids, mode)),
+      deleteSelected: handleDeleteSelected,
+      group: handleGroupSelected,
+      ungroup: handleUngroupSelected,
+      reorder: handleReorderSelected,
+      align: (mode) => setCanvasImages(prev => alignSelected(prev, mode)),
+      distribute: (axis) => setCanvasImages(prev => distributeSelected(prev, axis)),
+      arrange: (mode) => setCanvasImages(prev => arrangeEntities(prev, mode, currentSessionRef.current?.generations || [])),
+      setZoom: (value) => zoomBy(value / viewportRef.current.zoom),
+      setPanOffset: (offset) => applyViewport({ zoom: viewportRef.current.zoom, panOffset: offset }),
+      zoomBy,
+      zoomToFit,
+      zoomToActualSize,
+      nudge: nudgeSelected
+    },
+    requestRender: requestPluginRender
+  }), [handleDeleteSelected, handleGroupSelected, handleUngroupSelected, handleReorderSelected, requestPluginRender, applyViewport, zoomBy, zoomToFit, zoomToActualSize, nudgeSelected]);
+  pluginContextRef.current = pluginContext;
+
+  // Clipboard: entities are kept in CanvasClipboard (survives session switches); the
+  // system clipboard gets a marker, or the full image when a single image is copied
+  const handleCopySelected = async () => {
+    const images = canvasImagesRef.current;
+    const copied = CanvasClipboard.copy(images, currentSessionRef.current?.session_id, pointerCanvasRef.current ?? undefined);
+    if (!copied) return;
+
+    const selected = images.filter(img => img.selected && !img.hidden);
+    const single = selected.length === 1 && (!selected[0].type || selected[0].type === 'image') ? selected[0] : null;
+    try {
+      const imageDataUri = single ? await resolveImageData(single) : null;
+      await CanvasClipboard.writeSystem({ text: copied.marker, imageDataUri: imageDataUri || undefined });
+    } catch (error) {
+      console.warn('[MixboardView] Failed to write the system clipboard', error);
+    }
+  };
+
+  const handleCutSelected = async () => {
+    await handleCopySelected();
+    handleDeleteSelected();
+  };
+
+  const pasteEntities = (target: { x: number; y: number }) => {
+    const pasted = CanvasClipboard.paste(target, currentSessionRef.current?.session_id);
+    if (pasted.length === 0) return;
+    setCanvasImages(prev => assignFrames(
+      [...prev.map(img => (img.selected ? { ...img, selected: false } : img)), ...pasted],
+      pasted.filter(img => !img.frameId && img.type !== 'frame').map(img => img.id)
+    ));
+  };
+
+  const handlePaste = async (at?: { x: number; y: number }) => {
+    const target = at ?? pointerCanvasRef.current ?? getVisibleCanvasCenter();
+    const internal = CanvasClipboard.get();
+    let system: SystemClipboardContent = { text: null, imageDataUri: null };
+    try {
+      system = await CanvasClipboard.readSystem();
+    } catch (error) {
+      console.warn('[MixboardView] Failed to read the system clipboard', error);
+    }
+
+    // Our own copy, unless something else was copied since
+    if (internal && (system.text === internal.marker || (!system.text && !system.imageDataUri))) {
+      pasteEntities(target);
+    } else if (system.imageDataUri) {
+      setIsGeneratingThumbnails(true);
+      try {
+        await addImageDataToCanvas(system.imageDataUri, target, 'Paste');
+      } finally {
+        setIsGeneratingThumbnails(false);
+      }
+    } else if (system.text) {
+      addTextToCanvas(system.text, target.x - 200, target.y - 100);
+    }
+  };
+
+  const handleDuplicateSelected = () => {
+    const images = canvasImagesRef.current;
+    const ids = withFrameContents(images, images.filter(img => img.selected && !img.hidden).map(img => img.id));
+    const copies = cloneEntities(images.filter(img => ids.has(img.id) && !img.hidden), 20, 20);
+    if (copies.length === 0) return;
+    setCanvasImages(prev => assignFrames(
+      [...prev.map(img => (img.selected ? { ...img, selected: false } : img)), ...copies],
+      copies.filter(img => !img.frameId && img.type !== 'frame').map(img => img.id)
+    ));
+  };
+
+  // Tag every selected image (text, boards and frames cannot be tagged)
+  const handleTagSelected = (tag: 'control' | 'reference' | undefined) => {
+    setCanvasImages(prev => prev.map(img =>
+      img.selected && (!img.type || img.type === 'image') ? { ...img, tag } : img
+    ));
+  };
+
+  const handleKeymapChange = useCallback((next: UserKeymap) => {
+    setKeymap(next);
+    PreferencesService.saveKeymap(next).catch(err => console.warn('[MixboardView] Failed to save keymap', err));
+  }, []);
 
-  // Keyboard shortcuts
+  useEffect(() => {
+    PreferencesService.loadKeymap().then(setKeymap);
+    PreferencesService.loadAdjustmentPresets().then(setUserAdjustmentPresets);
+  }, []);
+
+  // Recent prompts across sessions, newest first (command palette)
+  const recentPrompts = useMemo(() => {
+    const generations = allSessions
+      .flatMap(session => (session.session_id === currentSession?.session_id ? currentSession : session).generations || [])
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+    return [...new Set(generations.map(gen => gen.prompt?.trim()).filter((text): text is string => !!text))].slice(0, 20);
+  }, [allSessions, currentSession]);
+
+  // Command registry: every shortcut-able action, rebuilt each render so commands see current state
+  const hasSelection = () => canvasImagesRef.current.some(img => img.selected);
+  const hasSelectedImage = () => canvasImagesRef.current.some(img => img.selected && (!img.type || img.type === 'image'));
+  const appCommands: AppCommand[] = [
+    // Canvas
+    { id: 'canvas.delete', title: 'Delete Selection', category: 'canvas', defaultKeys: ['Delete', 'Backspace'], isEnabled: hasSelection, run: handleDeleteSelected },
+    { id: 'canvas.selectAll', title: 'Select All', category: 'canvas', defaultKeys: ['Mod+A'], run: () => setCanvasImages(prev => prev.map(img => ({ ...img, selected: !img.hidden && !img.locked }))) },
+    { id: 'canvas.copy', title: 'Copy', category: 'canvas', defaultKeys: ['Mod+C'], isEnabled: hasSelection, run: () => void handleCopySelected() },
+    { id: 'canvas.cut', title: 'Cut', category: 'canvas', defaultKeys: ['Mod+X'], isEnabled: hasSelection, run: () => void handleCutSelected() },
+    { id: 'canvas.paste', title: 'Paste', category: 'canvas', defaultKeys: ['Mod+V'], run: () => void handlePaste() },
+    { id: 'canvas.duplicate', title: 'Duplicate Selection', category: 'canvas', defaultKeys: ['Mod+D'], isEnabled: hasSelection, run: handleDuplicateSelected },
+    { id: 'canvas.deselect', title: 'Deselect All', category: 'canvas', defaultKeys: ['Escape'], isEnabled: hasSelection, run: () => setCanvasImages(prev => prev.map(img => (img.selected ? { ...img, selected: false } : img))) },
+    { id: 'canvas.undo', title: 'Undo', category: 'canvas', defaultKeys: ['Mod+Z'], run: handleUndo },
+    { id: 'canvas.redo', title: 'Redo', category: 'canvas', defaultKeys: ['Mod+Y', 'Mod+Shift+Z'], run: handleRedo },
+    { id: 'canvas.group', title: 'Group Selection', category: 'canvas', defaultKeys: ['Mod+G'], isEnabled: hasSelection, run: handleGroupSelected },
+    { id: 'canvas.ungroup', title: 'Ungroup Selection', category: 'canvas', defaultKeys: ['Mod+Shift+G'], isEnabled: hasSelection, run: handleUngroupSelected },
+    { id: 'canvas.bringForward', title: 'Bring Forward', category: 'canvas', defaultKeys: ['Mod+]'], isEnabled: hasSelection, run: () => handleReorderSelected('forward') },
+    { id: 'canvas.sendBackward', title: 'Send Backward', category: 'canvas', defaultKeys: ['Mod+['], isEnabled: hasSelection, run: () => handleReorderSelected('backward') },
+    { id: 'canvas.bringToFront', title: 'Bring to Front', category: 'canvas', defaultKeys: ['Mod+Shift+]'], isEnabled: hasSelection, run: () => handleReorderSelected('front') },
+    { id: 'canvas.sendToBack', title: 'Send to Back', category: 'canvas', defaultKeys: ['Mod+Shift+['], isEnabled: hasSelection, run: () => handleReorderSelected('back') },
+    { id: 'canvas.nudgeLeft', title: 'Nudge Left', category: 'canvas', defaultKeys: ['ArrowLeft'], run: () => nudgeSelected(-1, 0) },
+    { id: 'canvas.nudgeRight', title: 'Nudge Right', category: 'canvas', defaultKeys: ['ArrowRight'], run: () => nudgeSelected(1, 0) },
+    { id: 'canvas.nudgeUp', title: 'Nudge Up', category: 'canvas', defaultKeys: ['ArrowUp'], run: () => nudgeSelected(0, -1) },
+    { id: 'canvas.nudgeDown', title: 'Nudge Down', category: 'canvas', defaultKeys: ['ArrowDown'], run: () => nudgeSelected(0, 1) },
+    { id: 'canvas.nudgeLeftLarge', title: 'Nudge Left by 10', category: 'canvas', defaultKeys: ['Shift+ArrowLeft'], run: () => nudgeSelected(-10, 0) },
+    { id: 'canvas.nudgeRightLarge', title: 'Nudge Right by 10', category: 'canvas', defaultKeys: ['Shift+ArrowRight'], run: () => nudgeSelected(10, 0) },
+    { id: 'canvas.nudgeUpLarge', title: 'Nudge Up by 10', category: 'canvas', defaultKeys: ['Shift+ArrowUp'], run: () => nudgeSelected(0, -10) },
+    { id: 'canvas.nudgeDownLarge', title: 'Nudge Down by 10', category: 'canvas', defaultKeys: ['Shift+ArrowDown'], run: () => nudgeSelected(0, 10) },
+    { id: 'canvas.uploadImage', title: 'Upload Image', category: 'canvas', run: () => fileInputRef.current?.click() },
+    { id: 'canvas.addText', title: 'Add Text', category: 'canvas', run: () => {
+      const center = getVisibleCanvasCenter();
+      addTextToCanvas('Double-click to edit text', center.x, center.y);
+    } },
+    { id: 'canvas.addWhiteboard', title: 'Add Whiteboard', category: 'canvas', run: () => handleAddWhiteboardFromContext() },
+    ...FRAME_PRESETS.map((preset): AppCommand => ({
+      id: `canvas.addFrame.${preset.id}`, title: `Add Frame: ${preset.label}`, category: 'canvas', run: () => handleAddFrame(preset)
+    })),
+    { id: 'canvas.alignLeft', title: 'Align Left', category: 'canvas', isEnabled: hasSelection, run: () => handleAlignSelected('left') },
+    { id: 'canvas.alignCenter', title: 'Align Horizontal Centers', category: 'canvas', isEnabled: hasSelection, run: () => handleAlignSelected('center') },
+    { id: 'canvas.alignRight', title: 'Align Right', category: 'canvas', isEnabled: hasSelection, run: () => handleAlignSelected('right') },
+    { id: 'canvas.alignTop', title: 'Align Top', category: 'canvas', isEnabled: hasSelection, run: () => handleAlignSelected('top') },
+    { id: 'canvas.alignMiddle', title: 'Align Vertical Centers', category: 'canvas', isEnabled: hasSelection, run: () => handleAlignSelected('middle') },
+    { id: 'canvas.alignBottom', title: 'Align Bottom', category: 'canvas', isEnabled: hasSelection, run: () => handleAlignSelected('bottom') },
+    { id: 'canvas.distributeHorizontal', title: 'Distribute Horizontally', category: 'canvas', isEnabled: hasSelection, run: () => handleDistributeSelected('horizontal') },
+    { id: 'canvas.distributeVertical', title: 'Distribute Vertically', category: 'canvas', isEnabled: hasSelection, run: () => handleDistributeSelected('vertical') },
+    { id: 'canvas.arrangeGrid', title: 'Arrange as Grid', category: 'canvas', run: () => handleArrange('grid') },
+    { id: 'canvas.arrangeMasonry', title: 'Arrange as Masonry', category: 'canvas', run: () => handleArrange('masonry') },
+    { id: 'canvas.arrangeLineage', title: 'Arrange by Generation Lineage', category: 'canvas', run: () => handleArrange('lineage') },
+
+    // Generation
+    { id: 'generation.generate', title: 'Generate', category: 'generation', defaultKeys: ['Mod+Enter'], allowWhileTyping: true, run: () => { void handleGenerate(); } },
+    { id: 'generation.focusPrompt', title: 'Focus Prompt', category: 'generation', defaultKeys: ['/'], run: () => promptInputRef.current?.focus() },
+    { id: 'generation.textMode', title: 'Switch to Text Prompt', category: 'generation', run: () => setShowImageInput(false) },
+    { id: 'generation.imageMode', title: 'Switch to Image Prompt', category: 'generation', run: () => setShowImageInput(true) },
+
+    // Tagging
+    { id: 'tagging.control', title: 'Tag Selection as Control', category: 'tagging', isEnabled: hasSelectedImage, run: () => handleTagSelected('control') },
+    { id: 'tagging.reference', title: 'Tag Selection as Reference', category: 'tagging', isEnabled: hasSelectedImage, run: () => handleTagSelected('reference') },
+    { id: 'tagging.clear', title: 'Clear Tags on Selection', category: 'tagging', isEnabled: hasSelectedImage, run: () => handleTagSelected(undefined) },
+
+    // Session
+    { id: 'session.save', title: 'Save Session', category: 'session', defaultKeys: ['Mod+S'], allowWhileTyping: true, run: handleManualSave },
+    { id: 'session.new', title: 'New Session', category: 'session', isEnabled: () => !!onCreateSession, run: () => onCreateSession?.() },
+    { id: 'session.openProjects', title: 'Open Projects', category: 'session', defaultKeys: ['Mod+O'], run: () => setShowProjectsPage(true) },
+    { id: 'session.saveView', title: 'Save Current View', category: 'session', run: handleSaveViewport },
+    { id: 'session.exportFramesPdf', title: 'Export Frames as PDF', category: 'session', isEnabled: () => canvasImagesRef.current.some(isFrame), run: () => { void handleExportFramesPdf(); } },
+
+    // View
+    { id: 'view.commandPalette', title: 'Command Palette', category: 'view', defaultKeys: ['Mod+K'], allowWhileTyping: true, run: () => setShowCommandPalette(prev => !prev) },
+    { id: 'view.zoomIn', title: 'Zoom In', category: 'view', defaultKeys: ['=', 'Shift+=', '+'], run: handleZoomIn },
+    { id: 'view.zoomOut', title: 'Zoom Out', category: 'view', defaultKeys: ['-'], run: handleZoomOut },
+    { id: 'view.zoomActual', title: 'Zoom to 100%', category: 'view', defaultKeys: ['Shift+0'], run: zoomToActualSize },
+    { id: 'view.fitAll', title: 'Zoom to Fit All', category: 'view', defaultKeys: ['Shift+1'], run: () => zoomToFit('all') },
+    { id: 'view.fitSelection', title: 'Zoom to Selection', category: 'view', defaultKeys: ['Shift+2'], isEnabled: hasSelection, run: () => zoomToFit('selection') },
+    { id: 'view.toggleLayers', title: 'Toggle Layers Panel', category: 'view', run: () => setShowLayersPanel(prev => !prev) },
+    { id: 'view.toggleHistory', title: 'Toggle History Panel', category: 'view', run: () => setShowHistoryPanel(prev => !prev) },
+    { id: 'view.toggleMinimap', title: 'Toggle Minimap', category: 'view', run: () => setShowMinimap(prev => !prev) },
+    { id: 'view.toggleTheme', title: 'Toggle Dark Mode', category: 'view', run: toggleTheme },
+    { id: 'view.settings', title: 'Open Settings', category: 'view', defaultKeys: ['Mod+,'], run: () => setShowSettings(true) }
+  ];
+  const keyBindings = resolveKeymap(appCommands, keymap);
+  const appCommandsRef = useRef(appCommands);
+  const keyBindingsRef = useRef(keyBindings);
+  appCommandsRef.current = appCommands;
+  keyBindingsRef.current = keyBindings;
+
+  // Keyboard shortcuts (bindings come from the command registry and the user's keymap)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Check if user is typing in an input or textarea
@@ -1501,30 +2547,109 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                        activeElement?.tagName === 'TEXTAREA' ||
                        activeElement?.hasAttribute('contenteditable');
 
-      if ((e.key === 'Delete' || e.key === 'Backspace') && !isTyping) {
-        e.preventDefault();
-        handleDeleteSelected();
-      } else if (e.key === 'a' && (e.ctrlKey || e.metaKey) && !isTyping) {
-        e.preventDefault();
-        setCanvasImages(prev => prev.map(img => ({ ...img, selected: true })));
-      } else if (e.key === 's' && (e.ctrlKey || e.metaKey)) {
-        e.preventDefault();
-        handleManualSave();
-      } else if (e.key === 'z' && (e.ctrlKey || e.metaKey) && !e.shiftKey && !isTyping) {
-        e.preventDefault();
-        handleUndo();
-      } else if ((e.key === 'y' && (e.ctrlKey || e.metaKey) && !isTyping) ||
-                 (e.key === 'z' && (e.ctrlKey || e.metaKey) && e.shiftKey && !isTyping)) {
+      // Plugins see keys first (not while typing)
+      if (!isTyping && pluginContextRef.current) {
+        let handled = false;
+        forEachPlugin(plugin => {
+          if (!handled && plugin.onKeyDown?.(e, pluginContextRef.current!) === true) {
+            handled = true;
+          }
+        });
+        if (handled) {
+          e.preventDefault();
+          return;
+        }
+      }
+
+      // Hold space to pan by dragging
+      if (e.code === 'Space' && !isTyping && !(e.ctrlKey || e.metaKey || e.altKey)) {
         e.preventDefault();
-        handleRedo();
+        if (!e.repeat) setIsSpaceHeld(true);
+        return;
       }
+
+      const chord = eventToChord(e);
+      if (!chord) return;
+      const command = findCommandForChord(appCommandsRef.current, keyBindingsRef.current, chord);
+      if (!command || (isTyping && !command.allowWhileTyping)) return;
+      if (command.isEnabled && !command.isEnabled()) return;
+
+      e.preventDefault();
+      command.run();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
     };
+    const handleBlur = () => setIsSpaceHeld(false);
 
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleDeleteSelected, handleManualSave, handleUndo, handleRedo]);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [forEachPlugin]);
 
   const selectedCount = canvasImages.filter(img => img.selected).length;
+  const canvasPlugins = Object.values(canvasEngineRef.current?.plugins || {});
+  const framesById = new Map(canvasImages.filter(isFrame).map(frame => [frame.id, frame]));
+  const selectedItems = canvasImages.filter(img => img.selected);
+  const selectionBounds = selectedItems.length > 0 ? getBounds(selectedItems) : null;
+  const selectedPhotoCount = selectedItems.filter(img => !img.type || img.type === 'image').length;
+
+  useEffect(() => {
+    setPresetMenuOpen(false);
+  }, [selectedCount]);
+
+  // Only entities near the visible area are rendered (a text being edited always is)
+  const visibleCanvasRect = canvasSize.width > 0
+    ? getVisibleCanvasRect({ zoom, panOffset, ...canvasSize }, VIEWPORT_CULL_MARGIN_PX)
+    : null;
+  const renderedImages = canvasImages.filter(image =>
+    !image.hidden &&
+    !(image.frameId && framesById.get(image.frameId)?.hidden) &&
+    (!visibleCanvasRect || image.id === editingTextId || intersectsBounds(image, visibleCanvasRect))
+  );
+  const pixelRatio = window.devicePixelRatio || 1;
+  const fullResolutionKey = [...new Set(renderedImages
+    .filter(img => img.type !== 'text' && img.type !== 'board' && img.type !== 'frame')
+    .filter(img => !img.dataUri && img.imageMetaId && needsFullResolution(img, zoom, pixelRatio))
+    .map(img => img.imageMetaId!))].join(',');
+
+  // Level of detail: once panning/zooming settles, load full resolution for images shown larger than their thumbnail
+  useEffect(() => {
+    const wanted = new Set(fullResolutionKey ? fullResolutionKey.split(',') : []);
+    const missing = [...wanted].filter(hash => !fullResolutionUris[hash]).slice(0, FULL_RESOLUTION_CACHE_LIMIT);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      const loaded: Record<string, string> = {};
+      for (const hash of missing) {
+        const image = canvasImagesRef.current.find(img => img.imageMetaId === hash);
+        const dataUri = image ? await resolveImageData(image) : null;
+        if (cancelled) return;
+        if (dataUri) loaded[hash] = dataUri;
+      }
+
+      setFullResolutionUris(prev => {
+        const next = { ...prev, ...loaded };
+        // Keep what is on screen, drop the rest beyond the limit
+        Object.keys(next).forEach(hash => {
+          if (Object.keys(next).length > FULL_RESOLUTION_CACHE_LIMIT && !wanted.has(hash)) delete next[hash];
+        });
+        return next;
+      });
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [fullResolutionKey, fullResolutionUris, resolveImageData]);
 
   return (
     <>
@@ -1538,6 +2663,8 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
             StorageServiceV2.deleteSession(sessionId);
             window.location.reload();
           }}
+          onSessionsImported={() => window.location.reload()}
+          currentUser={currentUser}
         />
       )}
 
@@ -1744,6 +2871,45 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           >
             <Square size={20} className="text-zinc-600 dark:text-zinc-400" />
           </button>
+          <div className="relative">
+            <button
+              onClick={() => setFrameMenuOpen(prev => !prev)}
+              className={`p-2 transition-colors ${frameMenuOpen ? 'bg-zinc-100 dark:bg-zinc-800' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800'}`}
+              title="Add Frame"
+            >
+              <Frame size={20} className="text-zinc-600 dark:text-zinc-400" />
+            </button>
+            {frameMenuOpen && (
+              <div className="absolute left-full top-0 ml-2 w-52 bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg shadow-lg py-1">
+                {FRAME_PRESETS.map(preset => (
+                  <button
+                    key={preset.id}
+                    onClick={() => handleAddFrame(preset)}
+                    className="w-full flex items-center justify-between px-3 py-1.5 text-xs text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                  >
+                    <span>{preset.label}</span>
+                    <span className="text-zinc-400">{preset.width}×{preset.height}</span>
+                  </button>
+                ))}
+                <div className="my-1 border-t border-zinc-200 dark:border-zinc-700" />
+                <button
+                  onClick={handleExportFramesPdf}
+                  disabled={isExportingFrames}
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  <FileDown size={14} />
+                  {isExportingFrames ? 'Exporting...' : 'Export Frames as PDF'}
+                </button>
+              </div>
+            )}
+          </div>
+          <button
+            onClick={() => setShowLayersPanel(prev => !prev)}
+            className={`p-2 transition-colors ${showLayersPanel ? 'bg-zinc-100 dark:bg-zinc-800' : 'hover:bg-zinc-50 dark:hover:bg-zinc-800'}`}
+            title="Layers"
+          >
+            <Layers size={20} className="text-zinc-600 dark:text-zinc-400" />
+          </button>
           <button
             onClick={() => setShowSettings(true)}
             className="p-2 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
@@ -1753,13 +2919,95 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           </button>
         </div>
 
+        {/* Layers Panel */}
+        {showLayersPanel && currentSession && (
+          <div className="absolute left-16 top-1/2 -translate-y-1/2 z-30 w-64 max-h-[70vh] flex flex-col bg-white dark:bg-zinc-900 border border-zinc-300 dark:border-zinc-700 rounded-lg shadow-lg">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-200 dark:border-zinc-700">
+              <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Layers</span>
+              <button
+                onClick={() => setShowLayersPanel(false)}
+                className="p-1 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                title="Close"
+              >
+                <X size={14} className="text-zinc-500" />
+              </button>
+            </div>
+            <div className="flex items-center justify-between px-2 py-1 border-b border-zinc-200 dark:border-zinc-700">
+              {([
+                { title: 'Group (Ctrl+G)', icon: Group, onClick: handleGroupSelected },
+                { title: 'Ungroup (Ctrl+Shift+G)', icon: Ungroup, onClick: handleUngroupSelected },
+                { title: 'Bring Forward (Ctrl+])', icon: ArrowUp, onClick: () => handleReorderSelected('forward') },
+                { title: 'Send Backward (Ctrl+[)', icon: ArrowDown, onClick: () => handleReorderSelected('backward') },
+                { title: 'Bring to Front (Ctrl+Shift+])', icon: BringToFront, onClick: () => handleReorderSelected('front') },
+                { title: 'Send to Back (Ctrl+Shift+[)', icon: SendToBack, onClick: () => handleReorderSelected('back') }
+              ]).map(({ title, icon: Icon, onClick }) => (
+                <button
+                  key={title}
+                  onClick={onClick}
+                  disabled={selectedCount === 0}
+                  className="p-1.5 rounded hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-40 disabled:cursor-not-allowed"
+                  title={title}
+                >
+                  <Icon size={16} className="text-zinc-600 dark:text-zinc-400" />
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto py-1">
+              {canvasImages.length === 0 ? (
+                <p className="px-3 py-4 text-xs text-center text-zinc-500">No items on the canvas</p>
+              ) : (
+                // Top of the stack first
+                [...canvasImages].reverse().map(image => {
+                  const TypeIcon = image.type === 'text' ? Type : image.type === 'board' ? Square : image.type === 'frame' ? Frame : ImageIcon;
+                  const label = image.type === 'text'
+                    ? (image.text || 'Text').slice(0, 30)
+                    : image.type === 'board' ? 'Whiteboard' : image.type === 'frame' ? image.name || 'Frame' : 'Image';
+                  return (
+                    <div
+                      key={image.id}
+                      onClick={(e) => handleSelectLayer(e, image)}
+                      className={`flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer ${
+                        image.selected
+                          ? 'bg-orange-50 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300'
+                          : 'text-zinc-700 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                      } ${image.hidden ? 'opacity-50' : ''}`}
+                    >
+                      <TypeIcon size={14} className="shrink-0" />
+                      <span className="flex-1 truncate">{label}</span>
+                      {image.groupId && (
+                        <span className="shrink-0 text-[10px] px-1 rounded bg-zinc-200 dark:bg-zinc-700 text-zinc-600 dark:text-zinc-300" title="Grouped">
+                          G
+                        </span>
+                      )}
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleToggleLayerFlag(image, 'hidden'); }}
+                        className="p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                        title={image.hidden ? 'Show' : 'Hide'}
+                      >
+                        {image.hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleToggleLayerFlag(image, 'locked'); }}
+                        className="p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-700"
+                        title={image.locked ? 'Unlock' : 'Lock'}
+                      >
+                        {image.locked ? <Lock size={12} /> : <Unlock size={12} />}
+                      </button>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Main Content */}
         {currentSession ? (
         <div className="flex-1 relative overflow-hidden">
           {/* Canvas Area */}
         <div
           ref={canvasRef}
-          className="absolute inset-0 overflow-hidden cursor-crosshair canvas-background"
+          className={`absolute inset-0 overflow-hidden canvas-background ${isPanning ? 'cursor-grabbing' : isSpaceHeld ? 'cursor-grab' : 'cursor-crosshair'}`}
           style={{
             backgroundImage: theme === 'dark'
               ? 'radial-gradient(circle, #27272a 1px, transparent 1px)'
@@ -1770,7 +3018,10 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           onMouseDown={handleCanvasMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          onMouseLeave={() => {
+            pointerCanvasRef.current = null;
+            handleMouseUp();
+          }}
           onDrop={handleDrop}
           onDragOver={handleDragOver}
           onContextMenu={handleCanvasContextMenu}
@@ -1796,10 +3047,10 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           )}
 
           {/* Canvas Images & Text */}
-          {canvasImages.map(image => (
+          {renderedImages.map(image => (
             <React.Fragment key={image.id}>
               <div
-                className={`absolute cursor-move ${image.selected ? 'ring-4 ring-orange-500' : 'ring-1 ring-zinc-300 dark:ring-zinc-700'}`}
+                className={`absolute ${image.locked ? 'pointer-events-none' : 'cursor-move'} ${image.selected ? 'ring-4 ring-orange-500' : 'ring-1 ring-zinc-300 dark:ring-zinc-700'}`}
                 style={{
                   left: `${image.x * zoom + panOffset.x}px`,
                   top: `${image.y * zoom + panOffset.y}px`,
@@ -1809,7 +3060,11 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   userSelect: 'none',
                   WebkitUserSelect: 'none',
                   MozUserSelect: 'none',
-                  msUserSelect: 'none'
+                  msUserSelect: 'none',
+                  // Frame contents are clipped to the frame
+                  clipPath: image.frameId && framesById.has(image.frameId)
+                    ? frameClipPath(image, framesById.get(image.frameId)!, zoom)
+                    : undefined
                 }}
                 onMouseDown={(e) => handleImageMouseDown(e, image.id)}
                 onDoubleClick={(e) => {
@@ -1845,6 +3100,17 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   >
                     {image.text}
                   </div>
+                ) : image.type === 'frame' ? (
+                  <>
+                    <div
+                      className="w-full h-full shadow-md pointer-events-none"
+                      style={{ backgroundColor: image.backgroundColor || '#ffffff' }}
+                    />
+                    {/* Frame name - fixed size regardless of zoom */}
+                    <div className="absolute bottom-full left-0 mb-1 text-xs font-medium text-zinc-500 dark:text-zinc-400 whitespace-nowrap pointer-events-none">
+                      {image.name || 'Frame'}
+                    </div>
+                  </>
                 ) : image.type === 'board' ? (
                   <div
                     className="w-full h-full border border-dashed border-zinc-300 dark:border-zinc-700 bg-white/90 dark:bg-zinc-900/80 pointer-events-none"
@@ -1853,7 +3119,9 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                 ) : (
                   <>
                     <img
-                      src={image.thumbnailUri || image.dataUri}
+                      src={needsFullResolution(image, zoom, pixelRatio)
+                        ? image.dataUri || fullResolutionUris[image.imageMetaId || ''] || image.thumbnailUri
+                        : image.thumbnailUri || image.dataUri}
                       alt="Canvas item"
                       className="w-full h-full object-cover pointer-events-none"
                       draggable={false}
@@ -1881,9 +3149,14 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                     )}
                   </>
                 )}
-                {image.selected && (
+                {image.selected && !image.locked && (
                   <div className="absolute bottom-0 right-0 w-4 h-4 bg-orange-500 cursor-nwse-resize" />
                 )}
+                {image.locked && (
+                  <div className="absolute top-1 right-1 p-0.5 rounded bg-zinc-900/70 text-white">
+                    <Lock size={10} />
+                  </div>
+                )}
               </div>
 
               {/* Inline Toolbar for Selected Item - hidden when edit modal is open */}
@@ -1897,7 +3170,71 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   }}
                   onMouseDown={(e) => e.stopPropagation()}
                 >
-                  {image.type === 'board' ? (
+                  {image.type === 'frame' ? (
+                    // Frame-specific toolbar
+                    <>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRenameFrame(image);
+                        }}
+                        className="p-1.5 rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors"
+                        title="Rename Frame"
+                      >
+                        <Edit2 size={16} className="text-white" />
+                      </button>
+                      <div className="w-px h-4 bg-zinc-600 mx-1"></div>
+                      <select
+                        value={image.framePreset || ''}
+                        onChange={(e) => {
+                          e.stopPropagation();
+                          handleSetFramePreset(image.id, e.target.value);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="px-1 py-0.5 text-xs bg-zinc-800 border border-zinc-600 rounded text-white focus:outline-none focus:border-orange-500"
+                        title="Frame Size"
+                      >
+                        {!getFramePreset(image.framePreset) && <option value="">Custom</option>}
+                        {FRAME_PRESETS.map(preset => (
+                          <option key={preset.id} value={preset.id}>{preset.label}</option>
+                        ))}
+                      </select>
+                      <div className="w-px h-4 bg-zinc-600 mx-1"></div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportFramePng(image);
+                        }}
+                        disabled={isExportingFrames}
+                        className="px-2 py-1 text-xs rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors text-white disabled:opacity-50"
+                        title="Export Frame as PNG"
+                      >
+                        PNG
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleExportFramesPdf();
+                        }}
+                        disabled={isExportingFrames}
+                        className="px-2 py-1 text-xs rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors text-white disabled:opacity-50"
+                        title="Export All Frames as PDF"
+                      >
+                        PDF
+                      </button>
+                      <div className="w-px h-4 bg-zinc-600 mx-1"></div>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteImage(image.id);
+                        }}
+                        className="p-1.5 rounded hover:bg-red-600 dark:hover:bg-red-600 transition-colors"
+                        title="Delete Frame and Contents"
+                      >
+                        <Trash2 size={16} className="text-white" />
+                      </button>
+                    </>
+                  ) : image.type === 'board' ? (
                     // Whiteboard-specific toolbar
                     <>
                       <button
@@ -2034,7 +3371,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   ) : (
                     // Image toolbar
                     <>
-                      {image.dataUri && (
+                      {(image.dataUri || image.imageMetaId) && (
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -2056,6 +3393,38 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                       >
                         <Copy size={16} className="text-white" />
                       </button>
+                      {image.versions && image.versions.length > 1 && (
+                        <>
+                          <div className="w-px h-4 bg-zinc-600 mx-1"></div>
+                          {/* Version strip */}
+                          {image.versions.map((version, index) => (
+                            <button
+                              key={version.hash}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleSelectImageVersion(image.id, version.hash);
+                              }}
+                              className={`px-1.5 py-1 rounded text-xs font-medium text-white transition-colors ${
+                                version.hash === image.imageMetaId ? 'bg-orange-600' : 'hover:bg-zinc-700 dark:hover:bg-zinc-700'
+                              }`}
+                              title={`${version.source === 'original' ? 'Original' : 'Manual edit'} · ${new Date(version.created_at).toLocaleString()}`}
+                            >
+                              v{index + 1}
+                            </button>
+                          ))}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleRevertImage(image.id);
+                            }}
+                            disabled={!image.versions.find(version => version.hash === image.imageMetaId)?.parent_hash}
+                            className="p-1.5 rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="Revert to the previous version"
+                          >
+                            <RotateCcw size={16} className="text-white" />
+                          </button>
+                        </>
+                      )}
                       <div className="w-px h-4 bg-zinc-600 mx-1"></div>
                       {/* Tag Dropdown */}
                       <div className="relative">
@@ -2138,6 +3507,122 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
             </React.Fragment>
           ))}
 
+          {/* Plugin Overlays */}
+          <div className="absolute inset-0 pointer-events-none z-30">
+            {canvasPlugins.map(plugin => plugin.renderOverlay && (
+              <React.Fragment key={plugin.id}>
+                {renderPluginSafely(plugin, () => plugin.renderOverlay!(pluginContextRef.current!), null)}
+              </React.Fragment>
+            ))}
+          </div>
+
+          {/* Alignment Toolbar for Multi-Selection */}
+          {selectionBounds && selectedCount >= 2 && !draggedImage && !editModalOpen && (
+            <div
+              className="absolute flex items-center gap-1 bg-zinc-900/95 dark:bg-zinc-800/95 backdrop-blur-sm border border-zinc-700 dark:border-zinc-600 rounded-lg shadow-xl px-2 py-1.5"
+              style={{
+                left: `${selectionBounds.x * zoom + panOffset.x}px`,
+                top: `${selectionBounds.y * zoom + panOffset.y - 48}px`,
+                zIndex: 40
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+            >
+              {([
+                { title: 'Align Left', icon: AlignStartVertical, mode: 'left' },
+                { title: 'Align Centers Horizontally', icon: AlignCenterVertical, mode: 'center' },
+                { title: 'Align Right', icon: AlignEndVertical, mode: 'right' },
+                { title: 'Align Top', icon: AlignStartHorizontal, mode: 'top' },
+                { title: 'Align Middles Vertically', icon: AlignCenterHorizontal, mode: 'middle' },
+                { title: 'Align Bottom', icon: AlignEndHorizontal, mode: 'bottom' }
+              ] as Array<{ title: string; icon: typeof AlignStartVertical; mode: AlignMode }>).map(({ title, icon: Icon, mode }) => (
+                <button
+                  key={mode}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleAlignSelected(mode);
+                  }}
+                  className="p-1.5 rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors"
+                  title={title}
+                >
+                  <Icon size={16} className="text-white" />
+                </button>
+              ))}
+              <div className="w-px h-4 bg-zinc-600 mx-1"></div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDistributeSelected('horizontal');
+                }}
+                disabled={selectedCount < 3}
+                className="p-1.5 rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Distribute Horizontally"
+              >
+                <AlignHorizontalDistributeCenter size={16} className="text-white" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDistributeSelected('vertical');
+                }}
+                disabled={selectedCount < 3}
+                className="p-1.5 rounded hover:bg-zinc-700 dark:hover:bg-zinc-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Distribute Vertically"
+              >
+                <AlignVerticalDistributeCenter size={16} className="text-white" />
+              </button>
+              {selectedPhotoCount > 0 && (
+                <>
+                  <div className="w-px h-4 bg-zinc-600 mx-1"></div>
+                  {/* Adjustment presets for the selected images */}
+                  <div className="relative">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPresetMenuOpen(open => !open);
+                      }}
+                      disabled={isGeneratingThumbnails}
+                      className={`p-1.5 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                        presetMenuOpen ? 'bg-zinc-700' : 'hover:bg-zinc-700 dark:hover:bg-zinc-700'
+                      }`}
+                      title={`Apply Preset to ${selectedPhotoCount} Image${selectedPhotoCount === 1 ? '' : 's'}`}
+                    >
+                      <SlidersHorizontal size={16} className="text-white" />
+                    </button>
+                    {presetMenuOpen && (
+                      <div className="absolute top-full right-0 mt-1 bg-zinc-800 border border-zinc-600 rounded-lg shadow-xl overflow-hidden min-w-[160px] z-50">
+                        {adjustmentPresets.map(preset => (
+                          <div key={preset.id} className="flex items-center hover:bg-zinc-700">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                void handleApplyPresetToSelected(preset);
+                              }}
+                              className="flex-1 px-3 py-2 text-left text-xs text-white"
+                            >
+                              {preset.name}
+                            </button>
+                            {!preset.builtIn && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteAdjustmentPreset(preset.id);
+                                }}
+                                className="px-2 py-2 text-zinc-400 hover:text-red-400"
+                                title="Delete preset"
+                              >
+                                <Trash2 size={12} />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {/* Selection Box */}
           {isSelecting && selectionBox && (
             <div
@@ -2151,46 +3636,380 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
             />
           )}
 
+          {/* Context Menu */}
+          {contextMenu.visible && (() => {
+            const target: CanvasContextMenuTarget = {
+              canvasX: contextMenu.canvasX,
+              canvasY: contextMenu.canvasY,
+              image: canvasImages.find(img => img.id === contextMenu.targetId)
+            };
+            const pluginItems = canvasPlugins.flatMap(plugin => {
+              try {
+                return plugin.contextMenuItems?.(target, pluginContextRef.current!) || [];
+              } catch (error) {
+                console.warn(`[Plugins] ${plugin.id} failed`, error);
+                return [];
+              }
+            });
+            const itemClass = 'w-full px-4 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200 flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed';
+
+            return (
+              <div
+                className="fixed z-50 w-52 py-1 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl"
+                style={{ left: contextMenu.x, top: contextMenu.y }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onContextMenu={(e) => e.preventDefault()}
+              >
+                <button onClick={handleOpenUploadFromContext} className={itemClass}>
+                  <Upload size={14} /> Upload Image
+                </button>
+                <button onClick={handleAddTextFromContext} className={itemClass}>
+                  <Type size={14} /> Add Text Here
+                </button>
+                <button onClick={handleAddWhiteboardFromContext} className={itemClass}>
+                  <Square size={14} /> Add Whiteboard Here
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    closeContextMenu();
+                    void handlePaste({ x: contextMenu.canvasX, y: contextMenu.canvasY });
+                  }}
+                  className={itemClass}
+                >
+                  <ClipboardPaste size={14} /> Paste Here
+                </button>
+                {target.image && (
+                  <>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        closeContextMenu();
+                        void handleCopySelected();
+                      }}
+                      disabled={!target.image.selected}
+                      className={itemClass}
+                    >
+                      <Copy size={14} /> Copy
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        closeContextMenu();
+                        void handleCutSelected();
+                      }}
+                      disabled={!target.image.selected}
+                      className={itemClass}
+                    >
+                      <Scissors size={14} /> Cut
+                    </button>
+                  </>
+                )}
+                {target.image && (!target.image.type || target.image.type === 'image') && (() => {
+                  const sourceId = target.image.controlSource?.imageId;
+                  const hasSource = !!sourceId && canvasImages.some(img => img.id === sourceId);
+                  return (
+                    <>
+                      <div className="my-1 border-t border-zinc-200 dark:border-zinc-700" />
+                      <div className="px-4 py-1 text-[11px] font-semibold text-zinc-500 dark:text-zinc-400">Create Control Map</div>
+                      {CONTROL_PREPROCESSORS.map(item => (
+                        <button
+                          key={item.id}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            void handleCreateControlMap(target.image!.id, item.id);
+                          }}
+                          className={itemClass}
+                          title={item.description}
+                        >
+                          <ScanLine size={14} /> {item.label}
+                        </button>
+                      ))}
+                      {hasSource && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            closeContextMenu();
+                            setCanvasImages(prev => selectEntities(prev, [sourceId!], 'replace'));
+                          }}
+                          className={itemClass}
+                        >
+                          <Crosshair size={14} /> Select Source Image
+                        </button>
+                      )}
+                    </>
+                  );
+                })()}
+                {pluginItems.length > 0 && (
+                  <>
+                    <div className="my-1 border-t border-zinc-200 dark:border-zinc-700" />
+                    {pluginItems.map(item => (
+                      <button
+                        key={item.id}
+                        disabled={item.disabled}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          closeContextMenu();
+                          item.onSelect();
+                        }}
+                        className={itemClass}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+            );
+          })()}
+
           {/* Bottom-Center Toolbar */}
           <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-white/95 dark:bg-zinc-900/95 backdrop-blur-sm border border-zinc-300 dark:border-zinc-700 rounded-lg shadow-xl px-4 py-2">
             <button
               onClick={handleUndo}
-              disabled={historyPast.length === 0}
+              disabled={canvasHistory.position === 0}
               className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-              title={`Undo (${historyPast.length} actions)`}
+              title={canvasHistory.position > 0
+                ? `Undo ${canvasHistory.commands[canvasHistory.position - 1].label}`
+                : 'Undo'}
             >
               <Undo size={18} className="text-zinc-700 dark:text-zinc-300" />
             </button>
             <button
               onClick={handleRedo}
-              disabled={historyFuture.length === 0}
+              disabled={canvasHistory.position >= canvasHistory.commands.length}
               className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-              title={`Redo (${historyFuture.length} actions)`}
+              title={canvasHistory.position < canvasHistory.commands.length
+                ? `Redo ${canvasHistory.commands[canvasHistory.position].label}`
+                : 'Redo'}
             >
               <Redo size={18} className="text-zinc-700 dark:text-zinc-300" />
             </button>
+            <div className="relative">
+              <button
+                onClick={() => setShowHistoryPanel(!showHistoryPanel)}
+                className={`p-2 rounded-lg transition-colors ${
+                  showHistoryPanel
+                    ? 'bg-orange-50 dark:bg-orange-950/30'
+                    : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+                title="History"
+              >
+                <History size={18} className="text-zinc-700 dark:text-zinc-300" />
+              </button>
+
+              {showHistoryPanel && (
+                <div className="absolute bottom-full left-0 mb-2 w-64 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden">
+                  <div className="px-3 py-2 text-xs font-semibold text-zinc-500 dark:text-zinc-400 border-b border-zinc-200 dark:border-zinc-700 flex items-center justify-between">
+                    <span>History</span>
+                    <span className="font-normal">{canvasHistory.position}/{canvasHistory.commands.length}</span>
+                  </div>
+                  <div className="max-h-72 overflow-y-auto">
+                    {[{ id: 'start', label: 'Start of history', timestamp: '' }, ...canvasHistory.commands].map((command, step) => (
+                      <button
+                        key={command.id}
+                        onClick={() => void travelHistory(step)}
+                        className={`w-full px-4 py-1.5 text-left text-sm flex items-center justify-between gap-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 ${
+                          step === canvasHistory.position
+                            ? 'bg-orange-50 dark:bg-orange-950/30 text-orange-700 dark:text-orange-400'
+                            : step > canvasHistory.position
+                              ? 'text-zinc-400 dark:text-zinc-600'
+                              : 'text-zinc-700 dark:text-zinc-200'
+                        }`}
+                      >
+                        <span className="truncate">{command.label}</span>
+                        {command.timestamp && (
+                          <span className="shrink-0 text-xs text-zinc-400 dark:text-zinc-500">
+                            {new Date(command.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
             <div className="w-px h-6 bg-zinc-300 dark:bg-zinc-600"></div>
             <button
-              onClick={() => setZoom(prev => Math.round((prev - 0.1) * 10) / 10)}
-              disabled={zoom <= 0.1}
+              onClick={handleZoomOut}
+              disabled={zoom <= MIN_ZOOM}
               className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-              title="Zoom Out"
+              title="Zoom Out (-)"
             >
               <ZoomOut size={18} className="text-zinc-700 dark:text-zinc-300" />
             </button>
-            <div className="px-3 py-1 min-w-[60px] text-center text-sm font-medium text-zinc-900 dark:text-zinc-100">
+            <button
+              onClick={zoomToActualSize}
+              className="px-3 py-1 min-w-[60px] text-center text-sm font-medium text-zinc-900 dark:text-zinc-100 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              title="Zoom to 100% (Shift+0)"
+            >
               {Math.round(zoom * 100)}%
-            </div>
+            </button>
             <button
-              onClick={() => setZoom(prev => Math.round((prev + 0.1) * 10) / 10)}
-              disabled={zoom >= 3}
+              onClick={handleZoomIn}
+              disabled={zoom >= MAX_ZOOM}
               className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
-              title="Zoom In"
+              title="Zoom In (+)"
             >
               <ZoomIn size={18} className="text-zinc-700 dark:text-zinc-300" />
             </button>
+            <button
+              onClick={() => zoomToFit('all')}
+              disabled={canvasImages.length === 0}
+              className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              title="Fit All (Shift+1)"
+            >
+              <Maximize size={18} className="text-zinc-700 dark:text-zinc-300" />
+            </button>
+            <button
+              onClick={() => zoomToFit('selection')}
+              disabled={selectedCount === 0}
+              className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+              title="Fit Selection (Shift+2)"
+            >
+              <Focus size={18} className="text-zinc-700 dark:text-zinc-300" />
+            </button>
+            <div className="w-px h-6 bg-zinc-300 dark:bg-zinc-600"></div>
+            {/* Plugin Toolbar Buttons */}
+            {canvasPlugins.flatMap(plugin =>
+              renderPluginSafely(plugin, () => plugin.toolbarButtons?.(pluginContextRef.current!) || [], [])
+            ).map(button => (
+              <button
+                key={button.id}
+                onClick={button.onClick}
+                className={`p-2 rounded-lg transition-colors ${
+                  button.active
+                    ? 'bg-orange-50 dark:bg-orange-950/30'
+                    : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                }`}
+                title={button.title}
+              >
+                {button.icon ? (
+                  <button.icon size={18} className="text-zinc-700 dark:text-zinc-300" />
+                ) : (
+                  <span className="block w-[18px] text-sm font-semibold leading-[18px] text-zinc-700 dark:text-zinc-300">{button.label || '?'}</span>
+                )}
+              </button>
+            ))}
+            <div className="relative">
+              <button
+                onClick={() => setArrangeMenuOpen(!arrangeMenuOpen)}
+                disabled={canvasImages.length < 2}
+                className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                title={selectedCount >= 2 ? 'Arrange Selection' : 'Arrange Canvas'}
+              >
+                <LayoutGrid size={18} className="text-zinc-700 dark:text-zinc-300" />
+              </button>
+
+              {arrangeMenuOpen && (
+                <>
+                  <div
+                    className="fixed inset-0 z-40"
+                    onClick={() => setArrangeMenuOpen(false)}
+                  />
+                  <div className="absolute bottom-full right-0 mb-2 w-56 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden">
+                    <div className="px-3 py-2 text-xs font-semibold text-zinc-500 dark:text-zinc-400 border-b border-zinc-200 dark:border-zinc-700">
+                      {selectedCount >= 2 ? `Arrange ${selectedCount} selected` : 'Arrange canvas'}
+                    </div>
+                    {([
+                      { mode: 'grid', label: 'Grid' },
+                      { mode: 'masonry', label: 'Masonry' },
+                      { mode: 'lineage', label: 'By Generation Lineage' }
+                    ] as Array<{ mode: ArrangeMode; label: string }>).map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => handleArrange(mode)}
+                        className="w-full px-4 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setViewportMenuOpen(!viewportMenuOpen)}
+                disabled={!currentSession}
+                className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                title="Saved Views"
+              >
+                <Bookmark size={18} className="text-zinc-700 dark:text-zinc-300" />
+              </button>
+
+              {viewportMenuOpen && (
+                <>
+                  <div
+                    className="fixed inset-0 z-40"
+                    onClick={() => setViewportMenuOpen(false)}
+                  />
+                  <div className="absolute bottom-full right-0 mb-2 w-56 bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-700 rounded-lg shadow-xl z-50 overflow-hidden">
+                    <button
+                      onClick={handleSaveViewport}
+                      className="w-full px-4 py-2 text-left text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200 flex items-center gap-2 border-b border-zinc-200 dark:border-zinc-700"
+                    >
+                      <BookmarkPlus size={16} />
+                      Save Current View
+                    </button>
+                    {(currentSession?.saved_viewports || []).length === 0 ? (
+                      <div className="px-4 py-3 text-xs text-zinc-500 dark:text-zinc-400">
+                        No saved views yet
+                      </div>
+                    ) : (
+                      <div className="max-h-60 overflow-y-auto">
+                        {(currentSession?.saved_viewports || []).map(viewport => (
+                          <div
+                            key={viewport.id}
+                            className="group flex items-center hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                          >
+                            <button
+                              onClick={() => handleJumpToViewport(viewport)}
+                              className="flex-1 min-w-0 px-4 py-2 text-left text-sm text-zinc-700 dark:text-zinc-200"
+                            >
+                              <div className="truncate">{viewport.name}</div>
+                              <div className="text-xs text-zinc-500 dark:text-zinc-400">{Math.round(viewport.zoom * 100)}%</div>
+                            </button>
+                            <button
+                              onClick={() => handleDeleteViewport(viewport.id)}
+                              className="p-2 mr-1 rounded opacity-0 group-hover:opacity-100 hover:bg-zinc-200 dark:hover:bg-zinc-700 text-zinc-500 transition-opacity"
+                              title="Delete view"
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+            <button
+              onClick={() => setShowMinimap(!showMinimap)}
+              className={`p-2 rounded-lg transition-colors ${
+                showMinimap
+                  ? 'bg-orange-50 dark:bg-orange-950/30'
+                  : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+              }`}
+              title={showMinimap ? 'Hide Minimap' : 'Show Minimap'}
+            >
+              <MapIcon size={18} className="text-zinc-700 dark:text-zinc-300" />
+            </button>
           </div>
 
+          {/* Minimap */}
+          {showMinimap && canvasImages.length > 0 && canvasSize.width > 0 && (
+            <div className="absolute bottom-4 left-4 z-30">
+              <CanvasMinimap
+                images={canvasImages}
+                viewport={{ zoom, panOffset, ...canvasSize }}
+                theme={theme}
+                onNavigate={setPanOffset}
+              />
+            </div>
+          )}
+
           </div>
 
           {/* Right Floating Panel - Generation Controls */}
@@ -2233,6 +4052,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   Prompt
                 </label>
                 <textarea
+                  ref={promptInputRef}
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
                   placeholder={selectedCount > 0 ? "Transform selected..." : "Describe image..."}
@@ -2249,22 +4069,46 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                 </div>
               )}
 
+              {/* Provider Selection (only when more than one is registered) */}
+              {ProviderRegistry.list().length > 1 && (
+                <div>
+                  <label className="block text-xs font-semibold mb-1.5 text-zinc-700 dark:text-zinc-300">
+                    Provider
+                  </label>
+                  <select
+                    value={activeProvider.id}
+                    onChange={(e) => {
+                      const provider = ProviderRegistry.get(e.target.value);
+                      if (!provider) return;
+                      setConfig(prev => ProviderRegistry.normalizeConfig({ ...prev, provider: provider.id, model: provider.models[0].id }));
+                    }}
+                    className="w-full px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                  >
+                    {ProviderRegistry.list().map(provider => (
+                      <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               {/* Model Selection */}
               <div>
                 <label className="block text-xs font-semibold mb-1.5 text-zinc-700 dark:text-zinc-300">
                   Model
                 </label>
                 <select
-                  value={config.model}
-                  onChange={(e) => setConfig(prev => ({ ...prev, model: e.target.value }))}
+                  value={activeModel.id}
+                  onChange={(e) => setConfig(prev => ProviderRegistry.normalizeConfig({ ...prev, model: e.target.value }))}
                   className="w-full px-3 py-2 text-sm border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-orange-500"
                 >
-                  <option value="gemini-2.5-flash-image">Flash (Free, Fast)</option>
-                  <option value="gemini-3-pro-image-preview">Pro (Paid, Higher Quality)</option>
+                  {activeProvider.models.map(model => (
+                    <option key={model.id} value={model.id}>{model.label}</option>
+                  ))}
                 </select>
               </div>
 
               {/* Temperature */}
+              {activeModel.capabilities.temperature && (
               <div>
                 <div className="flex justify-between items-center mb-1.5">
                   <label className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 flex items-center gap-1">
@@ -2285,8 +4129,10 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   className="w-full h-2 bg-zinc-200 dark:bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
                 />
               </div>
+              )}
 
               {/* Top P */}
+              {activeModel.capabilities.topP && (
               <div>
                 <div className="flex justify-between items-center mb-1.5">
                   <label className="text-xs font-semibold text-zinc-700 dark:text-zinc-300 flex items-center gap-1">
@@ -2307,6 +4153,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   className="w-full h-2 bg-zinc-200 dark:bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-orange-500"
                 />
               </div>
+              )}
 
               {/* Aspect Ratio */}
               <div>
@@ -2314,7 +4161,7 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                   Aspect Ratio
                 </label>
                 <div className="grid grid-cols-3 gap-2">
-                  {['1:1', '16:9', '9:16', '3:4', '4:3'].map(ratio => (
+                  {activeModel.capabilities.aspectRatios.map(ratio => (
                     <button
                       key={ratio}
                       onClick={() => setConfig(prev => ({ ...prev, aspect_ratio: ratio }))}
@@ -2330,28 +4177,110 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
                 </div>
               </div>
 
+              {/* Image Size (only for models with configurable output size) */}
+              {activeModel.capabilities.imageSizes && (
+                <div>
+                  <label className="block text-xs font-semibold mb-1.5 text-zinc-700 dark:text-zinc-300">
+                    Image Size
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {activeModel.capabilities.imageSizes.map(size => (
+                      <button
+                        key={size}
+                        onClick={() => setConfig(prev => ({ ...prev, image_size: size }))}
+                        className={`py-2 px-2 rounded-lg border transition-colors text-xs font-medium ${
+                          config.image_size === size
+                            ? 'bg-orange-50 dark:bg-orange-950/30 border-orange-300 dark:border-orange-900 text-orange-700 dark:text-orange-400'
+                            : 'bg-white dark:bg-zinc-800 border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                        }`}
+                      >
+                        {size}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Variations (image mode only) */}
+              {showImageInput && (
+                <div>
+                  <label className="text-xs font-semibold mb-1.5 text-zinc-700 dark:text-zinc-300 flex items-center gap-1">
+                    Variations
+                    <div title="Number of parallel requests. All results are kept under one generation." className="cursor-help opacity-50">
+                      <HelpCircle size={12} />
+                    </div>
+                  </label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+                      <button
+                        key={count}
+                        onClick={() => setVariationCount(count)}
+                        className={`py-2 px-2 rounded-lg border transition-colors text-xs font-medium ${
+                          variationCount === count
+                            ? 'bg-orange-50 dark:bg-orange-950/30 border-orange-300 dark:border-orange-900 text-orange-700 dark:text-orange-400'
+                            : 'bg-white dark:bg-zinc-800 border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                        }`}
+                      >
+                        {count}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Generate Button */}
               <button
                 onClick={handleGenerate}
-                disabled={isGenerating}
-                className={`w-full py-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${
-                  isGenerating
-                    ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-400 dark:text-zinc-500 cursor-not-allowed'
-                    : 'bg-gradient-to-r from-orange-600 to-orange-500 hover:from-orange-500 hover:to-orange-400 text-white shadow-lg hover:shadow-xl'
-                }`}
+                className="w-full py-3 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all bg-gradient-to-r from-orange-600 to-orange-500 hover:from-orange-500 hover:to-orange-400 text-white shadow-lg hover:shadow-xl"
               >
-                {isGenerating ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <Sparkles size={18} />
-                    Generate
-                  </>
-                )}
+                <Sparkles size={18} />
+                {queueJobs.some(job => job.status === 'queued' || job.status === 'pending') ? 'Add to Queue' : 'Generate'}
               </button>
+
+              {/* Generation Queue */}
+              {queueJobs.length > 0 && (
+                <div className="space-y-1.5">
+                  <label className="block text-xs font-semibold text-zinc-700 dark:text-zinc-300">
+                    Queue
+                  </label>
+                  {queueJobs.map(job => (
+                    <div
+                      key={job.job_id}
+                      className="flex items-center gap-2 px-2 py-1.5 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 text-xs"
+                    >
+                      {job.status === 'pending' ? (
+                        <div className="animate-spin rounded-full h-3 w-3 border-2 border-orange-500 border-t-transparent flex-shrink-0" />
+                      ) : job.mode !== 'text' ? (
+                        <ImageIcon size={12} className="text-zinc-400 flex-shrink-0" />
+                      ) : (
+                        <Type size={12} className="text-zinc-400 flex-shrink-0" />
+                      )}
+                      <span className="flex-1 truncate text-zinc-700 dark:text-zinc-300" title={job.prompt}>
+                        {job.prompt}
+                      </span>
+                      <span
+                        className="text-zinc-500 dark:text-zinc-500 flex-shrink-0"
+                        title={job.error_message}
+                      >
+                        {job.status === 'pending'
+                          ? 'Running'
+                          : job.next_attempt_at
+                            ? `Retry ${job.attempts + 1}`
+                            : job.status === 'queued' ? 'Queued' : job.status}
+                      </span>
+                      {(job.status === 'queued' || job.status === 'pending') && (
+                        <button
+                          onClick={() => GenerationQueueService.cancel(job.job_id)}
+                          className="p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-500 hover:text-red-500 transition-colors"
+                          title="Cancel generation"
+                        >
+                          <X size={12} />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -2393,11 +4322,16 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
         <ImageEditModal
           isOpen={editModalOpen}
           image={editingImage?.dataUri || null}
+          editDocument={editingDocument}
           onClose={() => {
             setEditModalOpen(false);
             setEditingImage(null);
+            setEditingDocument(null);
           }}
           onSave={handleSaveEditedImage}
+          adjustmentPresets={adjustmentPresets}
+          onSaveAdjustmentPreset={handleSaveAdjustmentPreset}
+          onInpaint={editingImage && (!editingImage.type || editingImage.type === 'image') ? handleInpaint : undefined}
         />
 
         {/* SettingsModal */}
@@ -2408,6 +4342,37 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
           toggleTheme={toggleTheme}
           autoSaveInterval={autoSaveInterval}
           onAutoSaveIntervalChange={(interval) => setAutoSaveInterval(interval)}
+          generationConcurrency={generationConcurrency}
+          onGenerationConcurrencyChange={(concurrency) => {
+            GenerationQueueService.setConcurrency(concurrency);
+            setGenerationConcurrency(GenerationQueueService.getConcurrency());
+          }}
+          generationProvider={config.provider}
+          onGenerationProviderChange={(providerId) => {
+            const provider = ProviderRegistry.get(providerId);
+            if (!provider) return;
+            ProviderRegistry.setPreferredProviderId(provider.id);
+            setConfig(prev => ProviderRegistry.normalizeConfig({ ...prev, provider: provider.id, model: provider.models[0].id }));
+          }}
+          commands={appCommands}
+          keymap={keymap}
+          onKeymapChange={handleKeymapChange}
+        />
+
+        {/* Command Palette (Ctrl+K) */}
+        <CommandPalette
+          isOpen={showCommandPalette}
+          onClose={() => setShowCommandPalette(false)}
+          commands={appCommands}
+          bindings={keyBindings}
+          sessions={allSessions}
+          currentSessionId={currentSession?.session_id}
+          recentPrompts={recentPrompts}
+          onSelectSession={onSelectSession}
+          onUsePrompt={(text) => {
+            setPrompt(text);
+            promptInputRef.current?.focus();
+          }}
         />
 
         {/* Thumbnail Generation Loading Indicator */}
@@ -2417,6 +4382,12 @@ export const MixboardView: React.FC<MixboardViewProps> = ({
             Generating thumbnails...
           </div>
         )}
+        {preprocessingCount > 0 && (
+          <div className={`fixed ${isGeneratingThumbnails ? 'bottom-16' : 'bottom-4'} right-4 bg-blue-600 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 z-50`}>
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent" />
+            Creating control map...
+          </div>
+        )}
       </div>
     </>
   );
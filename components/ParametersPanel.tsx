@@ -1,6 +1,7 @@
 import React from 'react';
 import { Sliders, HelpCircle } from 'lucide-react';
 import { GenerationConfig } from '../types';
+import { ProviderRegistry } from '../services/imageProvider';
 
 interface ParametersPanelProps {
   config: GenerationConfig;
@@ -13,6 +14,22 @@ export const ParametersPanel: React.FC<ParametersPanelProps> = ({ config, setCon
     setConfig({ ...config, [key]: value });
   };
 
+  // Switching provider or model re-clamps options to the new capabilities
+  const handleProviderChange = (providerId: string) => {
+    const provider = ProviderRegistry.get(providerId);
+    if (!provider) return;
+    setConfig(ProviderRegistry.normalizeConfig({ ...config, provider: provider.id, model: provider.models[0].id }));
+  };
+
+  const handleModelChange = (modelId: string) => {
+    setConfig(ProviderRegistry.normalizeConfig({ ...config, model: modelId }));
+  };
+
+  const providers = ProviderRegistry.list();
+  const provider = ProviderRegistry.resolve(config);
+  const model = ProviderRegistry.getModel(config);
+  const { capabilities } = model;
+
   return (
     <div className="bg-white dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-lg p-4 space-y-6 shadow-sm">
       <div className="flex items-center gap-2 text-zinc-800 dark:text-zinc-300 font-medium pb-2 border-b border-zinc-100 dark:border-zinc-800">
@@ -20,22 +37,40 @@ export const ParametersPanel: React.FC<ParametersPanelProps> = ({ config, setCon
         <span>Parameters</span>
       </div>
 
+      {/* Provider Selection (only when more than one is registered) */}
+      {providers.length > 1 && (
+        <div className="space-y-3">
+          <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Provider</label>
+          <select
+              value={provider.id}
+              onChange={(e) => handleProviderChange(e.target.value)}
+              className="w-full bg-white dark:bg-zinc-950 border border-zinc-300 dark:border-zinc-800 rounded px-2 py-2 text-xs text-zinc-900 dark:text-zinc-300 focus:outline-none focus:border-blue-500 shadow-sm"
+          >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+          </select>
+        </div>
+      )}
+
       {/* Model Selection */}
       <div className="space-y-3">
         <div className="flex justify-between items-center">
             <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Model</label>
         </div>
         <select 
-            value={config.model}
-            onChange={(e) => handleChange('model', e.target.value)}
+            value={model.id}
+            onChange={(e) => handleModelChange(e.target.value)}
             className="w-full bg-white dark:bg-zinc-950 border border-zinc-300 dark:border-zinc-800 rounded px-2 py-2 text-xs text-zinc-900 dark:text-zinc-300 focus:outline-none focus:border-blue-500 shadow-sm"
         >
-            <option value="gemini-2.5-flash-image">Gemini 2.5 Flash Image (Free Tier / Fast)</option>
-            <option value="gemini-3-pro-image-preview">Gemini 3.0 Pro Image (Paid Project / High Quality)</option>
+            {provider.models.map(m => (
+              <option key={m.id} value={m.id}>{m.description || m.label}</option>
+            ))}
         </select>
       </div>
 
       {/* Temperature */}
+      {capabilities.temperature && (
       <div className="space-y-3">
         <div className="flex justify-between items-center">
           <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400 flex items-center gap-1">
@@ -54,8 +89,10 @@ export const ParametersPanel: React.FC<ParametersPanelProps> = ({ config, setCon
           className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500"
         />
       </div>
+      )}
 
       {/* Top P */}
+      {capabilities.topP && (
       <div className="space-y-3">
         <div className="flex justify-between items-center">
           <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Top P</label>
@@ -71,12 +108,13 @@ export const ParametersPanel: React.FC<ParametersPanelProps> = ({ config, setCon
           className="w-full h-1.5 bg-zinc-200 dark:bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-blue-600 dark:accent-blue-500"
         />
       </div>
+      )}
 
       {/* Aspect Ratio */}
       <div className="space-y-3">
         <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Aspect Ratio</label>
         <div className="grid grid-cols-3 gap-2">
-          {['1:1', '16:9', '9:16', '3:4', '4:3'].map((ratio) => (
+          {capabilities.aspectRatios.map((ratio) => (
             <button
               key={ratio}
               onClick={() => handleChange('aspect_ratio', ratio)}
@@ -92,12 +130,12 @@ export const ParametersPanel: React.FC<ParametersPanelProps> = ({ config, setCon
         </div>
       </div>
       
-      {/* Image Size (Only for Pro Model) */}
-      {config.model === 'gemini-3-pro-image-preview' && (
+      {/* Image Size (only for models with configurable output size) */}
+      {capabilities.imageSizes && (
           <div className="space-y-3 animate-in fade-in slide-in-from-top-2">
             <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Image Size</label>
             <div className="grid grid-cols-3 gap-2">
-              {['1K', '2K', '4K'].map((size) => (
+              {capabilities.imageSizes.map((size) => (
                 <button
                   key={size}
                   onClick={() => handleChange('image_size', size)}
@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { X, Calendar, FileText, Trash2, Download, ArrowLeft } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Calendar, FileText, Trash2, Download, Upload, ArrowLeft } from 'lucide-react';
 import { MixboardSession } from '../types';
 import { StorageService } from '../services/newStorageService';
+import { SessionBundleService, NANOBOARD_FILE_EXTENSION } from '../services/sessionBundle';
 
 interface ProjectsPageProps {
   theme: 'dark' | 'light';
@@ -9,6 +10,8 @@ interface ProjectsPageProps {
   onSelectSession: (sessionId: string) => void;
   onClose: () => void;
   onDeleteSession: (sessionId: string) => void;
+  onSessionsImported?: (sessionIds: string[]) => void;
+  currentUser?: { id: string; displayName: string } | null;
 }
 
 export const ProjectsPage: React.FC<ProjectsPageProps> = ({
@@ -16,9 +19,12 @@ export const ProjectsPage: React.FC<ProjectsPageProps> = ({
   sessions,
   onSelectSession,
   onClose,
-  onDeleteSession
+  onDeleteSession,
+  onSessionsImported,
+  currentUser
 }) => {
   const [sortedSessions, setSortedSessions] = useState<MixboardSession[]>([]);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     // Sort sessions by updated_at (most recent first)
@@ -44,18 +50,35 @@ export const ProjectsPage: React.FC<ProjectsPageProps> = ({
     return date.toLocaleDateString();
   };
 
-  const handleExportSession = (session: MixboardSession, e: React.MouseEvent) => {
+  const handleExportSession = async (session: MixboardSession, e: React.MouseEvent) => {
     e.stopPropagation();
-    const dataStr = JSON.stringify(session, null, 2);
-    const blob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `mixboard-session-${session.session_id}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    try {
+      await SessionBundleService.exportSessions(
+        [session.session_id],
+        `mixboard-session-${session.session_id}${NANOBOARD_FILE_EXTENSION}`
+      );
+    } catch (err) {
+      alert(`Export failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = SessionBundleService.importBundle(await file.arrayBuffer(), currentUser || undefined);
+      const remapped = result.sessions.filter(s => s.remapped_from).length;
+      alert(
+        `Imported ${result.sessions.length} project(s): ${result.images_added} new images, ${result.images_reused} already in library` +
+        (remapped > 0 ? `\n${remapped} project(s) were given a new ID because the original already exists.` : '') +
+        (result.missing_images > 0 ? `\n${result.missing_images} referenced images were not included in the bundle.` : '')
+      );
+      onSessionsImported?.(result.sessions.map(s => s.session_id));
+    } catch (err) {
+      alert(`Import failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
   };
 
   const handleDeleteSession = (session: MixboardSession, e: React.MouseEvent) => {
@@ -88,12 +111,33 @@ export const ProjectsPage: React.FC<ProjectsPageProps> = ({
               </p>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-400 transition-colors"
-          >
-            <X size={20} />
-          </button>
+          <div className="flex items-center gap-2">
+            {StorageService.isElectron() && (
+              <>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="flex items-center gap-2 px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800 text-sm text-zinc-700 dark:text-zinc-300 transition-colors"
+                  title={`Import a ${NANOBOARD_FILE_EXTENSION} project bundle`}
+                >
+                  <Upload size={16} />
+                  Import
+                </button>
+                <input
+                  type="file"
+                  ref={importInputRef}
+                  className="hidden"
+                  accept={NANOBOARD_FILE_EXTENSION}
+                  onChange={handleImportFile}
+                />
+              </>
+            )}
+            <button
+              onClick={onClose}
+              className="p-2 rounded-lg hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-400 transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
         </div>
       </div>
 
@@ -1,6 +1,13 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { X, Moon, Sun, Download, Upload, Monitor, Folder, Key, LogOut, Clock, Save } from 'lucide-react';
+import { X, Moon, Sun, Download, Upload, Monitor, Folder, Key, LogOut, Clock, Save, ListOrdered, Cpu, HardDrive, Trash2, Archive, Keyboard } from 'lucide-react';
 import { StorageService } from '../services/storageService';
+import { StorageServiceV2, StorageGcReport, StorageGcMode } from '../services/storageV2';
+import { SessionBundleService, NANOBOARD_FILE_EXTENSION } from '../services/sessionBundle';
+import { ProviderRegistry } from '../services/imageProvider';
+import { GenerationFixtures, FixtureMode } from '../services/generationFixtures';
+import type { AppCommand } from '../services/commandRegistry';
+import type { UserKeymap } from '../services/preferencesService';
+import { KeymapEditor } from './KeymapEditor';
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -11,8 +18,23 @@ interface SettingsModalProps {
   onLogout?: () => void;
   autoSaveInterval?: number;
   onAutoSaveIntervalChange?: (interval: number) => void;
+  generationConcurrency?: number;
+  onGenerationConcurrencyChange?: (concurrency: number) => void;
+  generationProvider?: string;
+  onGenerationProviderChange?: (providerId: string) => void;
+  currentUser?: { id: string; displayName: string } | null;
+  commands?: AppCommand[];
+  keymap?: UserKeymap;
+  onKeymapChange?: (keymap: UserKeymap) => void;
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
 export const SettingsModal: React.FC<SettingsModalProps> = ({
   isOpen,
   onClose,
@@ -21,12 +43,23 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   onApiKeyUpdate,
   onLogout,
   autoSaveInterval = 5,
-  onAutoSaveIntervalChange
+  onAutoSaveIntervalChange,
+  generationConcurrency = 2,
+  onGenerationConcurrencyChange,
+  generationProvider,
+  onGenerationProviderChange,
+  currentUser,
+  commands,
+  keymap = {},
+  onKeymapChange
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const isElectron = StorageService.isElectron();
   const [apiKey, setApiKey] = useState('');
   const [localAutoSaveInterval, setLocalAutoSaveInterval] = useState(autoSaveInterval);
+  const [fixtureMode, setFixtureMode] = useState<FixtureMode>(() => GenerationFixtures.getMode());
+  const [gcReport, setGcReport] = useState<StorageGcReport | null>(null);
+  const [gcMessage, setGcMessage] = useState<string | null>(null);
 
   // Sync local state when prop changes
   useEffect(() => {
@@ -41,6 +74,39 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     onAutoSaveIntervalChange?.(value);
   };
 
+  const handleFixtureModeChange = (mode: FixtureMode) => {
+    setFixtureMode(mode);
+    GenerationFixtures.setMode(mode);
+  };
+
+  const handleScanStorage = () => {
+    setGcMessage(null);
+    setGcReport(StorageServiceV2.scanStorageGarbage());
+  };
+
+  const handleCollectStorage = (mode: StorageGcMode) => {
+    if (!gcReport) return;
+    const fileCount = gcReport.unreferenced_images.length + gcReport.orphaned_thumbnails.length;
+    if (mode === 'delete' && !confirm(`Permanently delete ${fileCount} unused files (${formatBytes(gcReport.reclaimable_bytes)})?`)) {
+      return;
+    }
+
+    const result = StorageServiceV2.collectStorageGarbage(gcReport, mode);
+    setGcReport(null);
+    setGcMessage(
+      `${mode === 'archive' ? 'Archived' : 'Deleted'} ${result.removed} files (${formatBytes(result.freed_bytes)})` +
+      (result.errors.length > 0 ? `, ${result.errors.length} failed` : '')
+    );
+  };
+
+  // Reports go stale once the modal is closed
+  useEffect(() => {
+    if (!isOpen) {
+      setGcReport(null);
+      setGcMessage(null);
+    }
+  }, [isOpen]);
+
   useEffect(() => {
     if (isOpen && isElectron) {
       const savedKey = localStorage.getItem('gemini_api_key') || '';
@@ -62,16 +128,31 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
 
   if (!isOpen) return null;
 
-  const handleExport = () => {
-    const data = StorageService.exportData();
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `provenance-studio-backup-${new Date().toISOString().slice(0, 10)}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleExport = async () => {
+    const filename = `provenance-studio-backup-${new Date().toISOString().slice(0, 10)}`;
+    try {
+      // Desktop: every project of the current user as one .nanoboard bundle
+      if (isElectron) {
+        await SessionBundleService.exportSessions(
+          StorageServiceV2.listSessions()
+            .filter(meta => !currentUser || meta.user?.id === currentUser.id)
+            .map(meta => meta.session_id),
+          `${filename}${NANOBOARD_FILE_EXTENSION}`
+        );
+        return;
+      }
+
+      const blob = new Blob([StorageService.exportData()], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${filename}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (err) {
+      alert(`Export failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
   };
 
   const handleImportClick = () => {
@@ -82,6 +163,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     const file = e.target.files?.[0];
     if (!file) return;
 
+    if (isElectron) {
+      try {
+        const result = SessionBundleService.importBundle(await file.arrayBuffer(), currentUser || undefined);
+        alert(`Imported ${result.sessions.length} project(s) with ${result.images_added} new images. The page will reload.`);
+        window.location.reload();
+      } catch (err) {
+        alert(`Import failed: ${err instanceof Error ? err.message : 'unknown error'}`);
+      }
+      return;
+    }
+
     const text = await file.text();
     try {
       const success = StorageService.importData(text);
@@ -109,7 +201,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         </div>
 
         {/* Content */}
-        <div className="p-6 space-y-6">
+        <div className="p-6 space-y-6 max-h-[80vh] overflow-y-auto">
           
           {/* API Key Configuration (Electron Only) */}
           {isElectron && (
@@ -170,6 +262,25 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             </div>
           </section>
 
+          {/* Keyboard Shortcuts */}
+          {commands && onKeymapChange && (
+          <section className="space-y-3">
+            <h3 className={`text-sm font-medium ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-500'} uppercase tracking-wider`}>Keyboard Shortcuts</h3>
+            <div className={`p-4 rounded-lg border space-y-4 ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+              <div className="flex items-start gap-3">
+                <Keyboard size={18} className="mt-0.5 text-purple-500" />
+                <div className="flex-1">
+                  <h4 className="text-sm font-medium">Shortcut Map</h4>
+                  <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                    Click a shortcut and press the new key combination. Press Ctrl+K to search all commands.
+                  </p>
+                </div>
+              </div>
+              <KeymapEditor commands={commands} keymap={keymap} onKeymapChange={onKeymapChange} theme={theme} />
+            </div>
+          </section>
+          )}
+
           {/* Auto-Save Settings */}
           <section className="space-y-3">
             <h3 className={`text-sm font-medium ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-500'} uppercase tracking-wider`}>Auto-Save</h3>
@@ -217,6 +328,101 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             </div>
           </section>
 
+          {/* Generation Queue Settings */}
+          {onGenerationConcurrencyChange && (
+          <section className="space-y-3">
+            <h3 className={`text-sm font-medium ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-500'} uppercase tracking-wider`}>Generation Queue</h3>
+            <div className={`p-4 rounded-lg border space-y-4 ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+              <div className="flex items-start gap-3">
+                <ListOrdered size={18} className="mt-0.5 text-orange-500" />
+                <div className="flex-1">
+                  <h4 className="text-sm font-medium">Parallel Generations</h4>
+                  <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                    How many queued generations run at the same time. Lower this if you hit API rate limits.
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={1}
+                    max={4}
+                    step={1}
+                    value={generationConcurrency}
+                    onChange={(e) => onGenerationConcurrencyChange(Number(e.target.value))}
+                    className="flex-1 h-2 rounded-lg appearance-none cursor-pointer bg-zinc-300 dark:bg-zinc-700"
+                  />
+                  <span className={`text-sm font-mono w-16 text-right ${theme === 'dark' ? 'text-zinc-300' : 'text-zinc-700'}`}>
+                    {generationConcurrency}
+                  </span>
+                </div>
+                <div className="flex justify-between text-xs text-zinc-500">
+                  <span>1 at a time</span>
+                  <span>4 at a time</span>
+                </div>
+              </div>
+            </div>
+          </section>
+          )}
+
+          {/* Generation Provider Settings */}
+          {onGenerationProviderChange && (
+          <section className="space-y-3">
+            <h3 className={`text-sm font-medium ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-500'} uppercase tracking-wider`}>Generation Provider</h3>
+            <div className={`p-4 rounded-lg border space-y-4 ${theme === 'dark' ? 'bg-zinc-950 border-zinc-800' : 'bg-zinc-50 border-zinc-200'}`}>
+              <div className="flex items-start gap-3">
+                <Cpu size={18} className="mt-0.5 text-purple-500" />
+                <div className="flex-1">
+                  <h4 className="text-sm font-medium">Provider</h4>
+                  <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                    Backend used for new generations. The offline mock returns synthetic images without using API quota.
+                  </p>
+                </div>
+              </div>
+
+              <select
+                value={generationProvider || ProviderRegistry.getPreferredProviderId()}
+                onChange={(e) => onGenerationProviderChange(e.target.value)}
+                className={`w-full px-3 py-2 rounded-md text-sm border ${
+                  theme === 'dark'
+                    ? 'bg-zinc-900 border-zinc-700 focus:border-blue-500'
+                    : 'bg-white border-zinc-300 focus:border-blue-500'
+                } outline-none transition-colors`}
+              >
+                {ProviderRegistry.list().map(provider => (
+                  <option key={provider.id} value={provider.id}>{provider.name}</option>
+                ))}
+              </select>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Fixture Mode</h4>
+                <p className={`text-xs ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                  Record saves every real API request and response to disk. Replay answers identical requests from those recordings, offline.
+                </p>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['off', 'record', 'replay'] as FixtureMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => handleFixtureModeChange(mode)}
+                      className={`py-1.5 rounded-lg border text-xs font-medium capitalize transition-colors ${
+                        fixtureMode === mode
+                          ? 'bg-purple-600 border-purple-600 text-white'
+                          : theme === 'dark'
+                            ? 'bg-zinc-900 border-zinc-700 text-zinc-300 hover:bg-zinc-800'
+                            : 'bg-white border-zinc-300 text-zinc-700 hover:bg-zinc-100'
+                      }`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </section>
+          )}
+
           {/* Data Management */}
           <section className="space-y-3">
             <h3 className={`text-sm font-medium ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-500'} uppercase tracking-wider`}>Data Management</h3>
@@ -235,15 +441,111 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   </div>
                </div>
 
-               {/* Backup Actions (Web Only or Manual Backup for Desktop) */}
-               {!isElectron && (
+               {/* Storage Cleanup (Desktop Only) */}
+               {isElectron && (
+                <div className={`pt-4 border-t space-y-3 ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
+                  <div className="flex items-start gap-3">
+                    <HardDrive size={18} className="mt-0.5 text-blue-500" />
+                    <div className="flex-1">
+                      <h4 className="text-sm font-medium">Storage Cleanup</h4>
+                      <p className={`text-xs mt-1 ${theme === 'dark' ? 'text-zinc-500' : 'text-zinc-600'}`}>
+                        Find images and thumbnails no session uses any more. Scanning changes nothing; files from the last 24 hours are always kept.
+                      </p>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={handleScanStorage}
+                    className={`w-full px-4 py-2 border rounded text-xs font-medium transition-colors ${
+                      theme === 'dark'
+                        ? 'border-zinc-700 hover:bg-zinc-800'
+                        : 'border-zinc-300 hover:bg-zinc-100 bg-white'
+                    }`}
+                  >
+                    Scan Storage
+                  </button>
+
+                  {gcReport && gcReport.unreadable_files.length > 0 && (
+                    <div className="space-y-2 text-xs">
+                      <p className={theme === 'dark' ? 'text-amber-400' : 'text-amber-700'}>
+                        These files could not be read, so it is unknown which images they use. Cleanup is disabled until they are repaired or removed.
+                      </p>
+                      <div className={`max-h-28 overflow-y-auto rounded border p-2 font-mono text-[10px] ${theme === 'dark' ? 'border-zinc-800 text-zinc-400' : 'border-zinc-200 text-zinc-600'}`}>
+                        {gcReport.unreadable_files.map(path => (
+                          <div key={path} className="truncate">{path}</div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {gcReport && gcReport.unreadable_files.length === 0 && (
+                    <div className={`space-y-2 text-xs ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-600'}`}>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                        <span>Images</span>
+                        <span className="text-right">{gcReport.images.count} · {formatBytes(gcReport.images.bytes)}</span>
+                        <span>Thumbnails</span>
+                        <span className="text-right">{gcReport.thumbnails.count} · {formatBytes(gcReport.thumbnails.bytes)}</span>
+                        <span>Unused images</span>
+                        <span className="text-right">
+                          {gcReport.unreferenced_images.length} · {formatBytes(gcReport.unreferenced_images.reduce((sum, file) => sum + file.size_bytes, 0))}
+                        </span>
+                        <span>Orphaned thumbnails</span>
+                        <span className="text-right">
+                          {gcReport.orphaned_thumbnails.length} · {formatBytes(gcReport.orphaned_thumbnails.reduce((sum, file) => sum + file.size_bytes, 0))}
+                        </span>
+                        <span className={`font-medium ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-800'}`}>Reclaimable</span>
+                        <span className={`text-right font-medium ${theme === 'dark' ? 'text-zinc-200' : 'text-zinc-800'}`}>{formatBytes(gcReport.reclaimable_bytes)}</span>
+                      </div>
+
+                      {gcReport.reclaimable_bytes > 0 && (
+                        <>
+                          <div className={`max-h-28 overflow-y-auto rounded border p-2 font-mono text-[10px] ${theme === 'dark' ? 'border-zinc-800' : 'border-zinc-200'}`}>
+                            {[...gcReport.unreferenced_images, ...gcReport.orphaned_thumbnails].map(file => (
+                              <div key={file.path} className="flex justify-between gap-2">
+                                <span className="truncate">{file.path}</span>
+                                <span className="shrink-0">{formatBytes(file.size_bytes)}</span>
+                              </div>
+                            ))}
+                          </div>
+                          <div className="flex gap-3">
+                            <button
+                              onClick={() => handleCollectStorage('archive')}
+                              className={`flex-1 flex items-center justify-center gap-2 px-4 py-2 border rounded text-xs font-medium transition-colors ${
+                                theme === 'dark'
+                                  ? 'border-zinc-700 hover:bg-zinc-800'
+                                  : 'border-zinc-300 hover:bg-zinc-100 bg-white'
+                              }`}
+                            >
+                              <Archive size={14} />
+                              Archive
+                            </button>
+                            <button
+                              onClick={() => handleCollectStorage('delete')}
+                              className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-500 text-white text-xs font-medium rounded transition-colors"
+                            >
+                              <Trash2 size={14} />
+                              Delete
+                            </button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {gcMessage && (
+                    <p className={`text-xs ${theme === 'dark' ? 'text-zinc-400' : 'text-zinc-600'}`}>{gcMessage}</p>
+                  )}
+                </div>
+               )}
+
+               {/* Backup Actions (JSON on web, .nanoboard project bundles on desktop) */}
                 <div className="flex gap-3 pt-2">
                     <button 
                         onClick={handleExport}
                         className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium rounded transition-colors"
                     >
                         <Download size={14} />
-                        Export JSON
+                        {isElectron ? 'Export Projects' : 'Export JSON'}
                     </button>
                     <button 
                         onClick={handleImportClick}
@@ -254,17 +556,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                         }`}
                     >
                         <Upload size={14} />
-                        Import JSON
+                        {isElectron ? 'Import Projects' : 'Import JSON'}
                     </button>
                     <input 
                         type="file" 
                         ref={fileInputRef} 
                         className="hidden" 
-                        accept=".json"
+                        accept={isElectron ? NANOBOARD_FILE_EXTENSION : '.json'}
                         onChange={handleFileChange}
                     />
                 </div>
-               )}
             </div>
           </section>
 
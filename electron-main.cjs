@@ -1,4 +1,4 @@
-const { app, BrowserWindow, ipcMain, dialog, nativeImage } = require('electron');
+const { app, BrowserWindow, ipcMain, dialog, nativeImage, clipboard } = require('electron');
 const { autoUpdater } = require('electron-updater');
 const path = require('path');
 const fs = require('fs');
@@ -167,17 +167,163 @@ const getScopedPath = (relativePath) => {
     };
 };
 
+// ----------------------------------------------------------------------------
+// Crash-safe writes
+// ----------------------------------------------------------------------------
+// Every write goes to a temp file that is renamed over the target, so a crash
+// never leaves a half-written file. Session files and the image registry also
+// get a .sha256 sidecar (checked on load) and rolling .bak1..bakN copies that
+// loadProtectedFile falls back to when the current file is damaged.
+
+const BACKUP_GENERATIONS = 3;
+
+const isProtectedFile = (relativePath) => {
+    const normalized = relativePath.split(path.sep).join('/');
+    return normalized.endsWith('.json') &&
+        (normalized === 'image_registry.json' || normalized.startsWith('sessions/'));
+};
+
+const checksumOf = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+// File content if it parses and matches its checksum sidecar (when one exists), otherwise null
+const readValidJson = (filePath) => {
+    if (!fs.existsSync(filePath)) return null;
+
+    const buffer = fs.readFileSync(filePath);
+    const checksumPath = `${filePath}.sha256`;
+    if (fs.existsSync(checksumPath)) {
+        const actual = checksumOf(buffer);
+        if (fs.readFileSync(checksumPath, 'utf-8').trim() !== actual) {
+            // A crash between the data and checksum renames leaves the new checksum pending
+            const pendingPath = `${checksumPath}.tmp`;
+            if (!fs.existsSync(pendingPath) || fs.readFileSync(pendingPath, 'utf-8').trim() !== actual) {
+                return null;
+            }
+            fs.renameSync(pendingPath, checksumPath);
+        }
+    }
+
+    const content = buffer.toString('utf-8');
+    try {
+        JSON.parse(content);
+    } catch (e) {
+        return null;
+    }
+    return content;
+};
+
+const rotateBackups = (filePath) => {
+    // Never rotate a damaged file into the backups
+    if (readValidJson(filePath) === null) return;
+
+    for (let i = BACKUP_GENERATIONS - 1; i >= 1; i--) {
+        const from = `${filePath}.bak${i}`;
+        const to = `${filePath}.bak${i + 1}`;
+        if (fs.existsSync(from)) fs.renameSync(from, to);
+        if (fs.existsSync(`${from}.sha256`)) fs.renameSync(`${from}.sha256`, `${to}.sha256`);
+    }
+    fs.copyFileSync(filePath, `${filePath}.bak1`);
+    if (fs.existsSync(`${filePath}.sha256`)) {
+        fs.copyFileSync(`${filePath}.sha256`, `${filePath}.bak1.sha256`);
+    }
+};
+
+const writeFileAtomic = (filePath, data, options = undefined, protect = false) => {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+    const buffer = Buffer.isBuffer(data) ? data : Buffer.from(data, typeof options === 'string' ? options : 'utf-8');
+    const tmpPath = `${filePath}.tmp`;
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+        fs.writeSync(fd, buffer);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+
+    if (!protect) {
+        fs.renameSync(tmpPath, filePath);
+        return;
+    }
+
+    const checksumPath = `${filePath}.sha256`;
+    fs.writeFileSync(`${checksumPath}.tmp`, checksumOf(buffer));
+    rotateBackups(filePath);
+    fs.renameSync(tmpPath, filePath);
+    fs.renameSync(`${checksumPath}.tmp`, checksumPath);
+};
+
+// Recoveries not yet picked up by the renderer
+let pendingRecoveries = [];
+
+const notifyRecovery = (recovery) => {
+    pendingRecoveries.push(recovery);
+    if (mainWindow && mainWindow.webContents) {
+        mainWindow.webContents.send('storage-recovered', recovery);
+    }
+};
+
+// Load a protected JSON file, restoring the newest valid backup if the file is damaged
+const loadProtectedFile = (relativePath) => {
+    const filePath = path.join(getDataPath(), relativePath);
+    if (!fs.existsSync(filePath)) return null;
+
+    const content = readValidJson(filePath);
+    if (content !== null) return content;
+
+    for (let i = 1; i <= BACKUP_GENERATIONS; i++) {
+        const backup = readValidJson(`${filePath}.bak${i}`);
+        if (backup === null) continue;
+
+        // Keep the damaged file for inspection and put the backup in its place
+        const damagedPath = `${filePath}.damaged-${Date.now()}`;
+        fs.renameSync(filePath, damagedPath);
+        writeFileAtomic(filePath, backup, 'utf-8', true);
+
+        console.warn(`[Storage] Recovered ${relativePath} from backup ${i}`);
+        notifyRecovery({
+            id: crypto.randomUUID(),
+            file: relativePath.split(path.sep).join('/'),
+            backup: i,
+            damagedFile: path.basename(damagedPath),
+            recoveredAt: new Date().toISOString()
+        });
+        return backup;
+    }
+
+    console.error(`[Storage] ${relativePath} is damaged and no valid backup exists`);
+    return null;
+};
+
+// Remove a protected file together with its checksum, backups and leftovers
+const removeProtectedFile = (filePath) => {
+    const suffixes = ['', '.sha256', '.tmp', '.sha256.tmp'];
+    for (let i = 1; i <= BACKUP_GENERATIONS; i++) {
+        suffixes.push(`.bak${i}`, `.bak${i}.sha256`);
+    }
+    suffixes.forEach(suffix => {
+        if (fs.existsSync(`${filePath}${suffix}`)) fs.unlinkSync(`${filePath}${suffix}`);
+    });
+
+    // Quarantined copies left behind by loadProtectedFile
+    const dir = path.dirname(filePath);
+    const quarantinePrefix = `${path.basename(filePath)}.damaged-`;
+    if (fs.existsSync(dir)) {
+        fs.readdirSync(dir)
+            .filter(name => name.startsWith(quarantinePrefix))
+            .forEach(name => fs.unlinkSync(path.join(dir, name)));
+    }
+};
+
 const writeFileBoth = (relativePath, data, options = undefined) => {
     const { local, shared } = getScopedPath(relativePath);
-    const localDir = path.dirname(local);
-    if (!fs.existsSync(localDir)) fs.mkdirSync(localDir, { recursive: true });
-    fs.writeFileSync(local, data, options);
+    const protect = isProtectedFile(relativePath);
+    writeFileAtomic(local, data, options, protect);
 
     if (shared) {
         try {
-            const sharedDir = path.dirname(shared);
-            if (!fs.existsSync(sharedDir)) fs.mkdirSync(sharedDir, { recursive: true });
-            fs.writeFileSync(shared, data, options);
+            writeFileAtomic(shared, data, options, protect);
         } catch (e) {
             console.error('Failed to write to shared storage', e);
         }
@@ -237,39 +383,63 @@ const logAutoUpdateEvent = (event, details) => {
   });
 };
 
-// IPC Handlers for synchronous file operations
-ipcMain.on('save-sync', (event, filename, content) => {
+// Register a storage operation on a sync channel (sendSync) and an async one (invoke).
+// Both share one implementation; the async channel keeps the renderer responsive on large boards.
+const registerStorageHandler = (syncChannel, asyncChannel, handler) => {
+    ipcMain.on(syncChannel, (event, ...args) => {
+        event.returnValue = handler(...args);
+    });
+    ipcMain.handle(asyncChannel, (_event, ...args) => handler(...args));
+};
+
+// IPC Handlers for file operations
+registerStorageHandler('save-sync', 'storage:save', (filename, content) => {
     try {
         // Don't add .json if filename already has it
         const finalFilename = filename.endsWith('.json') ? filename : `${filename}.json`;
         writeFileBoth(finalFilename, content, 'utf-8');
-        event.returnValue = true;
+        return true;
     } catch (e) {
         console.error("Save failed", e);
-        event.returnValue = false;
+        return false;
     }
 });
 
-ipcMain.on('load-sync', (event, filename) => {
+registerStorageHandler('load-sync', 'storage:load', (filename) => {
     try {
         // Don't add .json if filename already has it
         const finalFilename = filename.endsWith('.json') ? filename : `${filename}.json`;
+        if (isProtectedFile(finalFilename)) {
+            return loadProtectedFile(finalFilename);
+        }
+
         const filePath = path.join(getDataPath(), finalFilename);
         if (fs.existsSync(filePath)) {
             const content = fs.readFileSync(filePath, 'utf-8');
-            event.returnValue = content;
+            return content;
         } else {
-            event.returnValue = null;
+            return null;
         }
     } catch (e) {
-        event.returnValue = null;
+        return null;
     }
 });
 
+// Backup recoveries since the last call (the renderer also gets 'storage-recovered' events)
+ipcMain.handle('storage:take-recoveries', async () => {
+    const recoveries = pendingRecoveries;
+    pendingRecoveries = [];
+    return recoveries;
+});
+
 ipcMain.on('delete-sync', (event, filename) => {
     try {
-        const filePath = path.join(getDataPath(), `${filename}.json`);
-        if (fs.existsSync(filePath)) {
+        // Don't add .json if filename already has it
+        const finalFilename = filename.endsWith('.json') ? filename : `${filename}.json`;
+        const filePath = path.join(getDataPath(), finalFilename);
+        if (isProtectedFile(finalFilename)) {
+            removeProtectedFile(filePath);
+        } else if (fs.existsSync(filePath)) {
             fs.unlinkSync(filePath);
         }
         event.returnValue = true;
@@ -278,7 +448,7 @@ ipcMain.on('delete-sync', (event, filename) => {
     }
 });
 
-ipcMain.on('list-files-sync', (event, prefix) => {
+registerStorageHandler('list-files-sync', 'storage:list-files', (prefix) => {
     try {
         const dataDir = getDataPath();
 
@@ -289,13 +459,12 @@ ipcMain.on('list-files-sync', (event, prefix) => {
             // Ensure directory exists
             if (!fs.existsSync(targetDir)) {
                 console.log('[list-files-sync] Directory does not exist:', targetDir);
-                event.returnValue = [];
-                return;
+                return [];
             }
 
             const files = fs.readdirSync(targetDir);
             console.log('[list-files-sync] Files in', prefix, ':', files.length);
-            event.returnValue = files;
+            return files;
         } else {
             // Legacy behavior: filter by prefix in root directory
             const files = fs.readdirSync(dataDir);
@@ -307,14 +476,80 @@ ipcMain.on('list-files-sync', (event, prefix) => {
                     results.push({ key: file.replace('.json', ''), content });
                 }
             });
-            event.returnValue = results;
+            return results;
         }
     } catch (e) {
         console.error('[list-files-sync] Error:', e);
+        return [];
+    }
+});
+
+// Resolve a path relative to the data folder, refusing anything that escapes it
+const resolveDataFile = (relativePath) => {
+    const dataPath = getDataPath();
+    const fullPath = path.resolve(dataPath, relativePath);
+    if (!fullPath.startsWith(path.resolve(dataPath) + path.sep)) {
+        throw new Error(`Path outside data folder: ${relativePath}`);
+    }
+    return fullPath;
+};
+
+// Recursively list files under a data folder with sizes (used for storage reports)
+ipcMain.on('list-storage-files-sync', (event, folder) => {
+    try {
+        const root = resolveDataFile(folder);
+        const results = [];
+
+        const walk = (dir) => {
+            if (!fs.existsSync(dir)) return;
+            fs.readdirSync(dir, { withFileTypes: true }).forEach(dirent => {
+                const fullPath = path.join(dir, dirent.name);
+                if (dirent.isDirectory()) {
+                    walk(fullPath);
+                } else if (dirent.isFile()) {
+                    const stats = fs.statSync(fullPath);
+                    results.push({
+                        path: path.relative(getDataPath(), fullPath).split(path.sep).join('/'),
+                        sizeBytes: stats.size,
+                        modifiedAt: stats.mtime.toISOString()
+                    });
+                }
+            });
+        };
+
+        walk(root);
+        event.returnValue = results;
+    } catch (e) {
+        console.error('[list-storage-files-sync] Error:', e);
         event.returnValue = [];
     }
 });
 
+// Remove a data file (local and shared copies), optionally moving the local copy into an archive folder
+ipcMain.on('remove-storage-file-sync', (event, relativePath, archiveFolder) => {
+    try {
+        const local = resolveDataFile(relativePath);
+        const { shared } = getScopedPath(relativePath);
+
+        if (fs.existsSync(local)) {
+            if (archiveFolder) {
+                const archived = resolveDataFile(path.join(archiveFolder, relativePath));
+                fs.mkdirSync(path.dirname(archived), { recursive: true });
+                fs.renameSync(local, archived);
+            } else {
+                fs.unlinkSync(local);
+            }
+        }
+        if (shared && fs.existsSync(shared)) {
+            fs.unlinkSync(shared);
+        }
+        event.returnValue = { success: true };
+    } catch (e) {
+        console.error("Remove storage file failed", e);
+        event.returnValue = { success: false, error: e.message };
+    }
+});
+
 ipcMain.on('log-event', (event, entry) => {
     try {
         appendLog(entry);
@@ -442,7 +677,7 @@ ipcMain.on('save-input-image-sync', (event, originalName, sizeBytes, base64Data)
 });
 
 // Save image file to specific folder
-ipcMain.on('save-image-sync', (event, folder, filename, base64Data) => {
+registerStorageHandler('save-image-sync', 'storage:save-image', (folder, filename, base64Data) => {
     try {
         const dataPath = getDataPath();
         const imagePath = path.join(dataPath, folder, filename);
@@ -452,15 +687,91 @@ ipcMain.on('save-image-sync', (event, folder, filename, base64Data) => {
         const buffer = Buffer.from(base64, 'base64');
 
         writeFileBoth(path.join(folder, filename), buffer);
-        event.returnValue = { success: true, path: imagePath };
+        return { success: true, path: imagePath };
     } catch (e) {
         console.error("Save image failed", e);
-        event.returnValue = { success: false, error: e.message };
+        return { success: false, error: e.message };
+    }
+});
+
+// Detect image MIME type from magic bytes (falls back to the file extension)
+const IMAGE_MIME_BY_EXTENSION = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    gif: 'image/gif',
+    bmp: 'image/bmp'
+};
+
+const detectImageMimeType = (buffer, filename) => {
+    const startsWith = (signature, offset = 0) =>
+        buffer.length >= offset + signature.length && signature.every((byte, i) => buffer[offset + i] === byte);
+
+    if (startsWith([0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+    if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+    if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+    if (startsWith([0x42, 0x4d])) return 'image/bmp';
+
+    const ext = path.extname(filename).slice(1).toLowerCase();
+    return IMAGE_MIME_BY_EXTENSION[ext] || 'image/png';
+};
+
+// Read pixel dimensions; nativeImage covers PNG/JPEG, GIF/WebP headers are parsed directly
+const getImageDimensions = (buffer, mimeType) => {
+    const image = nativeImage.createFromBuffer(buffer);
+    if (!image.isEmpty()) {
+        return image.getSize();
+    }
+
+    if (mimeType === 'image/gif' && buffer.length >= 10) {
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+    if (mimeType === 'image/webp' && buffer.length >= 30) {
+        const chunk = buffer.toString('ascii', 12, 16);
+        if (chunk === 'VP8X') {
+            return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+        }
+        if (chunk === 'VP8 ') {
+            return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+        }
+        if (chunk === 'VP8L') {
+            const bits = buffer.readUInt32LE(21);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+    }
+    if (mimeType === 'image/bmp' && buffer.length >= 26) {
+        return { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+    }
+
+    return { width: 0, height: 0 };
+};
+
+// Content hash (SHA-256 of the decoded bytes), type and dimensions for the image registry
+registerStorageHandler('inspect-image-sync', 'storage:inspect-image', (base64Data) => {
+    try {
+        const base64 = base64Data.replace(/^data:image\/\w+;base64,/, '');
+        const buffer = Buffer.from(base64, 'base64');
+        const mimeType = detectImageMimeType(buffer, '');
+        const { width, height } = getImageDimensions(buffer, mimeType);
+
+        return {
+            success: true,
+            hash: crypto.createHash('sha256').update(buffer).digest('hex'),
+            mimeType,
+            width,
+            height,
+            sizeBytes: buffer.length
+        };
+    } catch (e) {
+        console.error("Inspect image failed", e);
+        return { success: false, error: e.message };
     }
 });
 
 // Load image file from folder
-ipcMain.on('load-image-sync', (event, folder, filename) => {
+registerStorageHandler('load-image-sync', 'storage:load-image', (folder, filename) => {
     try {
         const dataPath = getDataPath();
         const imagePath = path.join(dataPath, folder, filename);
@@ -468,14 +779,31 @@ ipcMain.on('load-image-sync', (event, folder, filename) => {
         if (fs.existsSync(imagePath)) {
             const buffer = fs.readFileSync(imagePath);
             const base64 = buffer.toString('base64');
-            const ext = path.extname(filename).slice(1);
-            event.returnValue = `data:image/${ext};base64,${base64}`;
+            return `data:${detectImageMimeType(buffer, filename)};base64,${base64}`;
         } else {
-            event.returnValue = null;
+            return null;
         }
     } catch (e) {
         console.error("Load image failed", e);
-        event.returnValue = null;
+        return null;
+    }
+});
+
+// Delete image file from folder (local and shared copies)
+ipcMain.on('delete-image-sync', (event, folder, filename) => {
+    try {
+        const { local, shared } = getScopedPath(path.join(folder, filename));
+
+        if (fs.existsSync(local)) {
+            fs.unlinkSync(local);
+        }
+        if (shared && fs.existsSync(shared)) {
+            fs.unlinkSync(shared);
+        }
+        event.returnValue = { success: true };
+    } catch (e) {
+        console.error("Delete image failed", e);
+        event.returnValue = { success: false, error: e.message };
     }
 });
 
@@ -515,7 +843,7 @@ ipcMain.on('export-image-sync', (event, folder, filename) => {
 });
 
 // Save thumbnail to disk
-ipcMain.on('save-thumbnail-sync', (event, sessionId, imageId, thumbnailBase64) => {
+registerStorageHandler('save-thumbnail-sync', 'storage:save-thumbnail', (sessionId, imageId, thumbnailBase64) => {
     try {
         const dataPath = getDataPath();
         const thumbnailsDir = path.join(dataPath, 'thumbnails', sessionId);
@@ -537,15 +865,15 @@ ipcMain.on('save-thumbnail-sync', (event, sessionId, imageId, thumbnailBase64) =
 
         // Return relative path for storage in session
         const relativePath = path.join('thumbnails', sessionId, `${imageId}.jpg`);
-        event.returnValue = { success: true, path: relativePath };
+        return { success: true, path: relativePath };
     } catch (e) {
         console.error("Save thumbnail failed", e);
-        event.returnValue = { success: false, error: e.message };
+        return { success: false, error: e.message };
     }
 });
 
 // Load thumbnail from disk
-ipcMain.on('load-thumbnail-sync', (event, thumbnailPath) => {
+registerStorageHandler('load-thumbnail-sync', 'storage:load-thumbnail', (thumbnailPath) => {
     try {
         const dataPath = getDataPath();
         const fullPath = path.join(dataPath, thumbnailPath);
@@ -554,13 +882,13 @@ ipcMain.on('load-thumbnail-sync', (event, thumbnailPath) => {
             const buffer = fs.readFileSync(fullPath);
             const base64 = buffer.toString('base64');
             // Return as data URI
-            event.returnValue = `data:image/jpeg;base64,${base64}`;
+            return `data:image/jpeg;base64,${base64}`;
         } else {
-            event.returnValue = null;
+            return null;
         }
     } catch (e) {
         console.error("Load thumbnail failed", e);
-        event.returnValue = null;
+        return null;
     }
 });
 
@@ -695,6 +1023,25 @@ ipcMain.on('rename-session-file-sync', (event, sessionId, newExtension) => {
     }
 });
 
+// Canvas plugins: .js files in the user's plugins folder (evaluated by the renderer)
+ipcMain.handle('plugins:list', async () => {
+    try {
+        const pluginsDir = path.join(getDataPath(), 'plugins');
+        if (!fs.existsSync(pluginsDir)) {
+            fs.mkdirSync(pluginsDir, { recursive: true });
+            return [];
+        }
+
+        return fs.readdirSync(pluginsDir)
+            .filter(file => file.endsWith('.js'))
+            .sort()
+            .map(file => ({ file, code: fs.readFileSync(path.join(pluginsDir, file), 'utf-8') }));
+    } catch (e) {
+        console.error('Failed to list canvas plugins', e);
+        return [];
+    }
+});
+
 // User Settings handlers
 ipcMain.handle('user-settings:get', async () => {
     try {
@@ -747,6 +1094,180 @@ ipcMain.handle('user-history:save', async (_event, history) => {
     }
 });
 
+// Keyboard shortcut overrides (per user data directory)
+ipcMain.handle('user-keymap:get', async () => {
+    try {
+        const keymapPath = path.join(getDataPath(), 'user-keymap.json');
+        if (fs.existsSync(keymapPath)) {
+            return JSON.parse(fs.readFileSync(keymapPath, 'utf-8'));
+        }
+        return null;
+    } catch (e) {
+        console.error('Failed to load keymap', e);
+        return null;
+    }
+});
+
+ipcMain.handle('user-keymap:save', async (_event, keymap) => {
+    try {
+        const keymapPath = path.join(getDataPath(), 'user-keymap.json');
+        fs.writeFileSync(keymapPath, JSON.stringify(keymap || {}, null, 2), 'utf-8');
+        return { success: true };
+    } catch (e) {
+        console.error('Failed to save keymap', e);
+        return { success: false, error: e.message };
+    }
+});
+
+ipcMain.handle('user-adjustment-presets:get', async () => {
+    try {
+        const presetsPath = path.join(getDataPath(), 'user-adjustment-presets.json');
+        if (fs.existsSync(presetsPath)) {
+            return JSON.parse(fs.readFileSync(presetsPath, 'utf-8'));
+        }
+        return null;
+    } catch (e) {
+        console.error('Failed to load adjustment presets', e);
+        return null;
+    }
+});
+
+ipcMain.handle('user-adjustment-presets:save', async (_event, presets) => {
+    try {
+        const presetsPath = path.join(getDataPath(), 'user-adjustment-presets.json');
+        fs.writeFileSync(presetsPath, JSON.stringify(presets || [], null, 2), 'utf-8');
+        return { success: true };
+    } catch (e) {
+        console.error('Failed to save adjustment presets', e);
+        return { success: false, error: e.message };
+    }
+});
+
+// System clipboard for the canvas (images travel as PNG data URLs)
+ipcMain.handle('clipboard:write', async (_event, { text, imageDataUri } = {}) => {
+    try {
+        const data = {};
+        if (text) data.text = text;
+        if (imageDataUri) {
+            const image = nativeImage.createFromDataURL(imageDataUri);
+            if (image.isEmpty()) throw new Error('Invalid image data');
+            data.image = image;
+        }
+        clipboard.write(data);
+        return { success: true };
+    } catch (e) {
+        console.error('Failed to write clipboard', e);
+        return { success: false, error: e.message };
+    }
+});
+
+ipcMain.handle('clipboard:read', async () => {
+    try {
+        const image = clipboard.readImage();
+        return {
+            text: clipboard.readText() || null,
+            imageDataUri: image.isEmpty() ? null : image.toDataURL()
+        };
+    } catch (e) {
+        console.error('Failed to read clipboard', e);
+        return { text: null, imageDataUri: null };
+    }
+});
+
+// ----------------------------------------------------------------------------
+// Project bundles (.nanoboard)
+// ----------------------------------------------------------------------------
+// A bundle is an uncompressed ustar archive. Entries carry either text (manifest,
+// session JSON) or a data-relative file that is copied as is, one entry at a
+// time, so exported images never pass through the renderer or sit in memory
+// together. The renderer reads archives back in services/sessionBundle.ts.
+
+const TAR_BLOCK = 512;
+
+const writeTarField = (header, offset, length, value) => {
+    header.write(value, offset, length, 'utf-8');
+};
+
+const tarHeader = (name, size, mtime) => {
+    // Names over 100 bytes are split into prefix/name at a slash
+    let prefix = '';
+    let baseName = name;
+    if (Buffer.byteLength(name) > 100) {
+        const slash = name.lastIndexOf('/');
+        prefix = slash > 0 ? name.slice(0, slash) : '';
+        baseName = name.slice(slash + 1);
+        if (!prefix || Buffer.byteLength(baseName) > 100 || Buffer.byteLength(prefix) > 155) {
+            throw new Error(`Archive entry name too long: ${name}`);
+        }
+    }
+
+    const header = Buffer.alloc(TAR_BLOCK);
+    writeTarField(header, 0, 100, baseName);
+    writeTarField(header, 100, 8, '0000644\0');
+    writeTarField(header, 108, 8, '0000000\0');
+    writeTarField(header, 116, 8, '0000000\0');
+    writeTarField(header, 124, 12, `${size.toString(8).padStart(11, '0')}\0`);
+    writeTarField(header, 136, 12, `${Math.floor(mtime / 1000).toString(8).padStart(11, '0')}\0`);
+    writeTarField(header, 148, 8, '        ');
+    writeTarField(header, 156, 1, '0');
+    writeTarField(header, 257, 6, 'ustar\0');
+    writeTarField(header, 263, 2, '00');
+    writeTarField(header, 345, 155, prefix);
+
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeTarField(header, 148, 8, `${checksum.toString(8).padStart(6, '0')}\0 `);
+    return header;
+};
+
+const writeTarArchive = async (targetPath, entries) => {
+    const tmpPath = `${targetPath}.tmp`;
+    const mtime = Date.now();
+    try {
+        const handle = await fs.promises.open(tmpPath, 'w');
+        try {
+            for (const entry of entries) {
+                const content = typeof entry.file === 'string'
+                    ? await fs.promises.readFile(resolveDataFile(entry.file))
+                    : Buffer.from(entry.text || '', 'utf-8');
+                await handle.write(tarHeader(entry.name, content.length, mtime));
+                await handle.write(content);
+                const padding = (TAR_BLOCK - (content.length % TAR_BLOCK)) % TAR_BLOCK;
+                if (padding > 0) await handle.write(Buffer.alloc(padding));
+            }
+            // End of archive: two empty blocks
+            await handle.write(Buffer.alloc(TAR_BLOCK * 2));
+        } finally {
+            await handle.close();
+        }
+        fs.renameSync(tmpPath, targetPath);
+    } catch (e) {
+        if (fs.existsSync(tmpPath)) fs.unlinkSync(tmpPath);
+        throw e;
+    }
+};
+
+ipcMain.handle('bundle:export', async (_event, defaultName, entries) => {
+    try {
+        const result = await dialog.showSaveDialog(mainWindow, {
+            title: 'Export Projects',
+            defaultPath: path.join(app.getPath('downloads'), defaultName),
+            filters: [
+                { name: 'Project Bundles', extensions: ['nanoboard'] },
+                { name: 'All Files', extensions: ['*'] }
+            ]
+        });
+        if (result.canceled || !result.filePath) {
+            return { success: false, cancelled: true };
+        }
+
+        await writeTarArchive(result.filePath, entries);
+        return { success: true, path: result.filePath };
+    } catch (e) {
+        console.error('Bundle export failed', e);
+        return { success: false, error: e.message };
+    }
+});
+
 app.whenReady().then(() => {
   // Ensure required directories exist
   const dataDir = getDataPath();
@@ -10,11 +10,27 @@ contextBridge.exposeInMainWorld('electron', {
   loadSync: (filename) => ipcRenderer.sendSync('load-sync', filename),
   deleteSync: (filename) => ipcRenderer.sendSync('delete-sync', filename),
   listFilesSync: (prefix) => ipcRenderer.sendSync('list-files-sync', prefix),
+  listStorageFilesSync: (folder) => ipcRenderer.sendSync('list-storage-files-sync', folder),
+  removeStorageFileSync: (relativePath, archiveFolder) => ipcRenderer.sendSync('remove-storage-file-sync', relativePath, archiveFolder),
+
+  // Async storage operations (non-blocking twins of the *Sync calls)
+  saveFile: (filename, content) => ipcRenderer.invoke('storage:save', filename, content),
+  loadFile: (filename) => ipcRenderer.invoke('storage:load', filename),
+  listFiles: (prefix) => ipcRenderer.invoke('storage:list-files', prefix),
+  saveImage: (folder, filename, base64Data) => ipcRenderer.invoke('storage:save-image', folder, filename, base64Data),
+  loadImage: (folder, filename) => ipcRenderer.invoke('storage:load-image', folder, filename),
+  inspectImage: (base64Data) => ipcRenderer.invoke('storage:inspect-image', base64Data),
+  saveThumbnail: (sessionId, imageId, thumbnailBase64) => ipcRenderer.invoke('storage:save-thumbnail', sessionId, imageId, thumbnailBase64),
+  loadThumbnail: (thumbnailPath) => ipcRenderer.invoke('storage:load-thumbnail', thumbnailPath),
+  takeStorageRecoveries: () => ipcRenderer.invoke('storage:take-recoveries'),
+  onStorageRecovered: (callback) => ipcRenderer.on('storage-recovered', (_event, recovery) => callback(recovery)),
 
   // Image operations
   saveImageSync: (folder, filename, base64Data) => ipcRenderer.sendSync('save-image-sync', folder, filename, base64Data),
   saveInputImageSync: (originalName, sizeBytes, base64Data) => ipcRenderer.sendSync('save-input-image-sync', originalName, sizeBytes, base64Data),
   loadImageSync: (folder, filename) => ipcRenderer.sendSync('load-image-sync', folder, filename),
+  deleteImageSync: (folder, filename) => ipcRenderer.sendSync('delete-image-sync', folder, filename),
+  inspectImageSync: (base64Data) => ipcRenderer.sendSync('inspect-image-sync', base64Data),
   exportImageSync: (folder, filename) => ipcRenderer.sendSync('export-image-sync', folder, filename),
 
   // Thumbnail operations
@@ -40,8 +56,22 @@ contextBridge.exposeInMainWorld('electron', {
   saveUserSettings: (settings) => ipcRenderer.invoke('user-settings:save', settings),
   loadUserHistory: () => ipcRenderer.invoke('user-history:get'),
   saveUserHistory: (history) => ipcRenderer.invoke('user-history:save', history),
+  loadUserKeymap: () => ipcRenderer.invoke('user-keymap:get'),
+  saveUserKeymap: (keymap) => ipcRenderer.invoke('user-keymap:save', keymap),
+  loadUserAdjustmentPresets: () => ipcRenderer.invoke('user-adjustment-presets:get'),
+  saveUserAdjustmentPresets: (presets) => ipcRenderer.invoke('user-adjustment-presets:save', presets),
   onUserCacheReady: (callback) => ipcRenderer.on('user-cache-ready', (_event, payload) => callback(payload)),
 
+  // System clipboard
+  writeClipboard: (content) => ipcRenderer.invoke('clipboard:write', content),
+  readClipboard: () => ipcRenderer.invoke('clipboard:read'),
+
+  // Project bundles
+  exportBundle: (defaultName, entries) => ipcRenderer.invoke('bundle:export', defaultName, entries),
+
+  // Canvas plugins
+  listCanvasPlugins: () => ipcRenderer.invoke('plugins:list'),
+
   // Updates
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   onUpdateAvailable: (callback) => ipcRenderer.on('update-available', (_event, info) => callback(info)),
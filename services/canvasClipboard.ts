@@ -0,0 +1,210 @@
+/**
+ * Canvas clipboard
+ *
+ * Copied canvas entities live in memory (module state), so they can be pasted
+ * into any session of the running app. The system clipboard gets a marker text
+ * at the same time, and for a single image also the image as PNG; on paste the
+ * marker tells whether the system clipboard still holds our copy or something
+ * copied elsewhere since (an image or text to place on the canvas).
+ *
+ * In the desktop app the system clipboard is reached through the main process
+ * (`clipboard:read` / `clipboard:write`), in the browser through navigator.clipboard.
+ */
+
+import { CanvasImage } from '../types';
+import { withFrameContents } from './canvasFrames';
+import { Bounds, getBounds } from './canvasLayout';
+
+export interface CanvasClipboardData {
+  marker: string;          // Text put on the system clipboard alongside the copy
+  sessionId?: string;      // Session the entities were copied from
+  entities: CanvasImage[]; // In stacking order
+  anchor: { x: number; y: number };  // Canvas point the entities are pasted relative to
+}
+
+export interface SystemClipboardContent {
+  text: string | null;
+  imageDataUri: string | null;
+}
+
+const MARKER_PREFIX = 'nanoboard-canvas-entities:';
+
+// Offset applied when pasting again at the same spot, so copies do not stack exactly
+const PASTE_CASCADE_OFFSET = 20;
+
+let entityClipboard: CanvasClipboardData | null = null;
+let lastPaste: { x: number; y: number; count: number } | null = null;
+
+const isElectron = () => {
+  // @ts-ignore
+  return typeof window !== 'undefined' && typeof window.electron?.readClipboard === 'function';
+};
+
+/**
+ * Re-encode an image data URI as a PNG blob (browsers only accept PNG on the clipboard)
+ */
+const dataUriToPngBlob = (dataUri: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Could not get canvas 2D context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png');
+    };
+    img.onerror = () => reject(new Error('Failed to load image for the clipboard'));
+    img.src = dataUri;
+  });
+};
+
+const blobToDataUri = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * Copies of `entities` with fresh ids, moved by (dx, dy). Groups and frame
+ * ownership among the copies are kept; ownership by frames that were not
+ * copied is dropped (the caller re-assigns frames at the new position).
+ * A control map copied with its source image is linked to the source's copy.
+ */
+export const cloneEntities = (entities: CanvasImage[], dx: number, dy: number): CanvasImage[] => {
+  const stamp = Date.now();
+  const ids = new Map(entities.map((img, index) => [img.id, `${img.type || 'img'}-${stamp}-${index}`]));
+  const groupIds = new Map<string, string>();
+  entities.forEach(img => {
+    if (img.groupId && !groupIds.has(img.groupId)) {
+      groupIds.set(img.groupId, `group-${stamp}-${groupIds.size}`);
+    }
+  });
+
+  return entities.map(img => {
+    const { frameId, groupId, ...rest } = img;
+    const copy: CanvasImage = { ...rest, id: ids.get(img.id)!, x: img.x + dx, y: img.y + dy, selected: true };
+    if (groupId) copy.groupId = groupIds.get(groupId);
+    if (frameId && ids.has(frameId)) copy.frameId = ids.get(frameId);
+    if (img.controlSource && ids.has(img.controlSource.imageId)) {
+      copy.controlSource = { ...img.controlSource, imageId: ids.get(img.controlSource.imageId)! };
+    }
+    return copy;
+  });
+};
+
+export const CanvasClipboard = {
+  /**
+   * Put the selected entities (and the contents of selected frames) on the clipboard.
+   * Hidden entities are skipped.
+   */
+  copy: (
+    images: CanvasImage[],
+    sessionId?: string,
+    anchor?: { x: number; y: number }
+  ): CanvasClipboardData | null => {
+    const ids = withFrameContents(images, images.filter(img => img.selected && !img.hidden).map(img => img.id));
+    const entities = images
+      .filter(img => ids.has(img.id) && !img.hidden)
+      .map(img => ({ ...img, selected: false }));
+    if (entities.length === 0) return null;
+
+    const bounds: Bounds = getBounds(entities);
+    entityClipboard = {
+      marker: `${MARKER_PREFIX}${Date.now()}`,
+      sessionId,
+      entities,
+      anchor: anchor ?? { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }
+    };
+    lastPaste = null;
+    return entityClipboard;
+  },
+
+  get: (): CanvasClipboardData | null => entityClipboard,
+
+  /**
+   * Copies of the clipboard entities placed relative to `target` the way they were
+   * relative to the copy anchor. Pasting into another session drops references to
+   * the source session (thumbnail files, generation lineage, control map sources
+   * not copied along); full images are shared.
+   */
+  paste: (target: { x: number; y: number }, sessionId?: string): CanvasImage[] => {
+    if (!entityClipboard) return [];
+
+    const repeat = lastPaste && lastPaste.x === target.x && lastPaste.y === target.y ? lastPaste.count + 1 : 0;
+    lastPaste = { x: target.x, y: target.y, count: repeat };
+    const offset = repeat * PASTE_CASCADE_OFFSET;
+
+    const sameSession = entityClipboard.sessionId === sessionId;
+    const entities = sameSession
+      ? entityClipboard.entities
+      : entityClipboard.entities.map(img => {
+        const { thumbnailPath, generationId, controlSource, ...rest } = img;
+        return entityClipboard!.entities.some(entity => entity.id === controlSource?.imageId)
+          ? { ...rest, controlSource }
+          : rest;
+      });
+
+    return cloneEntities(
+      entities,
+      target.x - entityClipboard.anchor.x + offset,
+      target.y - entityClipboard.anchor.y + offset
+    );
+  },
+
+  /**
+   * Write text and/or an image to the system clipboard
+   */
+  writeSystem: async (content: { text?: string; imageDataUri?: string }): Promise<void> => {
+    if (isElectron()) {
+      // @ts-ignore
+      const result = await window.electron.writeClipboard(content);
+      if (!result?.success) throw new Error(result?.error || 'Failed to write to the clipboard');
+      return;
+    }
+
+    if (!navigator.clipboard) throw new Error('Clipboard is not available');
+    if (content.imageDataUri && typeof ClipboardItem !== 'undefined') {
+      const items: Record<string, Blob> = { 'image/png': await dataUriToPngBlob(content.imageDataUri) };
+      if (content.text) items['text/plain'] = new Blob([content.text], { type: 'text/plain' });
+      await navigator.clipboard.write([new ClipboardItem(items)]);
+    } else if (content.text) {
+      await navigator.clipboard.writeText(content.text);
+    }
+  },
+
+  /**
+   * Read the system clipboard's text and image (as a PNG data URI)
+   */
+  readSystem: async (): Promise<SystemClipboardContent> => {
+    if (isElectron()) {
+      // @ts-ignore
+      const content = await window.electron.readClipboard();
+      return { text: content?.text || null, imageDataUri: content?.imageDataUri || null };
+    }
+
+    const content: SystemClipboardContent = { text: null, imageDataUri: null };
+    if (!navigator.clipboard) return content;
+    try {
+      for (const item of await navigator.clipboard.read()) {
+        const imageType = item.types.find(type => type.startsWith('image/'));
+        if (imageType && !content.imageDataUri) {
+          content.imageDataUri = await blobToDataUri(await item.getType(imageType));
+        }
+        if (item.types.includes('text/plain') && !content.text) {
+          content.text = await (await item.getType('text/plain')).text();
+        }
+      }
+    } catch (err) {
+      console.warn('[CanvasClipboard] Could not read the system clipboard', err);
+    }
+    return content;
+  }
+};
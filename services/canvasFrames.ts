@@ -0,0 +1,145 @@
+/**
+ * Canvas frames (artboards)
+ *
+ * A frame is a named, preset-sized canvas entity that owns the entities dropped
+ * into it (`frameId`): they are clipped to its bounds, stacked above it, and
+ * moved and deleted together with it. Frames are exported on their own as a
+ * flattened PNG or together as pages of a PDF (see utils/frameExport.ts).
+ */
+
+import { CanvasImage } from '../types';
+
+export interface FramePreset {
+  id: string;
+  label: string;
+  width: number;           // Canvas units (CSS px); PDF pages are sized at 96 dpi
+  height: number;
+}
+
+export const FRAME_PRESETS: FramePreset[] = [
+  { id: 'a4-portrait', label: 'A4 Portrait', width: 794, height: 1123 },
+  { id: 'a4-landscape', label: 'A4 Landscape', width: 1123, height: 794 },
+  { id: 'slide-16-9', label: '16:9 Slide', width: 1280, height: 720 },
+  { id: 'instagram-square', label: 'Instagram Post', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Instagram Portrait', width: 1080, height: 1350 },
+  { id: 'instagram-story', label: 'Instagram Story', width: 1080, height: 1920 }
+];
+
+export const getFramePreset = (presetId?: string): FramePreset | undefined => {
+  return FRAME_PRESETS.find(preset => preset.id === presetId);
+};
+
+export const isFrame = (image: CanvasImage): boolean => image.type === 'frame';
+
+/**
+ * New frame centred on (centerX, centerY). Frames are numbered per canvas.
+ */
+export const createFrame = (
+  images: CanvasImage[],
+  preset: FramePreset,
+  centerX: number,
+  centerY: number
+): CanvasImage => ({
+  id: `frame-${Date.now()}`,
+  type: 'frame',
+  name: `Frame ${images.filter(isFrame).length + 1}`,
+  framePreset: preset.id,
+  backgroundColor: '#ffffff',
+  x: centerX - preset.width / 2,
+  y: centerY - preset.height / 2,
+  width: preset.width,
+  height: preset.height,
+  selected: false,
+  originalWidth: preset.width,
+  originalHeight: preset.height
+});
+
+/**
+ * Resize a frame to a preset, keeping its top-left corner
+ */
+export const applyFramePreset = (images: CanvasImage[], frameId: string, preset: FramePreset): CanvasImage[] => {
+  return images.map(img => img.id === frameId
+    ? {
+      ...img,
+      framePreset: preset.id,
+      width: preset.width,
+      height: preset.height,
+      originalWidth: preset.width,
+      originalHeight: preset.height
+    }
+    : img
+  );
+};
+
+/**
+ * Ids plus the entities owned by any frames among them
+ */
+export const withFrameContents = (images: CanvasImage[], ids: Iterable<string>): Set<string> => {
+  const result = new Set(ids);
+  const frameIds = new Set(images.filter(img => result.has(img.id) && isFrame(img)).map(img => img.id));
+  images.forEach(img => {
+    if (img.frameId && frameIds.has(img.frameId)) result.add(img.id);
+  });
+  return result;
+};
+
+/**
+ * Entities owned by a frame, in stacking order
+ */
+export const getFrameContents = (images: CanvasImage[], frameId: string): CanvasImage[] => {
+  return images.filter(img => img.frameId === frameId);
+};
+
+/**
+ * Re-evaluate which frame owns the given entities (after they were dropped):
+ * the topmost visible frame containing an entity's centre, or none. Entities
+ * that land in a frame stacked above them are moved to just above it.
+ */
+export const assignFrames = (images: CanvasImage[], ids: Iterable<string>): CanvasImage[] => {
+  const targets = new Set(ids);
+  const frames = images.filter(img => isFrame(img) && !img.hidden);
+
+  let changed = false;
+  let result = images.map((img): CanvasImage => {
+    if (!targets.has(img.id) || isFrame(img)) return img;
+
+    const centerX = img.x + img.width / 2;
+    const centerY = img.y + img.height / 2;
+    const owner = [...frames].reverse().find(frame =>
+      centerX >= frame.x && centerX <= frame.x + frame.width &&
+      centerY >= frame.y && centerY <= frame.y + frame.height
+    );
+
+    if (owner?.id === img.frameId) return img;
+    changed = true;
+    if (owner) return { ...img, frameId: owner.id };
+    const { frameId, ...rest } = img;
+    return rest;
+  });
+  if (!changed) return images;
+
+  // Owned entities must be drawn on top of their frame
+  frames.forEach(frame => {
+    const frameIndex = result.findIndex(img => img.id === frame.id);
+    const below = result.filter((img, index) => index < frameIndex && img.frameId === frame.id);
+    if (below.length === 0) return;
+
+    const belowIds = new Set(below.map(img => img.id));
+    const rest = result.filter(img => !belowIds.has(img.id));
+    const insertAt = rest.findIndex(img => img.id === frame.id) + 1;
+    result = [...rest.slice(0, insertAt), ...below, ...rest.slice(insertAt)];
+  });
+
+  return result;
+};
+
+/**
+ * CSS clip-path (in screen px) that clips an owned entity to its frame
+ */
+export const frameClipPath = (image: CanvasImage, frame: CanvasImage, zoom: number): string => {
+  const top = Math.max(0, frame.y - image.y) * zoom;
+  const left = Math.max(0, frame.x - image.x) * zoom;
+  const bottom = Math.max(0, image.y + image.height - (frame.y + frame.height)) * zoom;
+  const right = Math.max(0, image.x + image.width - (frame.x + frame.width)) * zoom;
+  return `inset(${top}px ${right}px ${bottom}px ${left}px)`;
+};
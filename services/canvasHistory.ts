@@ -0,0 +1,324 @@
+/**
+ * Canvas history (undo / redo)
+ *
+ * Every step is a command describing only what changed between two canvas
+ * states: images added or removed (with their index), per-image before/after
+ * values of the fields that changed, and the stacking order if it changed.
+ * Commands are derived by diffing successive canvas states, so every code path
+ * that updates the canvas is undoable without emitting commands itself.
+ *
+ * The stack is capped by estimated memory rather than step count, consecutive
+ * drags/resizes of the same items are coalesced into one step, and the steps
+ * around the current position are saved next to the canvas file.
+ */
+
+import { CanvasImage, CanvasCommand, CanvasCommandKind, CanvasImagePatch } from '../types';
+
+export interface CanvasHistoryState {
+  commands: CanvasCommand[];
+  position: number;        // Number of commands currently applied
+}
+
+export const EMPTY_CANVAS_HISTORY: CanvasHistoryState = { commands: [], position: 0 };
+
+// Oldest steps are dropped once the stack holds more than this (deleted images keep their data alive)
+export const CANVAS_HISTORY_MEMORY_LIMIT_BYTES = 64 * 1024 * 1024;
+
+// Steps written to {sessionId}_history.json
+export const CANVAS_HISTORY_PERSIST_LIMIT = 100;
+
+// Moves/resizes of the same items closer together than this become one step
+const COALESCE_WINDOW_MS = 2000;
+
+// Selection and loaded image data are view state, not edits
+const VIEW_FIELDS = new Set(['selected', 'dataUri', 'thumbnailUri', 'thumbnailPath']);
+const CONTENT_FIELDS = ['dataUri', 'thumbnailUri', 'thumbnailPath', 'imageMetaId'];
+// Dropping an entity into or out of a frame is part of the move
+const POSITION_FIELDS = new Set(['x', 'y', 'frameId']);
+const SIZE_FIELDS = new Set(['x', 'y', 'width', 'height', 'frameId']);
+const TEXT_FIELDS = new Set(['text', 'fontSize', 'fontWeight', 'fontStyle', 'fontFamily']);
+
+const commandSizes = new WeakMap<CanvasCommand, number>();
+
+const fieldValue = (image: CanvasImage, key: string): unknown => {
+  const value = (image as unknown as Record<string, unknown>)[key];
+  return value === undefined ? null : value;
+};
+
+// The image itself was replaced (edited or re-registered), not just loaded
+const contentChanged = (before: CanvasImage, after: CanvasImage): boolean => {
+  if (before.imageMetaId || after.imageMetaId) {
+    return before.imageMetaId !== after.imageMetaId;
+  }
+  return !!before.dataUri && !!after.dataUri && before.dataUri !== after.dataUri;
+};
+
+const diffImage = (before: CanvasImage, after: CanvasImage): CanvasImagePatch | null => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const patch: CanvasImagePatch = { id: after.id, before: {}, after: {} };
+
+  keys.forEach(key => {
+    if (VIEW_FIELDS.has(key) || key === 'imageMetaId') return;
+    const from = fieldValue(before, key);
+    const to = fieldValue(after, key);
+    if (from !== to) {
+      patch.before[key] = from;
+      patch.after[key] = to;
+    }
+  });
+
+  if (contentChanged(before, after)) {
+    CONTENT_FIELDS.forEach(key => {
+      patch.before[key] = fieldValue(before, key);
+      patch.after[key] = fieldValue(after, key);
+    });
+  }
+
+  return Object.keys(patch.after).length > 0 ? patch : null;
+};
+
+const plural = (count: number, noun: string): string => {
+  return count === 1 ? noun : `${count} ${noun}s`;
+};
+
+const describe = (
+  added: CanvasCommand['added'],
+  removed: CanvasCommand['removed'],
+  changed: CanvasImagePatch[],
+  order?: CanvasCommand['order']
+): { kind: CanvasCommandKind; label: string } => {
+  if (added.length > 0 && removed.length === 0 && changed.length === 0) {
+    const generated = added.every(({ image }) => !!image.generationId);
+    return generated
+      ? { kind: 'generate', label: `Generate ${plural(added.length, 'image')}` }
+      : { kind: 'add', label: `Add ${plural(added.length, 'item')}` };
+  }
+  if (removed.length > 0 && added.length === 0 && changed.length === 0) {
+    return { kind: 'delete', label: `Delete ${plural(removed.length, 'item')}` };
+  }
+  if (added.length === 0 && removed.length === 0) {
+    if (changed.length === 0 && order) {
+      return { kind: 'reorder', label: 'Reorder items' };
+    }
+
+    const fields = new Set(changed.flatMap(patch => Object.keys(patch.after)));
+    const only = (allowed: Set<string>) => [...fields].every(field => allowed.has(field));
+    if (fields.has('imageMetaId')) {
+      return { kind: 'edit-image', label: `Edit ${plural(changed.length, 'image')}` };
+    }
+    if ([...fields].some(field => TEXT_FIELDS.has(field))) {
+      return { kind: 'edit-text', label: 'Edit text' };
+    }
+    if (only(POSITION_FIELDS)) {
+      return { kind: 'move', label: `Move ${plural(changed.length, 'item')}` };
+    }
+    if (only(SIZE_FIELDS)) {
+      return { kind: 'resize', label: `Resize ${plural(changed.length, 'item')}` };
+    }
+    if (fields.size === 1 && fields.has('tag')) {
+      const tag = changed[0].after.tag;
+      return { kind: 'tag', label: tag ? `Tag as ${String(tag)}` : 'Remove tag' };
+    }
+    if (fields.size === 1 && fields.has('name')) {
+      return { kind: 'edit', label: 'Rename frame' };
+    }
+    if (fields.size === 1 && fields.has('groupId')) {
+      return changed[0].after.groupId
+        ? { kind: 'group', label: `Group ${plural(changed.length, 'item')}` }
+        : { kind: 'group', label: `Ungroup ${plural(changed.length, 'item')}` };
+    }
+    if (fields.size === 1 && fields.has('locked')) {
+      return { kind: 'lock', label: `${changed[0].after.locked ? 'Lock' : 'Unlock'} ${plural(changed.length, 'item')}` };
+    }
+    if (fields.size === 1 && fields.has('hidden')) {
+      return { kind: 'visibility', label: `${changed[0].after.hidden ? 'Hide' : 'Show'} ${plural(changed.length, 'item')}` };
+    }
+  }
+  return { kind: 'edit', label: `Edit ${plural(added.length + removed.length + changed.length, 'item')}` };
+};
+
+/**
+ * The command that turns `before` into `after`, or null if nothing undoable changed
+ */
+export const diffCanvasStates = (before: CanvasImage[], after: CanvasImage[]): CanvasCommand | null => {
+  const beforeById = new Map(before.map(img => [img.id, img]));
+  const afterById = new Map(after.map(img => [img.id, img]));
+
+  const removed = before
+    .map((image, index) => ({ index, image }))
+    .filter(({ image }) => !afterById.has(image.id));
+  const added = after
+    .map((image, index) => ({ index, image }))
+    .filter(({ image }) => !beforeById.has(image.id));
+
+  const changed: CanvasImagePatch[] = [];
+  after.forEach(image => {
+    const previous = beforeById.get(image.id);
+    if (!previous || previous === image) return;
+    const patch = diffImage(previous, image);
+    if (patch) changed.push(patch);
+  });
+
+  // Stacking order of the images present in both states
+  const keptBefore = before.filter(img => afterById.has(img.id)).map(img => img.id);
+  const keptAfter = after.filter(img => beforeById.has(img.id)).map(img => img.id);
+  const order = keptBefore.some((id, index) => keptAfter[index] !== id)
+    ? { before: before.map(img => img.id), after: after.map(img => img.id) }
+    : undefined;
+
+  if (added.length === 0 && removed.length === 0 && changed.length === 0 && !order) {
+    return null;
+  }
+
+  return {
+    id: `cmd-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    ...describe(added, removed, changed, order),
+    timestamp: new Date().toISOString(),
+    added,
+    removed,
+    changed,
+    order
+  };
+};
+
+const applyPatch = (image: CanvasImage, values: Record<string, unknown>): CanvasImage => {
+  const next = { ...image } as unknown as Record<string, unknown>;
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === null) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  });
+  return next as unknown as CanvasImage;
+};
+
+const insertAt = (images: CanvasImage[], entries: CanvasCommand['added']): CanvasImage[] => {
+  const result = [...images];
+  [...entries]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, image }) => {
+      result.splice(Math.min(index, result.length), 0, { ...image, selected: false });
+    });
+  return result;
+};
+
+const sortByOrder = (images: CanvasImage[], order: string[]): CanvasImage[] => {
+  const rank = new Map(order.map((id, index) => [id, index]));
+  return [...images].sort((a, b) => (rank.get(a.id) ?? order.length) - (rank.get(b.id) ?? order.length));
+};
+
+/**
+ * Apply a command to the canvas ('redo') or revert it ('undo')
+ */
+export const applyCanvasCommand = (
+  images: CanvasImage[],
+  command: CanvasCommand,
+  direction: 'undo' | 'redo'
+): CanvasImage[] => {
+  const undo = direction === 'undo';
+  const dropped = new Set((undo ? command.added : command.removed).map(({ image }) => image.id));
+  const patches = new Map(command.changed.map(patch => [patch.id, undo ? patch.before : patch.after]));
+
+  let result = images
+    .filter(img => !dropped.has(img.id))
+    .map(img => (patches.has(img.id) ? applyPatch(img, patches.get(img.id)!) : img));
+  result = insertAt(result, undo ? command.removed : command.added);
+
+  if (command.order) {
+    result = sortByOrder(result, undo ? command.order.before : command.order.after);
+  }
+  return result;
+};
+
+/**
+ * Canvas after moving from `state.position` to `target` (undoing or redoing as needed)
+ */
+export const travelCanvasHistory = (
+  images: CanvasImage[],
+  state: CanvasHistoryState,
+  target: number
+): CanvasImage[] => {
+  let result = images;
+  for (let position = state.position; position > target; position--) {
+    result = applyCanvasCommand(result, state.commands[position - 1], 'undo');
+  }
+  for (let position = state.position; position < target; position++) {
+    result = applyCanvasCommand(result, state.commands[position], 'redo');
+  }
+  return result;
+};
+
+const estimateCommandBytes = (command: CanvasCommand): number => {
+  let size = commandSizes.get(command);
+  if (size === undefined) {
+    // UTF-16 in memory; counts image data held only by the history (deleted/replaced images)
+    size = JSON.stringify(command).length * 2;
+    commandSizes.set(command, size);
+  }
+  return size;
+};
+
+// Consecutive moves (or resizes) of the same items
+const canCoalesce = (previous: CanvasCommand, next: CanvasCommand): boolean => {
+  if (previous.kind !== next.kind || (next.kind !== 'move' && next.kind !== 'resize')) return false;
+  if (new Date(next.timestamp).getTime() - new Date(previous.timestamp).getTime() > COALESCE_WINDOW_MS) return false;
+
+  const ids = new Set(previous.changed.map(patch => patch.id));
+  return next.changed.length === ids.size && next.changed.every(patch => ids.has(patch.id));
+};
+
+const coalesce = (previous: CanvasCommand, next: CanvasCommand): CanvasCommand => {
+  const nextById = new Map(next.changed.map(patch => [patch.id, patch]));
+  return {
+    ...next,
+    id: previous.id,
+    changed: previous.changed.map(patch => {
+      const later = nextById.get(patch.id)!;
+      return {
+        id: patch.id,
+        before: { ...later.before, ...patch.before },
+        after: { ...patch.after, ...later.after }
+      };
+    })
+  };
+};
+
+/**
+ * Record a command at the current position (discarding redo steps)
+ */
+export const pushCanvasCommand = (
+  state: CanvasHistoryState,
+  command: CanvasCommand,
+  limitBytes: number = CANVAS_HISTORY_MEMORY_LIMIT_BYTES
+): CanvasHistoryState => {
+  const commands = state.commands.slice(0, state.position);
+  const last = commands[commands.length - 1];
+  if (last && canCoalesce(last, command)) {
+    commands[commands.length - 1] = coalesce(last, command);
+  } else {
+    commands.push(command);
+  }
+
+  // Drop the oldest steps until the stack fits (the newest step is always kept)
+  let total = commands.reduce((sum, cmd) => sum + estimateCommandBytes(cmd), 0);
+  while (commands.length > 1 && total > limitBytes) {
+    total -= estimateCommandBytes(commands.shift()!);
+  }
+
+  return { commands, position: commands.length };
+};
+
+/**
+ * The steps around the current position that are written to disk
+ */
+export const toPersistedCanvasHistory = (
+  state: CanvasHistoryState,
+  limit: number = CANVAS_HISTORY_PERSIST_LIMIT
+): CanvasHistoryState => {
+  const start = Math.max(0, state.position - limit);
+  return {
+    commands: state.commands.slice(start, start + limit),
+    position: state.position - start
+  };
+};
@@ -0,0 +1,295 @@
+/**
+ * Canvas layout
+ *
+ * Snapping while dragging (to the grid and to the edges/centres of other
+ * entities), align/distribute for a multi-selection, and auto-arrange.
+ *
+ * Layout works on units rather than single entities: a group moves as one,
+ * and a frame always takes the entities it owns along. Locked entities are
+ * never moved. All helpers return a new array and leave the input untouched.
+ */
+
+import { CanvasImage, MixboardGeneration } from '../types';
+import { expandToGroups } from './canvasLayers';
+import { withFrameContents } from './canvasFrames';
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type ArrangeMode = 'grid' | 'masonry' | 'lineage';
+
+export interface SnapOptions {
+  snapToGrid: boolean;
+  snapToObjects: boolean;
+  gridSize: number;
+  threshold: number;       // Canvas units
+}
+
+// Canvas lines the dragged bounds snapped to (drawn as guides)
+export interface SnapGuides {
+  vertical: number[];
+  horizontal: number[];
+}
+
+export const DEFAULT_GRID_SIZE = 20;
+export const DEFAULT_SNAP_THRESHOLD_PX = 8;
+export const ARRANGE_GAP = 40;
+
+interface LayoutUnit {
+  ids: Set<string>;        // Entities moved together (group members and frame contents)
+  bounds: Bounds;
+}
+
+export const getBounds = (images: Array<Pick<CanvasImage, 'x' | 'y' | 'width' | 'height'>>): Bounds => {
+  const minX = Math.min(...images.map(img => img.x));
+  const minY = Math.min(...images.map(img => img.y));
+  const maxX = Math.max(...images.map(img => img.x + img.width));
+  const maxY = Math.max(...images.map(img => img.y + img.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// Left/centre/right (or top/middle/bottom) lines of a box
+const linesOf = (bounds: Bounds, axis: 'x' | 'y'): number[] => {
+  const start = axis === 'x' ? bounds.x : bounds.y;
+  const size = axis === 'x' ? bounds.width : bounds.height;
+  return [start, start + size / 2, start + size];
+};
+
+const snapAxis = (
+  bounds: Bounds,
+  others: Bounds[],
+  axis: 'x' | 'y',
+  options: SnapOptions
+): { delta: number; guides: number[] } => {
+  const own = linesOf(bounds, axis);
+  let best: { delta: number; guides: number[] } | null = null;
+
+  if (options.snapToObjects) {
+    for (const other of others) {
+      for (const target of linesOf(other, axis)) {
+        for (const line of own) {
+          const delta = target - line;
+          if (Math.abs(delta) > options.threshold) continue;
+          if (!best || Math.abs(delta) < Math.abs(best.delta)) {
+            best = { delta, guides: [target] };
+          } else if (delta === best.delta && !best.guides.includes(target)) {
+            best.guides.push(target);
+          }
+        }
+      }
+    }
+  }
+  if (best) return best;
+
+  // Grid snapping moves the top-left corner onto the grid (no guide line)
+  if (options.snapToGrid && options.gridSize > 0) {
+    const start = axis === 'x' ? bounds.x : bounds.y;
+    const delta = Math.round(start / options.gridSize) * options.gridSize - start;
+    if (Math.abs(delta) <= options.threshold) return { delta, guides: [] };
+  }
+  return { delta: 0, guides: [] };
+};
+
+/**
+ * Offset that snaps `bounds` to the grid or to the nearest edge/centre of `others`.
+ * Entity snapping wins over the grid when both are in range.
+ */
+export const snapBounds = (
+  bounds: Bounds,
+  others: Bounds[],
+  options: SnapOptions
+): { dx: number; dy: number; guides: SnapGuides } => {
+  const x = snapAxis(bounds, others, 'x', options);
+  const y = snapAxis(bounds, others, 'y', options);
+  return { dx: x.delta, dy: y.delta, guides: { vertical: x.guides, horizontal: y.guides } };
+};
+
+/**
+ * Units for the given entities: groups and frames (with their contents) are one unit,
+ * entities inside a frame that is itself laid out are left to follow it
+ */
+const getLayoutUnits = (images: CanvasImage[], ids: Iterable<string>): LayoutUnit[] => {
+  const selected = expandToGroups(images, ids);
+  const movable = images.filter(img => selected.has(img.id) && !img.locked && !img.hidden);
+  const movableIds = new Set(movable.map(img => img.id));
+
+  const units = new Map<string, CanvasImage[]>();
+  movable.forEach(img => {
+    if (img.frameId && movableIds.has(img.frameId)) return;
+    const key = img.groupId || img.id;
+    units.set(key, [...(units.get(key) || []), img]);
+  });
+
+  return [...units.values()].map(members => ({
+    ids: withFrameContents(images, members.map(img => img.id)),
+    bounds: getBounds(members)
+  }));
+};
+
+const moveUnits = (images: CanvasImage[], units: LayoutUnit[], targets: Array<{ x: number; y: number }>): CanvasImage[] => {
+  const offsets = new Map<string, { dx: number; dy: number }>();
+  units.forEach((unit, index) => {
+    const dx = targets[index].x - unit.bounds.x;
+    const dy = targets[index].y - unit.bounds.y;
+    if (dx === 0 && dy === 0) return;
+    unit.ids.forEach(id => offsets.set(id, { dx, dy }));
+  });
+  if (offsets.size === 0) return images;
+
+  return images.map(img => {
+    const offset = offsets.get(img.id);
+    return offset ? { ...img, x: img.x + offset.dx, y: img.y + offset.dy } : img;
+  });
+};
+
+const selectedIds = (images: CanvasImage[]): string[] => images.filter(img => img.selected).map(img => img.id);
+
+/**
+ * Align the selected units to the edge or centre of the selection's bounds
+ */
+export const alignSelected = (images: CanvasImage[], mode: AlignMode): CanvasImage[] => {
+  const units = getLayoutUnits(images, selectedIds(images));
+  if (units.length < 2) return images;
+
+  const area = getBounds(units.map(unit => unit.bounds));
+  return moveUnits(images, units, units.map(({ bounds }) => {
+    switch (mode) {
+      case 'left': return { x: area.x, y: bounds.y };
+      case 'center': return { x: area.x + (area.width - bounds.width) / 2, y: bounds.y };
+      case 'right': return { x: area.x + area.width - bounds.width, y: bounds.y };
+      case 'top': return { x: bounds.x, y: area.y };
+      case 'middle': return { x: bounds.x, y: area.y + (area.height - bounds.height) / 2 };
+      case 'bottom': return { x: bounds.x, y: area.y + area.height - bounds.height };
+    }
+  }));
+};
+
+/**
+ * Space the selected units evenly between the outermost two (equal gaps)
+ */
+export const distributeSelected = (images: CanvasImage[], axis: DistributeAxis): CanvasImage[] => {
+  const units = getLayoutUnits(images, selectedIds(images));
+  if (units.length < 3) return images;
+
+  const horizontal = axis === 'horizontal';
+  const start = (b: Bounds) => (horizontal ? b.x : b.y);
+  const size = (b: Bounds) => (horizontal ? b.width : b.height);
+
+  const order = units.map((_, index) => index).sort((a, b) => start(units[a].bounds) - start(units[b].bounds));
+  const first = units[order[0]].bounds;
+  const last = units[order[order.length - 1]].bounds;
+  const occupied = units.reduce((sum, unit) => sum + size(unit.bounds), 0);
+  const gap = (start(last) + size(last) - start(first) - occupied) / (units.length - 1);
+
+  const targets = units.map(unit => ({ x: unit.bounds.x, y: unit.bounds.y }));
+  let cursor = start(first);
+  order.forEach(index => {
+    if (horizontal) targets[index].x = cursor;
+    else targets[index].y = cursor;
+    cursor += size(units[index].bounds) + gap;
+  });
+  return moveUnits(images, units, targets);
+};
+
+/**
+ * Lineage depth of each generation: 0 for generations without canvas parents
+ */
+const generationDepths = (generations: MixboardGeneration[]): Map<string, number> => {
+  const byId = new Map(generations.map(gen => [gen.generation_id, gen]));
+  const depths = new Map<string, number>();
+
+  const depthOf = (id: string, visiting: Set<string>): number => {
+    if (depths.has(id)) return depths.get(id)!;
+    const gen = byId.get(id);
+    if (!gen || visiting.has(id)) return 0;
+    visiting.add(id);
+    const parents = (gen.parent_generation_ids || []).filter(parentId => byId.has(parentId));
+    const depth = parents.length ? Math.max(...parents.map(parentId => depthOf(parentId, visiting) + 1)) : 0;
+    depths.set(id, depth);
+    return depth;
+  };
+
+  generations.forEach(gen => depthOf(gen.generation_id, new Set()));
+  return depths;
+};
+
+/**
+ * Tidy the selected units (or every loose unit on the canvas when fewer than two
+ * are selected), starting at the top-left corner of their current bounds:
+ * - grid: uniform cells in reading order
+ * - masonry: fixed-width columns, each unit dropped into the shortest column
+ * - lineage: one column per generation depth (uploads first), parents left of children
+ */
+export const arrangeEntities = (
+  images: CanvasImage[],
+  mode: ArrangeMode,
+  generations: MixboardGeneration[] = []
+): CanvasImage[] => {
+  const selection = selectedIds(images);
+  const units = getLayoutUnits(
+    images,
+    selection.length >= 2 ? selection : images.filter(img => !img.frameId).map(img => img.id)
+  );
+  if (units.length < 2) return images;
+
+  const origin = getBounds(units.map(unit => unit.bounds));
+  const columns = Math.ceil(Math.sqrt(units.length));
+  const targets = units.map(() => ({ x: origin.x, y: origin.y }));
+
+  // Reading order of the current layout
+  const order = units
+    .map((_, index) => index)
+    .sort((a, b) => units[a].bounds.y - units[b].bounds.y || units[a].bounds.x - units[b].bounds.x);
+
+  if (mode === 'grid') {
+    const cellWidth = Math.max(...units.map(unit => unit.bounds.width)) + ARRANGE_GAP;
+    const cellHeight = Math.max(...units.map(unit => unit.bounds.height)) + ARRANGE_GAP;
+    order.forEach((index, position) => {
+      targets[index] = {
+        x: origin.x + (position % columns) * cellWidth,
+        y: origin.y + Math.floor(position / columns) * cellHeight
+      };
+    });
+  } else if (mode === 'masonry') {
+    const columnWidth = Math.max(...units.map(unit => unit.bounds.width)) + ARRANGE_GAP;
+    const heights: number[] = new Array(columns).fill(0);
+    order.forEach(index => {
+      const column = heights.indexOf(Math.min(...heights));
+      targets[index] = { x: origin.x + column * columnWidth, y: origin.y + heights[column] };
+      heights[column] += units[index].bounds.height + ARRANGE_GAP;
+    });
+  } else {
+    const depths = generationDepths(generations);
+    const timestamps = new Map(generations.map(gen => [gen.generation_id, new Date(gen.timestamp).getTime()]));
+
+    // A unit sits at the deepest generation among its entities (-1 = not generated)
+    const unitDepth = units.map(unit => Math.max(-1, ...images
+      .filter(img => unit.ids.has(img.id) && img.generationId)
+      .map(img => depths.get(img.generationId!) ?? 0)));
+    const unitTime = units.map(unit => Math.min(Infinity, ...images
+      .filter(img => unit.ids.has(img.id) && img.generationId)
+      .map(img => timestamps.get(img.generationId!) ?? Infinity)));
+
+    const levels = [...new Set(unitDepth)].sort((a, b) => a - b);
+    let x = origin.x;
+    levels.forEach(level => {
+      const members = order
+        .filter(index => unitDepth[index] === level)
+        .sort((a, b) => (unitTime[a] - unitTime[b]) || 0);
+      let y = origin.y;
+      members.forEach(index => {
+        targets[index] = { x, y };
+        y += units[index].bounds.height + ARRANGE_GAP;
+      });
+      x += Math.max(...members.map(index => units[index].bounds.width)) + ARRANGE_GAP;
+    });
+  }
+
+  return moveUnits(images, units, targets);
+};
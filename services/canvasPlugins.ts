@@ -1,19 +1,354 @@
+/**
+ * Canvas plugins
+ *
+ * Contract between the Mixboard canvas (CanvasEngine) and plugins. A plugin can:
+ * - activate/deactivate with the canvas (lifecycle)
+ * - draw into the overlay layer above the canvas entities (screen space)
+ * - observe pointer and keyboard input, and adjust drags (e.g. snapping)
+ * - contribute context menu items and toolbar buttons
+ * - read the canvas and selection, and change it through the command API
+ *
+ * Grid overlay and snap guides are first-party plugins on this contract.
+ * In the desktop app, further plugins are loaded from the `plugins` folder in
+ * the user's data directory: each `.js` file assigns a plugin object, or a
+ * factory `(api) => plugin`, to `module.exports`. Overlays are built with the
+ * `React` passed to the file (no JSX).
+ */
+
+import React from 'react';
+import type { ComponentType, ReactNode } from 'react';
+import { CanvasImage } from '../types';
+import type { ZOrderAction } from './canvasLayers';
+import {
+  AlignMode,
+  DistributeAxis,
+  ArrangeMode,
+  Bounds,
+  SnapGuides,
+  DEFAULT_GRID_SIZE,
+  DEFAULT_SNAP_THRESHOLD_PX,
+  snapBounds
+} from './canvasLayout';
+
+export const CANVAS_PLUGIN_API_VERSION = 1;
+
+export interface CanvasViewportState {
+  zoom: number;
+  panOffset: { x: number; y: number };
+  width: number;           // Canvas element size in screen px
+  height: number;
+}
+
+/**
+ * Canvas changes available to plugins. Every change goes through the canvas
+ * state, so it is undoable like any user edit.
+ */
+export interface CanvasCommandApi {
+  updateImages: (updater: (images: CanvasImage[]) => CanvasImage[]) => void;
+  select: (ids: string[], mode?: 'replace' | 'additive' | 'toggle') => void;
+  deleteSelected: () => void;
+  group: () => void;
+  ungroup: () => void;
+  reorder: (action: ZOrderAction) => void;
+  align: (mode: AlignMode) => void;
+  distribute: (axis: DistributeAxis) => void;
+  arrange: (mode: ArrangeMode) => void;
+  setZoom: (zoom: number) => void;                      // Around the centre of the canvas
+  setPanOffset: (offset: { x: number; y: number }) => void;
+  zoomBy: (factor: number, anchor?: { x: number; y: number }) => void;  // Anchor in canvas-element px
+  zoomToFit: (target: 'all' | 'selection') => void;
+  zoomToActualSize: () => void;
+  nudge: (dx: number, dy: number) => void;              // Move the selection by canvas units
+}
+
+export interface CanvasPluginContext {
+  getImages: () => CanvasImage[];
+  getSelection: () => CanvasImage[];
+  getViewport: () => CanvasViewportState;
+  toScreen: (point: { x: number; y: number }) => { x: number; y: number };
+  commands: CanvasCommandApi;
+  requestRender: () => void;   // Re-render overlays and toolbar after plugin state changed
+}
+
+export interface CanvasPointerEvent {
+  canvasX: number;
+  canvasY: number;
+  button: number;
+  altKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  target?: CanvasImage;      // Entity under the pointer, if any
+}
+
+export interface CanvasDragEvent {
+  moving: CanvasImage[];     // Entities being dragged, at their drag-start positions
+  bounds: Bounds;            // Their bounds after applying (dx, dy)
+  dx: number;                // Offset from the drag start in canvas units
+  dy: number;
+  altKey: boolean;           // Alt disables snapping by convention
+}
+
+export interface CanvasContextMenuTarget {
+  canvasX: number;
+  canvasY: number;
+  image?: CanvasImage;
+}
+
+export interface CanvasPluginMenuItem {
+  id: string;
+  label: string;
+  disabled?: boolean;
+  onSelect: () => void;
+}
+
+export interface CanvasPluginToolbarButton {
+  id: string;
+  title: string;
+  icon?: ComponentType<{ size?: number | string; className?: string }>;
+  label?: string;            // Shown when there is no icon
+  active?: boolean;
+  onClick: () => void;
+}
+
+export interface CanvasPlugin {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  source?: 'builtin' | 'local';
+
+  activate?: (context: CanvasPluginContext) => void;
+  deactivate?: () => void;
+
+  renderOverlay?: (context: CanvasPluginContext) => ReactNode;
+
+  // Return true from a pointer-down/key-down hook to stop the canvas default
+  onPointerDown?: (event: CanvasPointerEvent, context: CanvasPluginContext) => boolean | void;
+  onPointerMove?: (event: CanvasPointerEvent, context: CanvasPluginContext) => void;
+  onPointerUp?: (event: CanvasPointerEvent, context: CanvasPluginContext) => void;
+  onKeyDown?: (event: KeyboardEvent, context: CanvasPluginContext) => boolean | void;
+
+  // Adjust a drag offset; plugins run in registration order, each sees the previous result
+  onDrag?: (event: CanvasDragEvent, context: CanvasPluginContext) => { dx: number; dy: number } | void;
+  onDragEnd?: (context: CanvasPluginContext) => void;
+
+  contextMenuItems?: (target: CanvasContextMenuTarget, context: CanvasPluginContext) => CanvasPluginMenuItem[];
+  toolbarButtons?: (context: CanvasPluginContext) => CanvasPluginToolbarButton[];
+}
+
 export interface CanvasPluginHost {
-  registerPlugin: (name: string, plugin: unknown) => void;
-  plugins?: Record<string, unknown>;
+  registerPlugin: (plugin: CanvasPlugin) => void;
+  plugins: Record<string, CanvasPlugin>;
 }
 
-export const loadOptionalCanvasPlugins = async (host: CanvasPluginHost) => {
-  const tools = [
-    {
-      name: 'grid-overlay',
-      plugin: { type: 'overlay', description: 'Lightweight grid overlay for alignment' }
+export interface LoadedPluginError {
+  file: string;
+  error: string;
+}
+
+/**
+ * Grid overlay: draws the grid and snaps dragged entities to it while enabled
+ */
+export const createGridOverlayPlugin = (
+  icon?: CanvasPluginToolbarButton['icon'],
+  gridSize: number = DEFAULT_GRID_SIZE
+): CanvasPlugin => {
+  let enabled = false;
+
+  return {
+    id: 'grid-overlay',
+    name: 'Grid',
+    description: 'Grid overlay; dragged items snap to the grid while it is shown',
+    source: 'builtin',
+
+    renderOverlay: (context) => {
+      if (!enabled) return null;
+      const { zoom, panOffset } = context.getViewport();
+      const size = gridSize * zoom;
+      return React.createElement('div', {
+        className: 'absolute inset-0 pointer-events-none',
+        style: {
+          backgroundImage:
+            'linear-gradient(to right, rgba(249, 115, 22, 0.15) 1px, transparent 1px), ' +
+            'linear-gradient(to bottom, rgba(249, 115, 22, 0.15) 1px, transparent 1px)',
+          backgroundSize: `${size}px ${size}px`,
+          backgroundPosition: `${panOffset.x}px ${panOffset.y}px`
+        }
+      });
+    },
+
+    onDrag: (event) => {
+      if (!enabled || event.altKey) return;
+      const snap = snapBounds(event.bounds, [], {
+        snapToGrid: true,
+        snapToObjects: false,
+        gridSize,
+        threshold: gridSize / 2
+      });
+      return { dx: event.dx + snap.dx, dy: event.dy + snap.dy };
+    },
+
+    toolbarButtons: (context) => [{
+      id: 'toggle-grid',
+      title: `Snap to Grid: ${enabled ? 'On' : 'Off'}`,
+      icon,
+      label: '#',
+      active: enabled,
+      onClick: () => {
+        enabled = !enabled;
+        context.requestRender();
+      }
+    }]
+  };
+};
+
+/**
+ * Snap guides: snaps dragged entities to the edges and centres of the others
+ * and draws the lines it snapped to
+ */
+export const createSnapGuidesPlugin = (
+  icon?: CanvasPluginToolbarButton['icon'],
+  thresholdPx: number = DEFAULT_SNAP_THRESHOLD_PX
+): CanvasPlugin => {
+  let enabled = true;
+  let guides: SnapGuides | null = null;
+
+  const setGuides = (next: SnapGuides | null, context: CanvasPluginContext) => {
+    const hadGuides = !!guides && (guides.vertical.length > 0 || guides.horizontal.length > 0);
+    const hasGuides = !!next && (next.vertical.length > 0 || next.horizontal.length > 0);
+    guides = next;
+    if (hadGuides || hasGuides) context.requestRender();
+  };
+
+  return {
+    id: 'snap-guides',
+    name: 'Snap Guides',
+    description: 'Snap helpers to align layers',
+    source: 'builtin',
+
+    renderOverlay: (context) => {
+      if (!guides) return null;
+      const { zoom, panOffset } = context.getViewport();
+      return React.createElement(
+        React.Fragment,
+        null,
+        ...guides.vertical.map(x => React.createElement('div', {
+          key: `v-${x}`,
+          className: 'absolute top-0 bottom-0 w-px bg-pink-500 pointer-events-none',
+          style: { left: `${x * zoom + panOffset.x}px` }
+        })),
+        ...guides.horizontal.map(y => React.createElement('div', {
+          key: `h-${y}`,
+          className: 'absolute left-0 right-0 h-px bg-pink-500 pointer-events-none',
+          style: { top: `${y * zoom + panOffset.y}px` }
+        }))
+      );
+    },
+
+    onDrag: (event, context) => {
+      if (!enabled || event.altKey) {
+        setGuides(null, context);
+        return;
+      }
+      const movingIds = new Set(event.moving.map(img => img.id));
+      const snap = snapBounds(
+        event.bounds,
+        context.getImages().filter(img => !movingIds.has(img.id) && !img.hidden),
+        {
+          snapToGrid: false,
+          snapToObjects: true,
+          gridSize: 0,
+          threshold: thresholdPx / context.getViewport().zoom
+        }
+      );
+      setGuides(snap.guides, context);
+      return { dx: event.dx + snap.dx, dy: event.dy + snap.dy };
     },
-    {
-      name: 'snap-guides',
-      plugin: { type: 'guide', description: 'Snap helpers to align layers' }
-    }
+
+    onDragEnd: (context) => setGuides(null, context),
+
+    toolbarButtons: (context) => [{
+      id: 'toggle-snap',
+      title: `Snap to Items: ${enabled ? 'On' : 'Off'} (hold Alt while dragging to ignore)`,
+      icon,
+      label: 'S',
+      active: enabled,
+      onClick: () => {
+        enabled = !enabled;
+        context.requestRender();
+      }
+    }]
+  };
+};
+
+const isCanvasPlugin = (value: unknown): value is CanvasPlugin => {
+  return typeof value === 'object' && value !== null &&
+    'id' in value && typeof value.id === 'string' &&
+    'name' in value && typeof value.name === 'string';
+};
+
+/**
+ * Evaluate a plugin file from the local plugins folder
+ */
+const evaluatePluginSource = (code: string): CanvasPlugin => {
+  const module: { exports: unknown } = { exports: {} };
+  new Function('module', 'exports', 'React', code)(module, module.exports, React);
+
+  const exported = typeof module.exports === 'object' && module.exports !== null && 'default' in module.exports
+    ? module.exports.default
+    : module.exports;
+  const plugin: unknown = typeof exported === 'function'
+    ? exported({ React, apiVersion: CANVAS_PLUGIN_API_VERSION })
+    : exported;
+
+  if (!isCanvasPlugin(plugin)) {
+    throw new Error('File does not export a canvas plugin (an object with `id` and `name`)');
+  }
+  return { ...plugin, source: 'local' };
+};
+
+/**
+ * Load plugins from the `plugins` folder of the desktop app's data directory.
+ * A broken plugin is skipped and reported; it never blocks the others.
+ */
+export const loadLocalCanvasPlugins = async (host: CanvasPluginHost): Promise<LoadedPluginError[]> => {
+  // @ts-ignore
+  if (typeof window === 'undefined' || !window.electron?.listCanvasPlugins) return [];
+
+  const errors: LoadedPluginError[] = [];
+  try {
+    // @ts-ignore
+    const files: Array<{ file: string; code: string }> = await window.electron.listCanvasPlugins();
+    files.forEach(({ file, code }) => {
+      try {
+        const plugin = evaluatePluginSource(code);
+        if (host.plugins[plugin.id]) {
+          throw new Error(`A plugin with id "${plugin.id}" is already registered`);
+        }
+        host.registerPlugin(plugin);
+        console.log(`[CanvasPlugins] Loaded ${plugin.id} from ${file}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[CanvasPlugins] Skipping ${file}:`, message);
+        errors.push({ file, error: message });
+      }
+    });
+  } catch (error) {
+    console.warn('[CanvasPlugins] Failed to list local plugins', error);
+  }
+  return errors;
+};
+
+export const loadOptionalCanvasPlugins = async (
+  host: CanvasPluginHost,
+  icons: { grid?: CanvasPluginToolbarButton['icon']; snap?: CanvasPluginToolbarButton['icon'] } = {}
+) => {
+  const tools = [
+    createGridOverlayPlugin(icons.grid),
+    createSnapGuidesPlugin(icons.snap)
   ];
 
-  tools.forEach(tool => host.registerPlugin(tool.name, tool.plugin));
+  tools.forEach(tool => host.registerPlugin(tool));
+  return loadLocalCanvasPlugins(host);
 };
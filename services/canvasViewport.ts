@@ -0,0 +1,150 @@
+/**
+ * Canvas viewport
+ *
+ * Zoom and pan math: zooming anchored at a screen point (pointer, pinch or
+ * canvas centre) and fitting a region into view.
+ *
+ * Keeps large boards responsive: entities outside the visible area (plus a
+ * margin) are not rendered, images are drawn from their thumbnail until they
+ * are shown larger than it, and the minimap maps the whole board into a
+ * small overview.
+ */
+
+import { CanvasImage, CanvasViewport } from '../types';
+import { Bounds, getBounds } from './canvasLayout';
+import type { CanvasViewportState } from './canvasPlugins';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 3;
+
+// Zoom factor per zoom-in/out step (buttons and keys)
+export const ZOOM_STEP = 1.2;
+
+// Screen px left around the content by "fit all" / "fit selection"
+export const FIT_PADDING_PX = 64;
+
+// Screen px rendered beyond each edge so panning does not reveal empty space
+export const VIEWPORT_CULL_MARGIN_PX = 300;
+
+// Longest side of stored thumbnails (see generateThumbnail calls)
+export const THUMBNAIL_MAX_SIZE = 384;
+
+// Full-resolution images kept decoded for the canvas at once
+export const FULL_RESOLUTION_CACHE_LIMIT = 24;
+
+export interface MinimapTransform {
+  world: Bounds;           // Canvas area shown by the minimap
+  scale: number;           // Minimap px per canvas unit
+  offsetX: number;         // Minimap px of world.x (centres the world)
+  offsetY: number;
+}
+
+export const clampZoom = (zoom: number): number => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/**
+ * Zoom to `nextZoom` keeping the canvas point under `anchor` (screen px relative
+ * to the canvas element) in place
+ */
+export const zoomAtPoint = (
+  viewport: CanvasViewport,
+  nextZoom: number,
+  anchor: { x: number; y: number }
+): CanvasViewport => {
+  const zoom = clampZoom(nextZoom);
+  const canvasX = (anchor.x - viewport.panOffset.x) / viewport.zoom;
+  const canvasY = (anchor.y - viewport.panOffset.y) / viewport.zoom;
+  return {
+    zoom,
+    panOffset: { x: anchor.x - canvasX * zoom, y: anchor.y - canvasY * zoom }
+  };
+};
+
+/**
+ * Zoom factor for a wheel event. Trackpad pinches arrive as wheel events with
+ * ctrlKey set and small deltas, so they are scaled more strongly than wheel notches.
+ */
+export const wheelZoomFactor = (event: Pick<WheelEvent, 'deltaY' | 'deltaMode' | 'ctrlKey'>): number => {
+  // deltaMode 1 = lines, 2 = pages; normalise to px
+  const deltaPx = event.deltaY * (event.deltaMode === 1 ? 16 : event.deltaMode === 2 ? 400 : 1);
+  const sensitivity = event.ctrlKey ? 0.01 : 0.0015;
+  return Math.exp(-Math.max(-100, Math.min(100, deltaPx)) * sensitivity);
+};
+
+/**
+ * Zoom and pan that fit `bounds` into a viewport of the given size, centred
+ */
+export const fitBoundsToViewport = (
+  bounds: Bounds,
+  size: { width: number; height: number },
+  paddingPx: number = FIT_PADDING_PX
+): CanvasViewport => {
+  const zoom = clampZoom(Math.min(
+    (size.width - paddingPx * 2) / Math.max(bounds.width, 1),
+    (size.height - paddingPx * 2) / Math.max(bounds.height, 1)
+  ));
+  return {
+    zoom,
+    panOffset: {
+      x: size.width / 2 - (bounds.x + bounds.width / 2) * zoom,
+      y: size.height / 2 - (bounds.y + bounds.height / 2) * zoom
+    }
+  };
+};
+
+/**
+ * Visible canvas area in canvas units, grown by `marginPx` screen px on every side
+ */
+export const getVisibleCanvasRect = (viewport: CanvasViewportState, marginPx: number = 0): Bounds => {
+  const { zoom, panOffset, width, height } = viewport;
+  return {
+    x: (-panOffset.x - marginPx) / zoom,
+    y: (-panOffset.y - marginPx) / zoom,
+    width: (width + marginPx * 2) / zoom,
+    height: (height + marginPx * 2) / zoom
+  };
+};
+
+export const intersectsBounds = (a: Bounds, b: Bounds): boolean => {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+};
+
+/**
+ * Whether an image is shown large enough on screen that its thumbnail would look soft
+ */
+export const needsFullResolution = (image: CanvasImage, zoom: number, pixelRatio: number = 1): boolean => {
+  if (!image.thumbnailUri) return true;
+  return Math.max(image.width, image.height) * zoom * pixelRatio > THUMBNAIL_MAX_SIZE;
+};
+
+/**
+ * Fit the board and the current viewport into a minimap of the given size
+ */
+export const getMinimapTransform = (
+  images: CanvasImage[],
+  visible: Bounds,
+  size: { width: number; height: number },
+  padding: number = 8
+): MinimapTransform => {
+  const world = getBounds([...images, visible]);
+  const scale = Math.min(
+    (size.width - padding * 2) / Math.max(world.width, 1),
+    (size.height - padding * 2) / Math.max(world.height, 1)
+  );
+  return {
+    world,
+    scale,
+    offsetX: (size.width - world.width * scale) / 2,
+    offsetY: (size.height - world.height * scale) / 2
+  };
+};
+
+/**
+ * Pan offset that centres the viewport on a canvas point
+ */
+export const centerViewportOn = (
+  point: { x: number; y: number },
+  viewport: CanvasViewportState
+): { x: number; y: number } => ({
+  x: viewport.width / 2 - point.x * viewport.zoom,
+  y: viewport.height / 2 - point.y * viewport.zoom
+});
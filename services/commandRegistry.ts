@@ -0,0 +1,180 @@
+/**
+ * Command registry
+ *
+ * Every keyboard-triggerable action of the app is a command with a stable id.
+ * Commands carry their default key chords; the user's keymap (stored through
+ * PreferencesService) overrides them per command. The same list feeds the
+ * keyboard handler, the shortcut editor in Settings, and the Ctrl+K palette.
+ *
+ * Chords are written as `Mod+Shift+K`: modifiers in the order Mod, Alt, Shift,
+ * followed by one key. `Mod` is Ctrl, or Cmd on macOS.
+ */
+
+import type { UserKeymap } from './preferencesService';
+
+export type CommandCategory = 'canvas' | 'generation' | 'tagging' | 'session' | 'view';
+
+export interface AppCommand {
+  id: string;                  // e.g. 'canvas.group'
+  title: string;
+  category: CommandCategory;
+  defaultKeys?: string[];
+  allowWhileTyping?: boolean;  // Also fires while an input or text entity has focus
+  isEnabled?: () => boolean;
+  run: () => void;
+}
+
+export interface KeymapConflict {
+  chord: string;
+  commandIds: string[];
+}
+
+export const COMMAND_CATEGORY_LABELS: Record<CommandCategory, string> = {
+  canvas: 'Canvas',
+  generation: 'Generation',
+  tagging: 'Tagging',
+  session: 'Session',
+  view: 'View'
+};
+
+const MODIFIERS = ['Mod', 'Alt', 'Shift'];
+const MODIFIER_ALIASES: Record<string, string> = {
+  mod: 'Mod', ctrl: 'Mod', control: 'Mod', cmd: 'Mod', command: 'Mod', meta: 'Mod',
+  alt: 'Alt', option: 'Alt', opt: 'Alt',
+  shift: 'Shift'
+};
+const KEY_ALIASES: Record<string, string> = {
+  del: 'Delete', esc: 'Escape', return: 'Enter', space: 'Space', spacebar: 'Space',
+  up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight',
+  plus: '+', minus: '-'
+};
+
+// Physical keys whose character changes with Shift are named by their unshifted character
+const CODE_KEYS: Record<string, string> = {
+  Equal: '=', Minus: '-', BracketLeft: '[', BracketRight: ']', Backslash: '\\',
+  Semicolon: ';', Quote: "'", Comma: ',', Period: '.', Slash: '/', Backquote: '`',
+  NumpadAdd: '+', NumpadSubtract: '-', Space: 'Space'
+};
+
+export const isMacPlatform = (): boolean => {
+  return typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+};
+
+/**
+ * Canonical chord for a key event, or null for a lone modifier key
+ */
+export const eventToChord = (event: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (['Control', 'Meta', 'Alt', 'Shift'].includes(event.key)) return null;
+
+  let key: string;
+  if (/^Key[A-Z]$/.test(event.code)) key = event.code.slice(3);
+  else if (/^(Digit|Numpad)[0-9]$/.test(event.code)) key = event.code.slice(-1);
+  else if (CODE_KEYS[event.code]) key = CODE_KEYS[event.code];
+  else key = event.key.length === 1 ? event.key.toUpperCase() : event.key;
+
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  return [...parts, key].join('+');
+};
+
+/**
+ * Canonical form of a typed or stored chord ("ctrl+shift+z" -> "Mod+Shift+Z"), or null if invalid
+ */
+export const normalizeChord = (chord: string): string | null => {
+  // A trailing "+" is the plus key itself ("Mod++")
+  const raw = chord.trim();
+  const tokens = raw.endsWith('++') ? [...raw.slice(0, -2).split('+'), '+'] : raw.split('+');
+  const parts = tokens.map(token => token.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const modifiers = new Set<string>();
+  for (const part of parts.slice(0, -1)) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  const last = parts[parts.length - 1];
+  if (MODIFIER_ALIASES[last.toLowerCase()]) return null;
+  const key = KEY_ALIASES[last.toLowerCase()] ?? (last.length === 1 ? last.toUpperCase() : last[0].toUpperCase() + last.slice(1));
+
+  return [...MODIFIERS.filter(modifier => modifiers.has(modifier)), key].join('+');
+};
+
+/**
+ * Chord for display: ⌘/⌥/⇧ on macOS, Ctrl/Alt/Shift elsewhere
+ */
+export const formatChord = (chord: string, mac: boolean = isMacPlatform()): string => {
+  const parts = chord.endsWith('++') ? [...chord.slice(0, -2).split('+'), '+'] : chord.split('+');
+  const labels: Record<string, string> = mac
+    ? { Mod: '⌘', Alt: '⌥', Shift: '⇧', ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→', Enter: '↩', Backspace: '⌫', Delete: '⌦' }
+    : { Mod: 'Ctrl', ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  return parts.map(part => labels[part] ?? part).join(mac ? '' : '+');
+};
+
+/**
+ * Effective chords per command: the user's override, or the command's defaults
+ */
+export const resolveKeymap = (commands: AppCommand[], userKeymap: UserKeymap): Record<string, string[]> => {
+  const bindings: Record<string, string[]> = {};
+  commands.forEach(command => {
+    const chords = userKeymap[command.id] ?? command.defaultKeys ?? [];
+    bindings[command.id] = chords.map(normalizeChord).filter((chord): chord is string => !!chord);
+  });
+  return bindings;
+};
+
+/**
+ * Chords bound to more than one command
+ */
+export const findKeymapConflicts = (bindings: Record<string, string[]>): KeymapConflict[] => {
+  const byChord = new Map<string, string[]>();
+  Object.entries(bindings).forEach(([commandId, chords]) => {
+    new Set(chords).forEach(chord => byChord.set(chord, [...(byChord.get(chord) || []), commandId]));
+  });
+  return [...byChord.entries()]
+    .filter(([, commandIds]) => commandIds.length > 1)
+    .map(([chord, commandIds]) => ({ chord, commandIds }));
+};
+
+/**
+ * Command bound to a chord. On a conflict the command listed first wins.
+ */
+export const findCommandForChord = (
+  commands: AppCommand[],
+  bindings: Record<string, string[]>,
+  chord: string
+): AppCommand | undefined => {
+  return commands.find(command => bindings[command.id]?.includes(chord));
+};
+
+/**
+ * Fuzzy match score of a query against a text (higher is better), or null when
+ * the query's characters do not all appear in order. Consecutive matches and
+ * matches at word starts score higher.
+ */
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let position = 0;
+  let previous = -2;
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s._\-/]/.test(haystack[index - 1])) score += 2;
+    previous = index;
+    position = index + 1;
+  }
+
+  // Prefer shorter texts and earlier matches
+  return score - haystack.length * 0.01 - haystack.indexOf(needle[0]) * 0.05;
+};
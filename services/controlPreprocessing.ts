@@ -0,0 +1,116 @@
+/**
+ * Control map preprocessing
+ *
+ * Decodes an image on the main thread (canvas), runs the preprocessor in a
+ * shared Web Worker and encodes the result as PNG. Where workers are not
+ * available the preprocessor runs inline instead.
+ */
+
+import { ControlPreprocessor } from '../types';
+import { runControlPreprocessor } from '../utils/controlPreprocessors';
+
+export interface ControlPreprocessorRequest {
+  id: number;
+  type: ControlPreprocessor;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface ControlPreprocessorResponse {
+  id: number;
+  data?: Uint8ClampedArray;
+  error?: string;
+}
+
+// Larger images are scaled down first; conditioning maps gain nothing from more detail
+export const MAX_PREPROCESS_SIDE = 2048;
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (data: Uint8ClampedArray) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  try {
+    worker = new Worker(new URL('../utils/controlPreprocessor.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ControlPreprocessorResponse>) => {
+      const { id, data, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (data) request.resolve(data);
+      else request.reject(new Error(error || 'Preprocessing failed'));
+    };
+    worker.onerror = (event) => {
+      console.error('[ControlPreprocessing] Worker failed', event.message);
+      pending.forEach(request => request.reject(new Error(event.message || 'Preprocessing worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+      workerFailed = true;
+    };
+  } catch (error) {
+    console.warn('[ControlPreprocessing] Web Worker unavailable, running on the main thread', error);
+    workerFailed = true;
+  }
+  return worker;
+};
+
+const runInWorker = (type: ControlPreprocessor, imageData: ImageData): Promise<Uint8ClampedArray> => {
+  const target = getWorker();
+  if (!target) return Promise.resolve(runControlPreprocessor(type, imageData.data, imageData.width, imageData.height));
+
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    const request: ControlPreprocessorRequest = { id, type, width: imageData.width, height: imageData.height, data: imageData.data };
+    target.postMessage(request, [imageData.data.buffer]);
+  });
+};
+
+const loadPixels = (dataUri: string): Promise<ImageData> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_PREPROCESS_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Could not get canvas 2D context'));
+        return;
+      }
+      // Transparent areas count as white, like on the canvas
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('Failed to load image for preprocessing'));
+    img.src = dataUri;
+  });
+};
+
+/**
+ * Compute a control map from an image
+ *
+ * @param dataUri - Source image data URI
+ * @param type - Preprocessor to run
+ * @returns PNG data URI of the map (source size, capped at MAX_PREPROCESS_SIDE)
+ */
+export async function createControlMap(dataUri: string, type: ControlPreprocessor): Promise<string> {
+  const source = await loadPixels(dataUri);
+  const { width, height } = source;
+  const pixels = await runInWorker(type, source);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas 2D context');
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels), width, height), 0, 0);
+  return canvas.toDataURL('image/png');
+}
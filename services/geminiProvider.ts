@@ -0,0 +1,334 @@
+import type { Part, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import type { ImageProvider, ProviderModel, ImageGenerationRequest, TextGenerationRequest } from "./imageProvider";
+import { AppConfig } from "./config";
+import { GenerationFixtures } from "./generationFixtures";
+import { detectImageMimeType } from "../utils/imageUtils";
+
+const GEMINI_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '3:4', '4:3'];
+
+const GEMINI_MODELS: ProviderModel[] = [
+  {
+    id: 'gemini-2.5-flash-image',
+    label: 'Flash (Free, Fast)',
+    description: 'Gemini 2.5 Flash Image (Free Tier / Fast)',
+    capabilities: {
+      aspectRatios: GEMINI_ASPECT_RATIOS,
+      temperature: true,
+      topP: true
+    }
+  },
+  {
+    id: 'gemini-3-pro-image-preview',
+    label: 'Pro (Paid, Higher Quality)',
+    description: 'Gemini 3.0 Pro Image (Paid Project / High Quality)',
+    paid: true,
+    capabilities: {
+      aspectRatios: GEMINI_ASPECT_RATIOS,
+      imageSizes: ['1K', '2K', '4K'],
+      temperature: true,
+      topP: true
+    }
+  }
+];
+
+// Text mode always uses a text model, regardless of the selected image model
+const TEXT_MODEL = 'gemini-2.0-flash-exp';
+
+// Helper to remove data URL prefix for API
+// Defensive implementation that handles edge cases
+const stripBase64Header = (dataUrl: string): string => {
+  // Handle null/undefined/empty
+  if (!dataUrl || typeof dataUrl !== 'string') {
+    throw new Error('Invalid image data: expected non-empty string');
+  }
+
+  // Trim whitespace
+  const trimmed = dataUrl.trim();
+
+  // Try multiple approaches to strip the data URI prefix
+  // 1. Standard format: data:image/png;base64,xxxxx (case-insensitive)
+  // 2. With charset: data:image/png;charset=utf-8;base64,xxxxx
+  // 3. Other variations
+
+  // More flexible regex - case insensitive, handles various MIME subtypes and optional params
+  const dataUriPattern = /^data:image\/[^;,]+(?:;[^;,]*)*;base64,/i;
+  let stripped = trimmed.replace(dataUriPattern, '');
+
+  // If first pattern didn't match, try simpler pattern
+  if (stripped === trimmed) {
+    // Try to find base64, marker and take everything after it
+    const base64Marker = ';base64,';
+    const markerIndex = trimmed.toLowerCase().indexOf(base64Marker);
+    if (markerIndex !== -1) {
+      stripped = trimmed.substring(markerIndex + base64Marker.length);
+    }
+  }
+
+  // If still no change, check if it might already be raw base64
+  if (stripped === trimmed) {
+    // Validate it looks like base64 (starts with valid base64 char)
+    if (!/^[A-Za-z0-9+/]/.test(trimmed)) {
+      console.error('[GeminiProvider] Invalid image data format. First 100 chars:', trimmed.substring(0, 100));
+      throw new Error('Invalid image data: not a valid data URL or base64 string');
+    }
+    // Already raw base64
+    return trimmed;
+  }
+
+  // Validate the stripped result isn't empty
+  if (!stripped || stripped.trim() === '') {
+    console.error('[GeminiProvider] Empty base64 after stripping. Original first 100 chars:', trimmed.substring(0, 100));
+    throw new Error('Invalid image data: base64 content is empty after stripping header');
+  }
+
+  return stripped;
+};
+
+const isElectron = () => {
+  // @ts-ignore
+  return window.electron !== undefined;
+};
+
+/**
+ * Resolve the API key for the current environment
+ */
+const getApiKey = async (model?: ProviderModel): Promise<string> => {
+  if (isElectron()) {
+    // In Electron, get from localStorage
+    const storedKey = localStorage.getItem('gemini_api_key');
+    if (!storedKey || !storedKey.trim()) {
+      throw new Error("API Key not configured. Please go to Settings to enter your Google AI API key.");
+    }
+    return storedKey.trim();
+  }
+
+  // In AI Studio environment, paid models need a selected key
+  if (model?.paid) {
+    // @ts-ignore
+    const hasKey = await window.aistudio?.hasSelectedApiKey();
+    if (!hasKey) {
+      throw new Error("API Key not selected. Please connect to Google AI Studio to use paid models.");
+    }
+  }
+
+  const apiKey = AppConfig.getSharedApiKey();
+  if (!apiKey) {
+    throw new Error("Shared API key not configured. Please add VITE_SHARED_API_KEY or metadata.sharedApiKey.");
+  }
+  return apiKey;
+};
+
+/**
+ * Call generateContent through the record/replay layer.
+ * The SDK is imported lazily (and not at all when replaying) so the registry stays light.
+ */
+const generateContent = async (
+  params: GenerateContentParameters,
+  userName?: string,
+  model?: ProviderModel
+): Promise<GenerateContentResponse> => {
+  return GenerationFixtures.run(
+    { model: params.model, contents: params.contents, config: params.config as Record<string, unknown> | undefined },
+    async () => {
+      // Create AI instance with the API key
+      const { GoogleGenAI } = await import("@google/genai");
+      const ai = new GoogleGenAI({ apiKey: await getApiKey(model) });
+
+      return ai.models.generateContent({
+        ...params,
+        // @ts-expect-error Request options are allowed at runtime for transport metadata
+        requestOptions: getRequestOptions(userName)
+      });
+    }
+  );
+};
+
+/**
+ * Convert input images to inline parts in order: edit image and mask (inpainting), control, reference, context
+ */
+const buildImageParts = (request: ImageGenerationRequest): Part[] => {
+  const parts: Part[] = [];
+  const groups: Array<[string, string[]]> = [
+    ['Edit', request.inpaint ? [request.inpaint.image] : []],
+    ['Mask', request.inpaint ? [request.inpaint.mask] : []],
+    ['Control', request.controlImages],
+    ['Reference', request.referenceImages],
+    ['Context', request.contextImages]
+  ];
+
+  groups.forEach(([label, images]) => {
+    images.forEach((image, idx) => {
+      try {
+        const base64Data = stripBase64Header(image);
+        parts.push({
+          inlineData: {
+            mimeType: detectImageMimeType(base64Data) || 'image/png',
+            data: base64Data
+          }
+        });
+      } catch (err) {
+        console.error(`[GeminiProvider] Invalid ${label.toLowerCase()} image at index ${idx}:`, err);
+        throw new Error(`${label} image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
+      }
+    });
+  });
+
+  return parts;
+};
+
+/**
+ * Build a structured preamble so the model knows how many and which images are controls vs references.
+ * We describe the order and role of each slice of parts with specific guidance for each type.
+ */
+const buildPreamble = (
+  request: ImageGenerationRequest,
+  guidance: { control: string; reference: string; context: string }
+): string | null => {
+  const groups: Array<[string, number, string]> = [
+    ['EDIT', request.inpaint ? 1 : 0, 'The image to edit. Reproduce it exactly outside the masked region.'],
+    ['MASK', request.inpaint ? 1 : 0, 'White marks the region to change according to the prompt; ' +
+      'black areas must stay identical to the edit image. Blend the change seamlessly into its surroundings.'],
+    ['CONTROL', request.controlImages.length, guidance.control],
+    ['REFERENCE', request.referenceImages.length, guidance.reference],
+    ['CONTEXT', request.contextImages.length, guidance.context]
+  ];
+
+  const preambleParts: string[] = [];
+  let partIndex = 1;
+
+  groups.forEach(([label, count, text]) => {
+    if (count === 0) return;
+    const end = partIndex + count - 1;
+    const range = count === 1 ? `part ${partIndex}` : `parts ${partIndex}-${end}`;
+    preambleParts.push(`${label} IMAGE${count === 1 ? '' : 'S'} (${range}): ${text}`);
+    partIndex = end + 1;
+  });
+
+  return preambleParts.length > 0 ? preambleParts.join('\n\n') : null;
+};
+
+const getRequestOptions = (userName?: string) => {
+  return userName
+    ? {
+        headers: {
+          'X-User-Name': userName
+        }
+      }
+    : undefined;
+};
+
+export const GeminiProvider: ImageProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: GEMINI_MODELS,
+  supportsText: true,
+
+  generateImage: async (request) => {
+    const { config } = request;
+    const model = GEMINI_MODELS.find(m => m.id === config.model) || GEMINI_MODELS[0];
+
+    const parts = buildImageParts(request);
+
+    const preamble = buildPreamble(request, {
+      control: 'Analyze these for structure, geometry, composition, layout, and spatial arrangement. ' +
+        'Use these as the structural foundation for the generated image.',
+      reference: 'Analyze these for style, materials, textures, colors, mood, lighting, and artistic qualities. ' +
+        'Apply these visual characteristics to the generated image.',
+      context: 'Use these as general visual context and inspiration for the generation.'
+    });
+    parts.push({ text: preamble ? `${preamble}\n\nUSER PROMPT: ${request.prompt}` : request.prompt });
+
+    // Construct image config
+    const imageConfig: any = {
+        aspectRatio: config.aspect_ratio,
+    };
+
+    // imageSize is only sent to models that declare configurable sizes
+    if (model.capabilities.imageSizes) {
+        imageConfig.imageSize = config.image_size;
+    }
+
+    const response = await generateContent({
+      model: model.id,
+      contents: { parts },
+      config: {
+        // Nano Banana / Imagen configs
+        imageConfig: imageConfig,
+        // Lets the generation queue cancel in-flight requests
+        abortSignal: request.signal
+        // safetySettings could be added here
+      }
+    }, request.userName, model);
+
+    // Extract image
+    // The response structure for image generation often contains the image in inlineData of the first candidate part
+    // Iterate to find image part
+    const images: string[] = [];
+    const texts: string[] = [];
+
+    // Gather all parts from all candidates to capture multiple images/text chunks
+    response.candidates?.forEach(candidate => {
+      candidate.content?.parts?.forEach(part => {
+        if (part.inlineData?.data) {
+          // Keep the returned type; fall back to sniffing the bytes if it is missing
+          const mimeType = part.inlineData.mimeType || detectImageMimeType(part.inlineData.data) || 'image/png';
+          images.push(`data:${mimeType};base64,${part.inlineData.data}`);
+        }
+        if (typeof part.text === 'string' && part.text.trim().length > 0) {
+          texts.push(part.text);
+        }
+      });
+    });
+
+    if (images.length === 0 && texts.length === 0) {
+      throw new Error("No output data found in response");
+    }
+
+    return { images, texts };
+  },
+
+  generateText: async (request: TextGenerationRequest) => {
+    const { config, maxWords } = request;
+
+    const parts = buildImageParts(request);
+
+    // Build descriptive preamble for each image type
+    const preamble = buildPreamble(request, {
+      control: 'Analyze these for structure, geometry, composition, layout, and spatial arrangement.',
+      reference: 'Analyze these for style, materials, textures, colors, mood, lighting, and artistic qualities.',
+      context: 'Use these as general visual context.'
+    });
+    const finalPrompt = preamble
+      ? `${preamble}\n\nUSER PROMPT: ${request.prompt}\n\n(Generate a concise response in ${maxWords} words or less)`
+      : `${request.prompt}\n\n(Generate a concise response in ${maxWords} words or less)`;
+
+    parts.push({ text: finalPrompt });
+
+    const response = await generateContent({
+      model: TEXT_MODEL,
+      contents: { parts },
+      config: {
+        maxOutputTokens: Math.ceil(maxWords * 1.5), // Approximate tokens from words
+        temperature: config.temperature || 0.7,
+        topP: config.top_p || 0.95,
+        abortSignal: request.signal
+      }
+    }, request.userName);
+
+    // Extract text from response
+    let text = '';
+    response.candidates?.forEach(candidate => {
+      candidate.content?.parts?.forEach(part => {
+        if (typeof part.text === 'string') {
+          text += part.text;
+        }
+      });
+    });
+
+    if (!text || text.trim().length === 0) {
+      throw new Error("No text generated");
+    }
+
+    return { text: text.trim() };
+  }
+};
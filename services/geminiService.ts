@@ -1,55 +1,10 @@
-import { GoogleGenAI, Part } from "@google/genai";
 import { GenerationConfig } from "../types";
 import { AppConfig } from "./config";
+import { ProviderRegistry } from "./imageProvider";
 
-// Helper to remove data URL prefix for API
-// Defensive implementation that handles edge cases
-const stripBase64Header = (dataUrl: string): string => {
-  // Handle null/undefined/empty
-  if (!dataUrl || typeof dataUrl !== 'string') {
-    throw new Error('Invalid image data: expected non-empty string');
-  }
-
-  // Trim whitespace
-  const trimmed = dataUrl.trim();
-
-  // Try multiple approaches to strip the data URI prefix
-  // 1. Standard format: data:image/png;base64,xxxxx (case-insensitive)
-  // 2. With charset: data:image/png;charset=utf-8;base64,xxxxx
-  // 3. Other variations
-
-  // More flexible regex - case insensitive, handles various MIME subtypes and optional params
-  const dataUriPattern = /^data:image\/[^;,]+(?:;[^;,]*)*;base64,/i;
-  let stripped = trimmed.replace(dataUriPattern, '');
-
-  // If first pattern didn't match, try simpler pattern
-  if (stripped === trimmed) {
-    // Try to find base64, marker and take everything after it
-    const base64Marker = ';base64,';
-    const markerIndex = trimmed.toLowerCase().indexOf(base64Marker);
-    if (markerIndex !== -1) {
-      stripped = trimmed.substring(markerIndex + base64Marker.length);
-    }
-  }
-
-  // If still no change, check if it might already be raw base64
-  if (stripped === trimmed) {
-    // Validate it looks like base64 (starts with valid base64 char)
-    if (!/^[A-Za-z0-9+/]/.test(trimmed)) {
-      console.error('[GeminiService] Invalid image data format. First 100 chars:', trimmed.substring(0, 100));
-      throw new Error('Invalid image data: not a valid data URL or base64 string');
-    }
-    // Already raw base64
-    return trimmed;
-  }
-
-  // Validate the stripped result isn't empty
-  if (!stripped || stripped.trim() === '') {
-    console.error('[GeminiService] Empty base64 after stripping. Original first 100 chars:', trimmed.substring(0, 100));
-    throw new Error('Invalid image data: base64 content is empty after stripping header');
-  }
-
-  return stripped;
+const toArray = (images?: string[] | string): string[] => {
+  if (!images) return [];
+  return Array.isArray(images) ? images : [images];
 };
 
 const isElectron = () => {
@@ -92,226 +47,62 @@ export const GeminiService = {
       }
   },
 
+  /**
+   * Generate images with the provider selected in config (Gemini by default)
+   */
   generateImage: async (
     prompt: string,
     config: GenerationConfig,
     controlImageBase64?: string[] | string,
     referenceImageBase64?: string[] | string,
     contextImageBase64?: string[] | string,
-    userName?: string
+    userName?: string,
+    signal?: AbortSignal,
+    variation?: number
   ): Promise<{ images: string[]; texts: string[] }> => {
-
-    // Get API key based on environment
-    let apiKey: string | undefined;
-
-    if (isElectron()) {
-      // In Electron, get from localStorage
-      const storedKey = localStorage.getItem('gemini_api_key');
-      if (!storedKey || !storedKey.trim()) {
-        throw new Error("API Key not configured. Please go to Settings to enter your Google AI API key.");
-      }
-      apiKey = storedKey.trim();
-    } else {
-      // In AI Studio environment, check if key is selected
-      if (config.model === 'gemini-3-pro-image-preview') {
-        // @ts-ignore
-        const hasKey = await window.aistudio?.hasSelectedApiKey();
-        if (!hasKey) {
-          throw new Error("API Key not selected. Please connect to Google AI Studio to use the Pro model.");
-        }
-      }
-      apiKey = AppConfig.getSharedApiKey();
-      if (!apiKey) {
-        throw new Error("Shared API key not configured. Please add VITE_SHARED_API_KEY or metadata.sharedApiKey.");
-      }
-    }
-
-    // Create AI instance with the API key
-    const ai = new GoogleGenAI({ apiKey });
-    
-    const parts: Part[] = [];
-    
-    const controlImages = controlImageBase64
-      ? Array.isArray(controlImageBase64)
-        ? controlImageBase64
-        : [controlImageBase64]
-      : [];
-
-    const referenceImages = referenceImageBase64
-      ? Array.isArray(referenceImageBase64)
-        ? referenceImageBase64
-        : [referenceImageBase64]
-      : [];
-
-    const contextImages = contextImageBase64
-      ? Array.isArray(contextImageBase64)
-        ? contextImageBase64
-        : [contextImageBase64]
-      : [];
-
-    // Add images to parts if they exist
-    // Note: Gemini 'generateContent' takes context images.
-    // We treat Control/Reference as multimodal inputs.
-    controlImages.forEach((image, idx) => {
-      try {
-        const base64Data = stripBase64Header(image);
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png', // Assuming PNG for simplicity in this demo, actual app would preserve mime
-            data: base64Data
-          }
-        });
-      } catch (err) {
-        console.error(`[GeminiService] Invalid control image at index ${idx}:`, err);
-        throw new Error(`Control image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-    });
-
-    referenceImages.forEach((image, idx) => {
-      try {
-        const base64Data = stripBase64Header(image);
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: base64Data
-          }
-        });
-      } catch (err) {
-        console.error(`[GeminiService] Invalid reference image at index ${idx}:`, err);
-        throw new Error(`Reference image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-    });
-
-    contextImages.forEach((image, idx) => {
-      try {
-        const base64Data = stripBase64Header(image);
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: base64Data
-          }
-        });
-      } catch (err) {
-        console.error(`[GeminiService] Invalid context image at index ${idx}:`, err);
-        throw new Error(`Context image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-    });
-
-    // Add a structured preamble so the model knows how many and which images are controls vs references.
-    // We describe the order and role of each slice of parts with specific guidance for each type.
-    let finalPrompt = prompt;
-    const hasControls = controlImages.length > 0;
-    const hasReferences = referenceImages.length > 0;
-    const hasContext = contextImages.length > 0;
-
-    if (hasControls || hasReferences || hasContext) {
-      const preambleParts: string[] = [];
-      let partIndex = 1;
-
-      // Control images: structure, geometry, composition
-      if (hasControls) {
-        const controlEnd = partIndex + controlImages.length - 1;
-        const controlRange = controlImages.length === 1
-          ? `part ${partIndex}`
-          : `parts ${partIndex}-${controlEnd}`;
-        preambleParts.push(
-          `CONTROL IMAGE${controlImages.length === 1 ? '' : 'S'} (${controlRange}): ` +
-          `Analyze these for structure, geometry, composition, layout, and spatial arrangement. ` +
-          `Use these as the structural foundation for the generated image.`
-        );
-        partIndex = controlEnd + 1;
-      }
-
-      // Reference images: style, materials, mood
-      if (hasReferences) {
-        const refEnd = partIndex + referenceImages.length - 1;
-        const refRange = referenceImages.length === 1
-          ? `part ${partIndex}`
-          : `parts ${partIndex}-${refEnd}`;
-        preambleParts.push(
-          `REFERENCE IMAGE${referenceImages.length === 1 ? '' : 'S'} (${refRange}): ` +
-          `Analyze these for style, materials, textures, colors, mood, lighting, and artistic qualities. ` +
-          `Apply these visual characteristics to the generated image.`
-        );
-        partIndex = refEnd + 1;
-      }
-
-      // Context images: general context (untagged)
-      if (hasContext) {
-        const ctxEnd = partIndex + contextImages.length - 1;
-        const ctxRange = contextImages.length === 1
-          ? `part ${partIndex}`
-          : `parts ${partIndex}-${ctxEnd}`;
-        preambleParts.push(
-          `CONTEXT IMAGE${contextImages.length === 1 ? '' : 'S'} (${ctxRange}): ` +
-          `Use these as general visual context and inspiration for the generation.`
-        );
-      }
-
-      const preamble = preambleParts.join('\n\n');
-      finalPrompt = `${preamble}\n\nUSER PROMPT: ${prompt}`;
-    }
-
-    parts.push({ text: finalPrompt });
-
-    // Construct image config
-    const imageConfig: any = {
-        aspectRatio: config.aspect_ratio,
-    };
-
-    // imageSize is only supported by gemini-3-pro-image-preview
-    if (config.model === 'gemini-3-pro-image-preview') {
-        imageConfig.imageSize = config.image_size;
-    }
-
-    // Use selected model, default to flash image if none specified
-    const modelName = config.model || 'gemini-2.5-flash-image';
-
-    const requestOptions = userName
-      ? {
-          headers: {
-            'X-User-Name': userName
-          }
-        }
-      : undefined;
-
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: { parts },
-      config: {
-        // Nano Banana / Imagen configs
-        imageConfig: imageConfig
-        // safetySettings could be added here
-      },
-      // @ts-expect-error Request options are allowed at runtime for transport metadata
-      requestOptions
+    const provider = ProviderRegistry.resolve(config);
+    return provider.generateImage({
+      prompt,
+      config,
+      controlImages: toArray(controlImageBase64),
+      referenceImages: toArray(referenceImageBase64),
+      contextImages: toArray(contextImageBase64),
+      userName,
+      signal,
+      variation
     });
+  },
 
-    // Extract image
-    // The response structure for image generation often contains the image in inlineData of the first candidate part
-    // Iterate to find image part
-    const images: string[] = [];
-    const texts: string[] = [];
-
-    // Gather all parts from all candidates to capture multiple images/text chunks
-    response.candidates?.forEach(candidate => {
-      candidate.content?.parts?.forEach(part => {
-        if (part.inlineData?.data) {
-          images.push(part.inlineData.data);
-        }
-        if (typeof part.text === 'string' && part.text.trim().length > 0) {
-          texts.push(part.text);
-        }
-      });
+  /**
+   * Regenerate the masked region of an image (white mask pixels) following the prompt.
+   * Returns the model output as is; compositing into the source is up to the caller.
+   */
+  inpaintImage: async (
+    prompt: string,
+    config: GenerationConfig,
+    sourceImage: string,
+    maskImage: string,
+    userName?: string,
+    signal?: AbortSignal,
+    variation?: number
+  ): Promise<{ images: string[]; texts: string[] }> => {
+    const provider = ProviderRegistry.resolve(config);
+    return provider.generateImage({
+      prompt,
+      config,
+      controlImages: [],
+      referenceImages: [],
+      contextImages: [],
+      inpaint: { image: sourceImage, mask: maskImage },
+      userName,
+      signal,
+      variation
     });
-
-    if (images.length === 0 && texts.length === 0) {
-      throw new Error("No output data found in response");
-    }
-
-    return { images, texts };
   },
 
+  /**
+   * Generate a short text answer with the provider selected in config
+   */
   generateText: async (
     prompt: string,
     config: GenerationConfig,
@@ -319,185 +110,22 @@ export const GeminiService = {
     userName?: string,
     controlImageBase64?: string[] | string,
     referenceImageBase64?: string[] | string,
-    contextImageBase64?: string[] | string
+    contextImageBase64?: string[] | string,
+    signal?: AbortSignal
   ): Promise<{ text: string }> => {
-
-    // Get API key based on environment
-    let apiKey: string | undefined;
-
-    if (isElectron()) {
-      const storedKey = localStorage.getItem('gemini_api_key');
-      if (!storedKey || !storedKey.trim()) {
-        throw new Error("API Key not configured. Please go to Settings to enter your Google AI API key.");
-      }
-      apiKey = storedKey.trim();
-    } else {
-      apiKey = AppConfig.getSharedApiKey();
-      if (!apiKey) {
-        throw new Error("Shared API key not configured.");
-      }
-    }
-
-    const ai = new GoogleGenAI({ apiKey });
-
-    // Use a text model for text generation
-    const textModel = 'gemini-2.0-flash-exp';
-
-    const parts: Part[] = [];
-
-    const controlImages = controlImageBase64
-      ? Array.isArray(controlImageBase64)
-        ? controlImageBase64
-        : [controlImageBase64]
-      : [];
-
-    const referenceImages = referenceImageBase64
-      ? Array.isArray(referenceImageBase64)
-        ? referenceImageBase64
-        : [referenceImageBase64]
-      : [];
-
-    const contextImages = contextImageBase64
-      ? Array.isArray(contextImageBase64)
-        ? contextImageBase64
-        : [contextImageBase64]
-      : [];
-
-    // Add control images first
-    controlImages.forEach((image, idx) => {
-      try {
-        const base64Data = stripBase64Header(image);
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: base64Data
-          }
-        });
-      } catch (err) {
-        console.error(`[GeminiService] Invalid control image at index ${idx}:`, err);
-        throw new Error(`Control image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-    });
-
-    // Add reference images
-    referenceImages.forEach((image, idx) => {
-      try {
-        const base64Data = stripBase64Header(image);
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: base64Data
-          }
-        });
-      } catch (err) {
-        console.error(`[GeminiService] Invalid reference image at index ${idx}:`, err);
-        throw new Error(`Reference image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-    });
-
-    // Add context images
-    contextImages.forEach((image, idx) => {
-      try {
-        const base64Data = stripBase64Header(image);
-        parts.push({
-          inlineData: {
-            mimeType: 'image/png',
-            data: base64Data
-          }
-        });
-      } catch (err) {
-        console.error(`[GeminiService] Invalid context image at index ${idx}:`, err);
-        throw new Error(`Context image ${idx + 1} is invalid: ${err instanceof Error ? err.message : 'unknown error'}`);
-      }
-    });
-
-    // Build descriptive preamble for each image type
-    let finalPrompt = prompt;
-    const hasControls = controlImages.length > 0;
-    const hasReferences = referenceImages.length > 0;
-    const hasContext = contextImages.length > 0;
-
-    if (hasControls || hasReferences || hasContext) {
-      const preambleParts: string[] = [];
-      let partIndex = 1;
-
-      if (hasControls) {
-        const controlEnd = partIndex + controlImages.length - 1;
-        const controlRange = controlImages.length === 1
-          ? `part ${partIndex}`
-          : `parts ${partIndex}-${controlEnd}`;
-        preambleParts.push(
-          `CONTROL IMAGE${controlImages.length === 1 ? '' : 'S'} (${controlRange}): ` +
-          `Analyze these for structure, geometry, composition, layout, and spatial arrangement.`
-        );
-        partIndex = controlEnd + 1;
-      }
-
-      if (hasReferences) {
-        const refEnd = partIndex + referenceImages.length - 1;
-        const refRange = referenceImages.length === 1
-          ? `part ${partIndex}`
-          : `parts ${partIndex}-${refEnd}`;
-        preambleParts.push(
-          `REFERENCE IMAGE${referenceImages.length === 1 ? '' : 'S'} (${refRange}): ` +
-          `Analyze these for style, materials, textures, colors, mood, lighting, and artistic qualities.`
-        );
-        partIndex = refEnd + 1;
-      }
-
-      if (hasContext) {
-        const ctxEnd = partIndex + contextImages.length - 1;
-        const ctxRange = contextImages.length === 1
-          ? `part ${partIndex}`
-          : `parts ${partIndex}-${ctxEnd}`;
-        preambleParts.push(
-          `CONTEXT IMAGE${contextImages.length === 1 ? '' : 'S'} (${ctxRange}): ` +
-          `Use these as general visual context.`
-        );
-      }
-
-      const preamble = preambleParts.join('\n\n');
-      finalPrompt = `${preamble}\n\nUSER PROMPT: ${prompt}\n\n(Generate a concise response in ${maxWords} words or less)`;
-    } else {
-      finalPrompt = `${prompt}\n\n(Generate a concise response in ${maxWords} words or less)`;
+    const provider = ProviderRegistry.resolve(config);
+    if (!provider.supportsText) {
+      throw new Error(`${provider.name} does not support text generation. Switch to image mode or another provider.`);
     }
-
-    const requestOptions = userName
-      ? {
-          headers: {
-            'X-User-Name': userName
-          }
-        }
-      : undefined;
-
-    parts.push({ text: finalPrompt });
-
-    const response = await ai.models.generateContent({
-      model: textModel,
-      contents: { parts },
-      config: {
-        maxOutputTokens: Math.ceil(maxWords * 1.5), // Approximate tokens from words
-        temperature: config.temperature || 0.7,
-        topP: config.top_p || 0.95
-      },
-      // @ts-expect-error Request options are allowed at runtime
-      requestOptions
+    return provider.generateText({
+      prompt,
+      config,
+      maxWords,
+      controlImages: toArray(controlImageBase64),
+      referenceImages: toArray(referenceImageBase64),
+      contextImages: toArray(contextImageBase64),
+      userName,
+      signal
     });
-
-    // Extract text from response
-    let text = '';
-    response.candidates?.forEach(candidate => {
-      candidate.content?.parts?.forEach(part => {
-        if (typeof part.text === 'string') {
-          text += part.text;
-        }
-      });
-    });
-
-    if (!text || text.trim().length === 0) {
-      throw new Error("No text generated");
-    }
-
-    return { text: text.trim() };
   }
-};
\ No newline at end of file
+};
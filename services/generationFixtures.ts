@@ -0,0 +1,96 @@
+/**
+ * Generation fixtures (record / replay)
+ *
+ * In 'record' mode every real generateContent call is stored on disk as a
+ * request/response pair (fixtures/{key}.json). In 'replay' mode the stored
+ * response is returned instead of calling the API, so a recorded session can
+ * be re-run offline and without an API key.
+ *
+ * The key is a SHA-256 of the request (model, contents, config), so replay
+ * only matches byte-identical requests.
+ */
+
+import { StorageServiceV2 } from './storageV2';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+const FIXTURE_MODE_STORAGE_KEY = 'generation_fixture_mode';
+
+/**
+ * Serializable subset of a generateContent call
+ */
+export interface FixtureRequest {
+  model: string;
+  contents: unknown;
+  config?: Record<string, unknown>;
+}
+
+export interface GenerationFixture {
+  version: string;
+  key: string;
+  recorded_at: string;
+  request: FixtureRequest;
+  response: unknown;
+}
+
+/**
+ * Drop transport-only fields (abort signals) before hashing/storing
+ */
+const toSerializableRequest = (request: FixtureRequest): FixtureRequest => {
+  const { abortSignal, ...config } = (request.config || {}) as Record<string, unknown>;
+  return { model: request.model, contents: request.contents, config };
+};
+
+const sha256Hex = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const GenerationFixtures = {
+  getMode: (): FixtureMode => {
+    const mode = localStorage.getItem(FIXTURE_MODE_STORAGE_KEY);
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  },
+
+  setMode: (mode: FixtureMode): void => {
+    localStorage.setItem(FIXTURE_MODE_STORAGE_KEY, mode);
+  },
+
+  /**
+   * Run a generateContent call through the current fixture mode.
+   * `call` is only invoked when not replaying.
+   */
+  run: async <T>(request: FixtureRequest, call: () => Promise<T>): Promise<T> => {
+    const mode = GenerationFixtures.getMode();
+    if (mode === 'off') {
+      return call();
+    }
+
+    const serializable = toSerializableRequest(request);
+    const key = await sha256Hex(JSON.stringify(serializable));
+
+    if (mode === 'replay') {
+      const fixture = StorageServiceV2.loadFixture(key);
+      if (!fixture) {
+        throw new Error(`No recorded fixture for this request (${key.slice(0, 12)}). Record it first or turn replay off in Settings.`);
+      }
+      console.log('[Fixtures] Replaying', key.slice(0, 12));
+      return fixture.response as T;
+    }
+
+    const response = await call();
+    const fixture: GenerationFixture = {
+      version: '2.0',
+      key,
+      recorded_at: new Date().toISOString(),
+      request: serializable,
+      // Round-trip through JSON so only plain data (candidates, usage) is stored
+      response: JSON.parse(JSON.stringify(response))
+    };
+    StorageServiceV2.saveFixture(fixture);
+    console.log('[Fixtures] Recorded', key.slice(0, 12));
+    return response;
+  }
+};
@@ -0,0 +1,471 @@
+/**
+ * Generation Queue
+ *
+ * Runs Mixboard generation requests in the background so the user can keep
+ * working while earlier prompts are in flight:
+ * - Bounded concurrency (configurable in Settings)
+ * - Cancellation of queued and in-flight jobs (via AbortController)
+ * - Retry with exponential backoff for transient API errors
+ * - Per-session persistence ({sessionId}_queue.json) so queued work
+ *   survives an app restart
+ * - Inpaint jobs (source image + mask) whose output is composited back
+ *   into the source inside the mask
+ *
+ * Output images are registered in the image registry before a job is marked
+ * completed, so a finished job can always be placed from its hashes even if
+ * the view that enqueued it has gone away.
+ */
+
+import { GenerationConfig, GenerationJob } from '../types';
+import { StorageServiceV2 } from './storageV2';
+import { loadGeminiService, type GeminiServiceType } from './lazyGeminiService';
+import { compositeMasked } from '../utils/maskUtils';
+
+const CONCURRENCY_STORAGE_KEY = 'generation_concurrency';
+const DEFAULT_CONCURRENCY = 2;
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 4;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+const TEXT_MAX_WORDS = 150;
+export const MAX_VARIATIONS = 4;
+
+/**
+ * Request fields supplied by the caller; bookkeeping fields are filled in by the queue
+ */
+export interface GenerationJobRequest {
+  session_id: string;
+  generation_id: string;
+  mode: GenerationJob['mode'];
+  prompt: string;
+  parameters: GenerationConfig;
+  inputs: GenerationJob['inputs'];
+  user_name?: string;
+  variations?: number;
+}
+
+/**
+ * Emitted whenever a job changes state
+ */
+export interface GenerationQueueEvent {
+  job: GenerationJob;
+  images?: string[];  // Output data URIs (only on completion, not persisted)
+}
+
+type GenerationQueueListener = (event: GenerationQueueEvent) => void;
+
+const isFinished = (job: GenerationJob): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * Rate limits, timeouts, server errors and network failures are worth retrying;
+ * everything else (bad request, safety block, missing key) fails immediately.
+ */
+const isTransientError = (error: unknown): boolean => {
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|fetch failed|network/i.test(message);
+};
+
+const loadConcurrency = (): number => {
+  try {
+    const saved = localStorage.getItem(CONCURRENCY_STORAGE_KEY);
+    const parsed = saved ? parseInt(saved, 10) : NaN;
+    if (Number.isFinite(parsed)) {
+      return Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, parsed));
+    }
+  } catch {
+    // ignore storage errors
+  }
+  return DEFAULT_CONCURRENCY;
+};
+
+class GenerationQueue {
+  private jobs = new Map<string, GenerationJob>();
+  private running = new Map<string, AbortController>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private inputData = new Map<string, string[]>();  // jobId -> data URIs aligned with job.inputs
+  private listeners = new Set<GenerationQueueListener>();
+  private concurrency = loadConcurrency();
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  setConcurrency(value: number) {
+    this.concurrency = Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, Math.round(value)));
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, this.concurrency.toString());
+    } catch {
+      // ignore storage errors
+    }
+    this.pump();
+  }
+
+  subscribe(listener: GenerationQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Jobs for a session, oldest first
+   */
+  getJobs(sessionId: string): GenerationJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => job.session_id === sessionId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Add a request to the queue.
+   * inputData may carry the already-loaded input images to avoid re-reading them from disk;
+   * empty entries (images not loaded yet) are read from the registry when the job runs.
+   */
+  enqueue(request: GenerationJobRequest, inputData?: string[]): GenerationJob {
+    const now = new Date().toISOString();
+    const job: GenerationJob = {
+      ...request,
+      job_id: `job-${crypto.randomUUID()}`,
+      status: 'queued',
+      created_at: now,
+      updated_at: now,
+      attempts: 0
+    };
+
+    this.jobs.set(job.job_id, job);
+    if (inputData) {
+      this.inputData.set(job.job_id, inputData);
+    }
+
+    this.persist(job.session_id);
+    this.emit({ job });
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Cancel a queued job, or abort it if it is already in flight
+   */
+  cancel(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (!job || isFinished(job)) return;
+
+    const controller = this.running.get(jobId);
+    if (controller) {
+      // run() observes the abort and marks the job cancelled
+      controller.abort();
+      return;
+    }
+
+    this.clearRetryTimer(jobId);
+    this.inputData.delete(jobId);
+    this.update(jobId, { status: 'cancelled', completed_at: new Date().toISOString() });
+  }
+
+  /**
+   * Load persisted jobs for a session. Jobs that were in flight when the app
+   * closed are put back in the queue.
+   */
+  restore(sessionId: string): GenerationJob[] {
+    const stored = StorageServiceV2.loadGenerationQueue(sessionId);
+    let changed = false;
+
+    for (const storedJob of stored) {
+      if (this.jobs.has(storedJob.job_id)) continue;
+
+      const job: GenerationJob = storedJob.status === 'pending'
+        ? { ...storedJob, status: 'queued', next_attempt_at: undefined }
+        : storedJob;
+      changed = changed || job !== storedJob;
+      this.jobs.set(job.job_id, job);
+    }
+
+    if (changed) {
+      this.persist(sessionId);
+    }
+    this.pump();
+    return this.getJobs(sessionId);
+  }
+
+  /**
+   * Drop a finished job once its result has been applied to the session
+   */
+  acknowledge(jobId: string) {
+    const job = this.jobs.get(jobId);
+    if (!job || !isFinished(job)) return;
+
+    this.jobs.delete(jobId);
+    this.persist(job.session_id);
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private emit(event: GenerationQueueEvent) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (err) {
+        console.error('[GenerationQueue] Listener failed:', err);
+      }
+    });
+  }
+
+  private persist(sessionId: string) {
+    try {
+      StorageServiceV2.saveGenerationQueue(sessionId, this.getJobs(sessionId));
+    } catch (err) {
+      console.error('[GenerationQueue] Failed to persist queue:', err);
+    }
+  }
+
+  private update(jobId: string, patch: Partial<GenerationJob>, images?: string[]): GenerationJob | null {
+    const current = this.jobs.get(jobId);
+    if (!current) return null;
+
+    const job: GenerationJob = { ...current, ...patch, updated_at: new Date().toISOString() };
+    this.jobs.set(jobId, job);
+    this.persist(job.session_id);
+    this.emit({ job, images });
+    return job;
+  }
+
+  private clearRetryTimer(jobId: string) {
+    const timer = this.retryTimers.get(jobId);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(jobId);
+    }
+  }
+
+  /**
+   * Start queued jobs until the concurrency limit is reached
+   */
+  private pump() {
+    const now = Date.now();
+    const ready = Array.from(this.jobs.values())
+      .filter(job =>
+        job.status === 'queued' &&
+        !this.running.has(job.job_id) &&
+        !this.retryTimers.has(job.job_id)
+      )
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    for (const job of ready) {
+      if (this.running.size >= this.concurrency) break;
+
+      // Respect backoff deadlines (also for jobs restored from disk)
+      const dueAt = job.next_attempt_at ? Date.parse(job.next_attempt_at) : 0;
+      if (dueAt > now) {
+        this.scheduleRetry(job.job_id, dueAt - now);
+        continue;
+      }
+
+      void this.run(job.job_id);
+    }
+  }
+
+  private scheduleRetry(jobId: string, delayMs: number) {
+    this.clearRetryTimer(jobId);
+    this.retryTimers.set(jobId, setTimeout(() => {
+      this.retryTimers.delete(jobId);
+      this.pump();
+    }, delayMs));
+  }
+
+  /**
+   * Input data URIs aligned with job.inputs
+   */
+  private async loadInputs(job: GenerationJob): Promise<string[]> {
+    const cached = this.inputData.get(job.job_id);
+
+    // Images not passed in (or lazily loaded on the canvas) are read from the registry
+    const loaded = await Promise.all(
+      job.inputs.map((input, index) => cached?.[index] || StorageServiceV2.loadImageByHashAsync(input.hash))
+    );
+
+    return job.inputs.map((input, index) => {
+      const dataUri = loaded[index];
+      if (!dataUri) {
+        throw new Error(`Input image is no longer available (${input.hash})`);
+      }
+      return dataUri;
+    });
+  }
+
+  private async resolveInputs(job: GenerationJob) {
+    const control: string[] = [];
+    const reference: string[] = [];
+    const context: string[] = [];
+    const loaded = await this.loadInputs(job);
+
+    job.inputs.forEach((input, index) => {
+      const dataUri = loaded[index];
+      if (input.tag === 'control') {
+        control.push(dataUri);
+      } else if (input.tag === 'reference') {
+        reference.push(dataUri);
+      } else {
+        // Untagged images are context images
+        context.push(dataUri);
+      }
+    });
+
+    return {
+      control: control.length > 0 ? control : undefined,
+      reference: reference.length > 0 ? reference : undefined,
+      context: context.length > 0 ? context : undefined
+    };
+  }
+
+  private async imageGenerator(service: GeminiServiceType, job: GenerationJob, signal: AbortSignal) {
+    const inputs = await this.resolveInputs(job);
+    return (variation: number) => service.generateImage(
+      job.prompt,
+      job.parameters,
+      inputs.control,
+      inputs.reference,
+      inputs.context,
+      job.user_name,
+      signal,
+      variation
+    );
+  }
+
+  /**
+   * Inpaint jobs take [source, mask] as inputs; model output is composited into
+   * the source inside the mask, so only the masked region changes
+   */
+  private async inpainter(service: GeminiServiceType, job: GenerationJob, signal: AbortSignal) {
+    const [source, mask] = await this.loadInputs(job);
+    if (!source || !mask) {
+      throw new Error('Inpainting needs a source image and a mask');
+    }
+    return async (variation: number) => {
+      const output = await service.inpaintImage(job.prompt, job.parameters, source, mask, job.user_name, signal, variation);
+      const images = await Promise.all(output.images.map(image => compositeMasked(source, image, mask)));
+      return { images, texts: output.texts };
+    };
+  }
+
+  private async run(jobId: string) {
+    const controller = new AbortController();
+    this.running.set(jobId, controller);
+
+    const started = this.update(jobId, {
+      status: 'pending',
+      started_at: new Date().toISOString(),
+      next_attempt_at: undefined,
+      attempts: (this.jobs.get(jobId)?.attempts || 0) + 1
+    });
+    if (!started) {
+      this.running.delete(jobId);
+      return;
+    }
+
+    try {
+      const service = await loadGeminiService();
+
+      if (started.mode === 'image' || started.mode === 'inpaint') {
+        const generateOnce = started.mode === 'inpaint'
+          ? await this.inpainter(service, started, controller.signal)
+          : await this.imageGenerator(service, started, controller.signal);
+
+        // Variations are independent calls; their candidates are grouped under one generation
+        const variations = Math.min(MAX_VARIATIONS, Math.max(1, started.variations || 1));
+        const settled = await Promise.allSettled(
+          Array.from({ length: variations }, (_, variation) => generateOnce(variation))
+        );
+        if (controller.signal.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+
+        const outputs = settled
+          .filter((result): result is PromiseFulfilledResult<{ images: string[]; texts: string[] }> => result.status === 'fulfilled')
+          .map(result => result.value);
+        if (outputs.length === 0) {
+          // All variations failed; surface the first error to the retry logic
+          throw (settled[0] as PromiseRejectedResult).reason;
+        }
+        if (outputs.length < variations) {
+          console.warn(`[GenerationQueue] ${variations - outputs.length} of ${variations} variations failed`);
+        }
+
+        // Register every candidate image (identical candidates collapse to one registry entry)
+        const images: string[] = [];
+        const outputHashes: string[] = [];
+        for (const dataUri of outputs.flatMap(output => output.images)) {
+          const { hash } = await StorageServiceV2.registerImageAsync(dataUri, undefined, 'output');
+          if (outputHashes.includes(hash)) continue;
+          outputHashes.push(hash);
+          images.push(dataUri);
+        }
+
+        this.update(jobId, {
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          error_message: undefined,
+          result: { output_hashes: outputHashes, output_texts: outputs.flatMap(output => output.texts) }
+        }, images);
+      } else {
+        const inputs = await this.resolveInputs(started);
+        const output = await service.generateText(
+          started.prompt,
+          started.parameters,
+          TEXT_MAX_WORDS,
+          started.user_name,
+          inputs.control,
+          inputs.reference,
+          inputs.context,
+          controller.signal
+        );
+        if (controller.signal.aborted) throw new DOMException('Generation cancelled', 'AbortError');
+
+        this.update(jobId, {
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          error_message: undefined,
+          result: { output_hashes: [], output_texts: [output.text] }
+        });
+      }
+
+      this.inputData.delete(jobId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = this.jobs.get(jobId)?.attempts || 1;
+
+      if (controller.signal.aborted) {
+        this.inputData.delete(jobId);
+        this.update(jobId, { status: 'cancelled', completed_at: new Date().toISOString() });
+      } else if (isTransientError(error) && attempts < MAX_ATTEMPTS) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+        console.warn(`[GenerationQueue] Attempt ${attempts} failed, retrying in ${delay}ms:`, message);
+        this.update(jobId, {
+          status: 'queued',
+          error_message: message,
+          next_attempt_at: new Date(Date.now() + delay).toISOString()
+        });
+        this.scheduleRetry(jobId, delay);
+      } else {
+        console.error('[GenerationQueue] Generation failed:', message);
+        this.inputData.delete(jobId);
+        this.update(jobId, {
+          status: 'failed',
+          completed_at: new Date().toISOString(),
+          error_message: message
+        });
+      }
+    } finally {
+      this.running.delete(jobId);
+      this.pump();
+    }
+  }
+}
+
+export const GenerationQueueService = new GenerationQueue();
@@ -0,0 +1,163 @@
+/**
+ * Image Provider abstraction
+ *
+ * Each image model backend (Gemini, an OpenAI-compatible endpoint, a local
+ * HTTP stand-in, ...) implements ImageProvider and registers itself here.
+ * GeminiService dispatches generation calls through the registry, and the
+ * parameter UIs render their options from the declared capabilities, so a
+ * new backend needs no changes outside its own provider module.
+ *
+ * Provider modules must keep heavy SDK imports lazy (dynamic import inside
+ * generate*) because the registry is loaded eagerly by the UI.
+ */
+
+import { GenerationConfig } from '../types';
+import { GeminiProvider } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * What a model accepts; drives the parameter controls
+ */
+export interface ProviderCapabilities {
+  aspectRatios: string[];
+  imageSizes?: string[];       // Omitted when the model has a fixed output size
+  temperature: boolean;        // Whether temperature is honoured
+  topP: boolean;               // Whether top_p is honoured
+}
+
+/**
+ * A selectable model of a provider
+ */
+export interface ProviderModel {
+  id: string;                  // Stored in GenerationConfig.model
+  label: string;               // Short label for compact dropdowns
+  description?: string;        // Longer label (tier, speed, quality)
+  paid?: boolean;              // Requires a billed project / selected key
+  capabilities: ProviderCapabilities;
+}
+
+/**
+ * Inputs for a single generation call
+ */
+export interface ImageGenerationRequest {
+  prompt: string;
+  config: GenerationConfig;
+  controlImages: string[];     // Data URIs or raw base64
+  referenceImages: string[];
+  contextImages: string[];
+  inpaint?: {                  // Region edit: regenerate `image` where `mask` is white
+    image: string;
+    mask: string;
+  };
+  userName?: string;
+  signal?: AbortSignal;
+  variation?: number;          // Index among the variations of one job (0 = first)
+}
+
+export interface TextGenerationRequest extends ImageGenerationRequest {
+  maxWords: number;
+}
+
+export interface ImageGenerationResult {
+  images: string[];            // Data URIs carrying the real MIME type
+  texts: string[];
+}
+
+export interface ImageProvider {
+  id: string;
+  name: string;
+  models: ProviderModel[];
+  supportsText: boolean;       // Can answer text-mode prompts
+  generateImage: (request: ImageGenerationRequest) => Promise<ImageGenerationResult>;
+  generateText: (request: TextGenerationRequest) => Promise<{ text: string }>;
+}
+
+// ============================================================================
+// PROVIDER REGISTRY
+// ============================================================================
+
+export const DEFAULT_PROVIDER_ID = 'gemini';
+const PREFERRED_PROVIDER_STORAGE_KEY = 'generation_provider';
+
+const providers = new Map<string, ImageProvider>();
+
+export const ProviderRegistry = {
+  /**
+   * Register (or replace) a provider
+   */
+  register: (provider: ImageProvider): void => {
+    if (provider.models.length === 0) {
+      throw new Error(`Provider "${provider.id}" declares no models`);
+    }
+    providers.set(provider.id, provider);
+  },
+
+  /**
+   * All registered providers, in registration order
+   */
+  list: (): ImageProvider[] => {
+    return Array.from(providers.values());
+  },
+
+  get: (providerId: string): ImageProvider | undefined => {
+    return providers.get(providerId);
+  },
+
+  /**
+   * Provider chosen in Settings for new generations
+   */
+  getPreferredProviderId: (): string => {
+    const saved = localStorage.getItem(PREFERRED_PROVIDER_STORAGE_KEY);
+    return saved && providers.has(saved) ? saved : DEFAULT_PROVIDER_ID;
+  },
+
+  setPreferredProviderId: (providerId: string): void => {
+    if (!providers.has(providerId)) return;
+    localStorage.setItem(PREFERRED_PROVIDER_STORAGE_KEY, providerId);
+  },
+
+  /**
+   * Provider for a generation config (falls back to the default provider)
+   */
+  resolve: (config: Pick<GenerationConfig, 'provider'>): ImageProvider => {
+    const providerId = config.provider || DEFAULT_PROVIDER_ID;
+    const provider = providers.get(providerId);
+    if (!provider) {
+      throw new Error(`Image provider "${providerId}" is not available`);
+    }
+    return provider;
+  },
+
+  /**
+   * Model declaration for a generation config (first model if the id is unknown)
+   */
+  getModel: (config: Pick<GenerationConfig, 'provider' | 'model'>): ProviderModel => {
+    const provider = ProviderRegistry.resolve(config);
+    return provider.models.find(model => model.id === config.model) || provider.models[0];
+  },
+
+  /**
+   * Clamp a config to what its provider/model supports.
+   * Used after switching provider or model so stale options are not sent.
+   */
+  normalizeConfig: (config: GenerationConfig): GenerationConfig => {
+    const provider = ProviderRegistry.resolve(config);
+    const model = ProviderRegistry.getModel(config);
+    const { aspectRatios, imageSizes } = model.capabilities;
+
+    return {
+      ...config,
+      provider: provider.id,
+      model: model.id,
+      aspect_ratio: aspectRatios.includes(config.aspect_ratio) ? config.aspect_ratio : aspectRatios[0],
+      image_size: !imageSizes || imageSizes.includes(config.image_size) ? config.image_size : imageSizes[0]
+    };
+  }
+};
+
+ProviderRegistry.register(GeminiProvider);
+ProviderRegistry.register(MockProvider);
@@ -1,4 +1,4 @@
-type GeminiServiceType = typeof import('./geminiService')['GeminiService'];
+export type GeminiServiceType = typeof import('./geminiService')['GeminiService'];
 
 let cachedServicePromise: Promise<GeminiServiceType> | null = null;
 
@@ -34,8 +34,22 @@ declare global {
       loadSync?: (filename: string) => string | null;
       deleteSync?: (filename: string) => boolean;
       listFilesSync?: (prefix: string) => Array<{ key: string; content: string }>;
+      saveFile?: (filename: string, content: string) => Promise<boolean>;
+      loadFile?: (filename: string) => Promise<string | null>;
+      listFiles?: (prefix: string) => Promise<string[]>;
+      saveImage?: (folder: string, filename: string, base64Data: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+      loadImage?: (folder: string, filename: string) => Promise<string | null>;
+      inspectImage?: (base64Data: string) => Promise<{ success: boolean; hash?: string; mimeType?: string; width?: number; height?: number; sizeBytes?: number; error?: string }>;
+      saveThumbnail?: (sessionId: string, imageId: string, thumbnailBase64: string) => Promise<{ success: boolean; path?: string; error?: string }>;
+      loadThumbnail?: (thumbnailPath: string) => Promise<string | null>;
+      takeStorageRecoveries?: () => Promise<Array<{ id: string; file: string; backup: number; damagedFile: string; recoveredAt: string }>>;
+      onStorageRecovered?: (callback: (recovery: { id: string; file: string; backup: number; damagedFile: string; recoveredAt: string }) => void) => void;
+      listStorageFilesSync?: (folder: string) => Array<{ path: string; sizeBytes: number; modifiedAt: string }>;
+      removeStorageFileSync?: (relativePath: string, archiveFolder?: string) => { success: boolean; error?: string };
       saveImageSync?: (folder: string, filename: string, base64Data: string) => { success: boolean; path?: string; error?: string };
       loadImageSync?: (folder: string, filename: string) => string | null;
+      deleteImageSync?: (folder: string, filename: string) => { success: boolean; error?: string };
+      inspectImageSync?: (base64Data: string) => { success: boolean; hash?: string; mimeType?: string; width?: number; height?: number; sizeBytes?: number; error?: string };
       exportImageSync?: (folder: string, filename: string) => { success: boolean; path?: string; cancelled?: boolean; error?: string };
       listSessionsSync?: () => any[];
       saveSessionSync?: (sessionId: string, sessionData: any) => { success: boolean; error?: string };
@@ -7,6 +7,11 @@ import {
   CanvasImage
 } from '../types';
 import { StorageService } from './newStorageService';
+import { StorageServiceV2 } from './storageV2';
+import { detectImageMimeType, getImageExtension } from '../utils/imageUtils';
+
+const IMAGE_MIME_MIGRATION_ID = 'image-mime-types';
+const REGISTRY_HASH_MIGRATION_ID = 'registry-sha256';
 
 /**
  * Migration service for converting legacy sessions to Mixboard format.
@@ -405,6 +410,221 @@ export class MigrationService {
     return gen as MixboardGeneration;
   }
 
+  /**
+   * Fix registry entries saved as PNG regardless of their real format.
+   * Detects the type from each file's header, renames the file to the matching
+   * extension and updates the registry and the filenames in session generations.
+   * Runs once per data folder (recorded in the registry's migrations list).
+   */
+  static migrateImageMimeTypes(): {
+    checked: number;
+    fixed: number;
+    errors: string[];
+  } {
+    const result = {
+      checked: 0,
+      fixed: 0,
+      errors: [] as string[]
+    };
+
+    if (!StorageServiceV2.isElectron()) return result;
+
+    try {
+      const registry = StorageServiceV2.loadImageRegistry();
+      if (registry.migrations?.includes(IMAGE_MIME_MIGRATION_ID)) return result;
+
+      // hash -> new filename, for updating generation metadata below
+      const renamed = new Map<string, string>();
+
+      for (const entry of Object.values(registry.images)) {
+        result.checked++;
+        try {
+          const dataUri = StorageServiceV2.loadImageByHash(entry.hash);
+          const mimeType = dataUri ? detectImageMimeType(dataUri) : null;
+          if (!mimeType) continue;
+
+          const extension = getImageExtension(mimeType);
+          if (entry.mime_type === mimeType && entry.file_path.endsWith(`.${extension}`)) continue;
+
+          const newFilename = StorageServiceV2.relocateImageFile(entry, mimeType);
+          if (!newFilename) continue;
+
+          renamed.set(entry.hash, newFilename);
+          result.fixed++;
+        } catch (error) {
+          result.errors.push(`Failed to migrate image ${entry.hash}: ${(error as Error).message}`);
+        }
+      }
+
+      // Leave the migration pending if any file failed so it is retried next launch
+      if (result.errors.length === 0) {
+        registry.migrations = [...(registry.migrations || []), IMAGE_MIME_MIGRATION_ID];
+      }
+      StorageServiceV2.saveImageRegistry(registry);
+
+      if (renamed.size > 0) {
+        for (const session of StorageServiceV2.listSessions()) {
+          const generations = StorageServiceV2.loadGenerations(session.session_id);
+          let changed = false;
+
+          generations.forEach(gen => {
+            [...(gen.input_images || []), ...(gen.output_images || [])].forEach(meta => {
+              const filename = renamed.get(meta.hash || meta.id);
+              if (filename && meta.filename !== filename) {
+                meta.filename = filename;
+                changed = true;
+              }
+            });
+          });
+
+          if (changed) {
+            StorageServiceV2.saveGenerations(session.session_id, generations);
+          }
+        }
+      }
+
+      console.log(`[Migration] Image MIME types: checked ${result.checked}, fixed ${result.fixed}`);
+    } catch (error) {
+      result.errors.push(`Image MIME migration failed: ${(error as Error).message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-key the image registry from the legacy 32-bit string hash to SHA-256,
+   * fill in real dimensions and rewrite every hash reference (canvas images,
+   * generation metadata, queued jobs).
+   *
+   * Entries that turn out to hold identical bytes are merged. Canvas images
+   * whose recorded size does not match the registered file are reported as
+   * suspected collisions: the legacy hash mapped a different image onto them.
+   * Runs once per data folder.
+   */
+  static migrateRegistryHashes(): {
+    rehashed: number;
+    merged: number;
+    missing: string[];
+    suspectedCollisions: Array<{ sessionId: string; canvasId: string; hash: string }>;
+    errors: string[];
+  } {
+    const result = {
+      rehashed: 0,
+      merged: 0,
+      missing: [] as string[],
+      suspectedCollisions: [] as Array<{ sessionId: string; canvasId: string; hash: string }>,
+      errors: [] as string[]
+    };
+
+    if (!StorageServiceV2.isElectron()) return result;
+
+    try {
+      const registry = StorageServiceV2.loadImageRegistry();
+      if (registry.migrations?.includes(REGISTRY_HASH_MIGRATION_ID)) return result;
+
+      // legacy hash -> SHA-256
+      const remap = new Map<string, string>();
+      const images: typeof registry.images = {};
+
+      for (const [legacyHash, entry] of Object.entries(registry.images)) {
+        try {
+          const dataUri = StorageServiceV2.loadImageByHash(legacyHash);
+          if (!dataUri) {
+            // Keep the entry so references still resolve to "missing" rather than to nothing
+            result.missing.push(legacyHash);
+            images[legacyHash] = entry;
+            continue;
+          }
+
+          const info = StorageServiceV2.inspectImage(dataUri);
+          remap.set(legacyHash, info.hash);
+
+          if (images[info.hash]) {
+            result.merged++;
+            continue;
+          }
+
+          images[info.hash] = {
+            ...entry,
+            hash: info.hash,
+            width: info.width,
+            height: info.height,
+            size_bytes: info.size_bytes
+          };
+          result.rehashed++;
+        } catch (error) {
+          result.errors.push(`Failed to re-hash image ${legacyHash}: ${(error as Error).message}`);
+          images[legacyHash] = entry;
+        }
+      }
+
+      if (result.errors.length > 0) {
+        // Leave the registry untouched so the migration can be retried next launch
+        return result;
+      }
+
+      const rekey = (hash?: string) => (hash && remap.get(hash)) || hash;
+
+      for (const session of StorageServiceV2.listSessions()) {
+        const sessionId = session.session_id;
+
+        const canvasState = StorageServiceV2.loadCanvasState(sessionId);
+        if (canvasState) {
+          canvasState.canvas_images.forEach(img => {
+            img.imageHash = rekey(img.imageHash) || '';
+
+            // An image placed at a different aspect ratio than the stored file was likely overwritten
+            const entry = images[img.imageHash];
+            if ((!img.type || img.type === 'image') && entry?.width && entry.height && img.originalWidth && img.originalHeight) {
+              const placedRatio = img.originalWidth / img.originalHeight;
+              const storedRatio = entry.width / entry.height;
+              if (Math.abs(placedRatio - storedRatio) / storedRatio > 0.01) {
+                result.suspectedCollisions.push({ sessionId, canvasId: img.canvasId, hash: img.imageHash });
+              }
+            }
+          });
+          StorageServiceV2.saveCanvasState(sessionId, canvasState);
+        }
+
+        const generations = StorageServiceV2.loadGenerations(sessionId);
+        generations.forEach(gen => {
+          [...(gen.input_images || []), ...(gen.output_images || [])].forEach(meta => {
+            meta.id = rekey(meta.id) || meta.id;
+            meta.hash = rekey(meta.hash);
+          });
+          gen.canvas_state?.images.forEach(img => {
+            img.imageMetaId = rekey(img.imageMetaId);
+          });
+        });
+        StorageServiceV2.saveGenerations(sessionId, generations);
+
+        const jobs = StorageServiceV2.loadGenerationQueue(sessionId);
+        if (jobs.length > 0) {
+          jobs.forEach(job => {
+            job.inputs = job.inputs.map(input => ({ ...input, hash: rekey(input.hash) || input.hash }));
+            if (job.result) {
+              job.result.output_hashes = job.result.output_hashes.map(hash => rekey(hash) || hash);
+            }
+          });
+          StorageServiceV2.saveGenerationQueue(sessionId, jobs);
+        }
+      }
+
+      registry.images = images;
+      registry.migrations = [...(registry.migrations || []), REGISTRY_HASH_MIGRATION_ID];
+      StorageServiceV2.saveImageRegistry(registry);
+
+      console.log(`[Migration] Registry hashes: rehashed ${result.rehashed}, merged ${result.merged}, missing ${result.missing.length}`);
+      if (result.suspectedCollisions.length > 0) {
+        console.warn('[Migration] Canvas images that may show the wrong picture (legacy hash collision):', result.suspectedCollisions);
+      }
+    } catch (error) {
+      result.errors.push(`Registry hash migration failed: ${(error as Error).message}`);
+    }
+
+    return result;
+  }
+
   /**
    * Check if storage format is compatible
    */
@@ -0,0 +1,189 @@
+import type { ImageProvider, ProviderModel, ImageGenerationRequest } from "./imageProvider";
+
+/**
+ * Offline mock provider
+ *
+ * Returns synthetic images/texts derived from the prompt, parameters and
+ * input images, so the generate → register → thumbnail → save pipeline can
+ * be exercised without an API key or quota.
+ *
+ * Output is deterministic: the seed comes from the request alone, so the same
+ * request always yields the same image, in any run. Variations of one job
+ * differ through their variation index.
+ */
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_LONG_SIDE = { '1K': 512, '2K': 1024 } as Record<string, number>;
+const MOCK_GRID = 6;
+
+const MOCK_MODELS: ProviderModel[] = [
+  {
+    id: 'mock-image',
+    label: 'Mock (Offline)',
+    description: 'Offline mock (synthetic tiles, no API calls)',
+    capabilities: {
+      aspectRatios: ['1:1', '16:9', '9:16', '3:4', '4:3'],
+      imageSizes: ['1K', '2K'],
+      temperature: true,
+      topP: true
+    }
+  }
+];
+
+/**
+ * FNV-1a 32-bit hash
+ */
+const fnv1a = (input: string, seed = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * xorshift32 PRNG seeded from the request hash
+ */
+const createRandom = (seed: number) => {
+  let state = seed || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 0x100000000;
+  };
+};
+
+const requestKey = (request: ImageGenerationRequest, mode: 'image' | 'text'): string => {
+  const { config } = request;
+  const inpaintImages = request.inpaint ? [request.inpaint.image, request.inpaint.mask] : [];
+  const inputs = [request.controlImages, request.referenceImages, request.contextImages, inpaintImages]
+    .map(group => group.map(image => fnv1a(image).toString(16)).join(','))
+    .join('|');
+  return [mode, request.prompt, config.model, config.aspect_ratio, config.image_size, config.temperature, config.top_p, inputs].join('\u0000');
+};
+
+const requestSeed = (key: string, variation = 0): number => fnv1a(`${key}#${variation}`);
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Generation cancelled', 'AbortError'));
+    return;
+  }
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Generation cancelled', 'AbortError'));
+  }, { once: true });
+});
+
+const getDimensions = (aspectRatio: string, imageSize: string) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longSide = MOCK_LONG_SIDE[imageSize] || MOCK_LONG_SIDE['1K'];
+  if (!w || !h) return { width: longSide, height: longSide };
+  return w >= h
+    ? { width: longSide, height: Math.round((longSide * h) / w) }
+    : { width: Math.round((longSide * w) / h), height: longSide };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Render hash-coloured tiles with the prompt on top; returns a PNG data URI
+ */
+const renderMockImage = (request: ImageGenerationRequest, seed: number): string => {
+  const { width, height } = getDimensions(request.config.aspect_ratio, request.config.image_size);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas 2D context');
+  }
+
+  const random = createRandom(seed);
+  const baseHue = Math.floor(random() * 360);
+  const tileWidth = width / MOCK_GRID;
+  const tileHeight = height / MOCK_GRID;
+
+  for (let row = 0; row < MOCK_GRID; row++) {
+    for (let col = 0; col < MOCK_GRID; col++) {
+      const hue = (baseHue + random() * 90) % 360;
+      const lightness = 35 + random() * 30;
+      ctx.fillStyle = `hsl(${hue}, 65%, ${lightness}%)`;
+      ctx.fillRect(col * tileWidth, row * tileHeight, Math.ceil(tileWidth), Math.ceil(tileHeight));
+    }
+  }
+
+  // Prompt panel
+  const fontSize = Math.max(14, Math.round(width / 24));
+  ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
+  const lines = wrapText(ctx, request.prompt || 'Untitled prompt', width * 0.8).slice(0, 6);
+  const lineHeight = fontSize * 1.3;
+  const panelHeight = lines.length * lineHeight + fontSize * 2;
+  const panelY = (height - panelHeight) / 2;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(width * 0.05, panelY, width * 0.9, panelHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, idx) => {
+    ctx.fillText(line, width / 2, panelY + fontSize + idx * lineHeight);
+  });
+
+  // Footer with seed and input counts
+  const inputCount = request.controlImages.length + request.referenceImages.length + request.contextImages.length;
+  ctx.font = `${Math.max(10, Math.round(fontSize / 2))}px monospace`;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(`mock ${seed.toString(16).padStart(8, '0')} · ${inputCount} input${inputCount === 1 ? '' : 's'}`, 8, height - 8);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const MockProvider: ImageProvider = {
+  id: 'mock',
+  name: 'Offline Mock',
+  models: MOCK_MODELS,
+  supportsText: true,
+
+  generateImage: async (request) => {
+    const seed = requestSeed(requestKey(request, 'image'), request.variation);
+    await delay(MOCK_LATENCY_MS, request.signal);
+
+    return {
+      images: [renderMockImage(request, seed)],
+      texts: []
+    };
+  },
+
+  generateText: async (request) => {
+    const seed = requestSeed(requestKey(request, 'text'), request.variation);
+    await delay(MOCK_LATENCY_MS, request.signal);
+
+    const inputCount = request.controlImages.length + request.referenceImages.length + request.contextImages.length;
+    const words = [
+      `Mock response ${seed.toString(16).padStart(8, '0')} to "${request.prompt}"`,
+      inputCount > 0 ? `using ${inputCount} input image${inputCount === 1 ? '' : 's'}.` : 'without input images.'
+    ].join(' ').split(/\s+/);
+
+    return { text: words.slice(0, request.maxWords).join(' ') };
+  }
+};
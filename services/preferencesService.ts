@@ -1,3 +1,5 @@
+import type { AdjustmentPreset } from '../utils/imageAdjustments';
+
 export type UserSettings = {
   theme: 'dark' | 'light';
   showHistory: boolean;
@@ -9,8 +11,13 @@ export type UserHistory = {
   lastMixboardSessionId: string | null;
 };
 
+// Keyboard shortcut overrides: command id -> key chords (see services/commandRegistry.ts)
+export type UserKeymap = Record<string, string[]>;
+
 const SETTINGS_KEY = 'app_user_settings';
 const HISTORY_KEY = 'app_user_history';
+const KEYMAP_KEY = 'app_user_keymap';
+const ADJUSTMENT_PRESETS_KEY = 'app_user_adjustment_presets';
 
 const DEFAULT_SETTINGS: UserSettings = {
   theme: 'dark',
@@ -126,5 +133,71 @@ export const PreferencesService = {
 
     writeToLocalStorage<UserHistory>(HISTORY_KEY, next);
     return next;
+  },
+
+  loadKeymap: async (): Promise<UserKeymap> => {
+    if (isElectron()) {
+      try {
+        // @ts-ignore
+        const keymap = await window.electron?.loadUserKeymap?.();
+        if (keymap) return keymap;
+      } catch (err) {
+        console.warn('Failed to load keymap from Electron cache', err);
+      }
+    }
+
+    return readFromLocalStorage<UserKeymap>(KEYMAP_KEY, {});
+  },
+
+  // The keymap is replaced as a whole (removing an override restores the default)
+  saveKeymap: async (keymap: UserKeymap): Promise<UserKeymap> => {
+    if (isElectron()) {
+      try {
+        // @ts-ignore
+        await window.electron?.saveUserKeymap?.(keymap);
+      } catch (err) {
+        console.warn('Failed to persist keymap via Electron cache', err);
+      }
+    }
+
+    // Also kept locally so the keymap survives when the desktop cache is unavailable
+    writeToLocalStorage<UserKeymap>(KEYMAP_KEY, keymap);
+    return keymap;
+  },
+
+  // Image adjustment presets saved from the edit modal (the built-in ones are not stored)
+  loadAdjustmentPresets: async (): Promise<AdjustmentPreset[]> => {
+    if (isElectron()) {
+      try {
+        // @ts-ignore
+        const presets = await window.electron?.loadUserAdjustmentPresets?.();
+        if (Array.isArray(presets)) return presets;
+      } catch (err) {
+        console.warn('Failed to load adjustment presets from Electron cache', err);
+      }
+    }
+
+    if (typeof localStorage === 'undefined') return [];
+    try {
+      const presets = JSON.parse(localStorage.getItem(ADJUSTMENT_PRESETS_KEY) || '[]');
+      return Array.isArray(presets) ? presets : [];
+    } catch (err) {
+      console.warn(`Failed to parse local storage key ${ADJUSTMENT_PRESETS_KEY}`, err);
+      return [];
+    }
+  },
+
+  saveAdjustmentPresets: async (presets: AdjustmentPreset[]): Promise<AdjustmentPreset[]> => {
+    if (isElectron()) {
+      try {
+        // @ts-ignore
+        await window.electron?.saveUserAdjustmentPresets?.(presets);
+      } catch (err) {
+        console.warn('Failed to persist adjustment presets via Electron cache', err);
+      }
+    }
+
+    writeToLocalStorage<AdjustmentPreset[]>(ADJUSTMENT_PRESETS_KEY, presets);
+    return presets;
   }
 };
@@ -0,0 +1,524 @@
+/**
+ * Session bundles (.nanoboard)
+ *
+ * A portable archive (uncompressed tar) of one or more Mixboard sessions:
+ * - manifest.json: format id + version, checked before anything is imported
+ * - sessions/{session_id}/canvas.json, generations.json: as stored on disk
+ * - registry.json: only the registry entries the sessions reference (key: hash)
+ * - images/{hash}.{ext}: the referenced image files, byte for byte
+ * - thumbnails/...: thumbnail files under their relative path at export
+ * - edit_documents/{hash}.json: layered documents behind edited images
+ *
+ * The main process writes the archive, copying image files from disk entry by
+ * entry, so an export never holds the images in memory.
+ *
+ * Importing merges images into the local registry by hash (existing images are
+ * reused, not copied), rewrites thumbnail paths, and gives a session a new id
+ * when one with the same id already exists locally.
+ */
+
+import { ImageVersion, MixboardGeneration, StoredImageMeta } from '../types';
+import { StorageServiceV2, CanvasStateData, ImageRegistryEntry } from './storageV2';
+
+export const NANOBOARD_BUNDLE_FORMAT = 'nanoboard';
+export const NANOBOARD_BUNDLE_VERSION = 1;
+export const NANOBOARD_FILE_EXTENSION = '.nanoboard';
+
+export interface NanoboardManifest {
+  format: typeof NANOBOARD_BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  sessions: Array<{ session_id: string; title: string }>;
+  image_count: number;
+  thumbnail_count: number;
+}
+
+export interface NanoboardBundle {
+  manifest: NanoboardManifest;
+  sessions: Array<{ canvas: CanvasStateData; generations: MixboardGeneration[] }>;
+  registry: Record<string, ImageRegistryEntry>;
+  images: Record<string, Uint8Array>;          // key: hash
+  thumbnails: Record<string, Uint8Array>;      // key: relative path at export
+  edit_documents: Record<string, string>;      // key: image hash, JSON as stored
+}
+
+export interface NanoboardImportResult {
+  sessions: Array<{ session_id: string; title: string; remapped_from?: string }>;
+  images_added: number;
+  images_reused: number;
+  thumbnails_restored: number;
+  missing_images: number;
+}
+
+/**
+ * Archive entry handed to the main process: inline text, or a file relative
+ * to the data folder that is copied into the archive as is
+ */
+interface BundleEntry {
+  name: string;
+  text?: string;
+  file?: string;
+}
+
+const TAR_BLOCK = 512;
+// Session ids become file names on import
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+const normalizePath = (filePath: string): string => {
+  return filePath.replace(/\\/g, '/');
+};
+
+// Thumbnails that failed to save are kept inline as data URIs; only files are bundled
+const isThumbnailFile = (thumbnailPath?: string): thumbnailPath is string => {
+  return !!thumbnailPath && normalizePath(thumbnailPath).startsWith('thumbnails/');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Files under a data folder that exist on disk
+ */
+const listStoredFiles = (folder: string): Set<string> => {
+  // @ts-ignore
+  const files: Array<{ path: string }> = window.electron.listStorageFilesSync(folder) || [];
+  return new Set(files.map(file => file.path));
+};
+
+const toDataUri = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/**
+ * Visit every image hash and thumbnail path a session refers to
+ */
+const forEachReference = (
+  canvas: CanvasStateData,
+  generations: MixboardGeneration[],
+  visit: (hash?: string, thumbnailPath?: string) => void
+): void => {
+  const visitVersions = (versions?: ImageVersion[]) => {
+    versions?.forEach(version => visit(version.hash, version.thumbnailPath));
+  };
+
+  canvas.canvas_images.forEach(img => {
+    visit(img.imageHash, img.thumbnailPath);
+    visitVersions(img.versions);
+  });
+  generations.forEach(gen => {
+    [...(gen.input_images || []), ...(gen.output_images || [])].forEach(meta => {
+      visit(meta.hash || meta.id, meta.thumbnailPath);
+    });
+    gen.canvas_state?.images.forEach(img => {
+      visit(img.imageMetaId, img.thumbnailPath);
+      visitVersions(img.versions);
+    });
+  });
+};
+
+/**
+ * Split a tar archive into its regular files (views into the buffer, not copies)
+ */
+const readArchive = (buffer: ArrayBuffer): Map<string, Uint8Array> => {
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const field = (offset: number, length: number): string => {
+    const raw = bytes.subarray(offset, offset + length);
+    const end = raw.indexOf(0);
+    return decoder.decode(end >= 0 ? raw.subarray(0, end) : raw);
+  };
+
+  const entries = new Map<string, Uint8Array>();
+  let offset = 0;
+  while (offset + TAR_BLOCK <= bytes.length && bytes[offset] !== 0) {
+    if (field(offset + 257, 6) !== 'ustar') {
+      throw new Error('Not a .nanoboard bundle (unknown file format)');
+    }
+    const name = [field(offset + 345, 155), field(offset, 100)].filter(Boolean).join('/');
+    const size = parseInt(field(offset + 124, 12).trim(), 8);
+    const start = offset + TAR_BLOCK;
+    if (!Number.isFinite(size) || size < 0 || start + size > bytes.length) {
+      throw new Error('Bundle is damaged: archive is truncated');
+    }
+
+    const type = field(offset + 156, 1);
+    if (type === '0' || type === '') {
+      entries.set(name, bytes.subarray(start, start + size));
+    }
+    offset = start + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+  }
+  return entries;
+};
+
+/**
+ * Check a manifest field by field; reject anything this version cannot read
+ */
+const validateManifest = (data: unknown): NanoboardManifest => {
+  if (!isRecord(data) || data.format !== NANOBOARD_BUNDLE_FORMAT) {
+    throw new Error('Not a .nanoboard bundle (missing or unknown manifest)');
+  }
+  const { version, exported_at, sessions, image_count, thumbnail_count } = data;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid bundle version: ${String(version)}`);
+  }
+  if (version > NANOBOARD_BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${version} is newer than this app supports (${NANOBOARD_BUNDLE_VERSION}). Please update the app.`
+    );
+  }
+
+  if (!Array.isArray(sessions)) {
+    throw new Error('Bundle is damaged: the manifest lists no sessions');
+  }
+  const sessionList = sessions.map(entry => {
+    if (!isRecord(entry) || typeof entry.session_id !== 'string' || !SESSION_ID_PATTERN.test(entry.session_id)) {
+      throw new Error('Bundle is damaged: the manifest lists an invalid session');
+    }
+    return { session_id: entry.session_id, title: typeof entry.title === 'string' ? entry.title : entry.session_id };
+  });
+
+  return {
+    format: NANOBOARD_BUNDLE_FORMAT,
+    version,
+    exported_at: typeof exported_at === 'string' ? exported_at : '',
+    sessions: sessionList,
+    image_count: typeof image_count === 'number' ? image_count : 0,
+    thumbnail_count: typeof thumbnail_count === 'number' ? thumbnail_count : 0
+  };
+};
+
+/**
+ * Registry entries with the fields import relies on; anything else is dropped
+ */
+const validateRegistry = (data: unknown): Record<string, ImageRegistryEntry> => {
+  const registry: Record<string, ImageRegistryEntry> = {};
+  if (!isRecord(data)) return registry;
+
+  Object.entries(data).forEach(([hash, entry]) => {
+    if (
+      isRecord(entry) &&
+      entry.hash === hash &&
+      typeof entry.file_path === 'string' &&
+      typeof entry.mime_type === 'string' &&
+      (entry.original_name === undefined || typeof entry.original_name === 'string')
+    ) {
+      registry[hash] = entry as unknown as ImageRegistryEntry;
+    }
+  });
+  return registry;
+};
+
+/**
+ * Read and check an archive's entries
+ */
+const parseBundle = (entries: Map<string, Uint8Array>): NanoboardBundle => {
+  const decoder = new TextDecoder();
+  const readJson = (name: string): unknown => {
+    const bytes = entries.get(name);
+    if (!bytes) return undefined;
+    try {
+      return JSON.parse(decoder.decode(bytes));
+    } catch (err) {
+      throw new Error(`Bundle is damaged: ${name} is not valid JSON`);
+    }
+  };
+
+  const manifest = validateManifest(readJson('manifest.json'));
+
+  const sessions = manifest.sessions.map(({ session_id }) => {
+    const canvas = readJson(`sessions/${session_id}/canvas.json`);
+    const generations = readJson(`sessions/${session_id}/generations.json`);
+    if (
+      !isRecord(canvas) ||
+      canvas.session_id !== session_id ||
+      typeof canvas.title !== 'string' ||
+      !Array.isArray(canvas.canvas_images) ||
+      !Array.isArray(generations)
+    ) {
+      throw new Error(`Bundle is damaged: session ${session_id} is missing or malformed`);
+    }
+    return {
+      canvas: canvas as unknown as CanvasStateData,
+      generations: generations as MixboardGeneration[]
+    };
+  });
+
+  const bundle: NanoboardBundle = {
+    manifest,
+    sessions,
+    registry: validateRegistry(readJson('registry.json')),
+    images: {},
+    thumbnails: {},
+    edit_documents: {}
+  };
+  entries.forEach((bytes, name) => {
+    if (name.startsWith('images/')) {
+      bundle.images[name.slice('images/'.length).replace(/\.[^.]+$/, '')] = bytes;
+    } else if (name.startsWith('thumbnails/')) {
+      bundle.thumbnails[name] = bytes;
+    } else if (name.startsWith('edit_documents/')) {
+      bundle.edit_documents[name.slice('edit_documents/'.length).replace(/\.json$/, '')] = decoder.decode(bytes);
+    }
+  });
+  return bundle;
+};
+
+export const SessionBundleService = {
+  /**
+   * List the archive entries for the sessions' files on disk
+   */
+  planBundle: (sessionIds: string[]): BundleEntry[] => {
+    if (!StorageServiceV2.isElectron()) {
+      throw new Error('Bundle export is only available in the desktop app');
+    }
+
+    const registry = StorageServiceV2.loadImageRegistry();
+    const storedImages = listStoredFiles('images');
+    const storedThumbnails = listStoredFiles('thumbnails');
+    const storedEditDocuments = listStoredFiles('edit_documents');
+
+    const manifest: NanoboardManifest = {
+      format: NANOBOARD_BUNDLE_FORMAT,
+      version: NANOBOARD_BUNDLE_VERSION,
+      exported_at: new Date().toISOString(),
+      sessions: [],
+      image_count: 0,
+      thumbnail_count: 0
+    };
+    const sessionEntries: BundleEntry[] = [];
+    const fileEntries: BundleEntry[] = [];
+    const bundledRegistry: Record<string, ImageRegistryEntry> = {};
+    const bundledThumbnails = new Set<string>();
+
+    sessionIds.forEach(sessionId => {
+      const storedCanvas = StorageServiceV2.loadCanvasState(sessionId);
+      if (!storedCanvas) {
+        console.warn('[SessionBundle] Skipping missing session:', sessionId);
+        return;
+      }
+      // The viewport file is newer than the viewport copy in the canvas file
+      const viewport = StorageServiceV2.loadViewport(sessionId);
+      const canvas: CanvasStateData = viewport
+        ? { ...storedCanvas, zoom: viewport.zoom, panOffset: viewport.panOffset, saved_viewports: viewport.saved_viewports }
+        : storedCanvas;
+      const generations = StorageServiceV2.loadGenerations(sessionId);
+
+      forEachReference(canvas, generations, (hash, thumbnailPath) => {
+        const entry = hash ? registry.images[hash] : undefined;
+        if (hash && entry && !bundledRegistry[hash]) {
+          const filePath = normalizePath(entry.file_path);
+          if (storedImages.has(filePath)) {
+            const extension = filePath.split('.').pop();
+            bundledRegistry[hash] = entry;
+            fileEntries.push({ name: `images/${hash}.${extension}`, file: filePath });
+            manifest.image_count++;
+
+            const editDocument = `edit_documents/${hash}.json`;
+            if (storedEditDocuments.has(editDocument)) {
+              fileEntries.push({ name: editDocument, file: editDocument });
+            }
+          }
+        }
+
+        if (isThumbnailFile(thumbnailPath)) {
+          const key = normalizePath(thumbnailPath);
+          if (!bundledThumbnails.has(key) && storedThumbnails.has(key)) {
+            bundledThumbnails.add(key);
+            fileEntries.push({ name: key, file: key });
+            manifest.thumbnail_count++;
+          }
+        }
+      });
+
+      sessionEntries.push(
+        { name: `sessions/${canvas.session_id}/canvas.json`, text: JSON.stringify(canvas) },
+        { name: `sessions/${canvas.session_id}/generations.json`, text: JSON.stringify(generations) }
+      );
+      manifest.sessions.push({ session_id: canvas.session_id, title: canvas.title });
+    });
+
+    return [
+      { name: 'manifest.json', text: JSON.stringify(manifest, null, 2) },
+      ...sessionEntries,
+      { name: 'registry.json', text: JSON.stringify(bundledRegistry) },
+      ...fileEntries
+    ];
+  },
+
+  /**
+   * Write sessions to a .nanoboard file chosen in a save dialog
+   *
+   * @returns Path of the written file, or null when the dialog was cancelled
+   */
+  exportSessions: async (sessionIds: string[], defaultName: string): Promise<string | null> => {
+    const entries = SessionBundleService.planBundle(sessionIds);
+    // @ts-ignore
+    const result = await window.electron.exportBundle(defaultName, entries);
+    if (result?.cancelled) return null;
+    if (!result?.success) {
+      throw new Error(result?.error || 'Could not write the bundle');
+    }
+    return result.path;
+  },
+
+  /**
+   * Import a .nanoboard file. Imported sessions are assigned to `user` so they
+   * show up in that user's session list.
+   */
+  importBundle: (archive: ArrayBuffer, user?: { displayName: string; id: string }): NanoboardImportResult => {
+    if (!StorageServiceV2.isElectron()) {
+      throw new Error('Bundle import is only available in the desktop app');
+    }
+
+    const bundle = parseBundle(readArchive(archive));
+
+    const result: NanoboardImportResult = {
+      sessions: [],
+      images_added: 0,
+      images_reused: 0,
+      thumbnails_restored: 0,
+      missing_images: 0
+    };
+
+    // Merge images by hash; the local hash is recomputed from the bytes
+    const localHashes = new Set(Object.keys(StorageServiceV2.loadImageRegistry().images));
+    const hashMap = new Map<string, string>();
+    const localEntries = new Map<string, ImageRegistryEntry>();
+    Object.entries(bundle.images).forEach(([bundleHash, bytes]) => {
+      const bundleEntry = bundle.registry[bundleHash];
+      const role = bundleEntry?.file_path.includes('/output_') ? 'output' : 'reference';
+      // The type in the header is only a hint; registration detects it from the bytes
+      const dataUri = toDataUri(bytes, bundleEntry?.mime_type || 'image/png');
+
+      const { hash, entry } = StorageServiceV2.registerImage(dataUri, bundleEntry?.original_name, role);
+      hashMap.set(bundleHash, hash);
+      localEntries.set(hash, entry);
+      if (localHashes.has(hash)) {
+        result.images_reused++;
+      } else {
+        localHashes.add(hash);
+        result.images_added++;
+      }
+    });
+
+    // Layered edit documents follow their image's local hash; local ones are kept
+    const localEditDocuments = listStoredFiles('edit_documents');
+    Object.entries(bundle.edit_documents).forEach(([bundleHash, content]) => {
+      const hash = hashMap.get(bundleHash);
+      if (!hash || localEditDocuments.has(`edit_documents/${hash}.json`)) return;
+      // @ts-ignore
+      window.electron.saveSync(`edit_documents/${hash}.json`, content);
+    });
+
+    // References whose image was not in the bundle and is not available locally either
+    const missingHashes = new Set<string>();
+
+    const takenIds = new Set(StorageServiceV2.listSessions().map(meta => meta.session_id));
+    const newSessionId = (): string => {
+      let stamp = Date.now();
+      while (takenIds.has(`mixboard-${stamp}`)) stamp++;
+      return `mixboard-${stamp}`;
+    };
+
+    bundle.sessions.forEach(({ canvas, generations }) => {
+      const originalId = canvas.session_id;
+      const sessionId = takenIds.has(originalId) ? newSessionId() : originalId;
+      takenIds.add(sessionId);
+
+      // Thumbnails are written under the (possibly new) session's folder
+      const thumbnailMap = new Map<string, string>();
+      forEachReference(canvas, generations, (_hash, thumbnailPath) => {
+        if (!isThumbnailFile(thumbnailPath)) return;
+        const key = normalizePath(thumbnailPath);
+        const thumbnail = bundle.thumbnails[key];
+        if (!thumbnail || thumbnailMap.has(key)) return;
+
+        const imageId = key.split('/').pop()!.replace(/\.[^.]+$/, '');
+        // @ts-ignore
+        const saved = window.electron.saveThumbnailSync(sessionId, imageId, toDataUri(thumbnail, 'image/jpeg'));
+        if (saved?.success && saved.path) {
+          thumbnailMap.set(key, normalizePath(saved.path));
+          result.thumbnails_restored++;
+        }
+      });
+
+      const mapHash = (hash?: string): string | undefined => {
+        if (!hash) return hash;
+        if (!hashMap.has(hash) && !localHashes.has(hash)) {
+          missingHashes.add(hash);
+        }
+        return hashMap.get(hash) || hash;
+      };
+      const mapThumbnail = (thumbnailPath?: string): string | undefined => {
+        return thumbnailPath ? thumbnailMap.get(normalizePath(thumbnailPath)) || thumbnailPath : thumbnailPath;
+      };
+      const mapMeta = (meta: StoredImageMeta): StoredImageMeta => {
+        // Generation metas use the content hash as their id
+        const id = mapHash(meta.id) || meta.id;
+        const hash = mapHash(meta.hash);
+        const entry = localEntries.get(hash || id);
+        return {
+          ...meta,
+          id,
+          hash,
+          filename: entry?.file_path.split('/').pop() || meta.filename,
+          thumbnailPath: mapThumbnail(meta.thumbnailPath)
+        };
+      };
+      const mapVersions = (versions?: ImageVersion[]): ImageVersion[] | undefined => {
+        return versions?.map(version => ({
+          ...version,
+          hash: mapHash(version.hash) || version.hash,
+          parent_hash: mapHash(version.parent_hash),
+          thumbnailPath: mapThumbnail(version.thumbnailPath)
+        }));
+      };
+
+      const importedCanvas: CanvasStateData = {
+        ...canvas,
+        session_id: sessionId,
+        user: user || canvas.user,
+        canvas_images: canvas.canvas_images.map(img => ({
+          ...img,
+          imageHash: mapHash(img.imageHash) || '',
+          thumbnailPath: mapThumbnail(img.thumbnailPath),
+          versions: mapVersions(img.versions)
+        }))
+      };
+      const importedGenerations: MixboardGeneration[] = generations.map(gen => ({
+        ...gen,
+        input_images: (gen.input_images || []).map(mapMeta),
+        output_images: (gen.output_images || []).map(mapMeta),
+        canvas_state: gen.canvas_state && {
+          ...gen.canvas_state,
+          images: gen.canvas_state.images.map(img => ({
+            ...img,
+            imageMetaId: mapHash(img.imageMetaId),
+            thumbnailPath: mapThumbnail(img.thumbnailPath),
+            versions: mapVersions(img.versions)
+          }))
+        }
+      }));
+
+      StorageServiceV2.saveGenerations(sessionId, importedGenerations);
+      StorageServiceV2.saveCanvasState(sessionId, importedCanvas);
+
+      result.sessions.push({
+        session_id: sessionId,
+        title: canvas.title,
+        remapped_from: sessionId !== originalId ? originalId : undefined
+      });
+    });
+
+    result.missing_images = missingHashes.size;
+    console.log(
+      `[SessionBundle] Imported ${result.sessions.length} sessions (${result.images_added} new images, ${result.images_reused} reused)`
+    );
+    return result;
+  }
+};
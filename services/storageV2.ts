@@ -4,14 +4,25 @@
  * New architecture for desktop-only app with MixboardSession:
  * 1. {sessionId}_generations.json - Generation history
  * 2. {sessionId}_canvas.json - Canvas state with refs to assets
- * 3. image_registry.json - Global image registry (session-agnostic)
- * 4. logs.jsonl - Append-only logs
+ * 3. {sessionId}_queue.json - Unfinished generation jobs
+ * 4. image_registry.json - Global image registry (session-agnostic)
+ * 5. logs.jsonl - Append-only logs
+ * 6. fixtures/{key}.json - Recorded generation request/response pairs
+ * 7. archive/gc_{timestamp}/ - Files moved aside by the garbage collector
+ * 8. {sessionId}_history.json - Recent undo/redo steps (matches the saved canvas)
+ * 9. {sessionId}_viewport.json - Zoom/pan and saved viewports (newer than the copy in the canvas file)
  *
- * Images stored as: images/{role}_{timestamp}_{id}.png
+ * Session files and the registry are written atomically with a .sha256 sidecar
+ * and rolling .bak1-3 copies; damaged files are restored from backup on load.
+ *
+ * Images stored as: images/{role}_{timestamp}_{id}.{ext} (ext matches the detected type)
  * Thumbnails: thumbnails/{sessionId}/{imageId}.png
  */
 
-import { MixboardSession, MixboardGeneration, CanvasImage, StoredImageMeta, GenerationConfig } from '../types';
+import { MixboardSession, MixboardGeneration, CanvasImage, StoredImageMeta, GenerationConfig, GenerationJob, CanvasViewport, SavedViewport, CanvasCommand, ImageVersion, EditDocument, ControlSource } from '../types';
+import type { GenerationFixture } from './generationFixtures';
+import { detectImageMimeType, getImageExtension } from '../utils/imageUtils';
+import { parseEditDocument } from '../utils/editDocument';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -22,14 +33,15 @@ import { MixboardSession, MixboardGeneration, CanvasImage, StoredImageMeta, Gene
  */
 export interface ImageRegistryEntry {
   id: string;              // Unique UUID
-  hash: string;            // Content hash (for deduplication)
+  hash: string;            // SHA-256 of the image bytes (for deduplication)
   original_name?: string;  // Original filename
   imported_at: string;     // ISO timestamp of first import
   size_bytes: number;      // File size
   width: number;           // Image dimensions
   height: number;
-  mime_type: string;       // e.g., 'image/png'
-  file_path: string;       // Relative path: images/{role}_{timestamp}_{id}.png
+  mime_type: string;       // Detected from file header, e.g., 'image/jpeg'
+  file_path: string;       // Relative path: images/{role}_{timestamp}_{id}.{ext}
+  parent_hash?: string;    // Image this one was manually edited from
 }
 
 /**
@@ -38,6 +50,7 @@ export interface ImageRegistryEntry {
 export interface ImageRegistry {
   version: string;
   images: Record<string, ImageRegistryEntry>; // Key: hash
+  migrations?: string[];   // Ids of one-time data migrations already applied
 }
 
 /**
@@ -49,25 +62,62 @@ export interface GenerationsData {
   generations: MixboardGeneration[];
 }
 
+/**
+ * Undo/redo history (stored per session, written together with the canvas;
+ * dropped on load when the canvas was written without it).
+ * Image data is replaced by registry references (imageMetaId).
+ */
+export interface CanvasHistoryData {
+  version: string;
+  session_id: string;
+  canvas_revision?: string;  // Canvas the steps lead to; the history is dropped once the canvas is written without it
+  position: number;        // Number of commands applied to the saved canvas
+  commands: CanvasCommand[];
+}
+
+/**
+ * Viewport (stored per session, apart from the canvas so viewport saves never rewrite canvas content)
+ */
+export interface ViewportData {
+  version: string;
+  session_id: string;
+  zoom: number;
+  panOffset: { x: number; y: number };
+  saved_viewports: SavedViewport[];
+}
+
+/**
+ * Generation queue (stored per session)
+ */
+export interface GenerationQueueData {
+  version: string;
+  session_id: string;
+  jobs: GenerationJob[];
+}
+
 /**
  * Canvas state (stored per session)
  */
 export interface CanvasStateData {
   version: string;
   session_id: string;
+  revision?: string;       // New on every full canvas write (matched by CanvasHistoryData.canvas_revision)
   title: string;
   created_at: string;
   updated_at: string;
   canvas_images: Array<{
     canvasId: string;        // Canvas-specific ID
     imageHash: string;       // Reference to image_registry
-    type?: 'image' | 'text' | 'board';
+    type?: 'image' | 'text' | 'board' | 'frame';
     text?: string;           // For text entities
     fontSize?: number;
     fontWeight?: 'normal' | 'bold';
     fontStyle?: 'normal' | 'italic';
     fontFamily?: string;
     backgroundColor?: string;
+    name?: string;           // For frame entities
+    framePreset?: string;
+    frameId?: string;        // Owning frame
     tag?: 'control' | 'reference';  // User-assigned tag for images
     x: number;
     y: number;
@@ -78,9 +128,15 @@ export interface CanvasStateData {
     originalHeight: number;
     generationId?: string;   // Parent generation ID
     thumbnailPath?: string;  // Path to thumbnail file
+    groupId?: string;        // Layer grouping and state (array order is the stacking order)
+    locked?: boolean;
+    hidden?: boolean;
+    versions?: ImageVersion[];  // Manual edit versions (hashes in image_registry)
+    controlSource?: ControlSource;  // Source of a derived control map
   }>;
   zoom: number;
   panOffset: { x: number; y: number };
+  saved_viewports?: SavedViewport[];
   user?: {
     displayName: string;
     id: string;
@@ -115,6 +171,45 @@ export interface LogEntry {
   context?: Record<string, unknown>;
 }
 
+/**
+ * A file considered by the storage report
+ */
+export interface StorageFileInfo {
+  path: string;            // Relative to the data folder, forward slashes
+  size_bytes: number;
+  modified_at: string;
+  hash?: string;           // Registry hash, for files that have an entry
+}
+
+/**
+ * Dry-run result of the image/thumbnail garbage collector
+ */
+export interface StorageGcReport {
+  scanned_at: string;
+  sessions_scanned: number;
+  images: { count: number; bytes: number };
+  thumbnails: { count: number; bytes: number };
+  unreferenced_images: StorageFileInfo[];   // Not used by any canvas, generation or queued job
+  orphaned_thumbnails: StorageFileInfo[];
+  reclaimable_bytes: number;
+  // Session or registry files that exist but could not be read. Their references
+  // are unknown, so nothing is reported as unused while this is not empty.
+  unreadable_files: string[];
+}
+
+export type StorageGcMode = 'delete' | 'archive';
+
+/**
+ * A damaged file that was restored from one of its .bak generations on load
+ */
+export interface StorageRecovery {
+  id: string;
+  file: string;            // Relative to the data folder, e.g. sessions/{id}_canvas.json
+  backup: number;          // Backup generation used (1 = newest)
+  damagedFile: string;     // Name the damaged copy was kept under
+  recoveredAt: string;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -128,25 +223,241 @@ const generateUUID = (): string => {
   return crypto.randomUUID();
 };
 
-const simpleHash = (str: string): string => {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16).padStart(16, '0');
-};
-
 const stripDataUriHeader = (dataUri: string): string => {
   return dataUri.replace(/^data:image\/\w+;base64,/, '');
 };
 
+// Image filenames by hash for loadImageByHashAsync, read from the registry once
+// and dropped whenever the registry is saved
+let registryFilenames: Promise<Map<string, string>> | null = null;
+
+// Latest in-flight async save per session (see saveSessionAsync and saveViewportAsync)
+const pendingSessionSaves = new Map<string, Promise<void>>();
+
+// Files newer than this are never collected: the open session may not have autosaved its references yet
+const GC_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+const normalizeStoragePath = (filePath: string): string => {
+  return filePath.replace(/\\/g, '/');
+};
+
 const getMimeTypeFromDataUri = (dataUri: string): string => {
   const match = dataUri.match(/^data:(image\/\w+);base64,/);
   return match ? match[1] : 'image/png';
 };
 
+type StoredCanvasImage = CanvasStateData['canvas_images'][number];
+type ImageInspection = { hash: string; width: number; height: number; size_bytes: number };
+
+/**
+ * Build a registry entry (and its filename under images/) for inspected image data
+ */
+const createRegistryEntry = (
+  dataUri: string,
+  info: ImageInspection,
+  originalName: string | undefined,
+  role: 'control' | 'reference' | 'output'
+): { filename: string; entry: ImageRegistryEntry } => {
+  const id = generateUUID();
+  const timestamp = Date.now();
+  // Use 'input' prefix for all non-output images (control/reference → input)
+  const filePrefix = role === 'output' ? 'output' : 'input';
+  // Trust the bytes over the data URI header (pasted/converted images are often mislabeled)
+  const mimeType = detectImageMimeType(dataUri) || getMimeTypeFromDataUri(dataUri);
+  const filename = `${filePrefix}_${timestamp}_${id}.${getImageExtension(mimeType)}`;
+
+  return {
+    filename,
+    entry: {
+      id,
+      hash: info.hash,
+      original_name: originalName,
+      imported_at: new Date().toISOString(),
+      size_bytes: info.size_bytes,
+      width: info.width,
+      height: info.height,
+      mime_type: mimeType,
+      file_path: `images/${filename}`
+    }
+  };
+};
+
+/**
+ * Check the main process's inspection result (`{ success, hash, width, height, sizeBytes }`)
+ */
+const toInspection = (result: unknown): ImageInspection => {
+  const value = typeof result === 'object' && result !== null ? result as Record<string, unknown> : {};
+  const count = (field: unknown) => (typeof field === 'number' && Number.isFinite(field) && field > 0 ? field : 0);
+
+  if (value.success !== true || typeof value.hash !== 'string' || !value.hash) {
+    const error = typeof value.error === 'string' ? value.error : 'unknown error';
+    throw new Error(`Failed to inspect image: ${error}`);
+  }
+
+  return {
+    hash: value.hash,
+    width: count(value.width),
+    height: count(value.height),
+    size_bytes: count(value.sizeBytes)
+  };
+};
+
+/**
+ * Stored canvas reference -> in-memory canvas image (dataUri only when already loaded)
+ */
+const toCanvasImage = (img: StoredCanvasImage, dataUri?: string | null): CanvasImage => ({
+  id: img.canvasId,
+  type: img.type,
+  dataUri: dataUri || undefined,
+  text: img.text,
+  fontSize: img.fontSize,
+  fontWeight: img.fontWeight,
+  fontStyle: img.fontStyle,
+  fontFamily: img.fontFamily,
+  backgroundColor: img.backgroundColor,
+  name: img.name,
+  framePreset: img.framePreset,
+  frameId: img.frameId,
+  tag: img.tag,
+  x: img.x,
+  y: img.y,
+  width: img.width,
+  height: img.height,
+  selected: img.selected,
+  originalWidth: img.originalWidth,
+  originalHeight: img.originalHeight,
+  generationId: img.generationId,
+  thumbnailPath: img.thumbnailPath,
+  imageMetaId: img.imageHash, // Store hash as meta ID for compatibility
+  groupId: img.groupId,
+  locked: img.locked,
+  hidden: img.hidden,
+  versions: img.versions,
+  controlSource: img.controlSource
+});
+
+/**
+ * In-memory canvas image -> stored canvas reference (image data lives in the registry)
+ */
+const toStoredCanvasImage = (img: CanvasImage, imageHash: string): StoredCanvasImage => ({
+  canvasId: img.id,
+  imageHash,
+  type: img.type,
+  text: img.text,
+  fontSize: img.fontSize,
+  fontWeight: img.fontWeight,
+  fontStyle: img.fontStyle,
+  fontFamily: img.fontFamily,
+  backgroundColor: img.backgroundColor,
+  name: img.name,
+  framePreset: img.framePreset,
+  frameId: img.frameId,
+  tag: img.tag,
+  x: img.x,
+  y: img.y,
+  width: img.width,
+  height: img.height,
+  selected: img.selected,
+  originalWidth: img.originalWidth,
+  originalHeight: img.originalHeight,
+  generationId: img.generationId,
+  thumbnailPath: img.thumbnailPath,
+  groupId: img.groupId,
+  locked: img.locked,
+  hidden: img.hidden,
+  versions: img.versions,
+  controlSource: img.controlSource
+});
+
+const buildCanvasState = (session: MixboardSession, canvasImages: StoredCanvasImage[]): CanvasStateData => ({
+  version: '2.0',
+  session_id: session.session_id,
+  revision: generateUUID(),
+  title: session.title,
+  created_at: session.created_at,
+  updated_at: new Date().toISOString(),
+  canvas_images: canvasImages,
+  zoom: session.viewport?.zoom ?? 1.0,
+  panOffset: session.viewport?.panOffset ?? { x: 0, y: 0 },
+  saved_viewports: session.saved_viewports,
+  user: session.user
+});
+
+/**
+ * Stored zoom/pan -> viewport (files written before viewports were persisted hold the defaults)
+ */
+const toViewport = (stored: Pick<CanvasStateData, 'zoom' | 'panOffset'>): CanvasViewport => {
+  const zoom = Number.isFinite(stored.zoom) && stored.zoom > 0 ? stored.zoom : 1.0;
+  const x = Number(stored.panOffset?.x);
+  const y = Number(stored.panOffset?.y);
+  return {
+    zoom,
+    panOffset: { x: Number.isFinite(x) ? x : 0, y: Number.isFinite(y) ? y : 0 }
+  };
+};
+
+/**
+ * Session metadata from a canvas file and (optional) generations file
+ */
+const toSessionMetadata = (canvasContent: string, generationsContent: string | null): SessionMetadata => {
+  const canvasState: CanvasStateData = JSON.parse(canvasContent);
+
+  let generationCount = 0;
+  try {
+    if (generationsContent) {
+      const genData: GenerationsData = JSON.parse(generationsContent);
+      generationCount = genData.generations.length;
+    }
+  } catch (e) {
+    // Ignore
+  }
+
+  return {
+    session_id: canvasState.session_id,
+    title: canvasState.title,
+    created_at: canvasState.created_at,
+    updated_at: canvasState.updated_at,
+    user: canvasState.user,
+    generation_count: generationCount,
+    canvas_image_count: canvasState.canvas_images.length
+  };
+};
+
+const parseViewportData = (content: string): ViewportData | null => {
+  const data: ViewportData = JSON.parse(content);
+  if (typeof data.zoom !== 'number' || !Array.isArray(data.saved_viewports)) return null;
+  return data;
+};
+
+// Saved history with its position clamped to the stored commands
+const parseCanvasHistory = (content: string): CanvasHistoryData | null => {
+  const data: CanvasHistoryData = JSON.parse(content);
+  if (!Array.isArray(data.commands)) return null;
+
+  const position = Number.isInteger(data.position) ? data.position : data.commands.length;
+  return { ...data, position: Math.max(0, Math.min(position, data.commands.length)) };
+};
+
+// Per-session files that can hold image references
+const SESSION_FILE_PATTERN = /_(canvas|generations|queue|history)\.json(\.json)?$/;
+
+// Handle both correct (_canvas.json) and old double-extension (_canvas.json.json) files
+const isCanvasFile = (file: string): boolean => {
+  return file.endsWith('_canvas.json') || file.endsWith('_canvas.json.json');
+};
+
+const toGenerationsFile = (canvasFile: string): string => {
+  return canvasFile.includes('.json.json')
+    ? canvasFile.replace('_canvas.json.json', '_generations.json.json')
+    : canvasFile.replace('_canvas.json', '_generations.json');
+};
+
+const sortByUpdatedAt = (metadata: SessionMetadata[]): SessionMetadata[] => {
+  return metadata.sort((a, b) =>
+    new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+  );
+};
+
 // ============================================================================
 // STORAGE SERVICE V2
 // ============================================================================
@@ -187,6 +498,7 @@ export const StorageServiceV2 = {
     registry.version = '2.0';
     // @ts-ignore
     window.electron.saveSync('image_registry.json', JSON.stringify(registry, null, 2));
+    registryFilenames = null;
   },
 
   /**
@@ -197,8 +509,9 @@ export const StorageServiceV2 = {
   registerImage: (dataUri: string, originalName?: string, role: 'control' | 'reference' | 'output' = 'reference'): { hash: string; entry: ImageRegistryEntry } => {
     const registry = StorageServiceV2.loadImageRegistry();
 
-    // Calculate hash from image content
-    const hash = simpleHash(stripDataUriHeader(dataUri));
+    // Hash and measure the actual bytes
+    const info = StorageServiceV2.inspectImage(dataUri);
+    const hash = info.hash;
 
     // Check if image already exists
     if (registry.images[hash]) {
@@ -207,28 +520,8 @@ export const StorageServiceV2 = {
     }
 
     // Create new entry
-    const id = generateUUID();
-    const timestamp = Date.now();
-    // Use 'input' prefix for all non-output images (control/reference → input)
-    const filePrefix = role === 'output' ? 'output' : 'input';
-    const filename = `${filePrefix}_${timestamp}_${id}.png`;
-    const filePath = `images/${filename}`;
-
-    // Get image dimensions
-    const img = new Image();
-    img.src = dataUri;
-
-    const entry: ImageRegistryEntry = {
-      id,
-      hash,
-      original_name: originalName,
-      imported_at: new Date().toISOString(),
-      size_bytes: Math.floor((stripDataUriHeader(dataUri).length * 3) / 4),
-      width: 0, // Will be set after image loads
-      height: 0,
-      mime_type: getMimeTypeFromDataUri(dataUri),
-      file_path: filePath
-    };
+    const { filename, entry } = createRegistryEntry(dataUri, info, originalName, role);
+    const filePath = entry.file_path;
 
     // Save image file
     // @ts-ignore
@@ -242,6 +535,15 @@ export const StorageServiceV2 = {
     return { hash, entry };
   },
 
+  /**
+   * Compute the registry hash (SHA-256 of the decoded bytes) and pixel dimensions.
+   * Runs in the main process so registration stays synchronous.
+   */
+  inspectImage: (dataUri: string): ImageInspection => {
+    // @ts-ignore
+    return toInspection(window.electron.inspectImageSync(stripDataUriHeader(dataUri)));
+  },
+
   /**
    * Get image entry from registry by hash
    */
@@ -250,6 +552,19 @@ export const StorageServiceV2 = {
     return registry.images[hash] || null;
   },
 
+  /**
+   * Record that an image was manually edited from another registered image
+   */
+  setImageParent: (hash: string, parentHash: string): void => {
+    if (!isElectron() || hash === parentHash) return;
+
+    const registry = StorageServiceV2.loadImageRegistry();
+    const entry = registry.images[hash];
+    if (!entry || entry.parent_hash === parentHash) return;
+    entry.parent_hash = parentHash;
+    StorageServiceV2.saveImageRegistry(registry);
+  },
+
   /**
    * Load image data URI by hash
    */
@@ -272,6 +587,35 @@ export const StorageServiceV2 = {
     }
   },
 
+  /**
+   * Rewrite a registry entry's file under the extension matching its MIME type.
+   * Deletes the old file; the caller is responsible for saving the registry.
+   * Returns the new filename, or null if the file could not be loaded.
+   */
+  relocateImageFile: (entry: ImageRegistryEntry, mimeType: string): string | null => {
+    const oldFilename = entry.file_path.split('/').pop();
+    if (!oldFilename) return null;
+
+    // @ts-ignore
+    const dataUri: string | null = window.electron.loadImageSync('images', oldFilename);
+    if (!dataUri) return null;
+
+    const newFilename = `${oldFilename.replace(/\.[^.]+$/, '')}.${getImageExtension(mimeType)}`;
+    if (newFilename !== oldFilename) {
+      // @ts-ignore
+      const result = window.electron.saveImageSync('images', newFilename, stripDataUriHeader(dataUri));
+      if (!result?.success) {
+        throw new Error(result?.error || `Failed to write ${newFilename}`);
+      }
+      // @ts-ignore
+      window.electron.deleteImageSync('images', oldFilename);
+    }
+
+    entry.mime_type = mimeType;
+    entry.file_path = `images/${newFilename}`;
+    return newFilename;
+  },
+
   /**
    * Load thumbnail by path
    * Used for History and Graph views to display lightweight thumbnails
@@ -366,6 +710,75 @@ export const StorageServiceV2 = {
     }
   },
 
+  /**
+   * Save queued generation jobs for a session
+   */
+  saveGenerationQueue: (sessionId: string, jobs: GenerationJob[]): void => {
+    if (!isElectron()) return;
+
+    const data: GenerationQueueData = {
+      version: '2.0',
+      session_id: sessionId,
+      jobs
+    };
+
+    const filename = `${sessionId}_queue.json`;
+    // @ts-ignore
+    window.electron.saveSync(`sessions/${filename}`, JSON.stringify(data, null, 2));
+  },
+
+  /**
+   * Load queued generation jobs for a session
+   */
+  loadGenerationQueue: (sessionId: string): GenerationJob[] => {
+    if (!isElectron()) return [];
+
+    try {
+      const filename = `${sessionId}_queue.json`;
+      // @ts-ignore
+      const content = window.electron.loadSync(`sessions/${filename}`);
+      if (!content) return [];
+
+      const data: GenerationQueueData = JSON.parse(content);
+      return data.jobs || [];
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load generation queue:', sessionId);
+      return [];
+    }
+  },
+
+  /**
+   * Load the saved undo/redo history for a session
+   */
+  loadCanvasHistory: (sessionId: string): CanvasHistoryData | null => {
+    if (!isElectron()) return null;
+
+    try {
+      // @ts-ignore
+      const content = window.electron.loadSync(`sessions/${sessionId}_history.json`);
+      return content ? parseCanvasHistory(content) : null;
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load canvas history:', sessionId);
+      return null;
+    }
+  },
+
+  /**
+   * Load the viewport file of a session (null for sessions that only have the canvas copy)
+   */
+  loadViewport: (sessionId: string): ViewportData | null => {
+    if (!isElectron()) return null;
+
+    try {
+      // @ts-ignore
+      const content = window.electron.loadSync(`sessions/${sessionId}_viewport.json`);
+      return content ? parseViewportData(content) : null;
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load viewport:', sessionId);
+      return null;
+    }
+  },
+
   /**
    * Save canvas state for a session
    */
@@ -408,34 +821,13 @@ export const StorageServiceV2 = {
 
     const generations = StorageServiceV2.loadGenerations(sessionId);
     const registry = StorageServiceV2.loadImageRegistry();
+    const viewportState = StorageServiceV2.loadViewport(sessionId) || canvasState;
 
     // Reconstruct canvas images with full data URIs
     const canvasImages: CanvasImage[] = canvasState.canvas_images.map(img => {
       const registryEntry = registry.images[img.imageHash];
       const dataUri = registryEntry ? StorageServiceV2.loadImageByHash(img.imageHash) : null;
-
-      return {
-        id: img.canvasId,
-        type: img.type,
-        dataUri: dataUri || undefined,
-        text: img.text,
-        fontSize: img.fontSize,
-        fontWeight: img.fontWeight,
-        fontStyle: img.fontStyle,
-        fontFamily: img.fontFamily,
-        backgroundColor: img.backgroundColor,
-        tag: img.tag,
-        x: img.x,
-        y: img.y,
-        width: img.width,
-        height: img.height,
-        selected: img.selected,
-        originalWidth: img.originalWidth,
-        originalHeight: img.originalHeight,
-        generationId: img.generationId,
-        thumbnailPath: img.thumbnailPath,
-        imageMetaId: img.imageHash // Store hash as meta ID for compatibility
-      };
+      return toCanvasImage(img, dataUri);
     });
 
     return {
@@ -445,6 +837,8 @@ export const StorageServiceV2 = {
       updated_at: canvasState.updated_at,
       generations,
       canvas_images: canvasImages,
+      viewport: toViewport(viewportState),
+      saved_viewports: viewportState.saved_viewports || [],
       user: canvasState.user
     };
   },
@@ -471,41 +865,11 @@ export const StorageServiceV2 = {
         imageHash = hash;
       }
 
-      return {
-        canvasId: img.id,
-        imageHash,
-        type: img.type,
-        text: img.text,
-        fontSize: img.fontSize,
-        fontWeight: img.fontWeight,
-        fontStyle: img.fontStyle,
-        fontFamily: img.fontFamily,
-        backgroundColor: img.backgroundColor,
-        tag: img.tag,
-        x: img.x,
-        y: img.y,
-        width: img.width,
-        height: img.height,
-        selected: img.selected,
-        originalWidth: img.originalWidth,
-        originalHeight: img.originalHeight,
-        generationId: img.generationId,
-        thumbnailPath: img.thumbnailPath
-      };
+      return toStoredCanvasImage(img, imageHash);
     });
 
     // Save canvas state
-    const canvasState: CanvasStateData = {
-      version: '2.0',
-      session_id: session.session_id,
-      title: session.title,
-      created_at: session.created_at,
-      updated_at: new Date().toISOString(),
-      canvas_images: canvasStateImages,
-      zoom: 1.0, // TODO: Store zoom/pan in session
-      panOffset: { x: 0, y: 0 },
-      user: session.user
-    };
+    const canvasState = buildCanvasState(session, canvasStateImages);
 
     StorageServiceV2.saveCanvasState(session.session_id, canvasState);
     StorageServiceV2.saveGenerations(session.session_id, session.generations);
@@ -522,62 +886,32 @@ export const StorageServiceV2 = {
       const files: string[] = window.electron.listFilesSync('sessions/');
 
       // Filter for canvas files only (one per session)
-      // Handle both correct (_canvas.json) and old double-extension (_canvas.json.json) files
-      const canvasFiles = files.filter(f =>
-        f.endsWith('_canvas.json') || f.endsWith('_canvas.json.json')
-      );
-
       const metadata: SessionMetadata[] = [];
 
-      for (const file of canvasFiles) {
+      for (const file of files.filter(isCanvasFile)) {
         try {
           // @ts-ignore
           const content: string | null = window.electron.loadSync(`sessions/${file}`);
           if (!content) continue;
-          const canvasState: CanvasStateData = JSON.parse(content as string);
 
           // Load generation count
-          // Handle both old double-extension and new correct filenames
-          const generationFile = file.includes('.json.json')
-            ? file.replace('_canvas.json.json', '_generations.json.json')
-            : file.replace('_canvas.json', '_generations.json');
-          let generationCount = 0;
-          try {
-            // @ts-ignore
-            const genContent: string | null = window.electron.loadSync(`sessions/${generationFile}`);
-            if (genContent) {
-              const genData: GenerationsData = JSON.parse(genContent as string);
-              generationCount = genData.generations.length;
-            }
-          } catch (e) {
-            // Ignore
-          }
-
-          metadata.push({
-            session_id: canvasState.session_id,
-            title: canvasState.title,
-            created_at: canvasState.created_at,
-            updated_at: canvasState.updated_at,
-            user: canvasState.user,
-            generation_count: generationCount,
-            canvas_image_count: canvasState.canvas_images.length
-          });
+          // @ts-ignore
+          const genContent: string | null = window.electron.loadSync(`sessions/${toGenerationsFile(file)}`);
+          metadata.push(toSessionMetadata(content, genContent));
         } catch (err) {
           // Ignore parse errors
         }
       }
 
       // Sort by updated_at (newest first)
-      return metadata.sort((a, b) =>
-        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
-      );
+      return sortByUpdatedAt(metadata);
     } catch (err) {
       return [];
     }
   },
 
   /**
-   * Delete a session (removes both files)
+   * Delete a session (removes generations, canvas and queue files)
    */
   deleteSession: (sessionId: string): void => {
     if (!isElectron()) return;
@@ -587,6 +921,12 @@ export const StorageServiceV2 = {
       window.electron.deleteSync(`sessions/${sessionId}_generations.json`);
       // @ts-ignore
       window.electron.deleteSync(`sessions/${sessionId}_canvas.json`);
+      // @ts-ignore
+      window.electron.deleteSync(`sessions/${sessionId}_queue.json`);
+      // @ts-ignore
+      window.electron.deleteSync(`sessions/${sessionId}_history.json`);
+      // @ts-ignore
+      window.electron.deleteSync(`sessions/${sessionId}_viewport.json`);
 
       console.log('[StorageV2] Deleted session:', sessionId);
     } catch (err) {
@@ -661,6 +1001,37 @@ export const StorageServiceV2 = {
     }
   },
 
+  // --------------------------------------------------------------------------
+  // GENERATION FIXTURES (record / replay)
+  // --------------------------------------------------------------------------
+
+  /**
+   * Save a recorded generation request/response pair
+   */
+  saveFixture: (fixture: GenerationFixture): void => {
+    if (!isElectron()) return;
+
+    // @ts-ignore
+    window.electron.saveSync(`fixtures/${fixture.key}.json`, JSON.stringify(fixture, null, 2));
+  },
+
+  /**
+   * Load a recorded fixture by request key
+   */
+  loadFixture: (key: string): GenerationFixture | null => {
+    if (!isElectron()) return null;
+
+    try {
+      // @ts-ignore
+      const content = window.electron.loadSync(`fixtures/${key}.json`);
+      if (!content) return null;
+      return JSON.parse(content);
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load fixture:', key);
+      return null;
+    }
+  },
+
   // --------------------------------------------------------------------------
   // THUMBNAILS
   // --------------------------------------------------------------------------
@@ -700,6 +1071,644 @@ export const StorageServiceV2 = {
     }
   },
 
+  // --------------------------------------------------------------------------
+  // ASYNC ACCESS (non-blocking IPC)
+  // --------------------------------------------------------------------------
+  // The UI uses these so large boards don't freeze the renderer. The sync
+  // methods above remain for migrations, the GC and saves during unload.
+
+  /**
+   * Load the global image registry without blocking
+   */
+  loadImageRegistryAsync: async (): Promise<ImageRegistry> => {
+    if (!isElectron()) {
+      throw new Error('StorageV2 is desktop-only');
+    }
+
+    try {
+      // @ts-ignore
+      const data: string | null = await window.electron.loadFile('image_registry.json');
+      if (!data) {
+        return { version: '2.0', images: {} };
+      }
+      return JSON.parse(data);
+    } catch (err) {
+      console.warn('Failed to load image registry, creating new one');
+      return { version: '2.0', images: {} };
+    }
+  },
+
+  /**
+   * Load a full-resolution image by hash without blocking
+   */
+  loadImageByHashAsync: async (hash: string): Promise<string | null> => {
+    if (!isElectron()) return null;
+
+    const loadFilenames = async () => {
+      const registry = await StorageServiceV2.loadImageRegistryAsync();
+      const filenames = new Map<string, string>();
+      Object.values(registry.images).forEach(entry => {
+        const filename = entry.file_path.split('/').pop();
+        if (filename) filenames.set(entry.hash, filename);
+      });
+      return filenames;
+    };
+
+    try {
+      if (!registryFilenames) registryFilenames = loadFilenames();
+      let filename = (await registryFilenames).get(hash);
+      if (!filename) {
+        // Registered since the cache was filled (or by another window): read the registry again
+        registryFilenames = loadFilenames();
+        filename = (await registryFilenames).get(hash);
+      }
+      if (!filename) return null;
+
+      // @ts-ignore
+      const dataUri: string | null = await window.electron.loadImage('images', filename);
+      // A missing file may mean the cached entry moved; the next load rereads the registry
+      if (!dataUri) registryFilenames = null;
+      return dataUri || null;
+    } catch (err) {
+      registryFilenames = null;
+      return null;
+    }
+  },
+
+  /**
+   * Register an image without blocking on hashing or the file write.
+   * The registry update itself happens in one synchronous step so concurrent
+   * registrations cannot overwrite each other's entries.
+   */
+  registerImageAsync: async (dataUri: string, originalName?: string, role: 'control' | 'reference' | 'output' = 'reference'): Promise<{ hash: string; entry: ImageRegistryEntry }> => {
+    // @ts-ignore
+    const info = toInspection(await window.electron.inspectImage(stripDataUriHeader(dataUri)));
+
+    const existing = StorageServiceV2.getImageByHash(info.hash);
+    if (existing) {
+      console.log('[StorageV2] Image already registered:', info.hash);
+      return { hash: info.hash, entry: existing };
+    }
+
+    const { filename, entry } = createRegistryEntry(dataUri, info, originalName, role);
+    // @ts-ignore
+    const saved = await window.electron.saveImage('images', filename, stripDataUriHeader(dataUri));
+    if (!saved?.success) {
+      throw new Error(saved?.error || `Failed to write ${filename}`);
+    }
+
+    const registry = StorageServiceV2.loadImageRegistry();
+    if (registry.images[info.hash]) {
+      // Registered by a concurrent call while the file was written; the extra copy is left for the GC
+      return { hash: info.hash, entry: registry.images[info.hash] };
+    }
+    registry.images[info.hash] = entry;
+    StorageServiceV2.saveImageRegistry(registry);
+
+    console.log('[StorageV2] Registered new image:', info.hash, entry.file_path);
+    return { hash: info.hash, entry };
+  },
+
+  /**
+   * Save the layered document an edited image was flattened from (edit_documents/{hash}.json)
+   */
+  saveEditDocumentAsync: async (hash: string, document: EditDocument): Promise<void> => {
+    if (!isElectron()) return;
+
+    // @ts-ignore
+    const saved: boolean = await window.electron.saveFile(`edit_documents/${hash}.json`, JSON.stringify(document));
+    if (!saved) {
+      throw new Error(`Failed to save the edit document for ${hash}`);
+    }
+  },
+
+  /**
+   * Load the layered document saved for an image, if it was edited in layers
+   */
+  loadEditDocumentAsync: async (hash: string): Promise<EditDocument | null> => {
+    if (!isElectron()) return null;
+
+    try {
+      // @ts-ignore
+      const content: string | null = await window.electron.loadFile(`edit_documents/${hash}.json`);
+      if (!content) return null;
+
+      const document = parseEditDocument(JSON.parse(content));
+      if (!document) {
+        console.warn('[StorageV2] Ignoring malformed edit document:', hash);
+      }
+      return document;
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load edit document:', hash);
+      return null;
+    }
+  },
+
+  /**
+   * Load canvas state for a session without blocking
+   */
+  loadCanvasStateAsync: async (sessionId: string): Promise<CanvasStateData | null> => {
+    if (!isElectron()) return null;
+
+    try {
+      // @ts-ignore
+      const content: string | null = await window.electron.loadFile(`sessions/${sessionId}_canvas.json`);
+      if (!content) return null;
+
+      return JSON.parse(content);
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load canvas state:', sessionId);
+      return null;
+    }
+  },
+
+  /**
+   * Load the viewport file of a session without blocking
+   */
+  loadViewportAsync: async (sessionId: string): Promise<ViewportData | null> => {
+    if (!isElectron()) return null;
+
+    try {
+      // @ts-ignore
+      const content: string | null = await window.electron.loadFile(`sessions/${sessionId}_viewport.json`);
+      return content ? parseViewportData(content) : null;
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load viewport:', sessionId);
+      return null;
+    }
+  },
+
+  /**
+   * Load generations for a session without blocking
+   */
+  loadGenerationsAsync: async (sessionId: string): Promise<MixboardGeneration[]> => {
+    if (!isElectron()) return [];
+
+    try {
+      // @ts-ignore
+      const content: string | null = await window.electron.loadFile(`sessions/${sessionId}_generations.json`);
+      if (!content) return [];
+
+      const data: GenerationsData = JSON.parse(content);
+      return data.generations || [];
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load generations:', sessionId);
+      return [];
+    }
+  },
+
+  /**
+   * Load a session without its full-resolution images.
+   * Canvas images carry their hash (imageMetaId) and thumbnailPath; callers show
+   * thumbnails first and fetch originals on demand with loadImageByHashAsync.
+   */
+  loadSessionAsync: async (sessionId: string): Promise<MixboardSession | null> => {
+    const [canvasState, generations, storedViewport] = await Promise.all([
+      StorageServiceV2.loadCanvasStateAsync(sessionId),
+      StorageServiceV2.loadGenerationsAsync(sessionId),
+      StorageServiceV2.loadViewportAsync(sessionId)
+    ]);
+    if (!canvasState) return null;
+    const viewportState = storedViewport || canvasState;
+
+    return {
+      session_id: sessionId,
+      title: canvasState.title,
+      created_at: canvasState.created_at,
+      updated_at: canvasState.updated_at,
+      generations,
+      canvas_images: canvasState.canvas_images.map(img => toCanvasImage(img)),
+      viewport: toViewport(viewportState),
+      saved_viewports: viewportState.saved_viewports || [],
+      user: canvasState.user
+    };
+  },
+
+  /**
+   * Save a complete session without blocking (registers new canvas images first).
+   * `history` is the undo/redo history of exactly this canvas; without it the
+   * saved history no longer matches and is dropped on the next load.
+   */
+  saveSessionAsync: (session: MixboardSession, history?: { commands: CanvasCommand[]; position: number }): Promise<void> => {
+    if (!isElectron()) return Promise.resolve();
+
+    // Saves of one session are chained so an older snapshot never lands after a newer one
+    const previous = pendingSessionSaves.get(session.session_id) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const revision = await StorageServiceV2.writeSessionAsync(session);
+        if (history) {
+          await StorageServiceV2.writeCanvasHistoryAsync(session.session_id, history.commands, history.position, revision);
+        }
+      });
+    pendingSessionSaves.set(session.session_id, next);
+    return next;
+  },
+
+  /**
+   * Write a session (see saveSessionAsync, which orders concurrent saves)
+   */
+  writeSessionAsync: async (session: MixboardSession): Promise<string | undefined> => {
+    const registry = await StorageServiceV2.loadImageRegistryAsync();
+
+    const canvasStateImages: StoredCanvasImage[] = [];
+    for (const img of session.canvas_images) {
+      let imageHash = img.imageMetaId || ''; // Try to reuse existing hash
+
+      // Register images that have data but no (valid) registry reference
+      const needsRegistration = imageHash
+        ? !registry.images[imageHash]
+        : !img.type || img.type === 'image';
+      if (img.dataUri && needsRegistration) {
+        const { hash } = await StorageServiceV2.registerImageAsync(img.dataUri, undefined, 'reference');
+        imageHash = hash;
+      }
+
+      canvasStateImages.push(toStoredCanvasImage(img, imageHash));
+    }
+
+    const canvasState = buildCanvasState(session, canvasStateImages);
+    const generationsData: GenerationsData = {
+      version: '2.0',
+      session_id: session.session_id,
+      generations: session.generations
+    };
+
+    await Promise.all([
+      // @ts-ignore
+      window.electron.saveFile(`sessions/${session.session_id}_canvas.json`, JSON.stringify(canvasState, null, 2)),
+      // @ts-ignore
+      window.electron.saveFile(`sessions/${session.session_id}_generations.json`, JSON.stringify(generationsData, null, 2))
+    ]);
+    return canvasState.revision;
+  },
+
+  /**
+   * Persist only the viewport and saved viewports of a session ({sessionId}_viewport.json).
+   * Queued behind pending saves of the same session; the canvas file is not read or written.
+   */
+  saveViewportAsync: (sessionId: string, viewport: CanvasViewport, savedViewports: SavedViewport[]): Promise<void> => {
+    if (!isElectron()) return Promise.resolve();
+
+    const data: ViewportData = {
+      version: '2.0',
+      session_id: sessionId,
+      zoom: viewport.zoom,
+      panOffset: viewport.panOffset,
+      saved_viewports: savedViewports
+    };
+    const previous = pendingSessionSaves.get(sessionId) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        // @ts-ignore
+        await window.electron.saveFile(`sessions/${sessionId}_viewport.json`, JSON.stringify(data, null, 2));
+      });
+    pendingSessionSaves.set(sessionId, next);
+    return next;
+  },
+
+  /**
+   * Load the saved undo/redo history for a session without blocking.
+   * Returns null when the canvas was written after the history (its steps
+   * would be replayed against entities they never saw).
+   */
+  loadCanvasHistoryAsync: async (sessionId: string): Promise<CanvasHistoryData | null> => {
+    if (!isElectron()) return null;
+
+    try {
+      const [content, canvasState] = await Promise.all([
+        // @ts-ignore
+        window.electron.loadFile(`sessions/${sessionId}_history.json`) as Promise<string | null>,
+        StorageServiceV2.loadCanvasStateAsync(sessionId)
+      ]);
+      const history = content ? parseCanvasHistory(content) : null;
+      if (history && history.canvas_revision !== canvasState?.revision) {
+        console.log('[StorageV2] Dropping canvas history saved for another canvas revision:', sessionId);
+        return null;
+      }
+      return history;
+    } catch (err) {
+      console.warn('[StorageV2] Failed to load canvas history:', sessionId);
+      return null;
+    }
+  },
+
+  /**
+   * Write undo/redo history for the canvas revision just written (see
+   * saveSessionAsync). Images the history still holds as data (deleted before
+   * they were saved, or replaced by an edit) are registered so the steps can be
+   * replayed after a reload.
+   */
+  writeCanvasHistoryAsync: async (sessionId: string, commands: CanvasCommand[], position: number, canvasRevision?: string): Promise<void> => {
+    const hashes = new Map<string, string>();
+    const toReference = async (dataUri: unknown, imageMetaId: unknown): Promise<string | null> => {
+      if (typeof imageMetaId === 'string' && imageMetaId) return imageMetaId;
+      if (typeof dataUri !== 'string' || !dataUri.startsWith('data:image/')) return null;
+      if (!hashes.has(dataUri)) {
+        hashes.set(dataUri, (await StorageServiceV2.registerImageAsync(dataUri, undefined, 'reference')).hash);
+      }
+      return hashes.get(dataUri)!;
+    };
+    const storeImage = async ({ dataUri, thumbnailUri, ...image }: CanvasImage): Promise<CanvasImage> => {
+      const imageMetaId = await toReference(dataUri, image.imageMetaId);
+      return imageMetaId ? { ...image, imageMetaId } : image;
+    };
+    const storeValues = async (values: Record<string, unknown>): Promise<Record<string, unknown>> => {
+      if (!('imageMetaId' in values)) return values;
+      // Edits overwrite the thumbnail file, so replaced images are reloaded by hash
+      const imageMetaId = await toReference(values.dataUri, values.imageMetaId);
+      return { ...values, imageMetaId, dataUri: null, thumbnailUri: null, thumbnailPath: null };
+    };
+
+    const storedCommands: CanvasCommand[] = [];
+    for (const command of commands) {
+      storedCommands.push({
+        ...command,
+        added: await Promise.all(command.added.map(async ({ index, image }) => ({ index, image: await storeImage(image) }))),
+        removed: await Promise.all(command.removed.map(async ({ index, image }) => ({ index, image: await storeImage(image) }))),
+        changed: await Promise.all(command.changed.map(async patch => ({
+          id: patch.id,
+          before: await storeValues(patch.before),
+          after: await storeValues(patch.after)
+        })))
+      });
+    }
+
+    const data: CanvasHistoryData = {
+      version: '2.0',
+      session_id: sessionId,
+      canvas_revision: canvasRevision,
+      position,
+      commands: storedCommands
+    };
+    // @ts-ignore
+    await window.electron.saveFile(`sessions/${sessionId}_history.json`, JSON.stringify(data));
+  },
+
+  /**
+   * List all sessions (metadata only) without blocking
+   */
+  listSessionsAsync: async (): Promise<SessionMetadata[]> => {
+    if (!isElectron()) return [];
+
+    try {
+      // @ts-ignore
+      const files: string[] = await window.electron.listFiles('sessions/');
+
+      const metadata = await Promise.all(files.filter(isCanvasFile).map(async file => {
+        try {
+          const [content, genContent]: Array<string | null> = await Promise.all([
+            // @ts-ignore
+            window.electron.loadFile(`sessions/${file}`),
+            // @ts-ignore
+            window.electron.loadFile(`sessions/${toGenerationsFile(file)}`)
+          ]);
+          return content ? toSessionMetadata(content, genContent) : null;
+        } catch (err) {
+          // Ignore parse errors
+          return null;
+        }
+      }));
+
+      return sortByUpdatedAt(metadata.filter((meta): meta is SessionMetadata => meta !== null));
+    } catch (err) {
+      return [];
+    }
+  },
+
+  // --------------------------------------------------------------------------
+  // BACKUP RECOVERY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Recoveries that happened before the UI subscribed (e.g. during startup loads)
+   */
+  takeRecoveries: async (): Promise<StorageRecovery[]> => {
+    if (!isElectron()) return [];
+
+    try {
+      // @ts-ignore
+      return (await window.electron.takeStorageRecoveries()) || [];
+    } catch (err) {
+      return [];
+    }
+  },
+
+  /**
+   * Subscribe to recoveries as they happen
+   */
+  onRecovered: (callback: (recovery: StorageRecovery) => void): void => {
+    if (!isElectron()) return;
+    // @ts-ignore
+    window.electron.onStorageRecovered?.(callback);
+  },
+
+  // --------------------------------------------------------------------------
+  // GARBAGE COLLECTION
+  // --------------------------------------------------------------------------
+
+  /**
+   * Scan every session's canvas, generations and queue for image hashes and
+   * thumbnail paths, and report registry images and thumbnails nothing uses.
+   * Does not modify anything.
+   */
+  scanStorageGarbage: (): StorageGcReport => {
+    const report: StorageGcReport = {
+      scanned_at: new Date().toISOString(),
+      sessions_scanned: 0,
+      images: { count: 0, bytes: 0 },
+      thumbnails: { count: 0, bytes: 0 },
+      unreferenced_images: [],
+      orphaned_thumbnails: [],
+      reclaimable_bytes: 0,
+      unreadable_files: []
+    };
+    if (!isElectron()) return report;
+
+    // A file that exists but does not parse (even after the backup fallback) would
+    // make every image it references look unused: refuse to report anything then
+    const isReadable = (path: string) => {
+      try {
+        // @ts-ignore
+        const content: string | null = window.electron.loadSync(path);
+        if (content === null) return false;
+        JSON.parse(content);
+        return true;
+      } catch (err) {
+        return false;
+      }
+    };
+    // @ts-ignore
+    const sessionFiles: string[] = window.electron.listFilesSync('sessions/') || [];
+    sessionFiles
+      .filter(file => SESSION_FILE_PATTERN.test(file))
+      .forEach(file => {
+        if (!isReadable(`sessions/${file}`)) report.unreadable_files.push(`sessions/${file}`);
+      });
+
+    // @ts-ignore
+    const imageFiles: Array<{ path: string; sizeBytes: number; modifiedAt: string }> = window.electron.listStorageFilesSync('images');
+    // Without the registry no image file can be matched to its hash
+    if (imageFiles.length > 0 && !isReadable('image_registry.json')) {
+      report.unreadable_files.push('image_registry.json');
+    }
+    if (report.unreadable_files.length > 0) {
+      console.warn('[StorageV2] GC scan stopped, unreadable files:', report.unreadable_files);
+      return report;
+    }
+
+    // Reference counting over all sessions
+    const hashRefs = new Map<string, number>();
+    const thumbnailRefs = new Set<string>();
+    const addHash = (hash?: string) => {
+      if (hash) hashRefs.set(hash, (hashRefs.get(hash) || 0) + 1);
+    };
+    const addThumbnail = (thumbnailPath?: string) => {
+      if (thumbnailPath) thumbnailRefs.add(normalizeStoragePath(thumbnailPath));
+    };
+    const addVersions = (versions?: ImageVersion[]) => {
+      versions?.forEach(version => {
+        addHash(version.hash);
+        addThumbnail(version.thumbnailPath);
+      });
+    };
+
+    StorageServiceV2.listSessions().forEach(({ session_id }) => {
+      report.sessions_scanned++;
+
+      StorageServiceV2.loadCanvasState(session_id)?.canvas_images.forEach(img => {
+        addHash(img.imageHash);
+        addThumbnail(img.thumbnailPath);
+        addVersions(img.versions);
+      });
+
+      StorageServiceV2.loadGenerations(session_id).forEach(gen => {
+        [...(gen.input_images || []), ...(gen.output_images || [])].forEach(meta => {
+          addHash(meta.hash || meta.id);
+          addThumbnail(meta.thumbnailPath);
+        });
+        gen.canvas_state?.images.forEach(img => {
+          addHash(img.imageMetaId);
+          addThumbnail(img.thumbnailPath);
+          addVersions(img.versions);
+        });
+      });
+
+      StorageServiceV2.loadGenerationQueue(session_id).forEach(job => {
+        job.inputs.forEach(input => addHash(input.hash));
+        job.result?.output_hashes.forEach(addHash);
+      });
+
+      // Undo can bring deleted and replaced images back
+      StorageServiceV2.loadCanvasHistory(session_id)?.commands.forEach(command => {
+        [...command.added, ...command.removed].forEach(({ image }) => {
+          addHash(image.imageMetaId);
+          addThumbnail(image.thumbnailPath);
+          addVersions(image.versions);
+        });
+        command.changed.forEach(patch => {
+          [patch.before.imageMetaId, patch.after.imageMetaId].forEach(hash => {
+            if (typeof hash === 'string') addHash(hash);
+          });
+          [patch.before.thumbnailPath, patch.after.thumbnailPath].forEach(path => {
+            if (typeof path === 'string') addThumbnail(path);
+          });
+          [patch.before.versions, patch.after.versions].forEach(versions => {
+            if (Array.isArray(versions)) addVersions(versions);
+          });
+        });
+      });
+    });
+
+    const registry = StorageServiceV2.loadImageRegistry();
+    const hashByPath = new Map<string, string>();
+    Object.values(registry.images).forEach(entry => {
+      hashByPath.set(normalizeStoragePath(entry.file_path), entry.hash);
+    });
+
+    const cutoff = Date.now() - GC_GRACE_PERIOD_MS;
+    const isCollectable = (file: StorageFileInfo) => new Date(file.modified_at).getTime() < cutoff;
+
+    imageFiles.forEach(file => {
+      const info: StorageFileInfo = { path: file.path, size_bytes: file.sizeBytes, modified_at: file.modifiedAt };
+      report.images.count++;
+      report.images.bytes += info.size_bytes;
+
+      // Files without a registry entry are unreachable too
+      const hash = hashByPath.get(info.path);
+      if (hash && hashRefs.has(hash)) return;
+      if (!isCollectable(info)) return;
+
+      report.unreferenced_images.push({ ...info, hash });
+      report.reclaimable_bytes += info.size_bytes;
+    });
+
+    // @ts-ignore
+    const thumbnailFiles: Array<{ path: string; sizeBytes: number; modifiedAt: string }> = window.electron.listStorageFilesSync('thumbnails');
+    thumbnailFiles.forEach(file => {
+      const info: StorageFileInfo = { path: file.path, size_bytes: file.sizeBytes, modified_at: file.modifiedAt };
+      report.thumbnails.count++;
+      report.thumbnails.bytes += info.size_bytes;
+
+      if (thumbnailRefs.has(info.path) || !isCollectable(info)) return;
+
+      report.orphaned_thumbnails.push(info);
+      report.reclaimable_bytes += info.size_bytes;
+    });
+
+    return report;
+  },
+
+  /**
+   * Delete (or move to archive/gc_{timestamp}/) the files listed in a report.
+   * The scan is repeated first so anything referenced since the dry run is kept.
+   */
+  collectStorageGarbage: (report: StorageGcReport, mode: StorageGcMode = 'delete'): { removed: number; freed_bytes: number; errors: string[] } => {
+    const result = { removed: 0, freed_bytes: 0, errors: [] as string[] };
+    if (!isElectron()) return result;
+
+    const fresh = StorageServiceV2.scanStorageGarbage();
+    if (fresh.unreadable_files.length > 0) {
+      result.errors.push(...fresh.unreadable_files.map(path => `${path}: could not be read, nothing was removed`));
+      return result;
+    }
+    const stillUnused = new Set([...fresh.unreferenced_images, ...fresh.orphaned_thumbnails].map(file => file.path));
+    const archiveFolder = mode === 'archive' ? `archive/gc_${Date.now()}` : undefined;
+
+    const registry = StorageServiceV2.loadImageRegistry();
+    let registryChanged = false;
+
+    [...report.unreferenced_images, ...report.orphaned_thumbnails].forEach(file => {
+      if (!stillUnused.has(file.path)) return;
+
+      // @ts-ignore
+      const removal = window.electron.removeStorageFileSync(file.path, archiveFolder);
+      if (!removal?.success) {
+        result.errors.push(`${file.path}: ${removal?.error || 'unknown error'}`);
+        return;
+      }
+
+      if (file.hash && registry.images[file.hash]) {
+        delete registry.images[file.hash];
+        registryChanged = true;
+        // The layered document of an edited image goes with it (a no-op when there is none)
+        // @ts-ignore
+        window.electron.removeStorageFileSync(`edit_documents/${file.hash}.json`, archiveFolder);
+      }
+      result.removed++;
+      result.freed_bytes += file.size_bytes;
+    });
+
+    if (registryChanged) {
+      StorageServiceV2.saveImageRegistry(registry);
+    }
+
+    console.log(`[StorageV2] GC ${mode}: removed ${result.removed} files, freed ${result.freed_bytes} bytes`);
+    return result;
+  },
+
   /**
    * Check if running in Electron environment
    */
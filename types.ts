@@ -40,7 +40,7 @@ export interface UploadedImagePayload {
 export interface SessionGeneration {
   generation_id: string;
   timestamp: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'queued' | 'pending' | 'completed' | 'failed' | 'cancelled';
 
   // Inputs
   prompt: string;
@@ -99,6 +99,7 @@ export interface GenerationConfig {
   image_size: string;
   safety_filter: string;
   model: string;
+  provider?: string;  // Image provider id (see ProviderRegistry); defaults to 'gemini'
 }
 
 export interface GraphNode {
@@ -119,6 +120,8 @@ export interface GraphEdge {
   to: string;
   toHandle?: 'prompt' | 'control' | 'reference';
   color: string;
+  label?: string;     // Drawn at the middle of the edge
+  dashed?: boolean;
 }
 
 export interface GraphState {
@@ -186,10 +189,11 @@ export interface LogEntry {
 /**
  * Canvas image representation in Mixboard.
  * Tracks position, size, and relationship to generations.
+ * Array order in a canvas is the stacking order (first = bottom, last = top).
  */
 export interface CanvasImage {
   id: string;                      // Unique canvas image ID
-  type?: 'image' | 'text' | 'board'; // Entity type (default: 'image')
+  type?: 'image' | 'text' | 'board' | 'frame'; // Entity type (default: 'image')
   dataUri?: string;                // Base64 image data (for images) - full resolution
   thumbnailUri?: string;           // Base64 thumbnail data (for canvas display) - loaded from disk
   thumbnailPath?: string;          // Path to thumbnail file on disk (for Electron storage)
@@ -198,7 +202,10 @@ export interface CanvasImage {
   fontWeight?: 'normal' | 'bold';  // Font weight (for text)
   fontStyle?: 'normal' | 'italic'; // Font style (for text)
   fontFamily?: string;             // Font family (for text)
-  backgroundColor?: string;        // Background color (for board entities)
+  backgroundColor?: string;        // Background color (for board and frame entities)
+  name?: string;                   // Frame name (for frame entities)
+  framePreset?: string;            // Size preset the frame was created from (see FRAME_PRESETS)
+  frameId?: string;                // Owning frame: clipped to it and moved/deleted with it
   tag?: 'control' | 'reference';   // User-assigned tag for images
   x: number;                       // Canvas X position
   y: number;                       // Canvas Y position
@@ -209,6 +216,134 @@ export interface CanvasImage {
   originalHeight: number;          // Original image height / text box height
   generationId?: string;           // Parent generation ID (if generated)
   imageMetaId?: string;            // Link to StoredImageMeta for persistence
+  groupId?: string;                // Entities sharing a group are selected, moved and scaled together
+  locked?: boolean;                // Ignores pointer input on the canvas
+  hidden?: boolean;                // Not drawn and not selectable
+  versions?: ImageVersion[];       // Manual edit history, oldest first (the current one matches imageMetaId)
+  controlSource?: ControlSource;   // Image this control map was derived from
+}
+
+export type ControlPreprocessor = 'canny' | 'sobel' | 'lineart' | 'posterize' | 'depth';
+
+/**
+ * Link from a derived control map to the canvas image it was computed from
+ */
+export interface ControlSource {
+  imageId: string;                 // Canvas image ID of the source
+  preprocessor: ControlPreprocessor;
+  created_at: string;
+}
+
+/**
+ * One saved state of a canvas image. Saving from the edit modal adds a version
+ * instead of replacing the image, so earlier versions can be restored.
+ */
+export interface ImageVersion {
+  hash: string;                    // Reference to image_registry
+  parent_hash?: string;            // Version this one was edited from
+  source: 'original' | 'edit';
+  created_at: string;
+  thumbnailPath?: string;
+  width?: number;                  // Full-resolution size, so switching versions can restore the aspect
+  height?: number;
+}
+
+export type EditLayerBlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'difference';
+
+export interface EditTextContent {
+  content: string;                 // Lines separated by \n
+  x: number;                       // Anchor (top-left of the first line), document pixels
+  y: number;
+  fontSize: number;
+  fontFamily: string;
+  color: string;
+  bold: boolean;
+  matrix: [number, number, number, number];  // Rotation/flip applied around the anchor (canvas a, b, c, d)
+}
+
+export interface EditLayer {
+  id: string;
+  name: string;
+  kind: 'image' | 'paint' | 'text';
+  visible: boolean;
+  opacity: number;                 // 0-1
+  blendMode: EditLayerBlendMode;
+  dataUri?: string;                // PNG of an image or paint layer (document size)
+  text?: EditTextContent;          // Text layers are re-rendered from this
+}
+
+/**
+ * Layered document behind an edited image, saved next to the flattened result
+ * so the edit can be reopened with its layers instead of the flat pixels.
+ */
+export interface EditDocument {
+  version: 1;
+  width: number;
+  height: number;
+  layers: EditLayer[];             // Bottom first
+  updated_at: string;
+}
+
+/**
+ * Undoable canvas change.
+ * Records only what differs between two canvas states; `null` in a patch means the field was unset.
+ */
+export type CanvasCommandKind =
+  | 'add'
+  | 'delete'
+  | 'move'
+  | 'resize'
+  | 'tag'
+  | 'edit-text'
+  | 'edit-image'
+  | 'generate'
+  | 'reorder'
+  | 'group'
+  | 'lock'
+  | 'visibility'
+  | 'edit';
+
+export interface CanvasImagePatch {
+  id: string;                               // Canvas image ID
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+export interface CanvasCommand {
+  id: string;
+  kind: CanvasCommandKind;
+  label: string;                            // Shown in the history panel
+  timestamp: string;
+  added: Array<{ index: number; image: CanvasImage }>;
+  removed: Array<{ index: number; image: CanvasImage }>;
+  changed: CanvasImagePatch[];
+  order?: { before: string[]; after: string[] }; // Only when the stacking order changed
+}
+
+/**
+ * Canvas viewport (zoom level and screen-space pan offset).
+ */
+export interface CanvasViewport {
+  zoom: number;
+  panOffset: { x: number; y: number };
+}
+
+/**
+ * Named viewport the user can jump back to.
+ */
+export interface SavedViewport extends CanvasViewport {
+  id: string;
+  name: string;
+  created_at: string;
 }
 
 /**
@@ -218,7 +353,7 @@ export interface CanvasImage {
 export interface MixboardGeneration {
   generation_id: string;
   timestamp: string;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'queued' | 'pending' | 'completed' | 'failed' | 'cancelled';
 
   // Inputs
   prompt: string;
@@ -242,6 +377,9 @@ export interface MixboardGeneration {
 
   // Lineage tracking for graph view
   parent_generation_ids?: string[];  // IDs of generations that created input images
+
+  // Inpainting: hash of the mask among input_images (the other input is the source image)
+  mask_image_id?: string;
 }
 
 /**
@@ -255,6 +393,8 @@ export interface MixboardSession {
   updated_at: string;
   generations: MixboardGeneration[];
   canvas_images: CanvasImage[];      // Current canvas state
+  viewport?: CanvasViewport;         // Last zoom/pan, restored when the session opens
+  saved_viewports?: SavedViewport[]; // Named viewports (bookmarks)
   user?: {
     displayName: string;
     id: string;
@@ -262,5 +402,42 @@ export interface MixboardSession {
   graph?: GraphState;                // Optional graph state
 }
 
+/**
+ * Queued generation request.
+ * Persisted per session so unfinished work survives an app restart.
+ */
+export interface GenerationJob {
+  job_id: string;
+  session_id: string;
+  generation_id: string;             // MixboardGeneration this job fulfils
+  mode: 'image' | 'text' | 'inpaint';  // Inpaint inputs are [source, mask]
+  status: 'queued' | 'pending' | 'completed' | 'failed' | 'cancelled';
+  created_at: string;
+  updated_at: string;
+  started_at?: string;               // Start of the latest attempt
+  completed_at?: string;
+
+  // Request
+  prompt: string;
+  parameters: GenerationConfig;
+  inputs: Array<{
+    hash: string;                    // Reference to image_registry
+    tag?: 'control' | 'reference';   // Untagged inputs are sent as context
+  }>;
+  user_name?: string;
+  variations?: number;               // Parallel image calls grouped under one generation (default 1)
+
+  // Retry bookkeeping
+  attempts: number;
+  next_attempt_at?: string;          // Backoff deadline for the next retry
+  error_message?: string;
+
+  // Outputs (registered in image_registry before the job completes)
+  result?: {
+    output_hashes: string[];
+    output_texts: string[];
+  };
+}
+
 // Type alias for ImageMeta (used throughout the codebase)
 export type ImageMeta = StoredImageMeta;
@@ -0,0 +1,18 @@
+/**
+ * Web Worker running control preprocessors off the UI thread
+ * (message protocol in services/controlPreprocessing.ts)
+ */
+
+import { runControlPreprocessor } from './controlPreprocessors';
+import type { ControlPreprocessorRequest, ControlPreprocessorResponse } from '../services/controlPreprocessing';
+
+self.onmessage = (event: MessageEvent<ControlPreprocessorRequest>) => {
+  const { id, type, width, height, data } = event.data;
+  let response: ControlPreprocessorResponse;
+  try {
+    response = { id, data: runControlPreprocessor(type, data, width, height) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response, { transfer: response.data ? [response.data.buffer] : [] });
+};
@@ -0,0 +1,233 @@
+/**
+ * Structural preprocessors for control images (CPU, no DOM)
+ *
+ * Turn image pixels into conditioning maps: edges, line art, flat color
+ * regions or a rough depth map. Everything works on plain RGBA arrays so it
+ * can run in a Web Worker (see services/controlPreprocessing.ts).
+ */
+
+import type { ControlPreprocessor } from '../types';
+
+export const CONTROL_PREPROCESSORS: Array<{ id: ControlPreprocessor; label: string; description: string }> = [
+  { id: 'canny', label: 'Canny Edges', description: 'Thin, connected edges (white on black)' },
+  { id: 'sobel', label: 'Sobel Edges', description: 'Edge strength, soft (white on black)' },
+  { id: 'lineart', label: 'Line Art', description: 'Dark outlines on white' },
+  { id: 'posterize', label: 'Posterize', description: 'Flat color regions' },
+  { id: 'depth', label: 'Depth (Approx.)', description: 'Brightness-based depth, near is white' }
+];
+
+// Canny thresholds, relative to the strongest gradient in the image
+const CANNY_HIGH_RATIO = 0.2;
+const CANNY_LOW_RATIO = 0.08;
+const LINEART_BLUR_RADIUS = 2;
+const LINEART_GAIN = 6;
+const POSTERIZE_LEVELS = 4;
+// Depth: blur radius as a fraction of the longer side, and weight of the "lower is nearer" prior
+const DEPTH_BLUR_FRACTION = 1 / 48;
+const DEPTH_POSITION_WEIGHT = 0.4;
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+const clampIndex = (index: number, length: number) => (index < 0 ? 0 : index >= length ? length - 1 : index);
+
+const toLuminance = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Box blur of a single-channel image (one pass per direction, edges clamped)
+ */
+const blurGray = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  if (radius < 1) return values;
+  const size = radius * 2 + 1;
+  const rows = new Float32Array(values.length);
+  const output = new Float32Array(values.length);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += values[row + clampIndex(i, width)];
+    for (let x = 0; x < width; x++) {
+      rows[row + x] = sum / size;
+      sum += values[row + clampIndex(x + radius + 1, width)] - values[row + clampIndex(x - radius, width)];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += rows[clampIndex(i, height) * width + x];
+    for (let y = 0; y < height; y++) {
+      output[y * width + x] = sum / size;
+      sum += rows[clampIndex(y + radius + 1, height) * width + x] - rows[clampIndex(y - radius, height) * width + x];
+    }
+  }
+  return output;
+};
+
+/**
+ * Sobel gradients of a single-channel image
+ */
+const sobel = (gray: Float32Array, width: number, height: number) => {
+  const gx = new Float32Array(gray.length);
+  const gy = new Float32Array(gray.length);
+  const magnitude = new Float32Array(gray.length);
+  let max = 0;
+
+  for (let y = 0; y < height; y++) {
+    const up = clampIndex(y - 1, height) * width;
+    const row = y * width;
+    const down = clampIndex(y + 1, height) * width;
+    for (let x = 0; x < width; x++) {
+      const left = clampIndex(x - 1, width);
+      const right = clampIndex(x + 1, width);
+      const dx =
+        gray[up + right] + 2 * gray[row + right] + gray[down + right] -
+        gray[up + left] - 2 * gray[row + left] - gray[down + left];
+      const dy =
+        gray[down + left] + 2 * gray[down + x] + gray[down + right] -
+        gray[up + left] - 2 * gray[up + x] - gray[up + right];
+      const i = row + x;
+      gx[i] = dx;
+      gy[i] = dy;
+      magnitude[i] = Math.hypot(dx, dy);
+      if (magnitude[i] > max) max = magnitude[i];
+    }
+  }
+  return { gx, gy, magnitude, max };
+};
+
+/**
+ * Opaque RGBA from single-channel values (0..255)
+ */
+const grayToRgba = (values: ArrayLike<number>): Uint8ClampedArray => {
+  const output = new Uint8ClampedArray(values.length * 4);
+  for (let i = 0; i < values.length; i++) {
+    const value = clampByte(values[i]);
+    output[i * 4] = value;
+    output[i * 4 + 1] = value;
+    output[i * 4 + 2] = value;
+    output[i * 4 + 3] = 255;
+  }
+  return output;
+};
+
+const sobelEdges = (data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const { magnitude, max } = sobel(blurGray(toLuminance(data, width, height), width, height, 1), width, height);
+  const scale = max > 0 ? 255 / max : 0;
+  return grayToRgba(magnitude.map(value => value * scale));
+};
+
+/**
+ * Canny: smoothed gradients, thinned to one pixel across (non-maximum
+ * suppression), then strong edges extended through connected weak ones
+ */
+const cannyEdges = (data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const { gx, gy, magnitude, max } = sobel(blurGray(toLuminance(data, width, height), width, height, 2), width, height);
+  const high = max * CANNY_HIGH_RATIO;
+  const low = max * CANNY_LOW_RATIO;
+
+  // 0 = none, 1 = weak, 2 = strong
+  const edges = new Uint8Array(magnitude.length);
+  const stack: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = magnitude[i];
+      if (value < low) continue;
+
+      // Compare with the neighbours along the gradient direction (rounded to 45°)
+      const angle = ((Math.atan2(gy[i], gx[i]) * 180) / Math.PI + 180) % 180;
+      let offset: number;
+      if (angle < 22.5 || angle >= 157.5) offset = 1;
+      else if (angle < 67.5) offset = width + 1;
+      else if (angle < 112.5) offset = width;
+      else offset = width - 1;
+      if (value < magnitude[i - offset] || value <= magnitude[i + offset]) continue;
+
+      edges[i] = value >= high ? 2 : 1;
+      if (edges[i] === 2) stack.push(i);
+    }
+  }
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    for (const offset of [-width - 1, -width, -width + 1, -1, 1, width - 1, width, width + 1]) {
+      if (edges[i + offset] === 1) {
+        edges[i + offset] = 2;
+        stack.push(i + offset);
+      }
+    }
+  }
+  return grayToRgba(Array.from(edges, value => (value === 2 ? 255 : 0)));
+};
+
+/**
+ * Line art: pixels darker than their surroundings become dark strokes
+ */
+const lineArt = (data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const gray = toLuminance(data, width, height);
+  const surroundings = blurGray(gray, width, height, LINEART_BLUR_RADIUS);
+  return grayToRgba(gray.map((value, i) => 255 - Math.max(0, surroundings[i] - value) * LINEART_GAIN));
+};
+
+const posterize = (data: Uint8ClampedArray): Uint8ClampedArray => {
+  const step = 255 / (POSTERIZE_LEVELS - 1);
+  const output = new Uint8ClampedArray(data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    output[i] = Math.round(data[i] / step) * step;
+    output[i + 1] = Math.round(data[i + 1] / step) * step;
+    output[i + 2] = Math.round(data[i + 2] / step) * step;
+    output[i + 3] = 255;
+  }
+  return output;
+};
+
+/**
+ * Rough depth: smoothed brightness (lit surfaces tend to face the viewer)
+ * mixed with vertical position (lower in the frame tends to be nearer),
+ * stretched to the full range
+ */
+const approximateDepth = (data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray => {
+  const radius = Math.max(1, Math.round(Math.max(width, height) * DEPTH_BLUR_FRACTION));
+  const brightness = blurGray(blurGray(toLuminance(data, width, height), width, height, radius), width, height, radius);
+  const depth = brightness.map((value, i) => {
+    const position = height > 1 ? (Math.floor(i / width) / (height - 1)) * 255 : 0;
+    return value * (1 - DEPTH_POSITION_WEIGHT) + position * DEPTH_POSITION_WEIGHT;
+  });
+
+  let min = Infinity;
+  let max = -Infinity;
+  depth.forEach(value => {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  });
+  const scale = max > min ? 255 / (max - min) : 0;
+  return grayToRgba(depth.map(value => (value - min) * scale));
+};
+
+/**
+ * Run a preprocessor on RGBA pixels
+ *
+ * @returns Opaque RGBA pixels of the same size
+ */
+export function runControlPreprocessor(
+  type: ControlPreprocessor,
+  data: Uint8ClampedArray,
+  width: number,
+  height: number
+): Uint8ClampedArray {
+  switch (type) {
+    case 'canny':
+      return cannyEdges(data, width, height);
+    case 'sobel':
+      return sobelEdges(data, width, height);
+    case 'lineart':
+      return lineArt(data, width, height);
+    case 'posterize':
+      return posterize(data);
+    case 'depth':
+      return approximateDepth(data, width, height);
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Layered edit documents (see EditDocument)
+ *
+ * While the edit modal is open every layer lives in its own canvas of the
+ * document size; these helpers render, transform, flatten and serialize them.
+ */
+
+import { EditDocument, EditLayer, EditLayerBlendMode, EditTextContent } from '../types';
+
+export type GeometryOperation =
+  | { type: 'crop'; x: number; y: number; width: number; height: number }
+  | { type: 'rotate'; clockwise: boolean }
+  | { type: 'flip'; horizontal: boolean };
+
+export const EDIT_BLEND_MODES: Array<{ value: EditLayerBlendMode; label: string }> = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color Dodge' },
+  { value: 'color-burn', label: 'Color Burn' },
+  { value: 'difference', label: 'Difference' }
+];
+
+const TEXT_LINE_HEIGHT = 1.2;
+
+export function createLayerCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export function loadImageElement(dataUri: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUri;
+  });
+}
+
+/**
+ * Canvas composite operation for a layer blend mode (the CSS mix-blend-mode names match)
+ */
+export function toCompositeOperation(blendMode: EditLayerBlendMode): GlobalCompositeOperation {
+  return blendMode === 'normal' ? 'source-over' : blendMode;
+}
+
+export function textFont(text: Pick<EditTextContent, 'bold' | 'fontSize' | 'fontFamily'>): string {
+  return `${text.bold ? 'bold ' : ''}${text.fontSize}px ${text.fontFamily}`;
+}
+
+/**
+ * Draw a text layer's content onto its (cleared) canvas
+ */
+export function renderTextLayer(canvas: HTMLCanvasElement, text: EditTextContent): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.save();
+  const [a, b, c, d] = text.matrix;
+  ctx.setTransform(a, b, c, d, text.x, text.y);
+  ctx.font = textFont(text);
+  ctx.fillStyle = text.color;
+  ctx.textBaseline = 'top';
+  text.content.split('\n').forEach((line, index) => {
+    ctx.fillText(line, 0, index * text.fontSize * TEXT_LINE_HEIGHT);
+  });
+  ctx.restore();
+}
+
+/**
+ * Document size after a geometry operation
+ */
+export function transformedSize(width: number, height: number, op: GeometryOperation): { width: number; height: number } {
+  if (op.type === 'crop') return { width: op.width, height: op.height };
+  if (op.type === 'rotate') return { width: height, height: width };
+  return { width, height };
+}
+
+/**
+ * Apply a geometry operation to a canvas in place (it is resized as needed)
+ */
+export function transformCanvas(canvas: HTMLCanvasElement, op: GeometryOperation): void {
+  const source = createLayerCanvas(canvas.width, canvas.height);
+  source.getContext('2d')?.drawImage(canvas, 0, 0);
+
+  const size = transformedSize(canvas.width, canvas.height, op);
+  // Resizing also clears the canvas and resets its context state
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  if (op.type === 'crop') {
+    ctx.drawImage(source, -op.x, -op.y);
+  } else if (op.type === 'rotate') {
+    ctx.translate(size.width / 2, size.height / 2);
+    ctx.rotate(op.clockwise ? Math.PI / 2 : -Math.PI / 2);
+    ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  } else {
+    ctx.translate(op.horizontal ? size.width : 0, op.horizontal ? 0 : size.height);
+    ctx.scale(op.horizontal ? -1 : 1, op.horizontal ? 1 : -1);
+    ctx.drawImage(source, 0, 0);
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+/**
+ * Apply a geometry operation to a text layer's anchor and orientation,
+ * so the text stays editable instead of being rasterized
+ *
+ * @param width - Document width before the operation
+ * @param height - Document height before the operation
+ */
+export function transformText(text: EditTextContent, op: GeometryOperation, width: number, height: number): EditTextContent {
+  const [a, b, c, d] = text.matrix;
+  const { x, y } = text;
+
+  switch (op.type) {
+    case 'crop':
+      return { ...text, x: x - op.x, y: y - op.y };
+    case 'rotate':
+      // Each matrix column (a, b) / (c, d) is rotated like a point
+      return op.clockwise
+        ? { ...text, x: height - y, y: x, matrix: [-b, a, -d, c] }
+        : { ...text, x: y, y: width - x, matrix: [b, -a, d, -c] };
+    case 'flip':
+      return op.horizontal
+        ? { ...text, x: width - x, matrix: [-a, b, -c, d] }
+        : { ...text, y: height - y, matrix: [a, -b, c, -d] };
+  }
+}
+
+/**
+ * Merge the visible layers (bottom first) into one PNG
+ */
+export function flattenLayers(
+  width: number,
+  height: number,
+  layers: Array<{ layer: Pick<EditLayer, 'visible' | 'opacity' | 'blendMode'>; canvas: HTMLCanvasElement }>
+): string {
+  const output = createLayerCanvas(width, height);
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas 2D context');
+
+  layers.forEach(({ layer, canvas }) => {
+    if (!layer.visible) return;
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+    ctx.drawImage(canvas, 0, 0);
+  });
+  return output.toDataURL('image/png');
+}
+
+/**
+ * Build the document to store: pixels of image and paint layers as PNGs,
+ * text layers as their text only
+ */
+export function serializeDocument(
+  width: number,
+  height: number,
+  layers: Array<{ layer: Omit<EditLayer, 'dataUri'>; canvas: HTMLCanvasElement }>
+): EditDocument {
+  return {
+    version: 1,
+    width,
+    height,
+    layers: layers.map(({ layer, canvas }) => (
+      layer.kind === 'text' ? { ...layer } : { ...layer, dataUri: canvas.toDataURL('image/png') }
+    )),
+    updated_at: new Date().toISOString()
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const isTextContent = (value: unknown): value is EditTextContent => {
+  return isRecord(value) &&
+    typeof value.content === 'string' &&
+    isFiniteNumber(value.x) &&
+    isFiniteNumber(value.y) &&
+    isFiniteNumber(value.fontSize) && value.fontSize > 0 &&
+    typeof value.fontFamily === 'string' &&
+    typeof value.color === 'string' &&
+    typeof value.bold === 'boolean' &&
+    Array.isArray(value.matrix) && value.matrix.length === 4 && value.matrix.every(isFiniteNumber);
+};
+
+const isLayer = (value: unknown): value is EditLayer => {
+  if (!isRecord(value)) return false;
+  if (
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    typeof value.visible !== 'boolean' ||
+    !isFiniteNumber(value.opacity) || value.opacity < 0 || value.opacity > 1 ||
+    !EDIT_BLEND_MODES.some(mode => mode.value === value.blendMode)
+  ) {
+    return false;
+  }
+  if (value.kind === 'text') return isTextContent(value.text);
+  return (value.kind === 'image' || value.kind === 'paint') &&
+    typeof value.dataUri === 'string' && value.dataUri.startsWith('data:image/');
+};
+
+/**
+ * Check a stored document before the editor opens it
+ *
+ * @returns The document, or null if any field is missing or malformed (the
+ * editor then starts from the flat image)
+ */
+export function parseEditDocument(data: unknown): EditDocument | null {
+  if (!isRecord(data) || data.version !== 1) return null;
+
+  const { width, height, layers, updated_at } = data;
+  if (
+    !isFiniteNumber(width) || !Number.isInteger(width) || width <= 0 ||
+    !isFiniteNumber(height) || !Number.isInteger(height) || height <= 0 ||
+    !Array.isArray(layers) || layers.length === 0 ||
+    !layers.every(isLayer)
+  ) {
+    return null;
+  }
+  if (new Set(layers.map(layer => layer.id)).size !== layers.length) return null;
+
+  return {
+    version: 1,
+    width,
+    height,
+    layers,
+    updated_at: typeof updated_at === 'string' ? updated_at : ''
+  };
+}
+
+/**
+ * Canvases for the layers of a stored document, keyed by layer id
+ */
+export async function loadDocumentCanvases(doc: EditDocument): Promise<Map<string, HTMLCanvasElement>> {
+  const canvases = new Map<string, HTMLCanvasElement>();
+  for (const layer of doc.layers) {
+    const canvas = createLayerCanvas(doc.width, doc.height);
+    if (layer.kind === 'text' && layer.text) {
+      renderTextLayer(canvas, layer.text);
+    } else if (layer.dataUri) {
+      canvas.getContext('2d')?.drawImage(await loadImageElement(layer.dataUri), 0, 0);
+    }
+    canvases.set(layer.id, canvas);
+  }
+  return canvases;
+}
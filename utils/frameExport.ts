@@ -0,0 +1,249 @@
+/**
+ * Frame export utilities
+ * Flatten a canvas frame and its contents into a bitmap, and compose
+ * frames into a multi-page PDF entirely in the renderer (no PDF library)
+ */
+
+import { CanvasImage } from '../types';
+
+// PDF points per canvas unit (canvas units are CSS px at 96 dpi)
+const POINTS_PER_PX = 72 / 96;
+
+/**
+ * Load an image element from a data URI
+ */
+function loadImageElement(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for frame export'));
+    img.src = src;
+  });
+}
+
+/**
+ * Draw an image covering the target rectangle (matches object-fit: cover on the canvas)
+ */
+function drawCover(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const scale = Math.max(width / img.width, height / img.height);
+  const sourceWidth = width / scale;
+  const sourceHeight = height / scale;
+  ctx.drawImage(
+    img,
+    (img.width - sourceWidth) / 2,
+    (img.height - sourceHeight) / 2,
+    sourceWidth,
+    sourceHeight,
+    x,
+    y,
+    width,
+    height
+  );
+}
+
+/**
+ * Draw a text entity the way the canvas shows it (white box, 12px padding, 1.5 line height)
+ */
+function drawText(ctx: CanvasRenderingContext2D, entity: CanvasImage): void {
+  const fontSize = entity.fontSize || 16;
+  const padding = 12;
+  const lineHeight = fontSize * 1.5;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(entity.x, entity.y, entity.width, entity.height);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(entity.x, entity.y, entity.width, entity.height);
+  ctx.clip();
+  ctx.fillStyle = '#18181b';
+  ctx.textBaseline = 'top';
+  ctx.font = `${entity.fontStyle || 'normal'} ${entity.fontWeight || 'normal'} ${fontSize}px ${entity.fontFamily || 'Inter, system-ui, sans-serif'}`;
+
+  // Greedy word wrap within the padded box
+  const maxWidth = entity.width - padding * 2;
+  const lines: string[] = [];
+  (entity.text || '').split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+
+  lines.forEach((line, index) => {
+    ctx.fillText(line, entity.x + padding, entity.y + padding + index * lineHeight + (lineHeight - fontSize) / 2);
+  });
+  ctx.restore();
+}
+
+/**
+ * Render a frame and the entities it owns into a canvas element
+ *
+ * @param frame - The frame entity
+ * @param contents - Entities owned by the frame, in stacking order
+ * @param resolveImage - Returns the full-resolution data URI of an image entity
+ * @param scale - Output pixels per canvas unit (default 2 for print-quality output)
+ */
+export async function renderFrame(
+  frame: CanvasImage,
+  contents: CanvasImage[],
+  resolveImage: (image: CanvasImage) => Promise<string | null>,
+  scale: number = 2
+): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(frame.width * scale);
+  canvas.height = Math.round(frame.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas 2D context');
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-frame.x, -frame.y);
+
+  ctx.beginPath();
+  ctx.rect(frame.x, frame.y, frame.width, frame.height);
+  ctx.clip();
+
+  ctx.fillStyle = frame.backgroundColor || '#ffffff';
+  ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+
+  for (const entity of contents) {
+    if (entity.hidden) continue;
+
+    if (entity.type === 'text') {
+      drawText(ctx, entity);
+    } else if (entity.type === 'board') {
+      ctx.fillStyle = entity.backgroundColor || '#ffffff';
+      ctx.fillRect(entity.x, entity.y, entity.width, entity.height);
+    } else if (entity.type !== 'frame') {
+      const src = (await resolveImage(entity)) || entity.thumbnailUri;
+      if (!src) {
+        console.warn('[FrameExport] Skipping image without data:', entity.id);
+        continue;
+      }
+      drawCover(ctx, await loadImageElement(src), entity.x, entity.y, entity.width, entity.height);
+    }
+  }
+
+  return canvas;
+}
+
+/**
+ * Decode a base64 data URI into bytes
+ */
+function dataUriToBytes(dataUri: string): Uint8Array {
+  const binary = atob(dataUri.split(',')[1] || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Compose rendered frames into a PDF, one page per frame
+ *
+ * Each page holds its frame as a single JPEG image (DCTDecode), sized to the
+ * frame's dimensions at 96 dpi so an A4 frame becomes an A4 page.
+ *
+ * @param pages - Rendered frames and the frame size in canvas units
+ * @param quality - JPEG quality from 0 to 1 (default 0.92)
+ * @returns PDF file as a Blob
+ */
+export function buildFramesPdf(
+  pages: Array<{ canvas: HTMLCanvasElement; width: number; height: number }>,
+  quality: number = 0.92
+): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  // Objects: 1 catalog, 2 page tree, then 3 per page (page, content stream, image)
+  const pageId = (index: number) => 3 + index * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  write(`<< /Type /Pages /Kids [${pages.map((_, index) => `${pageId(index)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const pageWidth = (page.width * POINTS_PER_PX).toFixed(2);
+    const pageHeight = (page.height * POINTS_PER_PX).toFixed(2);
+    const jpeg = dataUriToBytes(page.canvas.toDataURL('image/jpeg', quality));
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q\n`;
+
+    beginObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`
+    );
+
+    beginObject(id + 1);
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`);
+
+    beginObject(id + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.canvas.width} /Height ${page.canvas.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`
+    );
+    write(jpeg);
+    write('\nendstream\nendobj\n');
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+}
+
+/**
+ * Trigger a browser download for a Blob or data URI
+ */
+export function downloadFile(data: Blob | string, filename: string): void {
+  const url = typeof data === 'string' ? data : URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  if (typeof data !== 'string') {
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Image adjustments and filters (CPU, on canvas ImageData)
+ *
+ * Order of operations: exposure and white balance gains, contrast, saturation,
+ * grayscale, tone curve, then blur and sharpen. Per-channel steps are folded
+ * into lookup tables, so a full pass stays fast enough for live previews.
+ */
+
+export interface ImageAdjustments {
+  exposure: number;     // Stops, -2..2
+  contrast: number;     // -100..100
+  saturation: number;   // -100..100
+  temperature: number;  // -100 (cool) .. 100 (warm)
+  tint: number;         // -100 (green) .. 100 (magenta)
+  shadows: number;      // Tone curve at 25% / 50% / 75% input, -100..100
+  midtones: number;
+  highlights: number;
+  sharpen: number;      // 0..100
+  blur: number;         // Radius in px, 0..20
+  grayscale: boolean;
+}
+
+export interface AdjustmentPreset {
+  id: string;
+  name: string;
+  adjustments: ImageAdjustments;
+  builtIn?: boolean;
+}
+
+type NumericAdjustment = Exclude<keyof ImageAdjustments, 'grayscale'>;
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  saturation: 0,
+  temperature: 0,
+  tint: 0,
+  shadows: 0,
+  midtones: 0,
+  highlights: 0,
+  sharpen: 0,
+  blur: 0,
+  grayscale: false
+};
+
+// Slider definitions for the adjustments panel, grouped as shown
+export const ADJUSTMENT_CONTROLS: Array<{ group: string; key: NumericAdjustment; label: string; min: number; max: number; step: number }> = [
+  { group: 'Light', key: 'exposure', label: 'Exposure', min: -2, max: 2, step: 0.05 },
+  { group: 'Light', key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { group: 'Color', key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1 },
+  { group: 'Color', key: 'temperature', label: 'Temperature', min: -100, max: 100, step: 1 },
+  { group: 'Color', key: 'tint', label: 'Tint', min: -100, max: 100, step: 1 },
+  { group: 'Curves', key: 'shadows', label: 'Shadows', min: -100, max: 100, step: 1 },
+  { group: 'Curves', key: 'midtones', label: 'Midtones', min: -100, max: 100, step: 1 },
+  { group: 'Curves', key: 'highlights', label: 'Highlights', min: -100, max: 100, step: 1 },
+  { group: 'Detail', key: 'sharpen', label: 'Sharpen', min: 0, max: 100, step: 1 },
+  { group: 'Detail', key: 'blur', label: 'Blur', min: 0, max: 20, step: 1 }
+];
+
+export const BUILT_IN_ADJUSTMENT_PRESETS: AdjustmentPreset[] = [
+  { id: 'builtin-vivid', name: 'Vivid', builtIn: true, adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: 15, saturation: 30, sharpen: 20 } },
+  { id: 'builtin-warm', name: 'Warm', builtIn: true, adjustments: { ...DEFAULT_ADJUSTMENTS, exposure: 0.1, temperature: 35, tint: 5 } },
+  { id: 'builtin-cool', name: 'Cool', builtIn: true, adjustments: { ...DEFAULT_ADJUSTMENTS, temperature: -35 } },
+  { id: 'builtin-mono', name: 'Black & White', builtIn: true, adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: 20, grayscale: true } },
+  { id: 'builtin-faded', name: 'Faded', builtIn: true, adjustments: { ...DEFAULT_ADJUSTMENTS, contrast: -20, saturation: -25, shadows: 30 } },
+  { id: 'builtin-soft', name: 'Soft Focus', builtIn: true, adjustments: { ...DEFAULT_ADJUSTMENTS, exposure: 0.15, highlights: 15, blur: 2 } }
+];
+
+// Largest curve shift (in levels) at ±100
+const CURVE_RANGE = 64;
+// Channel gain change at ±100 temperature or tint
+const WHITE_BALANCE_RANGE = 0.25;
+
+export function isDefaultAdjustments(adjustments: ImageAdjustments): boolean {
+  return (Object.keys(DEFAULT_ADJUSTMENTS) as Array<keyof ImageAdjustments>)
+    .every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+}
+
+/**
+ * Fill in settings missing from older or hand-edited presets
+ */
+export function normalizeAdjustments(adjustments: Partial<ImageAdjustments> | undefined): ImageAdjustments {
+  return { ...DEFAULT_ADJUSTMENTS, ...(adjustments || {}) };
+}
+
+const clampByte = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+/**
+ * 256-entry tone curve through fixed points at 0/25/50/75/100% input
+ * (monotone cubic interpolation, so the curve never overshoots)
+ */
+function buildCurve(shadows: number, midtones: number, highlights: number): Uint8ClampedArray {
+  const xs = [0, 64, 128, 192, 255];
+  const ys = [
+    0,
+    clampByte(64 + (shadows / 100) * CURVE_RANGE),
+    clampByte(128 + (midtones / 100) * CURVE_RANGE),
+    clampByte(192 + (highlights / 100) * CURVE_RANGE),
+    255
+  ];
+  // Keep the curve non-decreasing
+  for (let i = 1; i < ys.length; i++) ys[i] = Math.max(ys[i], ys[i - 1]);
+
+  const n = xs.length;
+  const slopes = xs.slice(0, -1).map((x, i) => (ys[i + 1] - ys[i]) / (xs[i + 1] - x));
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  // Fritsch-Carlson limiter
+  slopes.forEach((slope, i) => {
+    if (slope === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      return;
+    }
+    const a = tangents[i] / slope;
+    const b = tangents[i + 1] / slope;
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slope;
+      tangents[i + 1] = t * b * slope;
+    }
+  });
+
+  const curve = new Uint8ClampedArray(256);
+  let segment = 0;
+  for (let x = 0; x < 256; x++) {
+    while (segment < n - 2 && x > xs[segment + 1]) segment++;
+    const width = xs[segment + 1] - xs[segment];
+    const t = (x - xs[segment]) / width;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    curve[x] = Math.round(
+      (2 * t3 - 3 * t2 + 1) * ys[segment] +
+      (t3 - 2 * t2 + t) * width * tangents[segment] +
+      (-2 * t3 + 3 * t2) * ys[segment + 1] +
+      (t3 - t2) * width * tangents[segment + 1]
+    );
+  }
+  return curve;
+}
+
+/**
+ * Per-channel lookup for the gain and contrast steps
+ */
+function buildChannelTable(gain: number, contrastFactor: number): Float32Array {
+  const table = new Float32Array(256);
+  for (let v = 0; v < 256; v++) {
+    table[v] = clampByte(contrastFactor * (clampByte(v * gain) - 128) + 128);
+  }
+  return table;
+}
+
+const clampIndex = (index: number, length: number) => (index < 0 ? 0 : index >= length ? length - 1 : index);
+
+/**
+ * One box blur pass along rows (horizontal) or columns, edges clamped
+ */
+function boxBlurPass(src: Uint8ClampedArray, dst: Uint8ClampedArray, width: number, height: number, radius: number, horizontal: boolean) {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 4 : width * 4;
+  const size = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line++) {
+    const start = horizontal ? line * width * 4 : line * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      const offset = start + channel;
+      let sum = 0;
+      for (let i = -radius; i <= radius; i++) sum += src[offset + clampIndex(i, length) * step];
+      for (let i = 0; i < length; i++) {
+        dst[offset + i * step] = sum / size;
+        sum += src[offset + clampIndex(i + radius + 1, length) * step] - src[offset + clampIndex(i - radius, length) * step];
+      }
+    }
+  }
+}
+
+/**
+ * Approximate Gaussian blur (two box blurs in each direction)
+ */
+function blurPixels(data: Uint8ClampedArray, width: number, height: number, radius: number) {
+  const buffer = new Uint8ClampedArray(data.length);
+  const output = new Uint8ClampedArray(data);
+  for (let pass = 0; pass < 2; pass++) {
+    boxBlurPass(output, buffer, width, height, radius, true);
+    boxBlurPass(buffer, output, width, height, radius, false);
+  }
+  return output;
+}
+
+/**
+ * Apply adjustments to pixels
+ *
+ * @param source - Pixels to adjust (left unchanged)
+ * @param adjustments - Settings; defaults leave the pixels as they are
+ * @returns New ImageData with the same size
+ */
+export function applyAdjustments(source: ImageData, adjustments: ImageAdjustments): ImageData {
+  const { width, height } = source;
+  const data = new Uint8ClampedArray(source.data);
+
+  const exposureGain = Math.pow(2, adjustments.exposure);
+  const temperature = (adjustments.temperature / 100) * WHITE_BALANCE_RANGE;
+  const tint = (adjustments.tint / 100) * WHITE_BALANCE_RANGE;
+  const contrast = adjustments.contrast * 2.55;
+  const contrastFactor = (259 * (contrast + 255)) / (255 * (259 - contrast));
+  const red = buildChannelTable(exposureGain * (1 + temperature), contrastFactor);
+  const green = buildChannelTable(exposureGain * (1 - tint), contrastFactor);
+  const blue = buildChannelTable(exposureGain * (1 - temperature), contrastFactor);
+  const saturation = adjustments.grayscale ? 0 : 1 + adjustments.saturation / 100;
+  const curve = buildCurve(adjustments.shadows, adjustments.midtones, adjustments.highlights);
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = red[data[i]];
+    let g = green[data[i + 1]];
+    let b = blue[data[i + 2]];
+    if (saturation !== 1) {
+      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = luminance + (r - luminance) * saturation;
+      g = luminance + (g - luminance) * saturation;
+      b = luminance + (b - luminance) * saturation;
+    }
+    data[i] = curve[clampByte(Math.round(r))];
+    data[i + 1] = curve[clampByte(Math.round(g))];
+    data[i + 2] = curve[clampByte(Math.round(b))];
+  }
+
+  let output = data;
+  if (adjustments.blur > 0) {
+    output = blurPixels(output, width, height, Math.round(adjustments.blur));
+  }
+  if (adjustments.sharpen > 0) {
+    // Unsharp mask: push each pixel away from its blurred neighbourhood
+    const blurred = blurPixels(output, width, height, 1);
+    const amount = (adjustments.sharpen / 100) * 1.5;
+    for (let i = 0; i < output.length; i += 4) {
+      output[i] = output[i] + (output[i] - blurred[i]) * amount;
+      output[i + 1] = output[i + 1] + (output[i + 1] - blurred[i + 1]) * amount;
+      output[i + 2] = output[i + 2] + (output[i + 2] - blurred[i + 2]) * amount;
+    }
+  }
+
+  return new ImageData(output, width, height);
+}
+
+/**
+ * Apply adjustments to an image data URI
+ *
+ * @returns PNG data URI with the original dimensions
+ */
+export function adjustImage(dataUri: string, adjustments: ImageAdjustments): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Could not get canvas 2D context'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      ctx.putImageData(applyAdjustments(ctx.getImageData(0, 0, canvas.width, canvas.height), adjustments), 0, 0);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    img.onerror = () => reject(new Error('Failed to load image for adjustment'));
+    img.src = dataUri;
+  });
+}
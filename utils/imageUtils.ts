@@ -148,17 +148,17 @@ export function estimateDataUriSize(dataUri: string): number {
  * @param thumbnailUri - Thumbnail data URI
  * @returns Object with thumbnailUri and thumbnailPath (Electron only)
  */
-export function saveThumbnail(
+export async function saveThumbnail(
   sessionId: string,
   imageId: string,
   thumbnailUri: string
-): { thumbnailUri: string; thumbnailPath?: string } {
+): Promise<{ thumbnailUri: string; thumbnailPath?: string }> {
   // Check if running in Electron
   const isElectron = typeof window !== 'undefined' && (window as any).electron;
 
-  if (isElectron && (window as any).electron.saveThumbnailSync) {
+  if (isElectron && (window as any).electron.saveThumbnail) {
     try {
-      const result = (window as any).electron.saveThumbnailSync(sessionId, imageId, thumbnailUri);
+      const result = await (window as any).electron.saveThumbnail(sessionId, imageId, thumbnailUri);
       if (result.success) {
         console.log(`[Thumbnail] Saved to disk: ${result.path}`);
         // Return both URI (for immediate use) and path (for session storage)
@@ -187,15 +187,15 @@ export function saveThumbnail(
  * @param thumbnailPath - Path to thumbnail file (Electron only)
  * @returns Thumbnail data URI or null
  */
-export function loadThumbnail(thumbnailPath?: string): string | null {
+export async function loadThumbnail(thumbnailPath?: string): Promise<string | null> {
   if (!thumbnailPath) return null;
 
   // Check if running in Electron
   const isElectron = typeof window !== 'undefined' && (window as any).electron;
 
-  if (isElectron && (window as any).electron.loadThumbnailSync) {
+  if (isElectron && (window as any).electron.loadThumbnail) {
     try {
-      const thumbnailUri = (window as any).electron.loadThumbnailSync(thumbnailPath);
+      const thumbnailUri = await (window as any).electron.loadThumbnail(thumbnailPath);
       if (thumbnailUri) {
         console.log(`[Thumbnail] Loaded from disk: ${thumbnailPath}`);
         return thumbnailUri;
@@ -207,3 +207,60 @@ export function loadThumbnail(thumbnailPath?: string): string | null {
 
   return null;
 }
+
+/**
+ * Detect the image MIME type from the file header (magic bytes)
+ *
+ * @param data - Image data URI or raw base64 string
+ * @returns MIME type (e.g., "image/jpeg") or null if the format is not recognised
+ *
+ * @example
+ * const mimeType = detectImageMimeType(uploadedDataUri) || 'image/png';
+ */
+export function detectImageMimeType(data: string): string | null {
+  // Only the first few bytes are needed; 16 base64 chars decode to 12 bytes
+  const base64 = (data.split(',')[1] ?? data).trim().slice(0, 16);
+
+  let header: string;
+  try {
+    header = atob(base64);
+  } catch {
+    return null;
+  }
+
+  const bytes = Array.from(header, char => char.charCodeAt(0));
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, i) => bytes[offset + i] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith([0x42, 0x4d])) return 'image/bmp';
+
+  return null;
+}
+
+/**
+ * Get the file extension (without dot) for an image MIME type
+ *
+ * @param mimeType - Image MIME type
+ * @returns File extension, defaults to "png"
+ *
+ * @example
+ * const filename = `output_${id}.${getImageExtension('image/jpeg')}`; // output_<id>.jpg
+ */
+export function getImageExtension(mimeType: string): string {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/webp':
+      return 'webp';
+    case 'image/gif':
+      return 'gif';
+    case 'image/bmp':
+      return 'bmp';
+    default:
+      return 'png';
+  }
+}
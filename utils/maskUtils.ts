@@ -0,0 +1,112 @@
+/**
+ * Mask utilities for inpainting
+ * Masks are opaque black/white PNGs the size of the source image:
+ * white marks the region to regenerate, black the pixels to keep.
+ */
+
+// Soft edge (px) where the generated region blends into the source
+export const MASK_FEATHER_PX = 4;
+
+function loadImageElement(dataUri: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = dataUri;
+  });
+}
+
+/**
+ * Export a painted mask layer as a black/white mask
+ *
+ * @param canvas - Canvas whose painted (non-transparent) pixels form the mask
+ * @returns Mask PNG data URI, or null if nothing is painted
+ */
+export function canvasToMask(canvas: HTMLCanvasElement): string | null {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  let painted = false;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = data[i + 3] > 0 ? 255 : 0;
+    painted = painted || value > 0;
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  if (!painted) return null;
+
+  const mask = document.createElement('canvas');
+  mask.width = canvas.width;
+  mask.height = canvas.height;
+  const maskCtx = mask.getContext('2d');
+  if (!maskCtx) return null;
+  maskCtx.putImageData(imageData, 0, 0);
+  return mask.toDataURL('image/png');
+}
+
+/**
+ * Composite a generated image onto the source, inside the mask only
+ *
+ * The generated image is scaled to the source size first (models may return
+ * a different resolution or aspect ratio).
+ *
+ * @param sourceUri - Original image data URI
+ * @param generatedUri - Model output data URI
+ * @param maskUri - Black/white mask data URI (white = take the generated pixels)
+ * @param featherPx - Blur radius applied to the mask edge
+ * @returns PNG data URI with the source dimensions
+ */
+export async function compositeMasked(
+  sourceUri: string,
+  generatedUri: string,
+  maskUri: string,
+  featherPx: number = MASK_FEATHER_PX
+): Promise<string> {
+  const [source, generated, mask] = await Promise.all([
+    loadImageElement(sourceUri),
+    loadImageElement(generatedUri),
+    loadImageElement(maskUri)
+  ]);
+  const width = source.naturalWidth;
+  const height = source.naturalHeight;
+
+  // Mask luminance -> alpha
+  const alphaCanvas = document.createElement('canvas');
+  alphaCanvas.width = width;
+  alphaCanvas.height = height;
+  const alphaCtx = alphaCanvas.getContext('2d', { willReadFrequently: true });
+  if (!alphaCtx) throw new Error('Could not get canvas 2D context');
+  alphaCtx.drawImage(mask, 0, 0, width, height);
+  const maskData = alphaCtx.getImageData(0, 0, width, height);
+  for (let i = 0; i < maskData.data.length; i += 4) {
+    maskData.data[i + 3] = maskData.data[i];
+  }
+  alphaCtx.putImageData(maskData, 0, 0);
+
+  // Generated pixels, cut out by the (feathered) mask
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext('2d');
+  if (!patchCtx) throw new Error('Could not get canvas 2D context');
+  patchCtx.imageSmoothingEnabled = true;
+  patchCtx.imageSmoothingQuality = 'high';
+  patchCtx.drawImage(generated, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  if (featherPx > 0) patchCtx.filter = `blur(${featherPx}px)`;
+  patchCtx.drawImage(alphaCanvas, 0, 0);
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outputCtx = output.getContext('2d');
+  if (!outputCtx) throw new Error('Could not get canvas 2D context');
+  outputCtx.drawImage(source, 0, 0);
+  outputCtx.drawImage(patch, 0, 0);
+  return output.toDataURL('image/png');
+}